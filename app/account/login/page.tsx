@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Mail } from "lucide-react";
+import { Button } from "../../../components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card";
+import { Input } from "../../../components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "../../../components/ui/input-otp";
+import { Label } from "../../../components/ui/label";
+import { requestSignInCode, verifySignInCode } from "../../../lib/auth-client";
+
+const CODE_LENGTH = 6;
+
+// Only same-site paths are honored so the login page can't be used as an
+// open redirect.
+function safeNextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/account";
+}
+
+export default function ApplicantLogin() {
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const sendCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await requestSignInCode(email);
+      setCodeSent(true);
+      setCode("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send a code");
+    }
+    setIsLoading(false);
+  };
+
+  const verify = async (value: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await verifySignInCode(email, value);
+      window.location.href = safeNextPath();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed");
+      setCode("");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-12">
+      <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8">
+        <Card className="shadow-lg border-0 bg-white dark:bg-gray-800">
+          <CardHeader className="text-center">
+            <CardTitle className="text-xl text-gray-900 dark:text-white">Sign In</CardTitle>
+            <CardDescription className="text-gray-600 dark:text-gray-300">
+              {codeSent
+                ? `Enter the ${CODE_LENGTH}-digit code we sent to ${email}`
+                : "We'll email you a one-time code. No password needed."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {codeSent ? (
+              <div className="space-y-4">
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={CODE_LENGTH}
+                    value={code}
+                    onChange={setCode}
+                    onComplete={verify}
+                    disabled={isLoading}
+                    autoFocus
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+                {error && <p className="text-sm text-center text-red-600 dark:text-red-400">{error}</p>}
+                <div className="flex justify-between text-sm">
+                  <button
+                    type="button"
+                    className="text-gray-600 hover:text-blue-600 dark:text-gray-300"
+                    onClick={() => {
+                      setCodeSent(false);
+                      setError(null);
+                    }}
+                  >
+                    Use a different email
+                  </button>
+                  <button
+                    type="button"
+                    className="text-blue-600 hover:underline disabled:opacity-50"
+                    onClick={() => sendCode()}
+                    disabled={isLoading}
+                  >
+                    Resend code
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <form onSubmit={sendCode} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+                {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  <Mail className="w-4 h-4 mr-2" />
+                  {isLoading ? "Sending..." : "Email me a code"}
+                </Button>
+              </form>
+            )}
+            <p className="mt-6 text-center text-xs text-gray-500 dark:text-gray-400">
+              City staff?{" "}
+              <Link href="/login" className="text-blue-600 hover:underline">
+                Sign in here
+              </Link>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { ChevronRight, Dog, FileText, Plus } from "lucide-react";
+import LicenseDocuments from "../../components/LicenseDocuments";
+import StatusBadge from "../../components/StatusBadge";
+import { Button } from "../../components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../components/ui/card";
+import { useSession } from "../../hooks/use-session";
+import { dogNames, type DogLicenseApplication } from "../../lib/applications";
+import { fetchMyApplications, uploadLocalApplications } from "../../lib/application-api";
+import { isRenewalOpen } from "../../lib/renewals";
+import { formatDate, formatDateTime } from "../../lib/utils";
+
+function trackHref(application: DogLicenseApplication) {
+  return `/track-application?id=${encodeURIComponent(application.id)}`;
+}
+
+function renewHref(tagNumber: string) {
+  return `/renew?tag=${encodeURIComponent(tagNumber)}`;
+}
+
+export default function MyAccount() {
+  const { user } = useSession();
+  const [applications, setApplications] = useState<DogLicenseApplication[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    uploadLocalApplications()
+      .catch((error) => console.error("Error uploading saved applications:", error))
+      .then(() => fetchMyApplications())
+      .then(setApplications)
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load applications"))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // One entry per licensed dog. A license that has been renewed is superseded
+  // by its renewal.
+  const issued = applications.filter((app) => app.status === "license_issued");
+  const renewed = new Set(issued.map((app) => app.renewalOf?.tagNumber));
+  const licensed = issued.flatMap((app) =>
+    app.dogs.flatMap((entry) =>
+      entry.license && !renewed.has(entry.license.tagNumber) ? [{ app, entry, license: entry.license }] : [],
+    ),
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-12">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">My Account</h1>
+            <p className="text-gray-600 dark:text-gray-300">{user?.email}</p>
+          </div>
+          <Button asChild>
+            <Link href="/new-application">
+              <Plus className="w-4 h-4 mr-2" />
+              New Application
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="shadow-lg border-0 bg-white dark:bg-gray-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-white">
+              <Dog className="w-5 h-5" />
+              Licensed Dogs
+            </CardTitle>
+            <CardDescription className="text-gray-600 dark:text-gray-300">
+              Dogs with a current license issued to you
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : licensed.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No licensed dogs yet.</p>
+            ) : (
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {licensed.map(({ app, entry, license }) => (
+                  <li key={license.tagNumber} className="rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+                    <p className="font-medium text-gray-900 dark:text-white">{entry.dog.name || "Unnamed dog"}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-300">
+                      {[entry.dog.breed, entry.dog.color].filter(Boolean).join(" · ")}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-300">
+                      Tag <span className="font-mono">{license.tagNumber}</span> · Expires{" "}
+                      {formatDate(license.expiresOn)}
+                    </p>
+                    <div className="flex gap-4">
+                      <Link href={trackHref(app)} className="text-sm text-blue-600 hover:underline">
+                        View license
+                      </Link>
+                      {isRenewalOpen(license) && (
+                        <Link href={renewHref(license.tagNumber)} className="text-sm text-blue-600 hover:underline">
+                          Renew
+                        </Link>
+                      )}
+                    </div>
+                    <div className="mt-3">
+                      <LicenseDocuments application={app} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg border-0 bg-white dark:bg-gray-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-gray-900 dark:text-white">
+              <FileText className="w-5 h-5" />
+              Applications
+            </CardTitle>
+            <CardDescription className="text-gray-600 dark:text-gray-300">
+              Every application submitted with your email address
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : applications.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                You haven&apos;t submitted any applications with this email address.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {applications.map((app) => (
+                  <li key={app.id}>
+                    <Link
+                      href={trackHref(app)}
+                      className="flex items-center justify-between gap-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-md px-2"
+                    >
+                      <div>
+                        <p className="font-medium text-gray-900 dark:text-white">{dogNames(app) || "Unnamed dog"}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          <span className="font-mono">{app.id}</span> · Submitted {formatDateTime(app.submittedAt)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <StatusBadge status={app.status} />
+                        <ChevronRight className="w-4 h-4 text-gray-400" />
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
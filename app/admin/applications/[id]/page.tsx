@@ -0,0 +1,522 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { toast } from "sonner";
+import { ArrowLeft, BadgeCheck, Dog, FileText, ShieldAlert, Syringe, User } from "lucide-react";
+import CertificateFieldsSummary from "../../../../components/CertificateFieldsSummary";
+import DocumentViewer from "../../../../components/DocumentViewer";
+import FeeSummary from "../../../../components/FeeSummary";
+import LicenseDocuments from "../../../../components/LicenseDocuments";
+import StatusBadge from "../../../../components/StatusBadge";
+import StatusTimeline from "../../../../components/StatusTimeline";
+import { Alert, AlertDescription, AlertTitle } from "../../../../components/ui/alert";
+import { Button } from "../../../../components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../../../../components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import { Label } from "../../../../components/ui/label";
+import { Textarea } from "../../../../components/ui/textarea";
+import { useSession } from "../../../../hooks/use-session";
+import {
+  APPLICATION_STATUS_LABELS,
+  applicationLicenses,
+  dogNames,
+  rabiesShot,
+  type ApplicationStatus,
+  type DogLicenseApplication,
+} from "../../../../lib/applications";
+import { nextStatuses, REASON_REQUIRED } from "../../../../lib/application-lifecycle";
+import {
+  changeApplicationStatus,
+  documentUrl,
+  fetchApplication,
+  issueApplicationLicense,
+} from "../../../../lib/application-api";
+import { describeCoat } from "../../../../lib/dog-colors";
+import { describeAge, describeWeight, DOG_SEX_LABELS } from "../../../../lib/dog-profile";
+import { describeMicrochip } from "../../../../lib/microchips";
+import { describeRabiesShot, rabiesAcceptedThrough } from "../../../../lib/rabies-vaccination";
+import { RESIDENCY_BASIS_LABELS } from "../../../../lib/residency";
+import { formatDate, formatDateTime } from "../../../../lib/utils";
+
+// Review decisions a clerk can make from this screen, in display order.
+const REVIEW_ACTIONS: {
+  status: ApplicationStatus;
+  label: string;
+  variant: "default" | "outline" | "destructive";
+}[] = [
+  { status: "under_review", label: "Start Review", variant: "outline" },
+  { status: "approved", label: "Approve", variant: "default" },
+  { status: "needs_info", label: "Request Information", variant: "outline" },
+  { status: "rejected", label: "Reject", variant: "destructive" },
+];
+
+function DetailRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">{label}</dt>
+      <dd className="text-sm text-gray-900 dark:text-white">{value || "—"}</dd>
+    </div>
+  );
+}
+
+export default function ApplicationDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [application, setApplication] = useState<DogLicenseApplication | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingStatus, setPendingStatus] = useState<ApplicationStatus | null>(null);
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { can } = useSession();
+
+  useEffect(() => {
+    fetchApplication(decodeURIComponent(id))
+      .then(setApplication)
+      .catch((error) => {
+        console.error("Error loading application:", error);
+        toast.error("Failed to load application");
+      })
+      .finally(() => setIsLoading(false));
+  }, [id]);
+
+  const applyStatus = async (status: ApplicationStatus, note?: string) => {
+    if (!application) return;
+    setIsSaving(true);
+    try {
+      const updated = await changeApplicationStatus(application.id, status, note);
+      setApplication(updated);
+      setPendingStatus(null);
+      setReason("");
+      toast.success("Application updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update application");
+    }
+    setIsSaving(false);
+  };
+
+  const issueLicense = async () => {
+    if (!application) return;
+    setIsSaving(true);
+    try {
+      const updated = await issueApplicationLicense(application.id);
+      setApplication(updated);
+      const tags = applicationLicenses(updated).map((license) => license.tagNumber);
+      toast.success(`${tags.length === 1 ? "License" : "Licenses"} ${tags.join(", ")} issued`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to issue license");
+    }
+    setIsSaving(false);
+  };
+
+  const startAction = (status: ApplicationStatus) => {
+    if (REASON_REQUIRED.includes(status)) {
+      setPendingStatus(status);
+    } else {
+      applyStatus(status);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="p-6 text-gray-600 dark:text-gray-300">Loading application...</div>;
+  }
+
+  if (!application) {
+    return (
+      <div className="p-6 space-y-4">
+        <p className="text-gray-600 dark:text-gray-300">Application not found.</p>
+        <Button asChild variant="outline">
+          <Link href="/admin/applications">Back to queue</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const allowed = nextStatuses(application.status);
+  const actions = can("applications:review")
+    ? REVIEW_ACTIONS.filter((action) => allowed.includes(action.status))
+    : [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Link
+            href="/admin/applications"
+            className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-blue-600 mb-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Application Queue
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            {dogNames(application) || "Unnamed dog"} · {application.owner.name || "Unknown owner"}
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 font-mono">{application.id}</p>
+          {application.renewalOf && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Renewal of tag{" "}
+              <Link
+                href={`/admin/applications/${encodeURIComponent(application.renewalOf.applicationId)}`}
+                className="font-mono text-blue-600 hover:underline"
+              >
+                {application.renewalOf.tagNumber}
+              </Link>{" "}
+              (expires {formatDate(application.renewalOf.expiresOn)})
+            </p>
+          )}
+        </div>
+        <StatusBadge status={application.status} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card className="border-0 shadow-sm bg-white dark:bg-gray-800">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <User className="w-4 h-4" />
+                Owner
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <DetailRow label="Name" value={application.owner.name} />
+                <DetailRow label="Phone" value={application.owner.phone} />
+                <div className="md:col-span-2">
+                  <DetailRow label="Address" value={application.owner.address} />
+                </div>
+                {application.residency && (
+                  <div className="md:col-span-2">
+                    <DetailRow
+                      label="Residency"
+                      value={`${RESIDENCY_BASIS_LABELS[application.residency.basis]}${
+                        application.residency.zipVerified ? "" : " · ZIP not verified, check the address"
+                      }`}
+                    />
+                  </div>
+                )}
+              </dl>
+            </CardContent>
+          </Card>
+
+          {application.dogs.map(({ dog, vaccination, license, microchipMatches }, index) => (
+            <Card key={index} className="border-0 shadow-sm bg-white dark:bg-gray-800">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Dog className="w-4 h-4" />
+                  {application.dogs.length > 1 ? `Dog ${index + 1} · ${dog.name || "Unnamed"}` : "Dog"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {microchipMatches && (
+                  <Alert className="border-amber-300 bg-amber-50 dark:bg-amber-950/30">
+                    <ShieldAlert className="w-4 h-4 text-amber-600" />
+                    <AlertTitle>Microchip already licensed</AlertTitle>
+                    <AlertDescription>
+                      <p>
+                        This microchip number is on {microchipMatches.length === 1 ? "another licensed dog" : "other licensed dogs"}.
+                        Check it isn&apos;t the same dog before approving.
+                      </p>
+                      <ul className="mt-2 space-y-1">
+                        {microchipMatches.map((match) => (
+                          <li key={match.tagNumber}>
+                            <Link
+                              href={`/admin/applications/${encodeURIComponent(match.applicationId)}`}
+                              className="font-mono underline"
+                            >
+                              {match.tagNumber}
+                            </Link>{" "}
+                            · {match.dogName || "Unnamed"}, owned by {match.ownerName} ·{" "}
+                            {APPLICATION_STATUS_LABELS[match.status]}
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {dog.photo && (
+                  <a href={documentUrl(application.id, dog.photo)} target="_blank" rel="noopener" className="block w-fit">
+                    {/* eslint-disable-next-line @next/next/no-img-element -- served by an authenticated API route */}
+                    <img
+                      src={documentUrl(application.id, dog.photo)}
+                      alt={`Photo of ${dog.name || `dog ${index + 1}`}`}
+                      className="max-h-64 w-auto rounded-md border border-gray-200 dark:border-gray-700"
+                    />
+                  </a>
+                )}
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <DetailRow label="Name" value={dog.name} />
+                  <DetailRow label="Breed" value={dog.breed} />
+                  <DetailRow label="Sex" value={dog.sex && DOG_SEX_LABELS[dog.sex]} />
+                  <DetailRow label="Age" value={describeAge(dog)} />
+                  <DetailRow
+                    label="Color"
+                    value={
+                      describeCoat(dog.coat) === dog.color ? (
+                        dog.color
+                      ) : (
+                        <>
+                          {dog.color}
+                          <span className="text-gray-500"> · filed as {describeCoat(dog.coat)}</span>
+                        </>
+                      )
+                    }
+                  />
+                  <DetailRow label="Weight" value={describeWeight(dog.weightLbs, dog.sizeClass)} />
+                  <DetailRow
+                    label="Spayed/Neutered"
+                    value={dog.spayedNeutered === null ? "" : dog.spayedNeutered ? "Yes" : "No"}
+                  />
+                  {dog.spayedNeutered && !dog.spayNeuterCertificate && (
+                    <DetailRow label="Spay/Neuter Certificate" value="Not uploaded" />
+                  )}
+                  <DetailRow
+                    label="Microchip"
+                    value={dog.microchipNumber && <span className="font-mono">{describeMicrochip(dog.microchipNumber)}</span>}
+                  />
+                  {dog.markings && (
+                    <div className="md:col-span-2">
+                      <DetailRow label="Distinguishing Marks" value={dog.markings} />
+                    </div>
+                  )}
+                </dl>
+                {dog.spayNeuterCertificate && (
+                  <DocumentViewer
+                    document={dog.spayNeuterCertificate}
+                    url={documentUrl(application.id, dog.spayNeuterCertificate)}
+                    title={`Spay/neuter certificate for ${dog.name || `dog ${index + 1}`}`}
+                  />
+                )}
+
+                {vaccination.exemption ? (
+                  <div>
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                      <Syringe className="w-4 h-4" />
+                      Medical Exemption
+                    </h3>
+                    <Alert className="mb-4 border-amber-300 bg-amber-50 dark:bg-amber-950/30">
+                      <ShieldAlert className="w-4 h-4 text-amber-600" />
+                      <AlertTitle>Not vaccinated against rabies</AlertTitle>
+                      <AlertDescription>
+                        Check the veterinarian&apos;s letter and license number before approving. Exemptions can&apos;t
+                        be approved in bulk.
+                      </AlertDescription>
+                    </Alert>
+                    <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <DetailRow label="Exemption Ends" value={formatDate(vaccination.exemption.expiresOn)} />
+                      <DetailRow
+                        label="Vet License Number"
+                        value={<span className="font-mono">{vaccination.exemption.vetLicenseNumber}</span>}
+                      />
+                      {!vaccination.exemption.letter && (
+                        <DetailRow
+                          label="Exemption Letter"
+                          value={
+                            vaccination.exemption.letterFileName && `${vaccination.exemption.letterFileName} (not on file)`
+                          }
+                        />
+                      )}
+                    </dl>
+                    {vaccination.exemption.letter && (
+                      <div className="mt-4">
+                        <DocumentViewer
+                          document={vaccination.exemption.letter}
+                          url={documentUrl(application.id, vaccination.exemption.letter)}
+                          title={`Exemption letter for ${dog.name || `dog ${index + 1}`}`}
+                        />
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div>
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                      <Syringe className="w-4 h-4" />
+                      Vaccination
+                    </h3>
+                    <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <DetailRow label="Last Rabies Shot" value={vaccination.lastRabiesShotDate} />
+                      <DetailRow label="Vaccine" value={describeRabiesShot(rabiesShot(vaccination))} />
+                      <DetailRow
+                        label="Age When Vaccinated"
+                        value={
+                          vaccination.ageAtVaccinationMonths !== undefined
+                            ? `${vaccination.ageAtVaccinationMonths} months`
+                            : ""
+                        }
+                      />
+                      <DetailRow
+                        label="Accepted Through"
+                        value={rabiesAcceptedThrough(rabiesShot(vaccination))}
+                      />
+                      {!vaccination.certificate && (
+                        <DetailRow
+                          label="Certificate"
+                          value={
+                            vaccination.certificateFileName && (
+                              <span className="inline-flex items-center gap-1">
+                                <FileText className="w-4 h-4" />
+                                {vaccination.certificateFileName} (not on file)
+                              </span>
+                            )
+                          }
+                        />
+                      )}
+                    </dl>
+                    {vaccination.certificate && (
+                      <div className="mt-4">
+                        <DocumentViewer
+                          document={vaccination.certificate}
+                          url={documentUrl(application.id, vaccination.certificate)}
+                          title={`Rabies certificate for ${dog.name || `dog ${index + 1}`}`}
+                        />
+                      </div>
+                    )}
+                    {vaccination.extracted && (
+                      <div className="mt-4">
+                        <CertificateFieldsSummary
+                          fields={vaccination.extracted}
+                          entered={rabiesShot(vaccination)}
+                          title="Read from the certificate (check against the document)"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {license && (
+                  <div>
+                    <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                      <BadgeCheck className="w-4 h-4" />
+                      License
+                    </h3>
+                    <dl className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <DetailRow label="Tag Number" value={<span className="font-mono">{license.tagNumber}</span>} />
+                      <DetailRow label="Issued" value={formatDate(license.issuedOn)} />
+                      <DetailRow label="Expires" value={formatDate(license.expiresOn)} />
+                    </dl>
+                    {license.rabiesExempt && (
+                      <p className="text-xs text-amber-700 dark:text-amber-400 mt-3">
+                        Issued on a medical exemption from rabies vaccination.
+                      </p>
+                    )}
+                    {license.limitedByRabies && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                        {license.rabiesExempt
+                          ? "Shortened to end when the exemption ends."
+                          : "Shortened to end when the rabies vaccination expires."}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="space-y-6">
+          <Card className="border-0 shadow-sm bg-white dark:bg-gray-800">
+            <CardHeader>
+              <CardTitle className="text-base">Decision</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {actions.length > 0 ? (
+                actions.map((action) => (
+                  <Button
+                    key={action.status}
+                    variant={action.variant}
+                    className="w-full"
+                    disabled={isSaving}
+                    onClick={() => startAction(action.status)}
+                  >
+                    {action.label}
+                  </Button>
+                ))
+              ) : application.status === "approved" && can("applications:review") ? (
+                <Button className="w-full" disabled={isSaving} onClick={issueLicense}>
+                  Issue License
+                </Button>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No review actions available.</p>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400 pt-2">
+                Last updated {formatDateTime(application.updatedAt)}
+              </p>
+            </CardContent>
+          </Card>
+
+          {applicationLicenses(application).length > 0 && (
+            <Card className="border-0 shadow-sm bg-white dark:bg-gray-800">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <BadgeCheck className="w-4 h-4" />
+                  Documents
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LicenseDocuments application={application} />
+              </CardContent>
+            </Card>
+          )}
+
+          {application.fee && (
+            <Card className="border-0 shadow-sm bg-white dark:bg-gray-800">
+              <CardHeader>
+                <CardTitle className="text-base">Fees</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <FeeSummary quote={application.fee} />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {application.payment
+                    ? `Paid ${formatDateTime(application.payment.paidAt)} · Receipt ${application.payment.receiptNumber}`
+                    : "Not paid"}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="border-0 shadow-sm bg-white dark:bg-gray-800">
+            <CardHeader>
+              <CardTitle className="text-base">History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <StatusTimeline history={application.history} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={pendingStatus !== null} onOpenChange={(open) => !open && setPendingStatus(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingStatus === "needs_info" ? "Request more information" : "Reject application"}
+            </DialogTitle>
+            <DialogDescription>The applicant will see this message on the tracking page.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reason">Reason *</Label>
+            <Textarea id="reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={4} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingStatus(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingStatus === "rejected" ? "destructive" : "default"}
+              disabled={isSaving || !reason.trim()}
+              onClick={() => pendingStatus && applyStatus(pendingStatus, reason)}
+            >
+              {isSaving ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
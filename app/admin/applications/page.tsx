@@ -0,0 +1,432 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Filter, RotateCcw } from "lucide-react";
+import StatusBadge from "../../../components/StatusBadge";
+import { Badge } from "../../../components/ui/badge";
+import { Button } from "../../../components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card";
+import { Checkbox } from "../../../components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../../../components/ui/dialog";
+import { Input } from "../../../components/ui/input";
+import { Label } from "../../../components/ui/label";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "../../../components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../components/ui/table";
+import { Textarea } from "../../../components/ui/textarea";
+import { useSession } from "../../../hooks/use-session";
+import {
+  APPLICATION_STATUSES,
+  APPLICATION_STATUS_LABELS,
+  dogNames,
+  hasMicrochipMatches,
+  hasRabiesExemption,
+  ownerZip,
+  type ApplicationPage,
+  type ApplicationStatus,
+} from "../../../lib/applications";
+import { REASON_REQUIRED } from "../../../lib/application-lifecycle";
+import { bulkChangeApplicationStatus, fetchApplications } from "../../../lib/application-api";
+import { COAT_COLORS } from "../../../lib/dog-colors";
+
+const PAGE_SIZE = 20;
+
+interface QueueFilters {
+  status: ApplicationStatus | "all";
+  from: string;
+  to: string;
+  zip: string;
+  color: string;
+}
+
+const EMPTY_FILTERS: QueueFilters = { status: "all", from: "", to: "", zip: "", color: "all" };
+
+const BULK_ACTIONS: { status: ApplicationStatus; label: string; variant: "outline" | "default" | "destructive" }[] = [
+  { status: "under_review", label: "Start Review", variant: "outline" },
+  { status: "approved", label: "Approve", variant: "default" },
+  { status: "rejected", label: "Reject", variant: "destructive" },
+];
+
+// First, last and the pages around the current one, with gaps marked by null.
+function pageWindow(page: number, totalPages: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let n = 1; n <= totalPages; n++) {
+    if (n === 1 || n === totalPages || Math.abs(n - page) <= 1) {
+      pages.push(n);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+export default function ApplicationQueue() {
+  const [filters, setFilters] = useState<QueueFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<ApplicationPage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkStatus, setBulkStatus] = useState<ApplicationStatus | null>(null);
+  const [bulkReason, setBulkReason] = useState("");
+  const [isBulkSaving, setIsBulkSaving] = useState(false);
+  const { can } = useSession();
+  const canBulkReview = can("applications:bulk_review");
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchApplications({
+      status: filters.status === "all" ? undefined : filters.status,
+      from: filters.from,
+      to: filters.to,
+      zip: filters.zip.trim().length === 5 ? filters.zip.trim() : undefined,
+      color: filters.color === "all" ? undefined : filters.color,
+      page,
+      pageSize: PAGE_SIZE,
+    })
+      .then((data) => {
+        if (!cancelled) {
+          setResult(data);
+          setSelected(new Set());
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading application queue:", error);
+        toast.error("Failed to load applications");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, page, reloadKey]);
+
+  const updateFilter = <K extends keyof QueueFilters>(key: K, value: QueueFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const pageIds = result?.applications.map((app) => app.id) ?? [];
+  const allSelected = pageIds.length > 0 && pageIds.every((id) => selected.has(id));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const runBulkAction = async (status: ApplicationStatus, reason?: string) => {
+    setIsBulkSaving(true);
+    try {
+      const results = await bulkChangeApplicationStatus([...selected], status, reason);
+      const failed = results.filter((r) => !r.ok);
+      if (failed.length === 0) {
+        toast.success(`Updated ${results.length} application${results.length === 1 ? "" : "s"}`);
+      } else {
+        toast.error(`${failed.length} of ${results.length} could not be updated: ${failed[0].error}`);
+      }
+      setBulkStatus(null);
+      setBulkReason("");
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Bulk update failed");
+    }
+    setIsBulkSaving(false);
+  };
+
+  const startBulkAction = (status: ApplicationStatus) => {
+    if (REASON_REQUIRED.includes(status)) {
+      setBulkStatus(status);
+    } else {
+      runBulkAction(status);
+    }
+  };
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  const goToPage = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= totalPages) setPage(target);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Application Queue</h1>
+        <p className="text-gray-600 dark:text-gray-300">Review incoming dog license applications</p>
+      </div>
+
+      {/* Filters */}
+      <Card className="border-0 shadow-sm bg-white dark:bg-gray-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Filter className="w-4 h-4" />
+            Filters
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => updateFilter("status", value as QueueFilters["status"])}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {APPLICATION_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {APPLICATION_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="from">Submitted from</Label>
+              <Input id="from" type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to">Submitted to</Label>
+              <Input id="to" type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zip">ZIP code</Label>
+              <Input
+                id="zip"
+                inputMode="numeric"
+                maxLength={5}
+                placeholder="e.g., 62701"
+                value={filters.zip}
+                onChange={(e) => updateFilter("zip", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Coat color</Label>
+              <Select value={filters.color} onValueChange={(value) => updateFilter("color", value)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All colors</SelectItem>
+                  {COAT_COLORS.map((color) => (
+                    <SelectItem key={color.code} value={color.code}>
+                      {color.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setFilters(EMPTY_FILTERS);
+                setPage(1);
+              }}
+              className="flex items-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Queue */}
+      <Card className="border-0 shadow-sm bg-white dark:bg-gray-800">
+        <CardHeader>
+          <CardTitle className="text-base">Applications</CardTitle>
+          <CardDescription>
+            {result ? `${result.total} matching application${result.total === 1 ? "" : "s"}` : "Loading..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {canBulkReview && selected.size > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-4 p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20">
+              <span className="text-sm font-medium text-blue-800 dark:text-blue-200 mr-2">
+                {selected.size} selected
+              </span>
+              {BULK_ACTIONS.map((action) => (
+                <Button
+                  key={action.status}
+                  size="sm"
+                  variant={action.variant}
+                  disabled={isBulkSaving}
+                  onClick={() => startBulkAction(action.status)}
+                >
+                  {action.label}
+                </Button>
+              ))}
+            </div>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canBulkReview && (
+                  <TableHead className="w-8">
+                    <Checkbox
+                      aria-label="Select all on this page"
+                      checked={allSelected}
+                      onCheckedChange={(checked) =>
+                        setSelected(checked === true ? new Set(pageIds) : new Set())
+                      }
+                    />
+                  </TableHead>
+                )}
+                <TableHead>Application ID</TableHead>
+                <TableHead>Owner</TableHead>
+                <TableHead>Dog</TableHead>
+                <TableHead>ZIP</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && !result ? (
+                <TableRow>
+                  <TableCell colSpan={canBulkReview ? 8 : 7} className="text-center py-8 text-gray-500">
+                    Loading applications...
+                  </TableCell>
+                </TableRow>
+              ) : result && result.applications.length > 0 ? (
+                result.applications.map((app) => (
+                  <TableRow key={app.id}>
+                    {canBulkReview && (
+                      <TableCell>
+                        <Checkbox
+                          aria-label={`Select ${app.id}`}
+                          checked={selected.has(app.id)}
+                          onCheckedChange={(checked) => toggleSelected(app.id, checked === true)}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell className="font-mono text-xs">{app.id}</TableCell>
+                    <TableCell>{app.owner.name || "—"}</TableCell>
+                    <TableCell>
+                      {app.dogs.length === 1 ? (
+                        <>
+                          {app.dogs[0].dog.name || "—"}
+                          {app.dogs[0].dog.breed && <span className="text-gray-500"> · {app.dogs[0].dog.breed}</span>}
+                        </>
+                      ) : (
+                        <>
+                          {dogNames(app) || "—"}
+                          <span className="text-gray-500"> · {app.dogs.length} dogs</span>
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell>{ownerZip(app.owner) ?? "—"}</TableCell>
+                    <TableCell>{new Date(app.submittedAt).toLocaleDateString("en-US")}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-1">
+                        <StatusBadge status={app.status} />
+                        {hasRabiesExemption(app) && (
+                          <Badge variant="outline" className="border-amber-300 text-amber-700 dark:text-amber-400">
+                            Medical exemption
+                          </Badge>
+                        )}
+                        {hasMicrochipMatches(app) && (
+                          <Badge variant="outline" className="border-amber-300 text-amber-700 dark:text-amber-400">
+                            Microchip match
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button asChild size="sm" variant="outline">
+                        <Link href={`/admin/applications/${encodeURIComponent(app.id)}`}>Review</Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={canBulkReview ? 8 : 7} className="text-center py-8 text-gray-500">
+                    No applications match these filters
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          {totalPages > 1 && (
+            <Pagination className="mt-4">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious href="#" onClick={goToPage(page - 1)} />
+                </PaginationItem>
+                {pageWindow(page, totalPages).map((n, index) =>
+                  n === null ? (
+                    <PaginationItem key={`gap-${index}`}>
+                      <PaginationEllipsis />
+                    </PaginationItem>
+                  ) : (
+                    <PaginationItem key={n}>
+                      <PaginationLink href="#" isActive={n === page} onClick={goToPage(n)}>
+                        {n}
+                      </PaginationLink>
+                    </PaginationItem>
+                  ),
+                )}
+                <PaginationItem>
+                  <PaginationNext href="#" onClick={goToPage(page + 1)} />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={bulkStatus !== null} onOpenChange={(open) => !open && setBulkStatus(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {selected.size} applications</DialogTitle>
+            <DialogDescription>The same reason is recorded on every selected application.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-reason">Reason *</Label>
+            <Textarea id="bulk-reason" rows={4} value={bulkReason} onChange={(e) => setBulkReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBulkStatus(null)} disabled={isBulkSaving}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={isBulkSaving || !bulkReason.trim()}
+              onClick={() => bulkStatus && runBulkAction(bulkStatus, bulkReason)}
+            >
+              {isBulkSaving ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
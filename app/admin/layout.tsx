@@ -0,0 +1,16 @@
+import type React from "react";
+import AdminSidebar from "../../components/AdminSidebar";
+import { SidebarInset, SidebarProvider } from "../../components/ui/sidebar";
+
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <SidebarProvider className="min-h-[calc(100svh-4rem)]">
+      <AdminSidebar />
+      <SidebarInset className="bg-gray-50 dark:bg-gray-900">{children}</SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,276 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Download, Filter, RotateCcw, Undo2 } from "lucide-react";
+import { Badge } from "../../../components/ui/badge";
+import { Button } from "../../../components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../../../components/ui/dialog";
+import { Input } from "../../../components/ui/input";
+import { Label } from "../../../components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../components/ui/table";
+import { Textarea } from "../../../components/ui/textarea";
+import { useSession } from "../../../hooks/use-session";
+import { fetchPayments, paymentsCsvUrl, refundPayment, type PaymentQuery } from "../../../lib/payment-api";
+import {
+  PAYMENT_STATUSES,
+  PAYMENT_STATUS_LABELS,
+  type PaymentStatus,
+  type PaymentTransaction,
+} from "../../../lib/payments";
+import { formatCents, formatDateTime } from "../../../lib/utils";
+
+interface LedgerFilters {
+  status: PaymentStatus | "all";
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: LedgerFilters = { status: "all", from: "", to: "" };
+
+const STATUS_VARIANTS: Record<PaymentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  requires_action: "outline",
+  captured: "default",
+  declined: "destructive",
+  refunded: "secondary",
+};
+
+export default function PaymentLedger() {
+  const [filters, setFilters] = useState<LedgerFilters>(EMPTY_FILTERS);
+  const [payments, setPayments] = useState<PaymentTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refunding, setRefunding] = useState<PaymentTransaction | null>(null);
+  const [refundReason, setRefundReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { can } = useSession();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchPayments({
+      status: filters.status === "all" ? undefined : filters.status,
+      from: filters.from,
+      to: filters.to,
+    })
+      .then((data) => {
+        if (!cancelled) setPayments(data);
+      })
+      .catch((error) => {
+        console.error("Error loading payments:", error);
+        toast.error("Failed to load payments");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  const query: PaymentQuery = {
+    status: filters.status === "all" ? undefined : filters.status,
+    from: filters.from,
+    to: filters.to,
+  };
+
+  const captured = payments.filter((payment) => payment.status === "captured");
+  const capturedTotal = captured.reduce((sum, payment) => sum + payment.amount, 0);
+
+  const handleRefund = async () => {
+    if (!refunding) return;
+    setIsSaving(true);
+    try {
+      const updated = await refundPayment(refunding.id, refundReason);
+      setPayments((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+      setRefunding(null);
+      setRefundReason("");
+      toast.success(`Refunded ${formatCents(updated.amount, updated.currency)}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Refund failed");
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Payments</h1>
+          <p className="text-gray-600 dark:text-gray-300">Every charge attempt, for reconciliation with the processor</p>
+        </div>
+        <Button asChild variant="outline">
+          <a href={paymentsCsvUrl(query)} download>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="border-0 shadow-sm bg-white dark:bg-gray-800">
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Filter className="w-4 h-4" />
+            Filters
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => setFilters({ ...filters, status: value as LedgerFilters["status"] })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {PAYMENT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {PAYMENT_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="from">From</Label>
+              <Input
+                id="from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to">To</Label>
+              <Input
+                id="to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              />
+            </div>
+            <Button variant="outline" onClick={() => setFilters(EMPTY_FILTERS)} className="flex items-center gap-2">
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-sm bg-white dark:bg-gray-800">
+        <CardHeader>
+          <CardTitle className="text-base">Transactions</CardTitle>
+          <CardDescription>
+            {isLoading
+              ? "Loading..."
+              : `${payments.length} attempt${payments.length === 1 ? "" : "s"} · ${captured.length} captured totalling ${formatCents(capturedTotal)}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Receipt</TableHead>
+                <TableHead>Application</TableHead>
+                <TableHead>Card</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                {can("payments:refund") && <TableHead className="w-24" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!isLoading && payments.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                    No payments match these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                payments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(payment.createdAt)}</TableCell>
+                    <TableCell className="font-mono text-xs">{payment.receiptNumber ?? "—"}</TableCell>
+                    <TableCell>
+                      <Link
+                        href={`/admin/applications/${encodeURIComponent(payment.applicationId)}`}
+                        className="font-mono text-xs text-blue-600 hover:underline"
+                      >
+                        {payment.applicationId}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {payment.cardLast4 ? `${payment.cardBrand ?? "Card"} •••• ${payment.cardLast4}` : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[payment.status]} title={payment.failureMessage}>
+                        {PAYMENT_STATUS_LABELS[payment.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatCents(payment.amount, payment.currency)}
+                    </TableCell>
+                    {can("payments:refund") && (
+                      <TableCell>
+                        {payment.status === "captured" && (
+                          <Button size="sm" variant="ghost" onClick={() => setRefunding(payment)}>
+                            <Undo2 className="w-4 h-4 mr-1" />
+                            Refund
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={refunding !== null} onOpenChange={(open) => !open && setRefunding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund payment</DialogTitle>
+            <DialogDescription>
+              {refunding &&
+                `Refund ${formatCents(refunding.amount, refunding.currency)} for receipt ${refunding.receiptNumber}. This cannot be undone.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="refundReason">Reason</Label>
+            <Textarea
+              id="refundReason"
+              value={refundReason}
+              onChange={(e) => setRefundReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefunding(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRefund} disabled={isSaving}>
+              {isSaving ? "Refunding..." : "Refund"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
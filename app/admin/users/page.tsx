@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { UserPlus } from "lucide-react";
+import { Button } from "../../../components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card";
+import { Input } from "../../../components/ui/input";
+import { Label } from "../../../components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../components/ui/table";
+import { ROLES, ROLE_LABELS, type Role } from "../../../lib/auth/roles";
+import type { User } from "../../../lib/auth/user";
+import { changeUserRole, createUser, fetchUsers } from "../../../lib/user-api";
+
+const STAFF_ROLES = ROLES.filter((role) => role !== "applicant");
+
+function RoleSelect({ value, onChange }: { value: Role; onChange: (role: Role) => void }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as Role)}>
+      <SelectTrigger className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ROLES.map((role) => (
+          <SelectItem key={role} value={role}>
+            {ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function UserManagement() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState({ name: "", email: "", password: "", role: "clerk" as Role });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchUsers()
+      .then(setUsers)
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load users"))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const user = await createUser(draft);
+      setUsers((prev) => [...prev, user].sort((a, b) => a.email.localeCompare(b.email)));
+      setDraft({ name: "", email: "", password: "", role: "clerk" });
+      toast.success(`Added ${user.email}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add user");
+    }
+    setIsSaving(false);
+  };
+
+  const handleRoleChange = async (user: User, role: Role) => {
+    try {
+      const updated = await changeUserRole(user.id, role);
+      setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+      toast.success(`${updated.email} is now ${ROLE_LABELS[role]}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to change role");
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Users & Roles</h1>
+        <p className="text-gray-600 dark:text-gray-300">Manage staff accounts and what they can do</p>
+      </div>
+
+      <Card className="border-0 shadow-sm bg-white dark:bg-gray-800">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <UserPlus className="w-4 h-4" />
+            Add staff member
+          </CardTitle>
+          <CardDescription>Staff sign in at /login with the password you set here</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={draft.email}
+                onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Temporary password</Label>
+              <Input
+                id="password"
+                type="password"
+                minLength={12}
+                value={draft.password}
+                onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={draft.role} onValueChange={(role) => setDraft({ ...draft, role: role as Role })}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAFF_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Adding..." : "Add user"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-sm bg-white dark:bg-gray-800">
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead className="w-56">Role</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8 text-gray-500">
+                    Loading users...
+                  </TableCell>
+                </TableRow>
+              ) : (
+                users.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell>{user.name}</TableCell>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>
+                      <RoleSelect value={user.role} onChange={(role) => handleRoleChange(user, role)} />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
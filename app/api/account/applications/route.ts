@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import { withoutMicrochipMatches } from "@/lib/applications"
+import { authorize } from "@/lib/server/auth"
+import { listApplications } from "@/lib/server/application-store"
+
+// The signed-in applicant's own applications, matched on the owner email.
+export async function GET() {
+  const auth = await authorize("account:view")
+  if (!auth.ok) return auth.response
+
+  const applications = await listApplications({ ownerEmail: auth.session.email, includeDrafts: true })
+  return NextResponse.json({ applications: applications.map(withoutMicrochipMatches) })
+}
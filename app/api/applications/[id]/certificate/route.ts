@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { applicationLicenses } from "@/lib/applications"
+import { getApplication } from "@/lib/server/application-store"
+import { renderLicenseCertificate } from "@/lib/server/license-documents"
+
+// Public like the application itself: the id is what the owner holds.
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const application = await getApplication(id)
+  if (!application) {
+    return NextResponse.json({ error: `Application ${id} not found` }, { status: 404 })
+  }
+  const licenses = applicationLicenses(application)
+  if (licenses.length === 0 || application.status !== "license_issued") {
+    return NextResponse.json({ error: "No license has been issued for this application" }, { status: 409 })
+  }
+
+  const pdf = renderLicenseCertificate(application)
+  const filename = licenses.length === 1 ? `dog-license-${licenses[0].tagNumber}` : `dog-licenses-${application.id}`
+  return new NextResponse(new Uint8Array(pdf), {
+    headers: {
+      "content-type": "application/pdf",
+      "content-disposition": `inline; filename="${filename}.pdf"`,
+      "cache-control": "no-store",
+    },
+  })
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { applicationDocuments } from "@/lib/applications"
+import { authorize } from "@/lib/server/auth"
+import { getApplication } from "@/lib/server/application-store"
+import { readDocument } from "@/lib/server/documents"
+
+// Uploaded certificates and exemption letters, for clerks reviewing the application. Only documents
+// attached to this application are served.
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string; sha256: string }> }) {
+  const auth = await authorize("applications:read")
+  if (!auth.ok) return auth.response
+
+  const { id, sha256 } = await params
+  const application = await getApplication(id)
+  if (!application) {
+    return NextResponse.json({ error: `Application ${id} not found` }, { status: 404 })
+  }
+  const document = applicationDocuments(application).find((candidate) => candidate.sha256 === sha256)
+  const contents = document ? await readDocument(document) : null
+  if (!document || !contents) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 })
+  }
+
+  return new NextResponse(new Uint8Array(contents), {
+    headers: {
+      "content-type": document.contentType,
+      "content-disposition": `inline; filename="${document.fileName}"`,
+      "x-content-type-options": "nosniff",
+      "cache-control": "private, max-age=3600",
+    },
+  })
+}
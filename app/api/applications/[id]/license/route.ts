@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { authorize } from "@/lib/server/auth"
+import { issueLicense } from "@/lib/server/application-store"
+
+// Retries issuance for an application that was approved but has no license,
+// e.g. one approved before licenses were minted automatically.
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize("applications:review")
+  if (!auth.ok) return auth.response
+
+  const { id } = await params
+  const result = await issueLicense(id)
+  if (!result.ok) {
+    return NextResponse.json({ error: result.message }, { status: result.code === "not_found" ? 404 : 409 })
+  }
+  return NextResponse.json({ application: result.application })
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { publicApplicationView } from "@/lib/applications"
+import { paymentCardSchema } from "@/lib/payments"
+import { payForApplication, PAYMENT_ERROR_STATUS } from "@/lib/server/payment-store"
+
+// Pays the fee on a draft application. Like tracking, knowing the application
+// id is enough; the card is the applicant's proof of intent.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  const card = paymentCardSchema.safeParse(body)
+  if (!card.success) {
+    return NextResponse.json(
+      { error: "Please check your card details", fieldErrors: z.flattenError(card.error).fieldErrors },
+      { status: 422 },
+    )
+  }
+
+  const result = await payForApplication(id, card.data)
+  if (!result.ok) {
+    return NextResponse.json({ error: result.message }, { status: PAYMENT_ERROR_STATUS[result.code] })
+  }
+  return NextResponse.json({
+    transaction: result.transaction,
+    application: result.application ? publicApplicationView(result.application) : null,
+  })
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { ALLOWED_PHOTO_TYPES } from "@/lib/dog-photos"
+import { getApplication } from "@/lib/server/application-store"
+import { readDocument, sniffContentType } from "@/lib/server/documents"
+
+// Public like the application itself, so owners see their dog's photo on the
+// track page. Only photos are served here; the other uploads stay with clerks.
+// The type is read from the stored bytes rather than the record, so nothing
+// but a JPEG or PNG image ever leaves this route.
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string; sha256: string }> }) {
+  const { id, sha256 } = await params
+  const application = await getApplication(id)
+  if (!application) {
+    return NextResponse.json({ error: `Application ${id} not found` }, { status: 404 })
+  }
+  const photo = application.dogs.find(({ dog }) => dog.photo?.sha256 === sha256)?.dog.photo
+  const contents = photo ? await readDocument(photo) : null
+  const contentType = contents ? sniffContentType(contents) : null
+  if (!contents || !contentType || !ALLOWED_PHOTO_TYPES.includes(contentType)) {
+    return NextResponse.json({ error: "Photo not found" }, { status: 404 })
+  }
+
+  return new NextResponse(new Uint8Array(contents), {
+    headers: {
+      "content-type": contentType,
+      "x-content-type-options": "nosniff",
+      "cache-control": "private, max-age=3600",
+    },
+  })
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { getApplication } from "@/lib/server/application-store"
+import { renderPaymentReceipt } from "@/lib/server/license-documents"
+import { getPayment } from "@/lib/server/payment-store"
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const application = await getApplication(id)
+  if (!application) {
+    return NextResponse.json({ error: `Application ${id} not found` }, { status: 404 })
+  }
+  if (!application.payment) {
+    return NextResponse.json({ error: "This application has not been paid for" }, { status: 409 })
+  }
+
+  const transaction = await getPayment(application.payment.transactionId)
+  const pdf = renderPaymentReceipt(application, transaction)
+  return new NextResponse(new Uint8Array(pdf), {
+    headers: {
+      "content-type": "application/pdf",
+      "content-disposition": `inline; filename="receipt-${application.payment.receiptNumber}.pdf"`,
+      "cache-control": "no-store",
+    },
+  })
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { publicApplicationView } from "@/lib/applications"
+import { hasPermission } from "@/lib/auth/roles"
+import { getSession } from "@/lib/server/auth"
+import { getApplication } from "@/lib/server/application-store"
+
+// Public, for tracking by id. Staff get the whole record; everyone else gets
+// the trimmed tracking view.
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const application = await getApplication(id)
+  if (!application) {
+    return NextResponse.json({ error: `Application ${id} not found` }, { status: 404 })
+  }
+  const session = await getSession()
+  if (hasPermission(session?.role, "applications:read")) {
+    return NextResponse.json({ application })
+  }
+  return NextResponse.json({ application: publicApplicationView(application) })
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { isApplicationStatus } from "@/lib/applications"
+import { actorName, authorize } from "@/lib/server/auth"
+import { updateApplicationStatus } from "@/lib/server/application-store"
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize("applications:review")
+  if (!auth.ok) return auth.response
+
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  const status = body?.status
+  if (!isApplicationStatus(status)) {
+    return NextResponse.json({ error: "A valid status is required" }, { status: 400 })
+  }
+
+  const result = await updateApplicationStatus(id, {
+    to: status,
+    actor: actorName(auth.session),
+    reason: typeof body.reason === "string" ? body.reason : undefined,
+  })
+  if (!result.ok) {
+    return NextResponse.json({ error: result.message }, { status: result.code === "not_found" ? 404 : 409 })
+  }
+  return NextResponse.json({ application: result.application })
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { hasMicrochipMatches, hasRabiesExemption, isApplicationStatus } from "@/lib/applications"
+import { actorName, authorize } from "@/lib/server/auth"
+import { getApplication, updateApplicationStatus } from "@/lib/server/application-store"
+
+const MAX_BULK_SIZE = 100
+
+// Applies one status change to many applications. Each application is moved
+// independently; failures are reported per id rather than aborting the batch.
+export async function POST(request: Request) {
+  const auth = await authorize("applications:bulk_review")
+  if (!auth.ok) return auth.response
+
+  const body = await request.json().catch(() => null)
+  const ids: unknown = body?.ids
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === "string")) {
+    return NextResponse.json({ error: "Expected a non-empty ids array" }, { status: 400 })
+  }
+  if (ids.length > MAX_BULK_SIZE) {
+    return NextResponse.json({ error: `At most ${MAX_BULK_SIZE} applications per request` }, { status: 400 })
+  }
+  if (!isApplicationStatus(body.status)) {
+    return NextResponse.json({ error: "A valid status is required" }, { status: 400 })
+  }
+
+  const results = []
+  for (const id of ids as string[]) {
+    // Medical exemptions need a clerk to read the vet's letter, and a
+    // duplicate microchip needs them to check the other license.
+    if (body.status === "approved") {
+      const application = await getApplication(id)
+      if (application && hasRabiesExemption(application)) {
+        results.push({ id, ok: false, error: "Applications with a medical exemption must be approved individually" })
+        continue
+      }
+      if (application && hasMicrochipMatches(application)) {
+        results.push({ id, ok: false, error: "Applications with a duplicate microchip must be approved individually" })
+        continue
+      }
+    }
+    const result = await updateApplicationStatus(id, {
+      to: body.status,
+      actor: actorName(auth.session),
+      reason: typeof body.reason === "string" ? body.reason : undefined,
+    })
+    results.push(result.ok ? { id, ok: true } : { id, ok: false, error: result.message })
+  }
+  return NextResponse.json({ results })
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { MAX_IMPORT_BATCH } from "@/lib/applications"
+import { importApplications } from "@/lib/server/application-store"
+
+// One-time upload of applications that earlier versions kept in localStorage.
+// They come back as unpaid drafts; see importApplications.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  if (!Array.isArray(body?.applications)) {
+    return NextResponse.json({ error: "Expected an applications array" }, { status: 400 })
+  }
+  if (body.applications.length > MAX_IMPORT_BATCH) {
+    return NextResponse.json({ error: `At most ${MAX_IMPORT_BATCH} applications per request` }, { status: 400 })
+  }
+
+  const imported = await importApplications(body.applications)
+  return NextResponse.json({ imported })
+}
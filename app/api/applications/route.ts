@@ -0,0 +1,162 @@
+import { NextResponse } from "next/server"
+import { isApplicationStatus, withoutMicrochipMatches } from "@/lib/applications"
+import {
+  ALLOWED_CERTIFICATE_TYPES,
+  fromFormData,
+  MAX_CERTIFICATE_SIZE,
+  rabiesLapseErrors,
+  toApplicationInput,
+  toPostalAddress,
+  validateDogLicense,
+  type FieldErrors,
+} from "@/lib/dog-license-schema"
+import { isCoatColor } from "@/lib/dog-colors"
+import { ALLOWED_PHOTO_TYPES, MAX_PHOTO_SIZE } from "@/lib/dog-photos"
+import type { RenewalLink } from "@/lib/renewals"
+import { authorize } from "@/lib/server/auth"
+import { createApplication, queryApplications } from "@/lib/server/application-store"
+import { extractCertificateFields, saveDocument } from "@/lib/server/documents"
+import { findMicrochipMatches } from "@/lib/server/microchips"
+import { RENEWAL_ERROR_STATUS, renewalLinkFor } from "@/lib/server/renewals"
+import { checkResidency, RESIDENCY_ERROR_STATUS } from "@/lib/server/residency"
+import { coerceDate, parseNumberSafe } from "@/lib/utils"
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+// Query: status, from, to (YYYY-MM-DD), zip, page, pageSize
+export async function GET(request: Request) {
+  const auth = await authorize("applications:read")
+  if (!auth.ok) return auth.response
+
+  const params = new URL(request.url).searchParams
+  const status = params.get("status")
+  if (status !== null && !isApplicationStatus(status)) {
+    return NextResponse.json({ error: `Unknown status "${status}"` }, { status: 400 })
+  }
+  const color = params.get("color")
+  if (color && !isCoatColor(color)) {
+    return NextResponse.json({ error: `Unknown coat color "${color}"` }, { status: 400 })
+  }
+
+  const page = Math.max(1, Math.floor(parseNumberSafe(params.get("page")) ?? 1))
+  const pageSize = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, Math.floor(parseNumberSafe(params.get("pageSize")) ?? DEFAULT_PAGE_SIZE)),
+  )
+
+  const result = await queryApplications(
+    {
+      status: status ?? undefined,
+      submittedFrom: params.get("from") || undefined,
+      submittedTo: params.get("to") || undefined,
+      zip: params.get("zip") || undefined,
+      coatColor: color || undefined,
+    },
+    page,
+    pageSize,
+  )
+  return NextResponse.json(result)
+}
+
+export async function POST(request: Request) {
+  let formData: FormData
+  try {
+    formData = await request.formData()
+  } catch {
+    return NextResponse.json({ error: "Request body must be multipart form data" }, { status: 400 })
+  }
+
+  const result = validateDogLicense(fromFormData(formData))
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: "Please fix the highlighted fields", fieldErrors: result.fieldErrors },
+      { status: 422 },
+    )
+  }
+
+  // Renewals name the tag they renew and the contact it was looked up with;
+  // the link and late fee come from the license on file, not from the client.
+  const renewalTag = formData.get("renewalOf")
+  const renewalContact = formData.get("renewalContact")
+  let renewalOf: RenewalLink | undefined
+  if (typeof renewalTag === "string" && renewalTag.trim()) {
+    const renewal = await renewalLinkFor(renewalTag, typeof renewalContact === "string" ? renewalContact : "")
+    if (!renewal.ok) {
+      return NextResponse.json({ error: renewal.message }, { status: RENEWAL_ERROR_STATUS[renewal.code] })
+    }
+    renewalOf = renewal.link
+  }
+
+  // An early renewal starts where the license it replaces ends, so the
+  // vaccination has to last until then.
+  const termStartsOn = renewalOf ? coerceDate(renewalOf.expiresOn) : null
+  if (termStartsOn && termStartsOn.getTime() > Date.now()) {
+    const lapseErrors = rabiesLapseErrors(result.data, termStartsOn)
+    if (Object.keys(lapseErrors).length > 0) {
+      return NextResponse.json({ error: "Please fix the highlighted fields", fieldErrors: lapseErrors }, { status: 422 })
+    }
+  }
+
+  // Only residents can be licensed here; the decision is kept on the record.
+  const residency = await checkResidency(toPostalAddress(result.data))
+  if (!residency.ok) {
+    return NextResponse.json(
+      { error: residency.message, fieldErrors: { ownerZip: [residency.message] } },
+      { status: RESIDENCY_ERROR_STATUS[residency.code] },
+    )
+  }
+
+  // Certificates, exemption letters, spay/neuter proof and photos are checked
+  // and kept before anything is saved; the form only carries them this far.
+  const input = toApplicationInput(result.data, renewalOf)
+  const uploadErrors: FieldErrors = {}
+  const upload = (file: File) =>
+    saveDocument(file, { allowedTypes: ALLOWED_CERTIFICATE_TYPES, maxSize: MAX_CERTIFICATE_SIZE })
+  for (const [index, entry] of result.data.dogs.entries()) {
+    const { dog, vaccination } = input.dogs[index]
+    const field = entry.rabiesStatus === "exempt" ? "exemptionLetter" : "vaccinationCertificate"
+    const file = entry.rabiesStatus === "exempt" ? entry.exemptionLetter : entry.vaccinationCertificate
+    if (file) {
+      // The schema has already required it
+      const saved = await upload(file)
+      if (!saved.ok) {
+        uploadErrors[`dogs.${index}.${field}`] = [saved.message]
+      } else if (vaccination.exemption) {
+        vaccination.exemption.letter = saved.document
+      } else {
+        vaccination.certificate = saved.document
+        vaccination.extracted = await extractCertificateFields(saved.document)
+      }
+    }
+
+    if (entry.spayedNeutered === "yes" && entry.spayNeuterCertificate) {
+      const saved = await upload(entry.spayNeuterCertificate)
+      if (saved.ok) dog.spayNeuterCertificate = saved.document
+      else uploadErrors[`dogs.${index}.spayNeuterCertificate`] = [saved.message]
+    }
+
+    if (entry.photo) {
+      const saved = await saveDocument(entry.photo, { allowedTypes: ALLOWED_PHOTO_TYPES, maxSize: MAX_PHOTO_SIZE })
+      if (saved.ok) dog.photo = saved.document
+      else {
+        uploadErrors[`dogs.${index}.photo`] = [
+          saved.code === "unsupported_type" ? "Photo must be a JPEG or PNG image" : saved.message,
+        ]
+      }
+    }
+  }
+  if (Object.keys(uploadErrors).length > 0) {
+    return NextResponse.json({ error: "Please fix the highlighted fields", fieldErrors: uploadErrors }, { status: 422 })
+  }
+
+  // Chips already on a licensed dog are kept for the clerk to look into.
+  for (const entry of input.dogs) {
+    if (!entry.dog.microchipNumber) continue
+    const matches = await findMicrochipMatches(entry.dog.microchipNumber, { excludeTagNumber: renewalOf?.tagNumber })
+    if (matches.length > 0) entry.microchipMatches = matches
+  }
+
+  const application = await createApplication({ ...input, residency: residency.decision })
+  return NextResponse.json({ application: withoutMicrochipMatches(application) }, { status: 201 })
+}
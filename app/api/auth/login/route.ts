@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { isStaffRole } from "@/lib/auth/roles"
+import { startSession } from "@/lib/server/auth"
+import { ensureBootstrapAdmin, findUserByEmail, toUser, verifyPassword } from "@/lib/server/user-store"
+
+// Staff sign-in with email and password.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const email = typeof body?.email === "string" ? body.email : ""
+  const password = typeof body?.password === "string" ? body.password : ""
+  if (!email || !password) {
+    return NextResponse.json({ error: "Email and password are required" }, { status: 400 })
+  }
+
+  await ensureBootstrapAdmin()
+  const user = await findUserByEmail(email)
+  if (!user || !isStaffRole(user.role) || !(await verifyPassword(password, user.passwordHash))) {
+    return NextResponse.json({ error: "Invalid email or password" }, { status: 401 })
+  }
+
+  const sessionUser = toUser(user)
+  await startSession(sessionUser)
+  return NextResponse.json({ user: sessionUser })
+}
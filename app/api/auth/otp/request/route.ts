@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { isStaffRole } from "@/lib/auth/roles"
+import { getMailTransport } from "@/lib/server/mail"
+import { issueCode } from "@/lib/server/otp-store"
+import { findUserByEmail, normalizeEmail } from "@/lib/server/user-store"
+
+// Applicant sign-in, step one: email a one-time passcode.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const parsed = z.email().safeParse(typeof body?.email === "string" ? body.email.trim() : "")
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Please enter a valid email address" }, { status: 400 })
+  }
+  const email = normalizeEmail(parsed.data)
+
+  // Staff accounts are protected by a password; a mailed code must not bypass it.
+  const existing = await findUserByEmail(email)
+  if (existing && isStaffRole(existing.role)) {
+    return NextResponse.json({ error: "Staff members sign in with their password at /login" }, { status: 409 })
+  }
+
+  const result = await issueCode(email)
+  if (!result.ok) {
+    const wait = result.retryAfterSeconds
+    const error =
+      wait > 60
+        ? `Too many codes have been sent to this address. Please try again in ${Math.ceil(wait / 60)} minutes`
+        : `Please wait ${wait} seconds before requesting another code`
+    return NextResponse.json({ error }, { status: 429, headers: { "retry-after": String(wait) } })
+  }
+
+  await getMailTransport().send({
+    to: email,
+    subject: "Your dog license sign-in code",
+    text: `Your sign-in code is ${result.code}. It expires in 10 minutes.\n\nIf you did not request this code you can ignore this email.`,
+  })
+  return NextResponse.json({ ok: true })
+}
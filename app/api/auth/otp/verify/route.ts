@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { isStaffRole } from "@/lib/auth/roles"
+import { startSession } from "@/lib/server/auth"
+import { verifyCode } from "@/lib/server/otp-store"
+import { createUser, findUserByEmail, normalizeEmail, toUser } from "@/lib/server/user-store"
+
+const FAILURE_MESSAGES = {
+  invalid: "That code is not correct",
+  expired: "That code has expired. Request a new one.",
+  locked: "Too many incorrect attempts. Request a new code.",
+} as const
+
+// Applicant sign-in, step two: exchange the code for a session. The first
+// successful sign-in creates the applicant account.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const email = typeof body?.email === "string" ? normalizeEmail(body.email) : ""
+  const code = typeof body?.code === "string" ? body.code.trim() : ""
+  if (!email || !/^\d{6}$/.test(code)) {
+    return NextResponse.json({ error: "Email and a 6-digit code are required" }, { status: 400 })
+  }
+
+  const result = await verifyCode(email, code)
+  if (!result.ok) {
+    return NextResponse.json({ error: FAILURE_MESSAGES[result.reason] }, { status: 401 })
+  }
+
+  const existing = await findUserByEmail(email)
+  if (existing && isStaffRole(existing.role)) {
+    return NextResponse.json({ error: "Staff members sign in with their password at /login" }, { status: 409 })
+  }
+  const user = existing ? toUser(existing) : await createUser({ email, name: "", role: "applicant" })
+
+  await startSession(user)
+  return NextResponse.json({ user })
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { ROLE_PERMISSIONS } from "@/lib/auth/roles"
+import { getSession } from "@/lib/server/auth"
+
+// Lets client components decide what to show. Never relied on for access
+// control; middleware and the handlers themselves do that.
+export async function GET() {
+  const session = await getSession()
+  if (!session) return NextResponse.json({ user: null })
+  return NextResponse.json({
+    user: {
+      id: session.sub,
+      email: session.email,
+      name: session.name,
+      role: session.role,
+      permissions: ROLE_PERMISSIONS[session.role],
+    },
+  })
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { MAX_CERTIFICATE_SIZE } from "@/lib/dog-license-schema"
+import { readCertificateFields } from "@/lib/server/documents"
+
+// Multipart body with a single "file". Nothing is stored; applicants use this to
+// pre-fill the vaccination step, and the certificate is read again on submit.
+// Responds with { fields }, empty when nothing could be read.
+export async function POST(request: Request) {
+  const body = await request.formData().catch(() => null)
+  const file = body?.get("file")
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Attach a certificate file" }, { status: 400 })
+  }
+  if (file.size > MAX_CERTIFICATE_SIZE) {
+    return NextResponse.json({ error: "File size must be less than 5MB" }, { status: 413 })
+  }
+
+  const contents = new Uint8Array(await file.arrayBuffer())
+  return NextResponse.json({ fields: readCertificateFields(contents) ?? {} })
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { publicApplicationView } from "@/lib/applications"
+import { completePaymentChallenge, PAYMENT_ERROR_STATUS } from "@/lib/server/payment-store"
+
+// Answers the card issuer's verification challenge for a pending payment.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  const response = typeof body?.response === "string" ? body.response : ""
+  if (!response.trim()) {
+    return NextResponse.json({ error: "Enter the verification code" }, { status: 400 })
+  }
+
+  const result = await completePaymentChallenge(id, response)
+  if (!result.ok) {
+    return NextResponse.json({ error: result.message }, { status: PAYMENT_ERROR_STATUS[result.code] })
+  }
+  return NextResponse.json({
+    transaction: result.transaction,
+    application: result.application ? publicApplicationView(result.application) : null,
+  })
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { actorName, authorize } from "@/lib/server/auth"
+import { PAYMENT_ERROR_STATUS, refundPayment } from "@/lib/server/payment-store"
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize("payments:refund")
+  if (!auth.ok) return auth.response
+
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  const result = await refundPayment(
+    id,
+    actorName(auth.session),
+    typeof body?.reason === "string" ? body.reason : undefined,
+  )
+  if (!result.ok) {
+    return NextResponse.json({ error: result.message }, { status: PAYMENT_ERROR_STATUS[result.code] })
+  }
+  return NextResponse.json({ transaction: result.transaction })
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { isPaymentStatus, type PaymentTransaction } from "@/lib/payments"
+import { authorize } from "@/lib/server/auth"
+import { listPayments } from "@/lib/server/payment-store"
+
+const CSV_COLUMNS: (keyof PaymentTransaction)[] = [
+  "id",
+  "createdAt",
+  "applicationId",
+  "receiptNumber",
+  "status",
+  "amount",
+  "currency",
+  "provider",
+  "providerRef",
+  "cardBrand",
+  "cardLast4",
+  "failureMessage",
+]
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? "" : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Query: status, from, to (YYYY-MM-DD), format=csv for a reconciliation export.
+export async function GET(request: Request) {
+  const auth = await authorize("payments:read")
+  if (!auth.ok) return auth.response
+
+  const params = new URL(request.url).searchParams
+  const status = params.get("status")
+  if (status !== null && !isPaymentStatus(status)) {
+    return NextResponse.json({ error: `Unknown status "${status}"` }, { status: 400 })
+  }
+
+  const payments = await listPayments({
+    status: status ?? undefined,
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+  })
+
+  if (params.get("format") === "csv") {
+    const rows = payments.map((payment) => CSV_COLUMNS.map((column) => csvCell(payment[column])).join(","))
+    return new NextResponse([CSV_COLUMNS.join(","), ...rows].join("\n") + "\n", {
+      headers: {
+        "content-type": "text/csv; charset=utf-8",
+        "content-disposition": 'attachment; filename="payments.csv"',
+      },
+    })
+  }
+  return NextResponse.json({ payments })
+}
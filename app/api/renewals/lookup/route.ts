@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { lookupRenewal, RENEWAL_ERROR_STATUS } from "@/lib/server/renewals"
+
+// Body: { tagNumber, contact } where contact is the owner's email or phone.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const tagNumber = typeof body?.tagNumber === "string" ? body.tagNumber.trim() : ""
+  const contact = typeof body?.contact === "string" ? body.contact.trim() : ""
+  if (!tagNumber || !contact) {
+    return NextResponse.json({ error: "Enter the tag number and the email or phone on the license" }, { status: 400 })
+  }
+
+  const result = await lookupRenewal(tagNumber, contact)
+  if (!result.ok) {
+    return NextResponse.json({ error: result.message }, { status: RENEWAL_ERROR_STATUS[result.code] })
+  }
+  return NextResponse.json({ renewal: result.candidate })
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { isRole } from "@/lib/auth/roles"
+import { authorize } from "@/lib/server/auth"
+import { updateUserRole } from "@/lib/server/user-store"
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await authorize("users:manage")
+  if (!auth.ok) return auth.response
+
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  if (!isRole(body?.role)) {
+    return NextResponse.json({ error: "A valid role is required" }, { status: 400 })
+  }
+  if (id === auth.session.sub && body.role !== "admin") {
+    return NextResponse.json({ error: "You cannot remove your own administrator role" }, { status: 409 })
+  }
+
+  const user = await updateUserRole(id, body.role)
+  if (!user) {
+    return NextResponse.json({ error: `User ${id} not found` }, { status: 404 })
+  }
+  return NextResponse.json({ user })
+}
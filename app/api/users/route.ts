@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import { isRole } from "@/lib/auth/roles"
+import { authorize } from "@/lib/server/auth"
+import { createUser, findUserByEmail, listUsers } from "@/lib/server/user-store"
+
+const MIN_PASSWORD_LENGTH = 12
+
+export async function GET() {
+  const auth = await authorize("users:manage")
+  if (!auth.ok) return auth.response
+
+  return NextResponse.json({ users: await listUsers() })
+}
+
+export async function POST(request: Request) {
+  const auth = await authorize("users:manage")
+  if (!auth.ok) return auth.response
+
+  const body = await request.json().catch(() => null)
+  const email = typeof body?.email === "string" ? body.email.trim() : ""
+  const name = typeof body?.name === "string" ? body.name.trim() : ""
+  const password = typeof body?.password === "string" ? body.password : ""
+  if (!email.includes("@") || !name || !isRole(body?.role)) {
+    return NextResponse.json({ error: "Name, email and a valid role are required" }, { status: 400 })
+  }
+  if (body.role !== "applicant" && password.length < MIN_PASSWORD_LENGTH) {
+    return NextResponse.json(
+      { error: `Staff passwords must be at least ${MIN_PASSWORD_LENGTH} characters` },
+      { status: 400 },
+    )
+  }
+  if (await findUserByEmail(email)) {
+    return NextResponse.json({ error: `A user with email ${email} already exists` }, { status: 409 })
+  }
+
+  const user = await createUser({ email, name, role: body.role, password: password || undefined })
+  return NextResponse.json({ user }, { status: 201 })
+}
@@ -0,0 +1,22 @@
+import Link from "next/link";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "../../components/ui/button";
+
+export default function Forbidden() {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-12">
+      <div className="max-w-md mx-auto px-4 text-center">
+        <div className="w-16 h-16 bg-red-100 dark:bg-red-900 rounded-full flex items-center justify-center mx-auto mb-4">
+          <ShieldAlert className="w-8 h-8 text-red-600 dark:text-red-400" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Access denied</h1>
+        <p className="text-gray-600 dark:text-gray-300 mb-6">
+          Your account does not have permission to view that page. Ask an administrator if you need access.
+        </p>
+        <Button asChild variant="outline">
+          <Link href="/">Back to home</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
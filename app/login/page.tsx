@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { LogIn } from "lucide-react";
+import { Button } from "../../components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../components/ui/card";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import { signIn } from "../../lib/auth-client";
+
+// Only same-site paths are honored so the login page can't be used as an
+// open redirect.
+function safeNextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/admin/applications";
+}
+
+export default function StaffLogin() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      await signIn(email, password);
+      window.location.href = safeNextPath();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-12">
+      <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8">
+        <Card className="shadow-lg border-0 bg-white dark:bg-gray-800">
+          <CardHeader className="text-center">
+            <CardTitle className="text-xl text-gray-900 dark:text-white">Staff Sign In</CardTitle>
+            <CardDescription className="text-gray-600 dark:text-gray-300">
+              For clerks, supervisors, animal control officers and administrators
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  autoComplete="username"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                <LogIn className="w-4 h-4 mr-2" />
+                {isLoading ? "Signing in..." : "Sign In"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -3,116 +3,219 @@
 import React from "react"
 
 import { useState, useEffect } from "react"
-import { useForm } from "react-hook-form"
+import { useFieldArray, useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { z } from "zod"
 import { toast } from "sonner"
+import AddressFields from "@/components/AddressFields"
+import CertificateFieldsSummary from "@/components/CertificateFieldsSummary"
+import DogBreedFields from "@/components/DogBreedFields"
+import DogColorFields from "@/components/DogColorFields"
+import DogPhotoField, { DogPhotoPreview } from "@/components/DogPhotoField"
+import DogProfileFields from "@/components/DogProfileFields"
+import FeeSummary from "@/components/FeeSummary"
+import PaymentForm from "@/components/PaymentForm"
+import RabiesExemptionFields, { RabiesStatusField } from "@/components/RabiesExemptionFields"
+import RabiesVaccinationFields from "@/components/RabiesVaccinationFields"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Progress } from "@/components/ui/progress"
-import { ChevronLeft, ChevronRight, FileText, User, Dog, Syringe } from "lucide-react"
-import { sanitizeUSPhone, coerceDate, isWithinYears, parseNumberSafe, isPositiveNumber } from "@/lib/utils"
-
-const createDogLicenseSchema = () => {
-  const baseSchema = {
-    ownerName: z
-      .string()
-      .min(2, "Owner name must be at least 2 characters")
-      .max(100, "Owner name must be less than 100 characters"),
-
-    ownerAddress: z
-      .string()
-      .min(10, "Please provide a complete address")
-      .max(200, "Address must be less than 200 characters"),
-
-    ownerPhone: z.string().refine((val) => {
-      const result = sanitizeUSPhone(val)
-      return result.ok
-    }, "Please enter a valid US phone number"),
-
-    dogName: z.string().min(1, "Dog name is required").max(50, "Dog name must be less than 50 characters"),
-
-    dogBreed: z.string().min(1, "Dog breed is required").max(50, "Dog breed must be less than 50 characters"),
-
-    dogAge: z.string().refine((val) => {
-      const num = parseNumberSafe(val)
-      return num !== null && isPositiveNumber(num) && num <= 30
-    }, "Dog age must be a positive number (max 30 years)"),
-
-    dogColor: z.string().min(1, "Dog color is required").max(30, "Dog color must be less than 30 characters"),
-
-    lastRabiesShotDate: z
-      .string()
-      .refine((val) => {
-        const date = coerceDate(val)
-        return date !== null
-      }, "Please enter a valid date")
-      .refine((val) => {
-        const date = coerceDate(val)
-        return date && isWithinYears(date, 3)
-      }, "Rabies vaccination must be within the last 3 years"),
-  }
-
-  // Only add FileList validation on client side
-  if (typeof window !== "undefined" && typeof FileList !== "undefined") {
-    return z.object({
-      ...baseSchema,
-      vaccinationCertificate: z
-        .instanceof(FileList)
-        .refine((files) => files.length > 0, "Vaccination certificate is required")
-        .refine((files) => {
-          const file = files[0]
-          return file && file.size <= 5 * 1024 * 1024 // 5MB limit
-        }, "File size must be less than 5MB")
-        .refine((files) => {
-          const file = files[0]
-          const allowedTypes = ["application/pdf", "image/jpeg", "image/png", "image/jpg"]
-          return file && allowedTypes.includes(file.type)
-        }, "File must be PDF, JPEG, or PNG format"),
-    })
-  } else {
-    // Server-side fallback - use any() for file field
-    return z.object({
-      ...baseSchema,
-      vaccinationCertificate: z.any().optional(),
-    })
-  }
-}
-
-type DogLicenseFormData = z.infer<ReturnType<typeof createDogLicenseSchema>>
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { ChevronLeft, ChevronRight, CreditCard, FileText, Plus, Trash2, User, Dog, Syringe } from "lucide-react"
+import { useCertificateReading } from "@/hooks/use-certificate-reading"
+import { useSession } from "@/hooks/use-session"
+import { useZipCheck } from "@/hooks/use-zip-check"
+import { formatAddress, parseAddress } from "@/lib/address"
+import { ApplicationValidationError, submitApplication } from "@/lib/application-api"
+import type { DogLicenseApplication } from "@/lib/applications"
+import { describeBreed, isBreedCode, parseBreedText } from "@/lib/dog-breeds"
+import { describeCoat, isCoatColor, isCoatPattern, parseColorText } from "@/lib/dog-colors"
+import { describeAge, describeWeight, DOG_SEX_LABELS } from "@/lib/dog-profile"
+import {
+  dogLicenseSchema,
+  MAX_DOGS_PER_APPLICATION,
+  quoteDog,
+  quoteForForm,
+  toBreedCodes,
+  toCoatColors,
+  toDogAge,
+  toDogWeight,
+  toRabiesShot,
+  type DogEntryFormData,
+  type DogLicenseField,
+  type DogLicenseFormData,
+} from "@/lib/dog-license-schema"
+import { DEFAULT_FEE_SCHEDULE, LICENSE_TERMS, LICENSE_TERM_LABELS } from "@/lib/fee-schedule"
+import { describeMicrochip } from "@/lib/microchips"
+import { describeRabiesShot, rabiesAcceptedThrough } from "@/lib/rabies-vaccination"
+import { formatCents, formatDate } from "@/lib/utils"
 
 const STEPS = [
   { id: 1, title: "Owner Information", icon: User, description: "Your personal details" },
-  { id: 2, title: "Dog Information", icon: Dog, description: "About your dog" },
+  { id: 2, title: "Dog Information", icon: Dog, description: "About your dogs" },
   { id: 3, title: "Vaccination Records", icon: Syringe, description: "Health documentation" },
   { id: 4, title: "Review & Submit", icon: FileText, description: "Confirm your application" },
+  { id: 5, title: "Payment", icon: CreditCard, description: "Pay the license fee" },
 ]
 
+const REVIEW_STEP = 4
+const PAYMENT_STEP = 5
+
+const DOG_FIELDS = [
+  "name",
+  "breed",
+  "secondaryBreed",
+  "color",
+  "secondaryColor",
+  "coatPattern",
+  "sex",
+  "ageSource",
+  "birthDate",
+  "age",
+  "weight",
+  "spayedNeutered",
+  "spayNeuterCertificate",
+  "markings",
+  "microchipNumber",
+  "photo",
+] as const
+const VACCINATION_FIELDS = [
+  "rabiesStatus",
+  "lastRabiesShotDate",
+  "rabiesVaccineDuration",
+  "firstRabiesShot",
+  "ageAtVaccination",
+  "vaccinationCertificate",
+  "exemptionLetter",
+  "exemptionExpiresOn",
+  "vetLicenseNumber",
+] as const
+
+// Files and the radio choices are left undefined until picked.
+const EMPTY_DOG = {
+  name: "",
+  breed: "",
+  secondaryBreed: "",
+  ageSource: "birthDate",
+  birthDate: "",
+  age: "",
+  color: "",
+  secondaryColor: "",
+  coatPattern: "",
+  weight: "",
+  markings: "",
+  microchipNumber: "",
+  rabiesStatus: "vaccinated",
+  lastRabiesShotDate: "",
+  ageAtVaccination: "",
+  exemptionExpiresOn: "",
+  vetLicenseNumber: "",
+} as DogEntryFormData
+
+// Saved progress from before multiple dogs kept the one dog in flat fields,
+// from before addresses were split kept the address on one line, and from
+// before the breed catalog and color vocabulary kept the breed and color as
+// free text.
+function restoreSavedForm(saved: Record<string, unknown>): Partial<DogLicenseFormData> {
+  const { ownerAddress, ...current } = saved
+  if (typeof ownerAddress === "string" && current.ownerStreet === undefined) {
+    const address = parseAddress(ownerAddress)
+    Object.assign(current, {
+      ownerStreet: address.street,
+      ownerCity: address.city,
+      ownerState: address.state,
+      ownerZip: address.zip,
+    })
+  }
+  return restoreSavedDogs(current)
+}
+
+function restoreSavedDogs(saved: Record<string, unknown>): Partial<DogLicenseFormData> {
+  // Fields added since the progress was saved start out empty.
+  if (Array.isArray(saved.dogs)) {
+    return {
+      ...saved,
+      dogs: saved.dogs.map((dog) => ({
+        ...EMPTY_DOG,
+        ...dog,
+        ...restoreSavedBreed(dog.breed, dog.secondaryBreed),
+        ...restoreSavedColor(dog.color, dog.secondaryColor, dog.coatPattern),
+      })),
+    } as Partial<DogLicenseFormData>
+  }
+  const { dogName, dogBreed, dogAge, dogColor, dogSpayedNeutered, lastRabiesShotDate, ...rest } = saved
+  return {
+    ...rest,
+    dogs: [
+      {
+        ...EMPTY_DOG,
+        name: String(dogName ?? ""),
+        ...restoreSavedBreed(dogBreed),
+        ageSource: "approximate",
+        age: String(dogAge ?? ""),
+        ...restoreSavedColor(dogColor),
+        spayedNeutered: dogSpayedNeutered as DogEntryFormData["spayedNeutered"],
+        lastRabiesShotDate: String(lastRabiesShotDate ?? ""),
+      },
+    ],
+  }
+}
+
+function restoreSavedBreed(breed: unknown, secondaryBreed?: unknown): Pick<DogEntryFormData, "breed" | "secondaryBreed"> {
+  if (isBreedCode(breed)) return { breed, secondaryBreed: isBreedCode(secondaryBreed) ? secondaryBreed : "" }
+  if (typeof breed !== "string" || !breed.trim()) return { breed: "", secondaryBreed: "" }
+  const codes = parseBreedText(breed)
+  return { breed: codes.primary, secondaryBreed: codes.secondary ?? "" }
+}
+
+function restoreSavedColor(
+  color: unknown,
+  secondaryColor?: unknown,
+  coatPattern?: unknown,
+): Pick<DogEntryFormData, "color" | "secondaryColor" | "coatPattern"> {
+  if (isCoatColor(color)) {
+    return {
+      color,
+      secondaryColor: isCoatColor(secondaryColor) ? secondaryColor : "",
+      coatPattern: isCoatPattern(coatPattern) ? coatPattern : "",
+    }
+  }
+  if (typeof color !== "string" || !color.trim()) return { color: "", secondaryColor: "", coatPattern: "" }
+  const coat = parseColorText(color)
+  return { color: coat.primary, secondaryColor: coat.secondary ?? "", coatPattern: coat.pattern ?? "" }
+}
+
 export default function NewApplication() {
   const [currentStep, setCurrentStep] = useState(1)
   const [isClient, setIsClient] = useState(false)
-  const [dogLicenseSchema, setDogLicenseSchema] = useState(() => createDogLicenseSchema())
+  // The saved, unpaid application once step 4 has been submitted.
+  const [draft, setDraft] = useState<DogLicenseApplication | null>(null)
+  const { user } = useSession()
 
   const form = useForm<DogLicenseFormData>({
     resolver: zodResolver(dogLicenseSchema),
     defaultValues: {
       ownerName: "",
-      ownerAddress: "",
+      ownerEmail: "",
+      ownerStreet: "",
+      ownerUnit: "",
+      ownerCity: "",
+      ownerState: "",
+      ownerZip: "",
       ownerPhone: "",
-      dogName: "",
-      dogBreed: "",
-      dogAge: "",
-      dogColor: "",
-      lastRabiesShotDate: "",
+      ownerDiscount: "none",
+      dogs: [EMPTY_DOG],
+      licenseTerm: "1",
     },
     mode: "onChange",
   })
+  const dogs = useFieldArray({ control: form.control, name: "dogs" })
+  const zipCheck = useZipCheck(form)
+  const certificates = useCertificateReading(form)
 
   useEffect(() => {
     setIsClient(true)
-    setDogLicenseSchema(createDogLicenseSchema())
   }, [])
 
   useEffect(() => {
@@ -127,8 +230,8 @@ export default function NewApplication() {
       if (savedData) {
         try {
           const parsedData = JSON.parse(savedData)
-          form.reset(parsedData)
-          toast.info("Previous form data restored")
+          form.reset(restoreSavedForm(parsedData))
+          toast.info("Previous form data restored. Please re-attach vaccination certificates.")
         } catch (error) {
           console.error("Error loading saved form data:", error)
         }
@@ -136,61 +239,90 @@ export default function NewApplication() {
     }
   }, [isClient, form])
 
+  // Signed-in applicants see their applications by email, so default to it.
+  useEffect(() => {
+    if (user?.role === "applicant" && !form.getValues("ownerEmail")) {
+      form.setValue("ownerEmail", user.email)
+    }
+  }, [user, form])
+
   const watchedValues = form.watch()
   useEffect(() => {
-    if (isClient) {
-      const dataToSave = { ...watchedValues }
-      delete dataToSave.vaccinationCertificate // Don't save file data
+    if (isClient && !draft) {
+      // Don't save file data
+      const dataToSave = {
+        ...watchedValues,
+        dogs: watchedValues.dogs.map((dog) => ({
+          ...dog,
+          vaccinationCertificate: undefined,
+          exemptionLetter: undefined,
+          spayNeuterCertificate: undefined,
+          photo: undefined,
+        })),
+      }
       localStorage.setItem("dogLicenseFormData", JSON.stringify(dataToSave))
     }
-  }, [watchedValues, isClient])
-
-  const generateApplicationId = (): string => {
-    const timestamp = Date.now()
-    const random = Math.floor(Math.random() * 10000)
-    return `DOG-${timestamp}-${random}`
-  }
+  }, [watchedValues, isClient, draft])
 
   const onSubmit = async (data: DogLicenseFormData) => {
     if (!isClient) return
 
     try {
-      const applicationId = generateApplicationId()
+      const application = await submitApplication(data)
 
-      const applicationData = {
-        id: applicationId,
-        ...data,
-        submittedAt: new Date().toISOString(),
-        status: "submitted",
-      }
-
-      // Save to applications list
-      const existingApps = JSON.parse(localStorage.getItem("dogLicenseApplications") || "[]")
-      existingApps.push(applicationData)
-      localStorage.setItem("dogLicenseApplications", JSON.stringify(existingApps))
-
-      // Clear form data
+      // The application is saved server-side now; the local copy is no longer needed
       localStorage.removeItem("dogLicenseFormData")
 
-      toast.success(`Application submitted successfully! Your application ID is: ${applicationId}`)
-
-      // Reset form and redirect to tracking page
-      form.reset()
-      setCurrentStep(1)
-
-      setTimeout(() => {
-        window.location.href = `/track-application?id=${applicationId}`
-      }, 2000)
+      setDraft(application)
+      setCurrentStep(PAYMENT_STEP)
     } catch (error) {
+      if (error instanceof ApplicationValidationError) {
+        showServerErrors(error)
+        return
+      }
       console.error("Error submitting application:", error)
       toast.error("Failed to submit application. Please try again.")
     }
   }
 
+  const onPaid = (application: DogLicenseApplication) => {
+    toast.success(
+      `Payment received (receipt ${application.payment?.receiptNumber}). Your application ID is: ${application.id}`,
+    )
+
+    // Reset form and redirect to tracking page
+    form.reset()
+    setCurrentStep(1)
+
+    setTimeout(() => {
+      window.location.href = `/track-application?id=${application.id}`
+    }, 2000)
+  }
+
+  // Surface server-side validation messages on their fields and jump back to
+  // the first step that has one.
+  const showServerErrors = (error: ApplicationValidationError) => {
+    const fields = Object.keys(error.fieldErrors) as DogLicenseField[]
+    fields.forEach((field) => {
+      const message = error.fieldErrors[field]?.[0]
+      if (message) form.setError(field, { type: "server", message })
+    })
+
+    const firstStep = STEPS.find((step) => getFieldsForStep(step.id).some((field) => fields.includes(field)))
+    if (firstStep) setCurrentStep(firstStep.id)
+    toast.error(error.message)
+  }
+
   const nextStep = async () => {
     const fieldsToValidate = getFieldsForStep(currentStep)
     const isValid = await form.trigger(fieldsToValidate)
 
+    // The address has to agree with its ZIP code before leaving the owner step.
+    if (isValid && currentStep === 1 && !(await zipCheck.check())) {
+      toast.error("Please confirm your address before continuing")
+      return
+    }
+
     if (isValid) {
       setCurrentStep((prev) => Math.min(prev + 1, STEPS.length))
     } else {
@@ -202,14 +334,26 @@ export default function NewApplication() {
     setCurrentStep((prev) => Math.max(prev - 1, 1))
   }
 
-  const getFieldsForStep = (step: number): (keyof DogLicenseFormData)[] => {
+  const getFieldsForStep = (step: number): DogLicenseField[] => {
     switch (step) {
       case 1:
-        return ["ownerName", "ownerAddress", "ownerPhone"]
+        return [
+          "ownerName",
+          "ownerEmail",
+          "ownerStreet",
+          "ownerUnit",
+          "ownerCity",
+          "ownerState",
+          "ownerZip",
+          "ownerPhone",
+          "ownerDiscount",
+        ]
       case 2:
-        return ["dogName", "dogBreed", "dogAge", "dogColor"]
+        return dogs.fields.flatMap((_, index) => DOG_FIELDS.map((field) => `dogs.${index}.${field}` as const))
       case 3:
-        return ["lastRabiesShotDate", "vaccinationCertificate"]
+        return dogs.fields.flatMap((_, index) => VACCINATION_FIELDS.map((field) => `dogs.${index}.${field}` as const))
+      case REVIEW_STEP:
+        return ["licenseTerm"]
       default:
         return []
     }
@@ -318,19 +462,21 @@ export default function NewApplication() {
 
                     <FormField
                       control={form.control}
-                      name="ownerAddress"
+                      name="ownerEmail"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Residential Address *</FormLabel>
+                          <FormLabel>Email Address *</FormLabel>
                           <FormControl>
-                            <Input placeholder="Enter your complete address" {...field} />
+                            <Input type="email" placeholder="you@example.com" {...field} />
                           </FormControl>
-                          <FormDescription>Include street address, city, state, and ZIP code</FormDescription>
+                          <FormDescription>Sign in with this email to see all your applications and licenses</FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
 
+                    <AddressFields form={form} zipCheck={zipCheck} />
+
                     <FormField
                       control={form.control}
                       name="ownerPhone"
@@ -345,118 +491,169 @@ export default function NewApplication() {
                         </FormItem>
                       )}
                     />
-                  </div>
-                )}
-
-                {/* Step 2: Dog Information */}
-                {currentStep === 2 && (
-                  <div className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="dogName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Dog's Name *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Enter your dog's name" {...field} />
-                          </FormControl>
-                          <FormDescription>The name you use to call your dog</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="dogBreed"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Breed *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., Golden Retriever, Mixed Breed" {...field} />
-                          </FormControl>
-                          <FormDescription>Primary breed or "Mixed Breed" if unknown</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
 
                     <FormField
                       control={form.control}
-                      name="dogAge"
+                      name="ownerDiscount"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Age (in years) *</FormLabel>
+                          <FormLabel>Fee Discount</FormLabel>
                           <FormControl>
-                            <Input type="number" placeholder="e.g., 3" min="0" max="30" {...field} />
+                            <RadioGroup value={field.value} onValueChange={field.onChange} className="gap-2">
+                              <FormItem className="flex items-center gap-2">
+                                <FormControl>
+                                  <RadioGroupItem value="none" />
+                                </FormControl>
+                                <FormLabel className="font-normal">No discount</FormLabel>
+                              </FormItem>
+                              {Object.entries(DEFAULT_FEE_SCHEDULE.discounts).map(([key, discount]) => (
+                                <FormItem key={key} className="flex items-center gap-2">
+                                  <FormControl>
+                                    <RadioGroupItem value={key} />
+                                  </FormControl>
+                                  <FormLabel className="font-normal">
+                                    {discount.label} ({discount.percent}% off)
+                                  </FormLabel>
+                                </FormItem>
+                              ))}
+                            </RadioGroup>
                           </FormControl>
-                          <FormDescription>Your dog's age in years (approximate is fine)</FormDescription>
+                          <FormDescription>Proof of eligibility may be requested before the license is issued</FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
+                  </div>
+                )}
 
-                    <FormField
-                      control={form.control}
-                      name="dogColor"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Primary Color *</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., Brown, Black, Golden" {...field} />
-                          </FormControl>
-                          <FormDescription>Main color of your dog's coat</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                {/* Step 2: Dog Information */}
+                {currentStep === 2 && (
+                  <div className="space-y-6">
+                    {dogs.fields.map((dogField, index) => (
+                      <div key={dogField.id} className="space-y-4">
+                        {dogs.fields.length > 1 && (
+                          <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-700 pb-2">
+                            <h3 className="font-semibold">Dog {index + 1}</h3>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => dogs.remove(index)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <Trash2 className="w-4 h-4 mr-1" />
+                              Remove
+                            </Button>
+                          </div>
+                        )}
+
+                        <FormField
+                          control={form.control}
+                          name={`dogs.${index}.name`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Dog's Name *</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Enter your dog's name" {...field} />
+                              </FormControl>
+                              <FormDescription>The name you use to call your dog</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <DogBreedFields form={form} index={index} />
+
+                        <DogColorFields form={form} index={index} />
+
+                        <DogProfileFields form={form} index={index} />
+
+                        <DogPhotoField form={form} index={index} />
+                      </div>
+                    ))}
+
+                    {dogs.fields.length < MAX_DOGS_PER_APPLICATION && (
+                      <Button type="button" variant="outline" onClick={() => dogs.append(EMPTY_DOG)} className="w-full">
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add another dog
+                      </Button>
+                    )}
                   </div>
                 )}
 
                 {/* Step 3: Vaccination Records */}
                 {currentStep === 3 && (
-                  <div className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="lastRabiesShotDate"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Last Rabies Vaccination Date *</FormLabel>
-                          <FormControl>
-                            <Input type="date" {...field} />
-                          </FormControl>
-                          <FormDescription>Must be within the last 3 years</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="vaccinationCertificate"
-                      render={({ field: { onChange, value, ...field } }) => (
-                        <FormItem>
-                          <FormLabel>Vaccination Certificate *</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="file"
-                              accept=".pdf,.jpg,.jpeg,.png"
-                              onChange={(e) => onChange(e.target.files)}
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormDescription>
-                            Upload PDF or image file (max 5MB). Must show current rabies vaccination.
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                  <div className="space-y-6">
+                    {dogs.fields.map((dogField, index) => {
+                      const reading = certificates.readings[dogField.id]
+                      return (
+                        <div key={dogField.id} className="space-y-4">
+                          {dogs.fields.length > 1 && (
+                            <h3 className="font-semibold border-b border-gray-200 dark:border-gray-700 pb-2">
+                              {watchedValues.dogs[index]?.name || `Dog ${index + 1}`}
+                            </h3>
+                          )}
+
+                          <RabiesStatusField form={form} index={index} />
+
+                          {watchedValues.dogs[index]?.rabiesStatus === "exempt" ? (
+                            <RabiesExemptionFields form={form} index={index} />
+                          ) : (
+                            <>
+                              <RabiesVaccinationFields form={form} index={index} />
+
+                              <FormField
+                                control={form.control}
+                                name={`dogs.${index}.vaccinationCertificate`}
+                                render={({ field: { onChange, value, ...field } }) => (
+                                  <FormItem>
+                                    <FormLabel>Vaccination Certificate *</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="file"
+                                        accept=".pdf,.jpg,.jpeg,.png"
+                                        onChange={(e) => {
+                                          const file = e.target.files?.[0]
+                                          onChange(file)
+                                          void certificates.read(dogField.id, index, file)
+                                        }}
+                                        {...field}
+                                      />
+                                    </FormControl>
+                                    <FormDescription>
+                                      Upload PDF or image file (max 5MB). Must show current rabies vaccination. Details
+                                      are read from PDF certificates where possible.
+                                    </FormDescription>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              {reading?.status === "reading" && (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Reading certificate…</p>
+                              )}
+                              {reading?.status === "unreadable" && (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">
+                                  We couldn&apos;t read this certificate. Please check the date above yourself.
+                                </p>
+                              )}
+                              {reading?.status === "read" && (
+                                <CertificateFieldsSummary
+                                  fields={reading.fields}
+                                  entered={toRabiesShot(watchedValues.dogs[index])}
+                                  onUseCertificateDate={() => certificates.applyDate(dogField.id, index)}
+                                />
+                              )}
+                            </>
+                          )}
+                        </div>
+                      )
+                    })}
                   </div>
                 )}
 
                 {/* Step 4: Review & Submit */}
-                {currentStep === 4 && (
+                {currentStep === REVIEW_STEP && (
                   <div className="space-y-6">
                     <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
                       <h3 className="font-semibold mb-4">Review Your Application</h3>
@@ -469,62 +666,166 @@ export default function NewApplication() {
                           <strong>Phone:</strong> {form.getValues("ownerPhone")}
                         </div>
                         <div className="md:col-span-2">
-                          <strong>Address:</strong> {form.getValues("ownerAddress")}
-                        </div>
-                        <div>
-                          <strong>Dog Name:</strong> {form.getValues("dogName")}
-                        </div>
-                        <div>
-                          <strong>Breed:</strong> {form.getValues("dogBreed")}
-                        </div>
-                        <div>
-                          <strong>Age:</strong> {form.getValues("dogAge")} years
-                        </div>
-                        <div>
-                          <strong>Color:</strong> {form.getValues("dogColor")}
+                          <strong>Email:</strong> {form.getValues("ownerEmail")}
                         </div>
                         <div className="md:col-span-2">
-                          <strong>Last Rabies Shot:</strong> {form.getValues("lastRabiesShotDate")}
+                          <strong>Address:</strong>{" "}
+                          {formatAddress({
+                            street: form.getValues("ownerStreet"),
+                            unit: form.getValues("ownerUnit"),
+                            city: form.getValues("ownerCity"),
+                            state: form.getValues("ownerState"),
+                            zip: form.getValues("ownerZip"),
+                          })}
                         </div>
                       </div>
+
+                      {form.getValues("dogs").map((dog, index) => (
+                        <div
+                          key={index}
+                          className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm mt-4 pt-4 border-t border-gray-200 dark:border-gray-600"
+                        >
+                          {dog.photo && (
+                            <div className="md:col-span-2">
+                              <DogPhotoPreview photo={dog.photo} />
+                            </div>
+                          )}
+                          <div>
+                            <strong>Dog Name:</strong> {dog.name}
+                          </div>
+                          <div>
+                            <strong>Breed:</strong> {dog.breed && describeBreed(toBreedCodes(dog))}
+                          </div>
+                          <div>
+                            <strong>Sex:</strong> {dog.sex && DOG_SEX_LABELS[dog.sex]}
+                          </div>
+                          <div>
+                            <strong>Age:</strong> {describeAge(toDogAge(dog))}
+                          </div>
+                          <div>
+                            <strong>Color:</strong> {dog.color && describeCoat(toCoatColors(dog))}
+                          </div>
+                          <div>
+                            <strong>Weight:</strong> {describeWeight(toDogWeight(dog).weightLbs)}
+                          </div>
+                          <div>
+                            <strong>Spayed/Neutered:</strong> {dog.spayedNeutered === "yes" ? "Yes" : "No"}
+                            {dog.spayedNeutered === "yes" && dog.spayNeuterCertificate && " (certificate attached)"}
+                          </div>
+                          {dog.microchipNumber && (
+                            <div>
+                              <strong>Microchip:</strong> {describeMicrochip(dog.microchipNumber)}
+                            </div>
+                          )}
+                          {dog.markings && (
+                            <div className="md:col-span-2">
+                              <strong>Distinguishing Marks:</strong> {dog.markings}
+                            </div>
+                          )}
+                          {dog.rabiesStatus === "exempt" ? (
+                            <>
+                              <div>
+                                <strong>Rabies:</strong> Medical exemption until {formatDate(dog.exemptionExpiresOn ?? "")}
+                              </div>
+                              <div>
+                                <strong>Vet License:</strong> {dog.vetLicenseNumber}
+                              </div>
+                            </>
+                          ) : (
+                            <>
+                              <div>
+                                <strong>Last Rabies Shot:</strong> {dog.lastRabiesShotDate}
+                              </div>
+                              <div>
+                                <strong>Vaccine:</strong> {describeRabiesShot(toRabiesShot(dog))}
+                              </div>
+                              <div>
+                                <strong>Accepted Through:</strong> {rabiesAcceptedThrough(toRabiesShot(dog))}
+                              </div>
+                            </>
+                          )}
+                          <div className="md:col-span-2">
+                            <strong>License Fee:</strong> {formatCents(quoteDog(watchedValues, dog).total)}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+
+                    <FormField
+                      control={form.control}
+                      name="licenseTerm"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>License Term *</FormLabel>
+                          <FormControl>
+                            <RadioGroup value={field.value} onValueChange={field.onChange} className="gap-2">
+                              {LICENSE_TERMS.map((term) => (
+                                <FormItem key={term} className="flex items-center gap-2">
+                                  <FormControl>
+                                    <RadioGroupItem value={String(term)} />
+                                  </FormControl>
+                                  <FormLabel className="font-normal">
+                                    {LICENSE_TERM_LABELS[term]} —{" "}
+                                    {formatCents(quoteForForm({ ...watchedValues, licenseTerm: String(term) as DogLicenseFormData["licenseTerm"] }).total)}
+                                  </FormLabel>
+                                </FormItem>
+                              ))}
+                            </RadioGroup>
+                          </FormControl>
+                          <FormDescription>
+                            Longer terms cost less per year. A license ends early if the rabies vaccination expires first.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
+                      <h3 className="font-semibold mb-4">Fees</h3>
+                      <FeeSummary quote={quoteForForm(watchedValues)} totalLabel="Total due" />
                     </div>
 
                     <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
                       <p className="text-sm text-blue-800 dark:text-blue-200">
                         By submitting this application, you confirm that all information provided is accurate and
-                        complete. You will receive an application ID for tracking purposes.
+                        complete. Your application is sent for review once the fee has been paid.
                       </p>
                     </div>
                   </div>
                 )}
 
                 {/* Navigation Buttons */}
-                <div className="flex justify-between pt-6">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={prevStep}
-                    disabled={currentStep === 1}
-                    className="flex items-center gap-2 bg-transparent"
-                  >
-                    <ChevronLeft className="w-4 h-4" />
-                    Previous
-                  </Button>
-
-                  {currentStep < STEPS.length ? (
-                    <Button type="button" onClick={nextStep} className="flex items-center gap-2">
-                      Next
-                      <ChevronRight className="w-4 h-4" />
+                {currentStep < PAYMENT_STEP && (
+                  <div className="flex justify-between pt-6">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={prevStep}
+                      disabled={currentStep === 1}
+                      className="flex items-center gap-2 bg-transparent"
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                      Previous
                     </Button>
-                  ) : (
-                    <Button type="submit" className="flex items-center gap-2" disabled={form.formState.isSubmitting}>
-                      {form.formState.isSubmitting ? "Submitting..." : "Submit Application"}
-                      <FileText className="w-4 h-4" />
-                    </Button>
-                  )}
-                </div>
+
+                    {currentStep < REVIEW_STEP ? (
+                      <Button type="button" onClick={nextStep} className="flex items-center gap-2">
+                        Next
+                        <ChevronRight className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button type="submit" className="flex items-center gap-2" disabled={form.formState.isSubmitting}>
+                        {form.formState.isSubmitting ? "Submitting..." : "Continue to Payment"}
+                        <CreditCard className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                )}
               </form>
             </Form>
+
+            {/* Step 5: Payment */}
+            {currentStep === PAYMENT_STEP && draft && <PaymentForm application={draft} onPaid={onPaid} />}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,617 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm, type Control } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { BadgeCheck, ChevronLeft, ChevronRight, CreditCard, Dog, RefreshCw, Search, Syringe, User } from "lucide-react";
+import AddressFields from "../../components/AddressFields";
+import CertificateFieldsSummary from "../../components/CertificateFieldsSummary";
+import DogBreedFields from "../../components/DogBreedFields";
+import DogColorFields from "../../components/DogColorFields";
+import DogProfileFields from "../../components/DogProfileFields";
+import FeeSummary from "../../components/FeeSummary";
+import PaymentForm from "../../components/PaymentForm";
+import RabiesExemptionFields, { RabiesStatusField } from "../../components/RabiesExemptionFields";
+import RabiesVaccinationFields from "../../components/RabiesVaccinationFields";
+import { Button } from "../../components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "../../components/ui/form";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import { Progress } from "../../components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "../../components/ui/radio-group";
+import { useCertificateReading } from "../../hooks/use-certificate-reading";
+import { useSession } from "../../hooks/use-session";
+import { useZipCheck } from "../../hooks/use-zip-check";
+import { formatAddress } from "../../lib/address";
+import { ApplicationValidationError, lookupRenewal, submitApplication } from "../../lib/application-api";
+import type { DogLicenseApplication } from "../../lib/applications";
+import { describeBreed } from "../../lib/dog-breeds";
+import { describeCoat } from "../../lib/dog-colors";
+import { describeAge, describeWeight, DOG_SEX_LABELS } from "../../lib/dog-profile";
+import {
+  dogLicenseSchema,
+  quoteForForm,
+  toBreedCodes,
+  toCoatColors,
+  toDogAge,
+  toDogWeight,
+  toRabiesShot,
+  type DogLicenseField,
+  type DogLicenseFormData,
+} from "../../lib/dog-license-schema";
+import { DEFAULT_FEE_SCHEDULE, LICENSE_TERMS, LICENSE_TERM_LABELS } from "../../lib/fee-schedule";
+import { JURISDICTION } from "../../lib/jurisdiction";
+import { describeMicrochip } from "../../lib/microchips";
+import { renewalFormValues, type RenewalCandidate } from "../../lib/renewals";
+import { formatCents, formatDate } from "../../lib/utils";
+
+const STEPS = [
+  { id: 1, title: "Find License", icon: Search, description: "Look up the license you are renewing" },
+  { id: 2, title: "Confirm Details", icon: User, description: "Update anything that has changed" },
+  { id: 3, title: "Vaccination", icon: Syringe, description: "Your dog's current rabies vaccination" },
+  { id: 4, title: "Review", icon: BadgeCheck, description: "Choose a term and confirm the fee" },
+  { id: 5, title: "Payment", icon: CreditCard, description: "Pay the renewal fee" },
+];
+
+const LOOKUP_STEP = 1;
+const DETAILS_STEP = 2;
+const VACCINATION_STEP = 3;
+const REVIEW_STEP = 4;
+const PAYMENT_STEP = 5;
+
+const OWNER_FIELDS: DogLicenseField[] = [
+  "ownerName",
+  "ownerEmail",
+  "ownerStreet",
+  "ownerUnit",
+  "ownerCity",
+  "ownerState",
+  "ownerZip",
+  "ownerPhone",
+  "ownerDiscount",
+];
+// A renewal is for the one dog the license was issued to.
+const DOG_FIELDS: DogLicenseField[] = [
+  "dogs.0.name",
+  "dogs.0.breed",
+  "dogs.0.secondaryBreed",
+  "dogs.0.color",
+  "dogs.0.secondaryColor",
+  "dogs.0.coatPattern",
+  "dogs.0.sex",
+  "dogs.0.ageSource",
+  "dogs.0.birthDate",
+  "dogs.0.age",
+  "dogs.0.weight",
+  "dogs.0.spayedNeutered",
+  "dogs.0.spayNeuterCertificate",
+  "dogs.0.markings",
+  "dogs.0.microchipNumber",
+];
+
+// Renewals carry one dog, so its certificate reading has a fixed key.
+const RENEWED_DOG = "renewed";
+
+const VACCINATION_FIELDS: DogLicenseField[] = [
+  "dogs.0.rabiesStatus",
+  "dogs.0.lastRabiesShotDate",
+  "dogs.0.rabiesVaccineDuration",
+  "dogs.0.firstRabiesShot",
+  "dogs.0.ageAtVaccination",
+  "dogs.0.vaccinationCertificate",
+  "dogs.0.exemptionLetter",
+  "dogs.0.exemptionExpiresOn",
+  "dogs.0.vetLicenseNumber",
+];
+
+type TextFieldName =
+  | "ownerName"
+  | "ownerEmail"
+  | "ownerPhone"
+  | "dogs.0.name";
+
+function TextField({
+  control,
+  name,
+  label,
+  type = "text",
+}: {
+  control: Control<DogLicenseFormData>;
+  name: TextFieldName;
+  label: string;
+  type?: string;
+}) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label} *</FormLabel>
+          <FormControl>
+            <Input type={type} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+function SummaryRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <strong>{label}:</strong> {value || "—"}
+    </div>
+  );
+}
+
+export default function RenewLicense() {
+  const [currentStep, setCurrentStep] = useState(LOOKUP_STEP);
+  const [tagNumber, setTagNumber] = useState("");
+  const [contact, setContact] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [candidate, setCandidate] = useState<RenewalCandidate | null>(null);
+  const [editing, setEditing] = useState({ owner: false, dog: false });
+  const [draft, setDraft] = useState<DogLicenseApplication | null>(null);
+  const { user } = useSession();
+
+  const form = useForm<DogLicenseFormData>({
+    resolver: zodResolver(dogLicenseSchema),
+    defaultValues: { licenseTerm: "1" },
+    mode: "onChange",
+  });
+  const zipCheck = useZipCheck(form);
+  const certificates = useCertificateReading(form);
+  const certificate = certificates.readings[RENEWED_DOG];
+
+  // Account pages link here with ?tag=; signed-in owners can use their email.
+  useEffect(() => {
+    const tag = new URLSearchParams(window.location.search).get("tag");
+    if (tag) setTagNumber(tag);
+  }, []);
+
+  useEffect(() => {
+    if (user?.role === "applicant") setContact((current) => current || user.email);
+  }, [user]);
+
+  const watchedValues = form.watch();
+  const renewedDog = watchedValues.dogs?.[0];
+
+  const findLicense = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLookingUp(true);
+    try {
+      const found = await lookupRenewal(tagNumber, contact);
+      setCandidate(found);
+      form.reset(renewalFormValues(found));
+      setEditing({ owner: false, dog: false });
+      setCurrentStep(DETAILS_STEP);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to look up license");
+    }
+    setIsLookingUp(false);
+  };
+
+  // Details carried over from an old record may no longer pass validation;
+  // open whichever section needs attention instead of failing silently.
+  const confirmDetails = async () => {
+    const ownerValid = await form.trigger(OWNER_FIELDS);
+    const dogValid = await form.trigger(DOG_FIELDS);
+    // A changed address has to agree with its ZIP code, like on a new application.
+    if (ownerValid && dogValid && editing.owner && !(await zipCheck.check())) {
+      toast.error("Please confirm your address before continuing");
+      return;
+    }
+    if (ownerValid && dogValid) {
+      setCurrentStep(VACCINATION_STEP);
+      return;
+    }
+    setEditing({ owner: editing.owner || !ownerValid, dog: editing.dog || !dogValid });
+    toast.error("Please fix the errors before continuing");
+  };
+
+  const confirmVaccination = async () => {
+    if (await form.trigger(VACCINATION_FIELDS)) {
+      setCurrentStep(REVIEW_STEP);
+    } else {
+      toast.error("Please fix the errors before continuing");
+    }
+  };
+
+  const onSubmit = async (data: DogLicenseFormData) => {
+    if (!candidate) return;
+    try {
+      setDraft(await submitApplication(data, { tagNumber: candidate.license.tagNumber, contact }));
+      setCurrentStep(PAYMENT_STEP);
+    } catch (error) {
+      if (error instanceof ApplicationValidationError) {
+        const fields = Object.keys(error.fieldErrors) as DogLicenseField[];
+        fields.forEach((field) => {
+          const message = error.fieldErrors[field]?.[0];
+          if (message) form.setError(field, { type: "server", message });
+        });
+        if (fields.some((field) => VACCINATION_FIELDS.includes(field))) {
+          setCurrentStep(VACCINATION_STEP);
+        } else if (fields.some((field) => OWNER_FIELDS.includes(field) || DOG_FIELDS.includes(field))) {
+          setEditing({ owner: true, dog: true });
+          setCurrentStep(DETAILS_STEP);
+        }
+        toast.error(error.message);
+        return;
+      }
+      toast.error(error instanceof Error ? error.message : "Failed to submit renewal. Please try again.");
+    }
+  };
+
+  const onPaid = (application: DogLicenseApplication) => {
+    toast.success(
+      `Payment received (receipt ${application.payment?.receiptNumber}). Your renewal ID is: ${application.id}`,
+    );
+    setTimeout(() => {
+      window.location.href = `/track-application?id=${application.id}`;
+    }, 2000);
+  };
+
+  const step = STEPS[currentStep - 1];
+  const StepIcon = step.icon;
+  const progress = (currentStep / STEPS.length) * 100;
+  const quote = candidate ? quoteForForm(watchedValues, candidate.license.expiresOn) : null;
+  const discount = watchedValues.ownerDiscount && watchedValues.ownerDiscount !== "none"
+    ? DEFAULT_FEE_SCHEDULE.discounts[watchedValues.ownerDiscount].label
+    : "None";
+  const address = watchedValues.ownerStreet
+    ? formatAddress({
+        street: watchedValues.ownerStreet,
+        unit: watchedValues.ownerUnit,
+        city: watchedValues.ownerCity ?? "",
+        state: watchedValues.ownerState ?? "",
+        zip: watchedValues.ownerZip ?? "",
+      })
+    : "";
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-12">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900 rounded-full flex items-center justify-center mx-auto mb-4">
+            <RefreshCw className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">Renew a Dog License</h1>
+          <p className="text-lg text-gray-600 dark:text-gray-300">
+            We&apos;ll carry over your details; you only need a current rabies certificate.
+          </p>
+        </div>
+
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Step {currentStep} of {STEPS.length}
+            </span>
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{step.title}</span>
+          </div>
+          <Progress value={progress} className="h-2" />
+        </div>
+
+        <Card className="bg-white dark:bg-gray-800 border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <StepIcon className="w-5 h-5" />
+              {step.title}
+            </CardTitle>
+            <CardDescription>{step.description}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {currentStep === LOOKUP_STEP && (
+              <form onSubmit={findLicense} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tagNumber">Tag Number *</Label>
+                  <Input
+                    id="tagNumber"
+                    placeholder={`e.g., ${JURISDICTION.code}-2025-00042`}
+                    value={tagNumber}
+                    onChange={(e) => setTagNumber(e.target.value)}
+                    className="font-mono"
+                    required
+                  />
+                  <p className="text-sm text-muted-foreground">Printed on the tag and on your license certificate</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="contact">Email or Phone *</Label>
+                  <Input
+                    id="contact"
+                    placeholder="The email or phone number on the license"
+                    value={contact}
+                    onChange={(e) => setContact(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isLookingUp || !tagNumber.trim() || !contact.trim()}>
+                  <Search className="w-4 h-4 mr-2" />
+                  {isLookingUp ? "Looking up..." : "Find License"}
+                </Button>
+              </form>
+            )}
+
+            {candidate && currentStep > LOOKUP_STEP && currentStep < PAYMENT_STEP && (
+              <div className="mb-6 rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 p-4 text-sm text-blue-900 dark:text-blue-100">
+                Renewing tag <span className="font-mono font-medium">{candidate.license.tagNumber}</span> for{" "}
+                {candidate.dog.name || "your dog"} · Expires {formatDate(candidate.license.expiresOn)}
+              </div>
+            )}
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {currentStep === DETAILS_STEP && (
+                  <div className="space-y-6">
+                    <section className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <h3 className="flex items-center gap-2 font-semibold">
+                          <User className="w-4 h-4" />
+                          Owner
+                        </h3>
+                        {!editing.owner && (
+                          <Button type="button" variant="outline" size="sm" onClick={() => setEditing({ ...editing, owner: true })}>
+                            Update
+                          </Button>
+                        )}
+                      </div>
+                      {editing.owner ? (
+                        <div className="space-y-4">
+                          <TextField control={form.control} name="ownerName" label="Full Name" />
+                          <TextField control={form.control} name="ownerEmail" label="Email Address" type="email" />
+                          <AddressFields form={form} zipCheck={zipCheck} />
+                          <TextField control={form.control} name="ownerPhone" label="Phone Number" type="tel" />
+                          <FormField
+                            control={form.control}
+                            name="ownerDiscount"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Fee Discount</FormLabel>
+                                <FormControl>
+                                  <RadioGroup value={field.value} onValueChange={field.onChange} className="gap-2">
+                                    <FormItem className="flex items-center gap-2">
+                                      <FormControl>
+                                        <RadioGroupItem value="none" />
+                                      </FormControl>
+                                      <FormLabel className="font-normal">No discount</FormLabel>
+                                    </FormItem>
+                                    {Object.entries(DEFAULT_FEE_SCHEDULE.discounts).map(([key, option]) => (
+                                      <FormItem key={key} className="flex items-center gap-2">
+                                        <FormControl>
+                                          <RadioGroupItem value={key} />
+                                        </FormControl>
+                                        <FormLabel className="font-normal">
+                                          {option.label} ({option.percent}% off)
+                                        </FormLabel>
+                                      </FormItem>
+                                    ))}
+                                  </RadioGroup>
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
+                          <SummaryRow label="Name" value={watchedValues.ownerName} />
+                          <SummaryRow label="Phone" value={watchedValues.ownerPhone} />
+                          <div className="md:col-span-2">
+                            <SummaryRow label="Email" value={watchedValues.ownerEmail} />
+                          </div>
+                          <div className="md:col-span-2">
+                            <SummaryRow label="Address" value={address} />
+                          </div>
+                          <SummaryRow label="Discount" value={discount} />
+                        </div>
+                      )}
+                    </section>
+
+                    <section className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <h3 className="flex items-center gap-2 font-semibold">
+                          <Dog className="w-4 h-4" />
+                          Dog
+                        </h3>
+                        {!editing.dog && (
+                          <Button type="button" variant="outline" size="sm" onClick={() => setEditing({ ...editing, dog: true })}>
+                            Update
+                          </Button>
+                        )}
+                      </div>
+                      {editing.dog ? (
+                        <div className="space-y-4">
+                          <TextField control={form.control} name="dogs.0.name" label="Dog's Name" />
+                          <DogBreedFields form={form} index={0} />
+                          <DogColorFields form={form} index={0} />
+                          <DogProfileFields form={form} index={0} />
+                        </div>
+                      ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
+                          <SummaryRow label="Name" value={renewedDog?.name} />
+                          <SummaryRow label="Breed" value={renewedDog?.breed && describeBreed(toBreedCodes(renewedDog))} />
+                          <SummaryRow label="Sex" value={renewedDog?.sex && DOG_SEX_LABELS[renewedDog.sex]} />
+                          <SummaryRow label="Age" value={renewedDog && describeAge(toDogAge(renewedDog))} />
+                          <SummaryRow label="Color" value={renewedDog?.color && describeCoat(toCoatColors(renewedDog))} />
+                          <SummaryRow label="Weight" value={renewedDog && describeWeight(toDogWeight(renewedDog).weightLbs)} />
+                          <SummaryRow
+                            label="Spayed/Neutered"
+                            value={renewedDog?.spayedNeutered && (renewedDog?.spayedNeutered === "yes" ? "Yes" : "No")}
+                          />
+                          <SummaryRow
+                            label="Microchip"
+                            value={renewedDog?.microchipNumber && describeMicrochip(renewedDog.microchipNumber)}
+                          />
+                          <SummaryRow label="Distinguishing Marks" value={renewedDog?.markings} />
+                        </div>
+                      )}
+                    </section>
+                  </div>
+                )}
+
+                {currentStep === VACCINATION_STEP && (
+                  <div className="space-y-4">
+                    <RabiesStatusField form={form} index={0} />
+
+                    {renewedDog?.rabiesStatus === "exempt" ? (
+                      <RabiesExemptionFields form={form} index={0} />
+                    ) : (
+                      <>
+                        <RabiesVaccinationFields form={form} index={0} />
+
+                        <FormField
+                          control={form.control}
+                          name="dogs.0.vaccinationCertificate"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Vaccination Certificate *</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="file"
+                                  accept=".pdf,.jpg,.jpeg,.png"
+                                  name={field.name}
+                                  ref={field.ref}
+                                  onBlur={field.onBlur}
+                                  onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    field.onChange(file);
+                                    void certificates.read(RENEWED_DOG, 0, file);
+                                  }}
+                                />
+                              </FormControl>
+                              <FormDescription>
+                                Upload PDF or image file (max 5MB). Must show current rabies vaccination. Details are
+                                read from PDF certificates where possible.
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        {certificate?.status === "reading" && (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">Reading certificate…</p>
+                        )}
+                        {certificate?.status === "unreadable" && (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            We couldn&apos;t read this certificate. Please check the date above yourself.
+                          </p>
+                        )}
+                        {certificate?.status === "read" && renewedDog && (
+                          <CertificateFieldsSummary
+                            fields={certificate.fields}
+                            entered={toRabiesShot(renewedDog)}
+                            onUseCertificateDate={() => certificates.applyDate(RENEWED_DOG, 0)}
+                          />
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {currentStep === REVIEW_STEP && candidate && quote && (
+                  <div className="space-y-6">
+                    <FormField
+                      control={form.control}
+                      name="licenseTerm"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>License Term *</FormLabel>
+                          <FormControl>
+                            <RadioGroup value={field.value} onValueChange={field.onChange} className="gap-2">
+                              {LICENSE_TERMS.map((term) => (
+                                <FormItem key={term} className="flex items-center gap-2">
+                                  <FormControl>
+                                    <RadioGroupItem value={String(term)} />
+                                  </FormControl>
+                                  <FormLabel className="font-normal">
+                                    {LICENSE_TERM_LABELS[term]} —{" "}
+                                    {formatCents(
+                                      quoteForForm(
+                                        { ...watchedValues, licenseTerm: String(term) as DogLicenseFormData["licenseTerm"] },
+                                        candidate.license.expiresOn,
+                                      ).total,
+                                    )}
+                                  </FormLabel>
+                                </FormItem>
+                              ))}
+                            </RadioGroup>
+                          </FormControl>
+                          <FormDescription>
+                            Renewing before {formatDate(candidate.license.expiresOn)} keeps the time left on your current
+                            license. A license ends early if the rabies vaccination expires first.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
+                      <h3 className="font-semibold mb-4">Fees</h3>
+                      <FeeSummary quote={quote} totalLabel="Total due" />
+                      {quote.items.some((item) => item.code === "late_fee") && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                          A late fee applies to licenses renewed more than {DEFAULT_FEE_SCHEDULE.lateFee.graceDays} days
+                          after they expire.
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
+                      <p className="text-sm text-blue-800 dark:text-blue-200">
+                        By submitting this renewal, you confirm that all information provided is accurate and complete.
+                        Your renewal is sent for review once the fee has been paid.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {currentStep > LOOKUP_STEP && currentStep < PAYMENT_STEP && (
+                  <div className="flex justify-between pt-6">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setCurrentStep((prev) => prev - 1)}
+                      className="flex items-center gap-2 bg-transparent"
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                      Previous
+                    </Button>
+
+                    {currentStep < REVIEW_STEP ? (
+                      <Button
+                        type="button"
+                        onClick={currentStep === DETAILS_STEP ? confirmDetails : confirmVaccination}
+                        className="flex items-center gap-2"
+                      >
+                        Next
+                        <ChevronRight className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button type="submit" className="flex items-center gap-2" disabled={form.formState.isSubmitting}>
+                        {form.formState.isSubmitting ? "Submitting..." : "Continue to Payment"}
+                        <CreditCard className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </form>
+            </Form>
+
+            {currentStep === PAYMENT_STEP && draft && <PaymentForm application={draft} onPaid={onPaid} />}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,95 +1,57 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
 import { Button } from "../../components/ui/button";
 import { Input } from "../../components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../components/ui/card";
-import { Badge } from "../../components/ui/badge";
-import { Search, Calendar, CheckCircle, Clock, XCircle } from "lucide-react";
-
-interface Application {
-  id: string;
-  status: "pending" | "in_progress" | "completed" | "rejected";
-  createdTime: string;
-  title: string;
-  description?: string;
-}
+import StatusBadge from "../../components/StatusBadge";
+import StatusTimeline from "../../components/StatusTimeline";
+import LicenseDocuments from "../../components/LicenseDocuments";
+import PaymentForm from "../../components/PaymentForm";
+import { Search, Calendar, CreditCard, Receipt, BadgeCheck, RefreshCw } from "lucide-react";
+import { dogNames, rabiesShot, type DogLicenseApplication } from "../../lib/applications";
+import { fetchApplication, photoUrl, uploadLocalApplications } from "../../lib/application-api";
+import { rabiesAcceptedThrough } from "../../lib/rabies-vaccination";
+import { isRenewalOpen } from "../../lib/renewals";
+import { formatCents, formatDate, formatDateTime } from "../../lib/utils";
 
 export default function TrackApplication() {
   const [applicationId, setApplicationId] = useState("");
-  const [application, setApplication] = useState<Application | null>(null);
+  const [application, setApplication] = useState<DogLicenseApplication | null>(null);
   const [isSearched, setIsSearched] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "pending":
-        return "bg-yellow-100 text-yellow-800 border-yellow-200";
-      case "in_progress":
-        return "bg-blue-100 text-blue-800 border-blue-200";
-      case "completed":
-        return "bg-green-100 text-green-800 border-green-200";
-      case "rejected":
-        return "bg-red-100 text-red-800 border-red-200";
-      default:
-        return "bg-gray-100 text-gray-800 border-gray-200";
-    }
-  };
+  const loadApplication = useCallback(async (id: string) => {
+    if (!id.trim()) return;
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case "pending":
-        return <Clock className="w-4 h-4" />;
-      case "in_progress":
-        return <Clock className="w-4 h-4" />;
-      case "completed":
-        return <CheckCircle className="w-4 h-4" />;
-      case "rejected":
-        return <XCircle className="w-4 h-4" />;
-      default:
-        return <Clock className="w-4 h-4" />;
-    }
-  };
+    setIsLoading(true);
+    setIsSearched(true);
 
-  const formatDate = (dateString: string) => {
     try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString("en-US", {
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-        hour: "2-digit",
-        minute: "2-digit",
-      });
-    } catch {
-      return "Invalid date";
+      setApplication(await fetchApplication(id));
+    } catch (error) {
+      console.error("Error fetching application:", error);
+      setApplication(null);
     }
-  };
+    setIsLoading(false);
+  }, []);
 
-  const searchApplication = () => {
-    if (!applicationId.trim()) return;
+  const searchApplication = () => loadApplication(applicationId);
 
-    setIsLoading(true);
-    setIsSearched(true);
-
-    // Simulate API call delay
-    setTimeout(() => {
-      try {
-        const storedApplications = localStorage.getItem("quantum_applications");
-        if (storedApplications) {
-          const applications: Application[] = JSON.parse(storedApplications);
-          const foundApplication = applications.find(app => app.id === applicationId.trim());
-          setApplication(foundApplication || null);
-        } else {
-          setApplication(null);
+  // Upload anything the browser-only version left behind, then honor the
+  // ?id=DOG-... the New Application page redirects here with.
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("id");
+    uploadLocalApplications()
+      .catch((error) => console.error("Error uploading saved applications:", error))
+      .finally(() => {
+        if (id) {
+          setApplicationId(id);
+          loadApplication(id);
         }
-      } catch (error) {
-        console.error("Error reading from localStorage:", error);
-        setApplication(null);
-      }
-      setIsLoading(false);
-    }, 500);
-  };
+      });
+  }, [loadApplication]);
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
@@ -127,7 +89,7 @@ export default function TrackApplication() {
             <div className="space-y-2">
               <Input
                 type="text"
-                placeholder="e.g., APP-2024-001"
+                placeholder="e.g., DOG-6f1c2e3a-9b4d-4e8f-a1b2-c3d4e5f60718"
                 value={applicationId}
                 onChange={(e) => setApplicationId(e.target.value)}
                 onKeyPress={handleKeyPress}
@@ -136,7 +98,7 @@ export default function TrackApplication() {
               />
             </div>
             <Button 
-              onClick={searchApplication}
+              onClick={() => searchApplication()}
               disabled={isLoading || !applicationId.trim()}
               className="w-full py-3 text-lg"
               size="lg"
@@ -175,61 +137,157 @@ export default function TrackApplication() {
                     <div className="flex items-start justify-between mb-4">
                       <div>
                         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
-                          {application.title}
+                          {application.dogs.length > 1 ? "Dog Licenses" : "Dog License"} for {dogNames(application) || "your dog"}
                         </h3>
                         <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
                           Application ID: <span className="font-mono font-medium">{application.id}</span>
                         </p>
                       </div>
-                      <Badge className={`${getStatusColor(application.status)} flex items-center gap-1`}>
-                        {getStatusIcon(application.status)}
-                        {application.status.replace("_", " ").toUpperCase()}
-                      </Badge>
+                      <StatusBadge status={application.status} />
                     </div>
 
                     <div className="grid grid-cols-1 gap-4">
                       <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
                         <Calendar className="w-4 h-4" />
-                        <span>Created: {formatDate(application.createdTime)}</span>
+                        <span>Submitted: {formatDateTime(application.submittedAt)}</span>
                       </div>
+                      {application.renewalOf && (
+                        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                          <RefreshCw className="w-4 h-4" />
+                          <span>
+                            Renews tag <span className="font-mono">{application.renewalOf.tagNumber}</span>
+                          </span>
+                        </div>
+                      )}
+                      {application.owner.name && (
+                        <div className="text-sm text-gray-700 dark:text-gray-300">
+                          <strong>Owner:</strong> {application.owner.name}
+                        </div>
+                      )}
+                      {application.owner.name &&
+                        application.dogs.map(({ dog, vaccination }, index) => (
+                          <div
+                            key={index}
+                            className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-gray-700 dark:text-gray-300"
+                          >
+                            {application.dogs.length > 1 && (
+                              <div className="md:col-span-2 font-medium text-gray-900 dark:text-white">
+                                {dog.name || `Dog ${index + 1}`}
+                              </div>
+                            )}
+                            {dog.photo && (
+                              <div className="md:col-span-2">
+                                {/* eslint-disable-next-line @next/next/no-img-element -- served by the photo API route */}
+                                <img
+                                  src={photoUrl(application.id, dog.photo)}
+                                  alt={`Photo of ${dog.name || `dog ${index + 1}`}`}
+                                  className="w-32 h-32 rounded-md object-cover border"
+                                />
+                              </div>
+                            )}
+                            <div>
+                              <strong>Breed:</strong> {dog.breed}
+                            </div>
+                            <div>
+                              <strong>Color:</strong> {dog.color}
+                            </div>
+                            {vaccination.exemption ? (
+                              <div>
+                                <strong>Rabies:</strong> Medical exemption until{" "}
+                                {formatDate(vaccination.exemption.expiresOn)}
+                              </div>
+                            ) : (
+                              <>
+                                <div>
+                                  <strong>Last Rabies Shot:</strong> {vaccination.lastRabiesShotDate}
+                                </div>
+                                <div>
+                                  <strong>Rabies Accepted Through:</strong>{" "}
+                                  {rabiesAcceptedThrough(rabiesShot(vaccination))}
+                                </div>
+                              </>
+                            )}
+                          </div>
+                        ))}
                     </div>
 
-                    {application.description && (
+                    {application.dogs.map(
+                      ({ dog, license }) =>
+                        license && (
+                          <div
+                            key={license.tagNumber}
+                            className="mt-4 pt-4 border-t border-green-200 dark:border-green-700"
+                          >
+                            <div className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-2">
+                              <BadgeCheck className="w-4 h-4 text-green-600" />
+                              License Issued{application.dogs.length > 1 && ` · ${dog.name}`}
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-gray-700 dark:text-gray-300">
+                              <div>
+                                <strong>Tag Number:</strong> <span className="font-mono">{license.tagNumber}</span>
+                              </div>
+                              <div>
+                                <strong>Expires:</strong> {formatDate(license.expiresOn)}
+                              </div>
+                            </div>
+                            {license.limitedByRabies && (
+                              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                                This license ends when your dog&apos;s rabies vaccination expires. Renew with an updated
+                                vaccination certificate.
+                              </p>
+                            )}
+                            {application.status === "license_issued" && isRenewalOpen(license) && (
+                              <Button asChild size="sm" className="mt-3">
+                                <Link href={`/renew?tag=${encodeURIComponent(license.tagNumber)}`}>
+                                  <RefreshCw className="w-4 h-4 mr-2" />
+                                  Renew License
+                                </Link>
+                              </Button>
+                            )}
+                          </div>
+                        ),
+                    )}
+
+                    {application.payment && (
+                      <div className="mt-4 pt-4 border-t border-green-200 dark:border-green-700 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <Receipt className="w-4 h-4" />
+                        <span>
+                          Paid {formatCents(application.payment.amount, application.payment.currency)} · Receipt{" "}
+                          <span className="font-mono">{application.payment.receiptNumber}</span>
+                        </span>
+                      </div>
+                    )}
+
+                    {application.notes && (
                       <div className="mt-4 pt-4 border-t border-green-200 dark:border-green-700">
                         <p className="text-sm text-gray-700 dark:text-gray-300">
-                          <strong>Description:</strong> {application.description}
+                          <strong>Notes:</strong> {application.notes}
                         </p>
                       </div>
                     )}
 
+                    <div className="mt-4">
+                      <LicenseDocuments application={application} />
+                    </div>
+
+                    {/* Unpaid drafts can be paid from here */}
+                    {application.status === "draft" && !application.payment && (
+                      <div className="mt-6 pt-6 border-t border-green-200 dark:border-green-700">
+                        <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-3">
+                          <CreditCard className="w-4 h-4" />
+                          Complete Payment
+                        </h4>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                          Your application will be sent for review once the license fee is paid.
+                        </p>
+                        <PaymentForm application={application} onPaid={(paid) => setApplication(paid)} />
+                      </div>
+                    )}
+
                     {/* Status Timeline */}
                     <div className="mt-6 pt-6 border-t border-green-200 dark:border-green-700">
                       <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Application Timeline</h4>
-                      <div className="space-y-2">
-                        <div className="flex items-center gap-3 text-sm">
-                          <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                          <span className="text-gray-600 dark:text-gray-300">Application submitted</span>
-                          <span className="text-gray-400 dark:text-gray-500">({formatDate(application.createdTime)})</span>
-                        </div>
-                        {application.status !== "pending" && (
-                          <div className="flex items-center gap-3 text-sm">
-                            <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                            <span className="text-gray-600 dark:text-gray-300">Application under review</span>
-                          </div>
-                        )}
-                        {application.status === "completed" && (
-                          <div className="flex items-center gap-3 text-sm">
-                            <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                            <span className="text-gray-600 dark:text-gray-300">Application completed</span>
-                          </div>
-                        )}
-                        {application.status === "rejected" && (
-                          <div className="flex items-center gap-3 text-sm">
-                            <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                            <span className="text-gray-600 dark:text-gray-300">Application rejected</span>
-                          </div>
-                        )}
-                      </div>
+                      <StatusTimeline history={application.history} />
                     </div>
                   </div>
                 </div>
@@ -248,8 +306,7 @@ export default function TrackApplication() {
                     <p>Please check:</p>
                     <ul className="list-disc list-inside space-y-1 max-w-md mx-auto">
                       <li>The application ID is correct</li>
-                      <li>The application was submitted on this device</li>
-                      <li>Your browser's local storage hasn't been cleared</li>
+                      <li>The ID includes the "DOG-" prefix and both number groups</li>
                     </ul>
                   </div>
                 </div>
@@ -266,7 +323,7 @@ export default function TrackApplication() {
             </CardHeader>
             <CardContent className="text-sm text-gray-600 dark:text-gray-300 space-y-2">
               <p>• Application IDs are generated when you submit a new application</p>
-              <p>• Make sure you're using the same browser and device where you submitted your application</p>
+              <p>• Your application ID was shown when you submitted and works from any device</p>
               <p>• If you can't find your application ID, try creating a new application</p>
               <p>• Contact support if you continue to experience issues</p>
             </CardContent>
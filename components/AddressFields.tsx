@@ -0,0 +1,196 @@
+"use client";
+
+import type { UseFormReturn } from "react-hook-form";
+import { AlertTriangle, CheckCircle2, Loader2, MapPinOff } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
+import { Button } from "./ui/button";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import type { ZipCheck } from "../hooks/use-zip-check";
+import { US_STATE_CODES, US_STATES } from "../lib/address";
+import type { DogLicenseFormData } from "../lib/dog-license-schema";
+
+interface AddressFieldsProps {
+  form: UseFormReturn<DogLicenseFormData>;
+  zipCheck: ZipCheck;
+}
+
+// Street, unit, city, state and ZIP for the owner. The ZIP is looked up as soon
+// as it is complete; the rest of the address is re-checked when it changes.
+export default function AddressFields({ form, zipCheck }: AddressFieldsProps) {
+  const { result } = zipCheck;
+  const recheck = () => {
+    if (result.status !== "idle") void zipCheck.check();
+  };
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={form.control}
+        name="ownerStreet"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Street Address *</FormLabel>
+            <FormControl>
+              <Input
+                placeholder="123 Main St"
+                autoComplete="address-line1"
+                {...field}
+                onBlur={() => {
+                  field.onBlur();
+                  recheck();
+                }}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="ownerUnit"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Apartment, Suite or Unit</FormLabel>
+            <FormControl>
+              <Input placeholder="Apt 4B" autoComplete="address-line2" {...field} value={field.value ?? ""} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+        <FormField
+          control={form.control}
+          name="ownerZip"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>ZIP Code *</FormLabel>
+              <FormControl>
+                <Input
+                  inputMode="numeric"
+                  placeholder="62704"
+                  autoComplete="postal-code"
+                  {...field}
+                  onBlur={() => {
+                    field.onBlur();
+                    void zipCheck.check();
+                  }}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="ownerCity"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>City *</FormLabel>
+              <FormControl>
+                <Input
+                  autoComplete="address-level2"
+                  {...field}
+                  onBlur={() => {
+                    field.onBlur();
+                    recheck();
+                  }}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="ownerState"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>State *</FormLabel>
+              <Select
+                value={field.value ?? ""}
+                onValueChange={(value) => {
+                  field.onChange(value);
+                  recheck();
+                }}
+              >
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="State" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {US_STATE_CODES.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code} — {US_STATES[code]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      {result.status === "checking" && (
+        <p className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Checking ZIP code…
+        </p>
+      )}
+      {result.status === "matched" && (
+        <p className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle2 className="w-4 h-4" />
+          ZIP code {result.zip} verified
+        </p>
+      )}
+      {result.status === "unverified" && (
+        <p className="flex items-center gap-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="w-4 h-4" />
+          We couldn&apos;t verify ZIP code {result.zip} right now. You can continue; the clerk will confirm your address.
+        </p>
+      )}
+      {result.status === "non_resident" && (
+        <Alert variant="destructive">
+          <MapPinOff className="w-4 h-4" />
+          <AlertTitle>Outside our service area</AlertTitle>
+          <AlertDescription>
+            <p>{result.message}</p>
+            {result.url && (
+              <a href={result.url} target="_blank" rel="noopener noreferrer" className="underline">
+                Where to apply instead
+              </a>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+      {result.status === "mismatch" && (
+        <Alert>
+          <AlertTriangle className="w-4 h-4" />
+          <AlertTitle>City or state doesn&apos;t match the ZIP code</AlertTitle>
+          <AlertDescription>
+            <p>
+              ZIP code {result.zip} is listed for {result.city}, {result.state}. You entered{" "}
+              {form.getValues("ownerCity") || "—"}, {form.getValues("ownerState") || "—"}.
+            </p>
+            <div className="flex flex-wrap gap-2 mt-2">
+              <Button type="button" size="sm" onClick={zipCheck.acceptReturned}>
+                Use {result.city}, {result.state}
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={zipCheck.keepEntered}>
+                Keep my entry
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { ClipboardList, LogOut, Receipt, Users } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "./ui/sidebar";
+import { useSession } from "../hooks/use-session";
+import { ROLE_LABELS, type Permission } from "../lib/auth/roles";
+import { signOut } from "../lib/auth-client";
+
+const NAV_ITEMS: { href: string; label: string; icon: typeof ClipboardList; permission: Permission }[] = [
+  { href: "/admin/applications", label: "Application Queue", icon: ClipboardList, permission: "applications:read" },
+  { href: "/admin/payments", label: "Payments", icon: Receipt, permission: "payments:read" },
+  { href: "/admin/users", label: "Users & Roles", icon: Users, permission: "users:manage" },
+];
+
+export default function AdminSidebar() {
+  const pathname = usePathname();
+  const { user, can } = useSession();
+
+  const handleSignOut = async () => {
+    await signOut();
+    window.location.href = "/login";
+  };
+
+  return (
+    <Sidebar collapsible="none" className="hidden md:flex border-r border-gray-200 dark:border-gray-700">
+      <SidebarHeader className="px-4 py-4">
+        <span className="text-sm font-semibold text-gray-900 dark:text-white">Clerk's Office</span>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Dog Licensing</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {NAV_ITEMS.filter((item) => can(item.permission)).map((item) => (
+                <SidebarMenuItem key={item.href}>
+                  <SidebarMenuButton asChild isActive={pathname.startsWith(item.href)}>
+                    <Link href={item.href}>
+                      <item.icon />
+                      <span>{item.label}</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      {user && (
+        <SidebarFooter className="px-4 py-4 border-t border-gray-200 dark:border-gray-700">
+          <div className="text-sm">
+            <p className="font-medium text-gray-900 dark:text-white truncate">{user.name}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{ROLE_LABELS[user.role]}</p>
+          </div>
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={handleSignOut}>
+                <LogOut />
+                <span>Sign out</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </SidebarMenu>
+        </SidebarFooter>
+      )}
+    </Sidebar>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
+import { Button } from "./ui/button";
+import {
+  CERTIFICATE_FIELD_LABELS,
+  certificateDiscrepancies,
+  type CertificateFields,
+} from "../lib/rabies-certificate";
+import type { RabiesShot } from "../lib/rabies-vaccination";
+import { formatDate } from "../lib/utils";
+
+interface CertificateFieldsSummaryProps {
+  fields: CertificateFields;
+  entered: RabiesShot;
+  title?: string;
+  // Offered to applicants when the date they typed differs from the certificate.
+  onUseCertificateDate?: () => void;
+}
+
+const DATE_FIELDS: (keyof CertificateFields)[] = ["vaccinationDate", "expiresOn"];
+
+// Details read from a certificate, with anything that disagrees with what the
+// applicant entered called out.
+export default function CertificateFieldsSummary({
+  fields,
+  entered,
+  title = "Read from the certificate",
+  onUseCertificateDate,
+}: CertificateFieldsSummaryProps) {
+  const discrepancies = certificateDiscrepancies(entered, fields);
+  const entries = (Object.keys(CERTIFICATE_FIELD_LABELS) as (keyof CertificateFields)[]).filter((key) => fields[key]);
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-md border border-gray-200 dark:border-gray-700 p-3 text-sm">
+        <p className="font-medium text-gray-900 dark:text-white mb-2">{title}</p>
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+          {entries.map((key) => (
+            <div key={key}>
+              <dt className="inline text-gray-500 dark:text-gray-400">{CERTIFICATE_FIELD_LABELS[key]}: </dt>
+              <dd className="inline text-gray-900 dark:text-white">
+                {DATE_FIELDS.includes(key) ? formatDate(fields[key]!) : fields[key]}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      {discrepancies.length > 0 && (
+        <Alert className="border-amber-300 bg-amber-50 dark:bg-amber-950/30">
+          <AlertTriangle className="w-4 h-4 text-amber-600" />
+          <AlertTitle>Doesn&apos;t match the certificate</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {discrepancies.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+            {onUseCertificateDate && fields.vaccinationDate && fields.vaccinationDate !== entered.lastRabiesShotDate && (
+              <Button type="button" size="sm" variant="outline" className="mt-2" onClick={onUseCertificateDate}>
+                Use {formatDate(fields.vaccinationDate)}
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
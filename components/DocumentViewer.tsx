@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { ExternalLink, Eye, EyeOff, FileText } from "lucide-react";
+import { Button } from "./ui/button";
+import { formatFileSize, isImageDocument, type StoredDocument } from "../lib/documents";
+
+interface DocumentViewerProps {
+  document: StoredDocument;
+  url: string;
+  title: string;
+}
+
+// An uploaded document with its details and an inline preview: images are
+// shown directly, PDFs in the browser's own viewer.
+export default function DocumentViewer({ document, url, title }: DocumentViewerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <FileText className="w-4 h-4 text-gray-500" />
+        <span className="font-medium text-gray-900 dark:text-white">{document.fileName}</span>
+        <span className="text-gray-500 dark:text-gray-400">
+          {document.contentType} · {formatFileSize(document.size)}
+        </span>
+        <div className="flex gap-2 ml-auto">
+          <Button type="button" size="sm" variant="outline" onClick={() => setIsOpen(!isOpen)}>
+            {isOpen ? <EyeOff className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+            {isOpen ? "Hide" : "View"}
+          </Button>
+          <Button asChild size="sm" variant="ghost">
+            <a href={url} target="_blank" rel="noopener">
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Open
+            </a>
+          </Button>
+        </div>
+      </div>
+      <p className="text-xs font-mono text-gray-500 dark:text-gray-400 break-all">SHA-256 {document.sha256}</p>
+
+      {isOpen &&
+        (isImageDocument(document) ? (
+          // eslint-disable-next-line @next/next/no-img-element -- served by an authenticated API route
+          <img
+            src={url}
+            alt={title}
+            className="max-h-[32rem] w-auto rounded-md border border-gray-200 dark:border-gray-700"
+          />
+        ) : (
+          <iframe
+            src={url}
+            title={title}
+            className="w-full h-[32rem] rounded-md border border-gray-200 dark:border-gray-700"
+          />
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "./ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "./ui/command";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import type { DogLicenseFormData } from "../lib/dog-license-schema";
+import { breedName, DOG_BREEDS, UNKNOWN_BREED } from "../lib/dog-breeds";
+import { cn } from "../lib/utils";
+
+interface BreedComboboxProps {
+  value: string;
+  onChange: (code: string) => void;
+  onBlur?: () => void;
+  placeholder: string;
+  // Shown first, for leaving an optional breed blank.
+  noneLabel?: string;
+}
+
+// Searches breed names and their aliases, so "lab" or "heeler" finds the
+// catalog breed.
+function BreedCombobox({ value, onChange, onBlur, placeholder, noneLabel }: BreedComboboxProps) {
+  const [open, setOpen] = useState(false);
+
+  const select = (code: string) => {
+    onChange(code);
+    setOpen(false);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) onBlur?.();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal", !value && "text-muted-foreground")}
+        >
+          {value ? breedName(value) : placeholder}
+          <ChevronsUpDown className="w-4 h-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search breeds..." />
+          <CommandList>
+            <CommandEmpty>No breed found. Choose Unknown / Other.</CommandEmpty>
+            <CommandGroup>
+              {noneLabel && (
+                <CommandItem value={noneLabel} onSelect={() => select("")}>
+                  <Check className={cn("w-4 h-4", value ? "opacity-0" : "opacity-100")} />
+                  {noneLabel}
+                </CommandItem>
+              )}
+              {DOG_BREEDS.map((breed) => (
+                <CommandItem
+                  key={breed.code}
+                  value={breed.name}
+                  keywords={breed.aliases}
+                  onSelect={() => select(breed.code)}
+                >
+                  <Check className={cn("w-4 h-4", value === breed.code ? "opacity-100" : "opacity-0")} />
+                  {breed.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface DogBreedFieldsProps {
+  form: UseFormReturn<DogLicenseFormData>;
+  index: number;
+}
+
+// The dog's breed, and for mixes the second breed in the mix.
+export default function DogBreedFields({ form, index }: DogBreedFieldsProps) {
+  const primary = form.watch(`dogs.${index}.breed`);
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.breed`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Breed *</FormLabel>
+            <FormControl>
+              <BreedCombobox
+                value={field.value}
+                onChange={(code) => {
+                  field.onChange(code);
+                  if (code === UNKNOWN_BREED) form.setValue(`dogs.${index}.secondaryBreed`, "");
+                }}
+                onBlur={field.onBlur}
+                placeholder="Choose a breed"
+              />
+            </FormControl>
+            <FormDescription>Choose Unknown / Other if the breed isn&apos;t listed</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {primary !== UNKNOWN_BREED && (
+        <FormField
+          control={form.control}
+          name={`dogs.${index}.secondaryBreed`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Mixed With</FormLabel>
+              <FormControl>
+                <BreedCombobox
+                  value={field.value ?? ""}
+                  onChange={field.onChange}
+                  onBlur={field.onBlur}
+                  placeholder="Not a mix"
+                  noneLabel="Not a mix"
+                />
+              </FormControl>
+              <FormDescription>For mixed breeds; choose Unknown / Other if you&apos;re not sure what else</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import type { UseFormReturn } from "react-hook-form";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+import type { DogLicenseFormData } from "../lib/dog-license-schema";
+import { COAT_COLORS, COAT_PATTERNS, coatColorName } from "../lib/dog-colors";
+
+// The grouped toggles otherwise render as one joined bar; these read better
+// as separate chips that wrap.
+const CHIP_GROUP = "flex w-full flex-wrap gap-2";
+const CHIP = "flex-none rounded-md first:rounded-md last:rounded-md px-3 data-[variant=outline]:border-l";
+
+interface DogColorFieldsProps {
+  form: UseFormReturn<DogLicenseFormData>;
+  index: number;
+}
+
+// Up to two coat colors, primary first in the order they're picked, and an
+// optional pattern.
+export default function DogColorFields({ form, index }: DogColorFieldsProps) {
+  const secondary = form.watch(`dogs.${index}.secondaryColor`);
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.color`}
+        render={({ field }) => {
+          const selected = [field.value, secondary].filter((code): code is string => !!code);
+          return (
+            <FormItem>
+              <FormLabel>Coat Colors *</FormLabel>
+              <FormControl>
+                <ToggleGroup
+                  type="multiple"
+                  variant="outline"
+                  className={CHIP_GROUP}
+                  value={selected}
+                  onValueChange={(next) => {
+                    // A third pick is ignored until one is deselected.
+                    if (next.length > 2) return;
+                    field.onChange(next[0] ?? "");
+                    form.setValue(`dogs.${index}.secondaryColor`, next[1] ?? "", { shouldValidate: true });
+                  }}
+                  onBlur={field.onBlur}
+                >
+                  {COAT_COLORS.map((color) => (
+                    <ToggleGroupItem key={color.code} value={color.code} className={CHIP}>
+                      {color.name}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </FormControl>
+              <FormDescription>
+                {selected.length > 0
+                  ? `Main color ${coatColorName(selected[0])}${
+                      selected[1] ? `, with ${coatColorName(selected[1]).toLowerCase()}` : ""
+                    }`
+                  : "Choose the main color first, then a second color if your dog has one"}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          );
+        }}
+      />
+
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.coatPattern`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Coat Pattern</FormLabel>
+            <FormControl>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                className={CHIP_GROUP}
+                value={field.value ?? ""}
+                onValueChange={field.onChange}
+                onBlur={field.onBlur}
+              >
+                {COAT_PATTERNS.map((pattern) => (
+                  <ToggleGroupItem key={pattern.code} value={pattern.code} className={CHIP}>
+                    {pattern.name}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </FormControl>
+            <FormDescription>Optional. Leave blank for a solid coat</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
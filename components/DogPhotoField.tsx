@@ -0,0 +1,107 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import { Loader2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
+import { Input } from "./ui/input";
+import { useObjectUrl } from "../hooks/use-object-url";
+import type { DogLicenseFormData } from "../lib/dog-license-schema";
+import { PhotoResizeError, resizeDogPhoto } from "../lib/dog-photos";
+import { cn } from "../lib/utils";
+
+// A thumbnail of a photo chosen in the form, before it is uploaded.
+export function DogPhotoPreview({ photo, className }: { photo: File | undefined; className?: string }) {
+  const url = useObjectUrl(photo);
+  if (!url) return null;
+  return (
+    // eslint-disable-next-line @next/next/no-img-element -- a local blob: URL, which next/image can't optimise
+    <img src={url} alt="Your dog" className={cn("w-32 h-32 rounded-md object-cover border", className)} />
+  );
+}
+
+interface DogPhotoFieldProps {
+  form: UseFormReturn<DogLicenseFormData>;
+  index: number;
+}
+
+// The photo is resized and stripped of its metadata as soon as it is chosen,
+// so only the smaller copy is ever held by the form or uploaded.
+export default function DogPhotoField({ form, index }: DogPhotoFieldProps) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [preparing, setPreparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  return (
+    <FormField
+      control={form.control}
+      name={`dogs.${index}.photo`}
+      render={({ field }) => {
+        const choose = async (file: File | undefined) => {
+          setError(null);
+          if (!file) {
+            field.onChange(undefined);
+            return;
+          }
+          setPreparing(true);
+          try {
+            field.onChange(await resizeDogPhoto(file));
+          } catch (err) {
+            field.onChange(undefined);
+            if (inputRef.current) inputRef.current.value = "";
+            setError(err instanceof PhotoResizeError ? err.message : "We couldn't prepare this photo");
+          } finally {
+            setPreparing(false);
+          }
+        };
+
+        const remove = () => {
+          field.onChange(undefined);
+          if (inputRef.current) inputRef.current.value = "";
+        };
+
+        return (
+          <FormItem>
+            <FormLabel>Photo</FormLabel>
+            {field.value && (
+              <div className="flex items-start gap-3">
+                <DogPhotoPreview photo={field.value} />
+                <Button type="button" variant="ghost" size="sm" onClick={remove}>
+                  <X className="w-4 h-4 mr-1" />
+                  Remove
+                </Button>
+              </div>
+            )}
+            <FormControl>
+              <Input
+                type="file"
+                accept="image/*"
+                name={field.name}
+                ref={(element) => {
+                  inputRef.current = element;
+                  field.ref(element);
+                }}
+                onBlur={field.onBlur}
+                disabled={preparing}
+                onChange={(e) => choose(e.target.files?.[0])}
+              />
+            </FormControl>
+            <FormDescription>
+              {preparing ? (
+                <span className="flex items-center gap-2">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Preparing photo...
+                </span>
+              ) : (
+                "Optional. A clear photo helps animal control return your dog if it gets lost. Location data is removed before upload."
+              )}
+            </FormDescription>
+            {error && <p className="text-destructive text-sm">{error}</p>}
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
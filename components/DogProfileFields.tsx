@@ -0,0 +1,232 @@
+"use client";
+
+import type { UseFormReturn } from "react-hook-form";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
+import { Input } from "./ui/input";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Textarea } from "./ui/textarea";
+import type { DogLicenseFormData } from "../lib/dog-license-schema";
+import {
+  ageFromBirthDate,
+  DOG_SEXES,
+  DOG_SEX_LABELS,
+  SIZE_CLASS_LABELS,
+  sizeClassForWeight,
+} from "../lib/dog-profile";
+import { checkMicrochip, MICROCHIP_FORMAT_LABELS } from "../lib/microchips";
+import { parseNumberSafe, toISODateStringLocal } from "../lib/utils";
+
+interface DogProfileFieldsProps {
+  form: UseFormReturn<DogLicenseFormData>;
+  index: number;
+}
+
+// Sex, age, weight, spay/neuter status and identifying details for one dog.
+export default function DogProfileFields({ form, index }: DogProfileFieldsProps) {
+  const dog = form.watch(`dogs.${index}`);
+  const birthAge = dog?.ageSource === "birthDate" && dog.birthDate ? ageFromBirthDate(dog.birthDate) : null;
+  const weight = parseNumberSafe(dog?.weight);
+  const chip = dog?.microchipNumber ? checkMicrochip(dog.microchipNumber) : null;
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.sex`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Sex *</FormLabel>
+            <FormControl>
+              <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                {DOG_SEXES.map((sex) => (
+                  <FormItem key={sex} className="flex items-center gap-2">
+                    <FormControl>
+                      <RadioGroupItem value={sex} />
+                    </FormControl>
+                    <FormLabel className="font-normal">{DOG_SEX_LABELS[sex]}</FormLabel>
+                  </FormItem>
+                ))}
+              </RadioGroup>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.ageSource`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Age *</FormLabel>
+            <FormControl>
+              <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <RadioGroupItem value="birthDate" />
+                  </FormControl>
+                  <FormLabel className="font-normal">I know the date of birth</FormLabel>
+                </FormItem>
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <RadioGroupItem value="approximate" />
+                  </FormControl>
+                  <FormLabel className="font-normal">I can only estimate it</FormLabel>
+                </FormItem>
+              </RadioGroup>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {dog?.ageSource === "approximate" ? (
+        <FormField
+          control={form.control}
+          name={`dogs.${index}.age`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Approximate Age (in years) *</FormLabel>
+              <FormControl>
+                <Input type="number" placeholder="e.g., 3" min="0" max="30" step="0.5" {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormDescription>Your best estimate, e.g. from your vet or the shelter</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ) : (
+        <FormField
+          control={form.control}
+          name={`dogs.${index}.birthDate`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Date of Birth *</FormLabel>
+              <FormControl>
+                <Input type="date" max={toISODateStringLocal(new Date())} {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormDescription>
+                {birthAge !== null && birthAge >= 0
+                  ? `${birthAge} ${birthAge === 1 ? "year" : "years"} old today`
+                  : "As shown on adoption or breeder papers"}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.weight`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Weight (lb) *</FormLabel>
+            <FormControl>
+              <Input type="number" placeholder="e.g., 45" min="1" max="300" {...field} value={field.value ?? ""} />
+            </FormControl>
+            <FormDescription>
+              {weight !== null && weight > 0
+                ? `Size: ${SIZE_CLASS_LABELS[sizeClassForWeight(weight)]}`
+                : "Approximate is fine; licenses for larger dogs carry a surcharge"}
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.spayedNeutered`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Spayed or Neutered? *</FormLabel>
+            <FormControl>
+              <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <RadioGroupItem value="yes" />
+                  </FormControl>
+                  <FormLabel className="font-normal">Yes</FormLabel>
+                </FormItem>
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <RadioGroupItem value="no" />
+                  </FormControl>
+                  <FormLabel className="font-normal">No</FormLabel>
+                </FormItem>
+              </RadioGroup>
+            </FormControl>
+            <FormDescription>Licenses for intact dogs carry a surcharge</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {dog?.spayedNeutered === "yes" && (
+        <FormField
+          control={form.control}
+          name={`dogs.${index}.spayNeuterCertificate`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Spay/Neuter Certificate</FormLabel>
+              <FormControl>
+                <Input
+                  type="file"
+                  accept=".pdf,.jpg,.jpeg,.png"
+                  name={field.name}
+                  ref={field.ref}
+                  onBlur={field.onBlur}
+                  onChange={(e) => field.onChange(e.target.files?.[0])}
+                />
+              </FormControl>
+              <FormDescription>
+                Optional. PDF or image file (max 5MB) from your vet; without it a clerk may ask for proof.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.markings`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Distinguishing Marks</FormLabel>
+            <FormControl>
+              <Textarea
+                rows={2}
+                placeholder="e.g., white blaze on chest, notch in left ear"
+                {...field}
+                value={field.value ?? ""}
+              />
+            </FormControl>
+            <FormDescription>Helps animal control identify your dog if it gets lost</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.microchipNumber`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Microchip Number</FormLabel>
+            <FormControl>
+              <Input placeholder="e.g., 985112003456789" {...field} value={field.value ?? ""} />
+            </FormControl>
+            <FormDescription>
+              {chip?.ok
+                ? [MICROCHIP_FORMAT_LABELS[chip.chip.format], chip.chip.manufacturer].filter(Boolean).join(" · ")
+                : "Optional. Printed on your microchip paperwork or vet records"}
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
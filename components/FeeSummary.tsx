@@ -0,0 +1,27 @@
+import type { FeeQuote } from "../lib/fee-schedule";
+import { formatCents } from "../lib/utils";
+
+interface FeeSummaryProps {
+  quote: FeeQuote;
+  totalLabel?: string;
+}
+
+// Itemized fee quote with a total row.
+export default function FeeSummary({ quote, totalLabel = "Total" }: FeeSummaryProps) {
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {quote.items.map((item, index) => (
+          <tr key={`${item.code}-${index}`}>
+            <td className="py-1 text-gray-700 dark:text-gray-300">{item.label}</td>
+            <td className="py-1 text-right tabular-nums">{formatCents(item.amount, quote.currency)}</td>
+          </tr>
+        ))}
+        <tr className="border-t border-gray-300 dark:border-gray-600 font-semibold">
+          <td className="pt-2">{totalLabel}</td>
+          <td className="pt-2 text-right tabular-nums">{formatCents(quote.total, quote.currency)}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
@@ -3,8 +3,10 @@
 import Link from "next/link";
 import Image from "next/image";
 import { useTheme } from "next-themes";
-import { Moon, Sun } from "lucide-react";
+import { LogIn, LogOut, Moon, Sun } from "lucide-react";
 import { Button } from "./ui/button";
+import { useSession } from "../hooks/use-session";
+import { signOut } from "../lib/auth-client";
 
 interface HeaderProps {
   rightLogos?: string[]; // Array of logo URLs (0, 1, or 2 logos)
@@ -12,6 +14,12 @@ interface HeaderProps {
 
 export default function Header({ rightLogos = [] }: HeaderProps) {
   const { theme, setTheme } = useTheme();
+  const { user, can } = useSession();
+
+  const handleSignOut = async () => {
+    await signOut();
+    window.location.href = "/";
+  };
 
   return (
     <header className="bg-white dark:bg-gray-900 shadow-sm border-b border-gray-200 dark:border-gray-700">
@@ -49,6 +57,28 @@ export default function Header({ rightLogos = [] }: HeaderProps) {
             >
               Track Application
             </Link>
+            <Link
+              href="/renew"
+              className="text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 px-3 py-2 text-sm font-medium transition-colors"
+            >
+              Renew License
+            </Link>
+            {can("applications:read") && (
+              <Link
+                href="/admin/applications"
+                className="text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 px-3 py-2 text-sm font-medium transition-colors"
+              >
+                Clerk Dashboard
+              </Link>
+            )}
+            {user?.role === "applicant" && (
+              <Link
+                href="/account"
+                className="text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 px-3 py-2 text-sm font-medium transition-colors"
+              >
+                My Account
+              </Link>
+            )}
           </nav>
 
           {/* Right side - Optional logos and theme toggle */}
@@ -64,6 +94,21 @@ export default function Header({ rightLogos = [] }: HeaderProps) {
               </div>
             ))}
             
+            {/* Session */}
+            {user ? (
+              <Button variant="ghost" size="sm" onClick={handleSignOut} className="flex items-center gap-2">
+                <LogOut className="h-4 w-4" />
+                <span className="hidden sm:inline">Sign out</span>
+              </Button>
+            ) : (
+              <Button asChild variant="ghost" size="sm">
+                <Link href="/account/login" className="flex items-center gap-2">
+                  <LogIn className="h-4 w-4" />
+                  <span className="hidden sm:inline">Sign in</span>
+                </Link>
+              </Button>
+            )}
+
             {/* Theme toggle */}
             <Button
               variant="ghost"
@@ -116,6 +161,28 @@ export default function Header({ rightLogos = [] }: HeaderProps) {
             >
               Track Application
             </Link>
+            <Link
+              href="/renew"
+              className="text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 block px-3 py-2 text-base font-medium"
+            >
+              Renew License
+            </Link>
+            {can("applications:read") && (
+              <Link
+                href="/admin/applications"
+                className="text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 block px-3 py-2 text-base font-medium"
+              >
+                Clerk Dashboard
+              </Link>
+            )}
+            {user?.role === "applicant" && (
+              <Link
+                href="/account"
+                className="text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 block px-3 py-2 text-base font-medium"
+              >
+                My Account
+              </Link>
+            )}
           </div>
         </div>
       </div>
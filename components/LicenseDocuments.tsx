@@ -0,0 +1,36 @@
+import { FileBadge, Receipt } from "lucide-react";
+import { Button } from "./ui/button";
+import { applicationLicenses, type DogLicenseApplication } from "../lib/applications";
+import { certificateUrl, receiptUrl } from "../lib/application-api";
+
+interface LicenseDocumentsProps {
+  application: DogLicenseApplication;
+  size?: "sm" | "default";
+}
+
+// Download links for whichever PDFs exist for this application yet.
+export default function LicenseDocuments({ application, size = "sm" }: LicenseDocumentsProps) {
+  const hasCertificate = application.status === "license_issued" && applicationLicenses(application).length > 0;
+  if (!hasCertificate && !application.payment) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {hasCertificate && (
+        <Button asChild size={size} variant="outline">
+          <a href={certificateUrl(application.id)} target="_blank" rel="noopener">
+            <FileBadge className="w-4 h-4 mr-2" />
+            License Certificate (PDF)
+          </a>
+        </Button>
+      )}
+      {application.payment && (
+        <Button asChild size={size} variant="outline">
+          <a href={receiptUrl(application.id)} target="_blank" rel="noopener">
+            <Receipt className="w-4 h-4 mr-2" />
+            Payment Receipt (PDF)
+          </a>
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { CreditCard, Lock, ShieldCheck } from "lucide-react";
+import FeeSummary from "./FeeSummary";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import type { DogLicenseApplication } from "../lib/applications";
+import { completePaymentChallenge, payApplication, type PaymentOutcome } from "../lib/payment-api";
+import { paymentCardSchema, type PaymentCardField, type PaymentTransaction } from "../lib/payments";
+import { formatCents } from "../lib/utils";
+
+interface PaymentFormProps {
+  application: DogLicenseApplication;
+  onPaid: (application: DogLicenseApplication, transaction: PaymentTransaction) => void;
+}
+
+const EMPTY_CARD: Record<PaymentCardField, string> = { cardholderName: "", cardNumber: "", expiry: "", cvc: "" };
+
+// Card numbers the local fake provider reacts to; see lib/server/payment-provider.ts.
+const TEST_CARDS = [
+  { number: "4242 4242 4242 4242", outcome: "succeeds" },
+  { number: "4000 0000 0000 0002", outcome: "is declined" },
+  { number: "4000 0025 0000 3155", outcome: "asks for verification (code 123456)" },
+];
+
+export default function PaymentForm({ application, onPaid }: PaymentFormProps) {
+  const [card, setCard] = useState(EMPTY_CARD);
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<PaymentCardField, string>>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [challenge, setChallenge] = useState<PaymentTransaction | null>(null);
+  const [challengeCode, setChallengeCode] = useState("");
+
+  const fee = application.fee;
+
+  const handleOutcome = ({ transaction, application: paid }: PaymentOutcome) => {
+    if (transaction.status === "requires_action") {
+      setChallenge(transaction);
+      setChallengeCode("");
+      return;
+    }
+    setChallenge(null);
+    if (transaction.status === "captured" && paid) {
+      onPaid(paid, transaction);
+    } else {
+      setError(transaction.failureMessage || "The payment was not completed");
+    }
+  };
+
+  const run = async (task: () => Promise<PaymentOutcome>) => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      handleOutcome(await task());
+    } catch (err) {
+      setChallenge(null);
+      setError(err instanceof Error ? err.message : "Payment failed");
+    }
+    setIsProcessing(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = paymentCardSchema.safeParse(card);
+    if (!parsed.success) {
+      const errors: Partial<Record<PaymentCardField, string>> = {};
+      for (const issue of parsed.error.issues) {
+        const field = issue.path[0] as PaymentCardField;
+        errors[field] ??= issue.message;
+      }
+      setFieldErrors(errors);
+      return;
+    }
+    setFieldErrors({});
+    run(() => payApplication(application.id, parsed.data));
+  };
+
+  const field = (name: PaymentCardField, label: string, props: React.ComponentProps<typeof Input> = {}) => (
+    <div className="space-y-2">
+      <Label htmlFor={name}>{label}</Label>
+      <Input
+        id={name}
+        value={card[name]}
+        onChange={(e) => setCard({ ...card, [name]: e.target.value })}
+        aria-invalid={!!fieldErrors[name]}
+        {...props}
+      />
+      {fieldErrors[name] && <p className="text-sm text-red-600 dark:text-red-400">{fieldErrors[name]}</p>}
+    </div>
+  );
+
+  if (!fee) {
+    return <p className="text-sm text-gray-600 dark:text-gray-300">This application has no fee to pay.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
+        <FeeSummary quote={fee} totalLabel="Amount due" />
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {field("cardholderName", "Name on card", { autoComplete: "cc-name" })}
+        {field("cardNumber", "Card number", {
+          autoComplete: "cc-number",
+          inputMode: "numeric",
+          placeholder: "1234 5678 9012 3456",
+        })}
+        <div className="grid grid-cols-2 gap-4">
+          {field("expiry", "Expiry", { autoComplete: "cc-exp", placeholder: "MM/YY" })}
+          {field("cvc", "Security code", { autoComplete: "cc-csc", inputMode: "numeric", placeholder: "123" })}
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <Button type="submit" className="w-full" disabled={isProcessing}>
+          <Lock className="w-4 h-4 mr-2" />
+          {isProcessing ? "Processing..." : `Pay ${formatCents(fee.total, fee.currency)}`}
+        </Button>
+      </form>
+
+      {process.env.NODE_ENV !== "production" && (
+        <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+          <p className="flex items-center gap-1 font-medium">
+            <CreditCard className="w-3 h-3" />
+            Test mode — use any future expiry and any CVC:
+          </p>
+          {TEST_CARDS.map((test) => (
+            <p key={test.number}>
+              <span className="font-mono">{test.number}</span> {test.outcome}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={challenge !== null} onOpenChange={(open) => !open && !isProcessing && setChallenge(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5" />
+              Verify this payment
+            </DialogTitle>
+            <DialogDescription>{challenge?.challengePrompt}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="challengeCode">Verification code</Label>
+            <Input
+              id="challengeCode"
+              value={challengeCode}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              onChange={(e) => setChallengeCode(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setChallenge(null)} disabled={isProcessing}>
+              Cancel
+            </Button>
+            <Button
+              disabled={isProcessing || !challengeCode.trim()}
+              onClick={() => challenge && run(() => completePaymentChallenge(challenge.id, challengeCode))}
+            >
+              {isProcessing ? "Verifying..." : "Verify"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
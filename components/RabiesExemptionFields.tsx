@@ -0,0 +1,105 @@
+"use client";
+
+import type { UseFormReturn } from "react-hook-form";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
+import { Input } from "./ui/input";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import type { DogLicenseFormData } from "../lib/dog-license-schema";
+import { RABIES_STATUSES, RABIES_STATUS_LABELS } from "../lib/rabies-vaccination";
+
+interface RabiesExemptionFieldsProps {
+  form: UseFormReturn<DogLicenseFormData>;
+  index: number;
+}
+
+// Whether the dog is vaccinated or has a vet's medical exemption.
+export function RabiesStatusField({ form, index }: RabiesExemptionFieldsProps) {
+  return (
+    <FormField
+      control={form.control}
+      name={`dogs.${index}.rabiesStatus`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Rabies Vaccination *</FormLabel>
+          <FormControl>
+            <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+              {RABIES_STATUSES.map((status) => (
+                <FormItem key={status} className="flex items-center gap-2">
+                  <FormControl>
+                    <RadioGroupItem value={status} />
+                  </FormControl>
+                  <FormLabel className="font-normal">{RABIES_STATUS_LABELS[status]}</FormLabel>
+                </FormItem>
+              ))}
+            </RadioGroup>
+          </FormControl>
+          <FormDescription>
+            Choose a medical exemption only if a veterinarian has certified that your dog can&apos;t be vaccinated.
+            Exemptions are reviewed by a clerk before a license is issued.
+          </FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+// The vet's exemption letter, when it ends and the vet's license number, asked
+// for instead of the vaccination details.
+export default function RabiesExemptionFields({ form, index }: RabiesExemptionFieldsProps) {
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.exemptionLetter`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Veterinarian&apos;s Exemption Letter *</FormLabel>
+            <FormControl>
+              <Input
+                type="file"
+                accept=".pdf,.jpg,.jpeg,.png"
+                name={field.name}
+                ref={field.ref}
+                onBlur={field.onBlur}
+                onChange={(e) => field.onChange(e.target.files?.[0])}
+              />
+            </FormControl>
+            <FormDescription>Upload PDF or image file (max 5MB), signed by the veterinarian.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.exemptionExpiresOn`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Exemption Ends *</FormLabel>
+            <FormControl>
+              <Input type="date" {...field} value={field.value ?? ""} />
+            </FormControl>
+            <FormDescription>The license will end no later than this date</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.vetLicenseNumber`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Veterinarian&apos;s License Number *</FormLabel>
+            <FormControl>
+              <Input placeholder="e.g., 091-012345" {...field} value={field.value ?? ""} />
+            </FormControl>
+            <FormDescription>The state license number printed on the letter</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import type { UseFormReturn } from "react-hook-form";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
+import { Input } from "./ui/input";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { toRabiesShot, type DogLicenseFormData } from "../lib/dog-license-schema";
+import { JURISDICTION } from "../lib/jurisdiction";
+import {
+  rabiesExpiresOn,
+  RABIES_VACCINE_DURATIONS,
+  RABIES_VACCINE_DURATION_LABELS,
+} from "../lib/rabies-vaccination";
+import { coerceDate, formatDate } from "../lib/utils";
+
+interface RabiesVaccinationFieldsProps {
+  form: UseFormReturn<DogLicenseFormData>;
+  index: number;
+}
+
+// The shot date, the vaccine's duration, whether it was the dog's first shot
+// and the dog's age when it was given. Once all are known the date the
+// vaccination runs out is shown under the date.
+export default function RabiesVaccinationFields({ form, index }: RabiesVaccinationFieldsProps) {
+  const dog = form.watch(`dogs.${index}`);
+  const expiresOn =
+    dog && coerceDate(dog.lastRabiesShotDate) && dog.rabiesVaccineDuration && dog.firstRabiesShot
+      ? rabiesExpiresOn(toRabiesShot(dog))
+      : null;
+  const { minimumAgeMonths, firstShotValidityYears } = JURISDICTION.rabies;
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.lastRabiesShotDate`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Last Rabies Vaccination Date *</FormLabel>
+            <FormControl>
+              <Input type="date" {...field} value={field.value ?? ""} />
+            </FormControl>
+            <FormDescription>
+              {expiresOn
+                ? `This vaccination is accepted through ${formatDate(expiresOn)}`
+                : "Must still be current when the license starts"}
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.rabiesVaccineDuration`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Vaccine Duration *</FormLabel>
+            <FormControl>
+              <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                {RABIES_VACCINE_DURATIONS.map((duration) => (
+                  <FormItem key={duration} className="flex items-center gap-2">
+                    <FormControl>
+                      <RadioGroupItem value={duration} />
+                    </FormControl>
+                    <FormLabel className="font-normal">{RABIES_VACCINE_DURATION_LABELS[duration]}</FormLabel>
+                  </FormItem>
+                ))}
+              </RadioGroup>
+            </FormControl>
+            <FormDescription>Printed on the certificate, or ask your vet</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.firstRabiesShot`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Was this your dog&apos;s first rabies shot? *</FormLabel>
+            <FormControl>
+              <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <RadioGroupItem value="yes" />
+                  </FormControl>
+                  <FormLabel className="font-normal">Yes</FormLabel>
+                </FormItem>
+                <FormItem className="flex items-center gap-2">
+                  <FormControl>
+                    <RadioGroupItem value="no" />
+                  </FormControl>
+                  <FormLabel className="font-normal">No, a booster</FormLabel>
+                </FormItem>
+              </RadioGroup>
+            </FormControl>
+            <FormDescription>
+              A first shot is accepted for {firstShotValidityYears} year
+              {firstShotValidityYears === 1 ? "" : "s"} whatever the vaccine&apos;s label says
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name={`dogs.${index}.ageAtVaccination`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Age When Vaccinated (months) *</FormLabel>
+            <FormControl>
+              <Input type="number" min={0} placeholder="e.g., 16" {...field} value={field.value ?? ""} />
+            </FormControl>
+            <FormDescription>Shots given before {minimumAgeMonths} months of age don&apos;t count</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
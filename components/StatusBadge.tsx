@@ -0,0 +1,68 @@
+import {
+  AlertCircle,
+  Award,
+  Ban,
+  CalendarX,
+  CheckCircle,
+  Clock,
+  Eye,
+  FileEdit,
+  XCircle,
+} from "lucide-react";
+import { Badge } from "./ui/badge";
+import { APPLICATION_STATUS_LABELS, type ApplicationStatus } from "../lib/applications";
+
+export function getStatusColor(status: ApplicationStatus) {
+  switch (status) {
+    case "submitted":
+      return "bg-yellow-100 text-yellow-800 border-yellow-200";
+    case "under_review":
+      return "bg-blue-100 text-blue-800 border-blue-200";
+    case "needs_info":
+      return "bg-orange-100 text-orange-800 border-orange-200";
+    case "approved":
+    case "license_issued":
+      return "bg-green-100 text-green-800 border-green-200";
+    case "rejected":
+    case "revoked":
+      return "bg-red-100 text-red-800 border-red-200";
+    case "draft":
+    case "expired":
+    default:
+      return "bg-gray-100 text-gray-800 border-gray-200";
+  }
+}
+
+export function getStatusIcon(status: ApplicationStatus) {
+  switch (status) {
+    case "draft":
+      return <FileEdit className="w-4 h-4" />;
+    case "submitted":
+      return <Clock className="w-4 h-4" />;
+    case "under_review":
+      return <Eye className="w-4 h-4" />;
+    case "needs_info":
+      return <AlertCircle className="w-4 h-4" />;
+    case "approved":
+      return <CheckCircle className="w-4 h-4" />;
+    case "license_issued":
+      return <Award className="w-4 h-4" />;
+    case "expired":
+      return <CalendarX className="w-4 h-4" />;
+    case "revoked":
+      return <Ban className="w-4 h-4" />;
+    case "rejected":
+      return <XCircle className="w-4 h-4" />;
+    default:
+      return <Clock className="w-4 h-4" />;
+  }
+}
+
+export default function StatusBadge({ status }: { status: ApplicationStatus }) {
+  return (
+    <Badge className={`${getStatusColor(status)} flex items-center gap-1`}>
+      {getStatusIcon(status)}
+      {APPLICATION_STATUS_LABELS[status].toUpperCase()}
+    </Badge>
+  );
+}
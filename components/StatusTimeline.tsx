@@ -0,0 +1,30 @@
+import { getStatusColor, getStatusIcon } from "./StatusBadge";
+import { APPLICATION_STATUS_LABELS, type StatusChange } from "../lib/applications";
+import { formatDateTime } from "../lib/utils";
+
+interface StatusTimelineProps {
+  history: StatusChange[];
+}
+
+export default function StatusTimeline({ history }: StatusTimelineProps) {
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-600 ml-3 space-y-4">
+      {history.map((change, index) => (
+        <li key={`${change.to}-${index}`} className="ml-6">
+          <span
+            className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full border ${getStatusColor(change.to)}`}
+          >
+            {getStatusIcon(change.to)}
+          </span>
+          <div className="text-sm">
+            <p className="font-medium text-gray-900 dark:text-white">{APPLICATION_STATUS_LABELS[change.to]}</p>
+            <p className="text-gray-500 dark:text-gray-400">
+              {formatDateTime(change.at)} · by {change.actor}
+            </p>
+            {change.reason && <p className="text-gray-600 dark:text-gray-300 mt-1">{change.reason}</p>}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
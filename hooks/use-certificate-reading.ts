@@ -0,0 +1,72 @@
+import * as React from "react"
+import type { UseFormReturn } from "react-hook-form"
+import { extractCertificate } from "@/lib/application-api"
+import type { DogLicenseFormData } from "@/lib/dog-license-schema"
+import { hasCertificateFields, type CertificateFields } from "@/lib/rabies-certificate"
+
+export type CertificateReading =
+  | { status: "reading" }
+  | { status: "read"; fields: CertificateFields }
+  // An image, a scan or a layout we couldn't follow; the applicant types the
+  // date themselves.
+  | { status: "unreadable" }
+
+// Reads each dog's certificate as soon as it is chosen and fills in a blank
+// vaccination date from it. Readings are keyed by the dog's field-array id so
+// they follow the dog if another is removed.
+export function useCertificateReading(form: UseFormReturn<DogLicenseFormData>) {
+  const [readings, setReadings] = React.useState<Record<string, CertificateReading>>({})
+  const latest = React.useRef<Record<string, number>>({})
+
+  const setReading = React.useCallback((key: string, reading: CertificateReading | null) => {
+    setReadings((current) => {
+      const next = { ...current }
+      if (reading) next[key] = reading
+      else delete next[key]
+      return next
+    })
+  }, [])
+
+  const read = React.useCallback(
+    async (key: string, index: number, file: File | undefined) => {
+      const request = (latest.current[key] ?? 0) + 1
+      latest.current[key] = request
+      if (!file || file.type !== "application/pdf") {
+        setReading(key, null)
+        return
+      }
+
+      setReading(key, { status: "reading" })
+      let fields: CertificateFields
+      try {
+        fields = await extractCertificate(file)
+      } catch {
+        fields = {}
+      }
+      if (request !== latest.current[key]) return
+
+      if (!hasCertificateFields(fields)) {
+        setReading(key, { status: "unreadable" })
+        return
+      }
+      if (fields.vaccinationDate && !form.getValues(`dogs.${index}.lastRabiesShotDate`)) {
+        form.setValue(`dogs.${index}.lastRabiesShotDate`, fields.vaccinationDate, { shouldValidate: true })
+      }
+      setReading(key, { status: "read", fields })
+    },
+    [form, setReading],
+  )
+
+  const applyDate = React.useCallback(
+    (key: string, index: number) => {
+      const reading = readings[key]
+      if (reading?.status !== "read" || !reading.fields.vaccinationDate) return
+      form.setValue(`dogs.${index}.lastRabiesShotDate`, reading.fields.vaccinationDate, { shouldValidate: true })
+    },
+    [form, readings],
+  )
+
+  return { readings, read, applyDate }
+}
+
+export type CertificateReadings = ReturnType<typeof useCertificateReading>
@@ -0,0 +1,19 @@
+import * as React from "react"
+
+// A blob: URL for previewing a chosen file, revoked when the file changes or
+// the component unmounts.
+export function useObjectUrl(file: Blob | undefined | null): string | null {
+  const [url, setUrl] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!file) {
+      setUrl(null)
+      return
+    }
+    const next = URL.createObjectURL(file)
+    setUrl(next)
+    return () => URL.revokeObjectURL(next)
+  }, [file])
+
+  return url
+}
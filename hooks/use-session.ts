@@ -0,0 +1,31 @@
+import * as React from "react"
+import type { Permission } from "@/lib/auth/roles"
+import { fetchCurrentUser, type CurrentUser } from "@/lib/auth-client"
+
+// Client-side view of who is signed in, for deciding what to render. Access is
+// enforced on the server regardless of what this returns.
+export function useSession() {
+  const [user, setUser] = React.useState<CurrentUser | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    let cancelled = false
+    fetchCurrentUser()
+      .then((current) => {
+        if (!cancelled) setUser(current)
+      })
+      .catch(() => {
+        if (!cancelled) setUser(null)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const can = React.useCallback((permission: Permission) => !!user?.permissions.includes(permission), [user])
+
+  return { user, isLoading, can }
+}
@@ -0,0 +1,104 @@
+import * as React from "react"
+import type { UseFormReturn } from "react-hook-form"
+import { isUSStateCode, isZipLookupOutage, normalizeZip, samePlace, ZIP_PATTERN } from "@/lib/address"
+import type { DogLicenseFormData } from "@/lib/dog-license-schema"
+import { JURISDICTION } from "@/lib/jurisdiction"
+import { decideResidency, nonResidentMessage } from "@/lib/residency"
+import { validateUSZip } from "@/lib/zip-validator"
+
+export type ZipCheckResult =
+  | { status: "idle" }
+  | { status: "checking"; zip: string }
+  | { status: "matched"; zip: string; city: string; state: string }
+  | { status: "mismatch"; zip: string; city: string; state: string }
+  | { status: "invalid"; zip: string; message: string }
+  // The lookup itself failed; the applicant can carry on and the clerk checks
+  // the address by hand.
+  | { status: "unverified"; zip: string; message: string }
+  | { status: "non_resident"; zip: string; message: string; url?: string }
+
+// Looks the owner's ZIP up, fills in a blank city or state from it and holds
+// the applicant on the owner step while the address is outside the
+// jurisdiction or what they typed disagrees with the ZIP.
+// "Keep my entry" lets a known-good address through, e.g. a town that shares
+// its ZIP with a larger city.
+export function useZipCheck(form: UseFormReturn<DogLicenseFormData>) {
+  const [result, setResult] = React.useState<ZipCheckResult>({ status: "idle" })
+  const [kept, setKept] = React.useState<string | null>(null)
+  const latest = React.useRef(0)
+
+  const enteredKey = React.useCallback(
+    (zip: string) => `${zip}|${form.getValues("ownerCity")}|${form.getValues("ownerState")}`.toLowerCase(),
+    [form],
+  )
+
+  const check = React.useCallback(async (): Promise<boolean> => {
+    const zip = normalizeZip(form.getValues("ownerZip") ?? "")
+    if (!ZIP_PATTERN.test(zip)) {
+      setResult({ status: "idle" })
+      return false
+    }
+
+    const request = ++latest.current
+    setResult({ status: "checking", zip })
+    const lookup = await validateUSZip(zip.slice(0, 5))
+    if (request !== latest.current) return false
+
+    const outage = !lookup.valid && !!lookup.code && isZipLookupOutage(lookup.code)
+    if (!lookup.valid && !outage) {
+      const message = lookup.error ?? `ZIP code ${zip} not found`
+      form.setError("ownerZip", { type: "zip", message })
+      setResult({ status: "invalid", zip, message })
+      return false
+    }
+
+    const place = lookup.valid ? { zip, city: lookup.city ?? "", state: lookup.state ?? "" } : null
+    const address = {
+      street: form.getValues("ownerStreet") ?? "",
+      city: form.getValues("ownerCity") ?? "",
+      state: form.getValues("ownerState") ?? "",
+      zip,
+    }
+    if (decideResidency(address, place).status === "non_resident") {
+      setResult({ status: "non_resident", zip, message: nonResidentMessage(), url: JURISDICTION.nonResident.url })
+      return false
+    }
+    if (!place) {
+      setResult({ status: "unverified", zip, message: lookup.error ?? "ZIP code lookup is unavailable right now" })
+      return true
+    }
+
+    const { city, state } = place
+    if (!form.getValues("ownerCity") && city) form.setValue("ownerCity", city, { shouldValidate: true })
+    if (!form.getValues("ownerState") && isUSStateCode(state)) {
+      form.setValue("ownerState", state, { shouldValidate: true })
+    }
+
+    const enteredCity = form.getValues("ownerCity")
+    const enteredState = form.getValues("ownerState")
+    const mismatch = (city && !samePlace(enteredCity, city)) || (state && enteredState !== state)
+    if (mismatch && kept !== enteredKey(zip)) {
+      setResult({ status: "mismatch", zip, city, state })
+      return false
+    }
+    setResult({ status: "matched", zip, city, state })
+    return true
+  }, [form, kept, enteredKey])
+
+  const acceptReturned = React.useCallback(() => {
+    if (result.status !== "mismatch") return
+    form.setValue("ownerCity", result.city, { shouldValidate: true })
+    if (isUSStateCode(result.state)) form.setValue("ownerState", result.state, { shouldValidate: true })
+    setResult({ ...result, status: "matched" })
+  }, [form, result])
+
+  const keepEntered = React.useCallback(() => {
+    if (result.status !== "mismatch") return
+    setKept(enteredKey(result.zip))
+    setResult({ ...result, status: "matched" })
+  }, [result, enteredKey])
+
+  return { result, check, acceptReturned, keepEntered }
+}
+
+export type ZipCheck = ReturnType<typeof useZipCheck>
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+import { formatAddress, isUSStateCode, isZipLookupOutage, normalizeZip, parseAddress, samePlace } from "@/lib/address"
+import { ownerZip } from "@/lib/applications"
+
+describe("normalizeZip", () => {
+  it("accepts five digits and ZIP+4 with or without a separator", () => {
+    expect(normalizeZip(" 62704 ")).toBe("62704")
+    expect(normalizeZip("62704-1234")).toBe("62704-1234")
+    expect(normalizeZip("62704 1234")).toBe("62704-1234")
+    expect(normalizeZip("627041234")).toBe("62704-1234")
+  })
+
+  it("leaves anything else for validation to reject", () => {
+    expect(normalizeZip(" 6270 ")).toBe("6270")
+    expect(normalizeZip("62-704")).toBe("62-704")
+  })
+})
+
+describe("isUSStateCode", () => {
+  it("knows states and territories but not object keys", () => {
+    expect(isUSStateCode("IL")).toBe(true)
+    expect(isUSStateCode("PR")).toBe(true)
+    expect(isUSStateCode("il")).toBe(false)
+    expect(isUSStateCode("toString")).toBe(false)
+  })
+})
+
+describe("formatAddress and parseAddress", () => {
+  it("round-trip an address with a unit", () => {
+    const line = formatAddress({ street: "12 Main St", unit: "Apt 4", city: "Springfield", state: "IL", zip: "62704" })
+    expect(line).toBe("12 Main St Apt 4, Springfield, IL 62704")
+    expect(parseAddress(line)).toEqual({ street: "12 Main St Apt 4", city: "Springfield", state: "IL", zip: "62704" })
+  })
+
+  it("upper-cases the state", () => {
+    expect(parseAddress("12 Main St, Springfield, il 62704-1234")).toMatchObject({ state: "IL", zip: "62704-1234" })
+  })
+
+  it("keeps what it can't split in the street and pulls out the ZIP", () => {
+    expect(parseAddress("12 Main St Springfield Illinois 62704")).toEqual({
+      street: "12 Main St Springfield Illinois",
+      city: "",
+      state: "",
+      zip: "62704",
+    })
+    expect(parseAddress("12 Main St, Springfield, XX 62704")).toMatchObject({ state: "", zip: "62704" })
+  })
+})
+
+describe("samePlace", () => {
+  it("ignores case, punctuation and Saint spellings", () => {
+    expect(samePlace("St. Louis", "saint louis")).toBe(true)
+    expect(samePlace("Winston-Salem", "WINSTON SALEM")).toBe(true)
+    expect(samePlace("Springfield", "Springdale")).toBe(false)
+  })
+})
+
+describe("isZipLookupOutage", () => {
+  it("holds the applicant back only for answers about the ZIP", () => {
+    expect(isZipLookupOutage("timeout")).toBe(true)
+    expect(isZipLookupOutage("unavailable")).toBe(true)
+    expect(isZipLookupOutage("not_found")).toBe(false)
+  })
+})
+
+describe("ownerZip", () => {
+  const owner = { name: "Pat Doe", email: "pat@example.com", phone: "2175551234" }
+
+  it("prefers the ZIP the owner entered", () => {
+    const postalAddress = { street: "12 Main St", city: "Springfield", state: "IL", zip: "62704-1234" }
+    expect(ownerZip({ ...owner, address: "12 Main St, Springfield, IL 62711", postalAddress })).toBe("62704")
+  })
+
+  it("reads the last ZIP from a one-line address on older records", () => {
+    expect(ownerZip({ ...owner, address: "10001 Main St, Springfield, IL 62704" })).toBe("62704")
+    expect(ownerZip({ ...owner, address: "12 Main St" })).toBeNull()
+  })
+})
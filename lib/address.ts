@@ -0,0 +1,144 @@
+// ---------- US Postal Addresses ----------
+// Owners enter their address in parts so the ZIP can be checked against the
+// city and state. Applications also keep the one-line form for display,
+// documents and records written before addresses were split.
+
+export const US_STATES = {
+  AL: "Alabama",
+  AK: "Alaska",
+  AZ: "Arizona",
+  AR: "Arkansas",
+  CA: "California",
+  CO: "Colorado",
+  CT: "Connecticut",
+  DE: "Delaware",
+  DC: "District of Columbia",
+  FL: "Florida",
+  GA: "Georgia",
+  HI: "Hawaii",
+  ID: "Idaho",
+  IL: "Illinois",
+  IN: "Indiana",
+  IA: "Iowa",
+  KS: "Kansas",
+  KY: "Kentucky",
+  LA: "Louisiana",
+  ME: "Maine",
+  MD: "Maryland",
+  MA: "Massachusetts",
+  MI: "Michigan",
+  MN: "Minnesota",
+  MS: "Mississippi",
+  MO: "Missouri",
+  MT: "Montana",
+  NE: "Nebraska",
+  NV: "Nevada",
+  NH: "New Hampshire",
+  NJ: "New Jersey",
+  NM: "New Mexico",
+  NY: "New York",
+  NC: "North Carolina",
+  ND: "North Dakota",
+  OH: "Ohio",
+  OK: "Oklahoma",
+  OR: "Oregon",
+  PA: "Pennsylvania",
+  RI: "Rhode Island",
+  SC: "South Carolina",
+  SD: "South Dakota",
+  TN: "Tennessee",
+  TX: "Texas",
+  UT: "Utah",
+  VT: "Vermont",
+  VA: "Virginia",
+  WA: "Washington",
+  WV: "West Virginia",
+  WI: "Wisconsin",
+  WY: "Wyoming",
+  AS: "American Samoa",
+  GU: "Guam",
+  MP: "Northern Mariana Islands",
+  PR: "Puerto Rico",
+  VI: "U.S. Virgin Islands",
+} as const
+
+export type USStateCode = keyof typeof US_STATES
+
+export const US_STATE_CODES = Object.keys(US_STATES) as USStateCode[]
+
+export function isUSStateCode(value: unknown): value is USStateCode {
+  return typeof value === "string" && Object.hasOwn(US_STATES, value)
+}
+
+export interface PostalAddress {
+  street: string
+  unit?: string
+  city: string
+  state: string
+  zip: string
+}
+
+export const ZIP_PATTERN = /^\d{5}(?:-\d{4})?$/
+
+// "62704", "62704-1234"; anything else is returned trimmed and left for
+// validation to reject.
+export function normalizeZip(input: string): string {
+  const value = input.trim()
+  const digits = value.replace(/\D/g, "")
+  if (digits.length === 5 && /^\d{5}$/.test(value)) return digits
+  if (digits.length === 9 && /^\d{5}[-\s]?\d{4}$/.test(value)) return `${digits.slice(0, 5)}-${digits.slice(5)}`
+  return value
+}
+
+// "12 Main St Apt 4, Springfield, IL 62704"
+export function formatAddress(address: PostalAddress): string {
+  const street = [address.street.trim(), address.unit?.trim()].filter(Boolean).join(" ")
+  return `${street}, ${address.city.trim()}, ${address.state} ${address.zip}`
+}
+
+// Best-effort split of a one-line address written as formatAddress does.
+// Anything that doesn't fit is left in `street` with the ZIP pulled out, so the
+// owner only has to fill in what's missing.
+export function parseAddress(text: string): PostalAddress {
+  const match = text.trim().match(/^(.+?),\s*([^,]+?),\s*([A-Za-z]{2})\s+(\d{5}(?:-\d{4})?)$/)
+  if (match && isUSStateCode(match[3].toUpperCase())) {
+    return { street: match[1], city: match[2], state: match[3].toUpperCase(), zip: match[4] }
+  }
+
+  const zips = text.match(/\b\d{5}(?:-\d{4})?\b/g)
+  const zip = zips ? zips[zips.length - 1] : ""
+  const street = zip ? text.slice(0, text.lastIndexOf(zip)) + text.slice(text.lastIndexOf(zip) + zip.length) : text
+  return { street: street.replace(/[\s,]+$/, "").trim(), city: "", state: "", zip }
+}
+
+// Place names from a ZIP lookup are compared loosely: case, punctuation and
+// "Saint"/"St." spellings don't count as a mismatch.
+function comparablePlace(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\bsaint\b/g, "st")
+    .replace(/[^a-z0-9]/g, "")
+}
+
+export function samePlace(a: string, b: string): boolean {
+  return comparablePlace(a) === comparablePlace(b)
+}
+
+// ---------- ZIP Lookups ----------
+// Shared by the lookup providers on the server and the address step, which
+// only holds the applicant back for answers that are actually about the ZIP.
+
+export type ZipLookupErrorCode = "invalid" | "not_found" | "timeout" | "unavailable"
+
+export interface ZipPlace {
+  zip: string
+  city: string
+  state: string
+}
+
+export type ZipLookupResult = { ok: true; place: ZipPlace } | { ok: false; code: ZipLookupErrorCode; message: string }
+
+// The lookup service being slow or down says nothing about the ZIP itself.
+export function isZipLookupOutage(code: ZipLookupErrorCode): boolean {
+  return code === "timeout" || code === "unavailable"
+}
@@ -0,0 +1,200 @@
+import {
+  clearLocalApplications,
+  MAX_IMPORT_BATCH,
+  readLocalApplications,
+  type ApplicationPage,
+  type ApplicationStatus,
+  type DogLicenseApplication,
+} from "@/lib/applications"
+import type { StoredDocument } from "@/lib/documents"
+import { toFormData, type DogLicenseFormData, type FieldErrors } from "@/lib/dog-license-schema"
+import type { CertificateFields } from "@/lib/rabies-certificate"
+import type { RenewalCandidate } from "@/lib/renewals"
+
+// ---------- Applications API Client ----------
+// Thin fetch wrappers around app/api/applications for use in client components.
+
+// Thrown when the server rejects a submission; carries per-field messages.
+export class ApplicationValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly fieldErrors: FieldErrors,
+  ) {
+    super(message)
+    this.name = "ApplicationValidationError"
+  }
+}
+
+async function readError(response: Response): Promise<string> {
+  try {
+    const body = await response.json()
+    if (typeof body?.error === "string") return body.error
+  } catch {
+    // Fall through to the generic message
+  }
+  return `Request failed with status ${response.status}`
+}
+
+// Pass the prior tag number, and the email or phone it was looked up with, to
+// submit the application as a renewal.
+export async function submitApplication(
+  data: DogLicenseFormData,
+  renewalOf?: { tagNumber: string; contact: string },
+): Promise<DogLicenseApplication> {
+  const body = toFormData(data)
+  if (renewalOf) {
+    body.append("renewalOf", renewalOf.tagNumber)
+    body.append("renewalContact", renewalOf.contact)
+  }
+  const response = await fetch("/api/applications", {
+    method: "POST",
+    body,
+  })
+  if (response.status === 422) {
+    const body = await response.json()
+    throw new ApplicationValidationError(body.error, body.fieldErrors ?? {})
+  }
+  if (!response.ok) throw new Error(await readError(response))
+  const { application } = await response.json()
+  return application
+}
+
+// Finds a license to renew; contact is the owner's email address or phone.
+export async function lookupRenewal(tagNumber: string, contact: string): Promise<RenewalCandidate> {
+  const response = await fetch("/api/renewals/lookup", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ tagNumber, contact }),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  const { renewal } = await response.json()
+  return renewal
+}
+
+// Reads what it can from a text-based PDF certificate; empty for images and scans.
+export async function extractCertificate(file: File): Promise<CertificateFields> {
+  const body = new FormData()
+  body.append("file", file)
+  const response = await fetch("/api/certificates/extract", { method: "POST", body })
+  if (!response.ok) throw new Error(await readError(response))
+  const { fields } = await response.json()
+  return fields
+}
+
+// Resolves to null when no application has the given id.
+export async function fetchApplication(id: string): Promise<DogLicenseApplication | null> {
+  const response = await fetch(`/api/applications/${encodeURIComponent(id.trim())}`, { cache: "no-store" })
+  if (response.status === 404) return null
+  if (!response.ok) throw new Error(await readError(response))
+  const { application } = await response.json()
+  return application
+}
+
+// PDFs are streamed by the API; link to them directly.
+export function certificateUrl(id: string): string {
+  return `/api/applications/${encodeURIComponent(id)}/certificate`
+}
+
+export function receiptUrl(id: string): string {
+  return `/api/applications/${encodeURIComponent(id)}/receipt`
+}
+
+// Uploaded documents are only served to staff.
+export function documentUrl(id: string, document: StoredDocument): string {
+  return `/api/applications/${encodeURIComponent(id)}/documents/${document.sha256}`
+}
+
+// Dog photos are public like the application, for the track page.
+export function photoUrl(id: string, photo: StoredDocument): string {
+  return `/api/applications/${encodeURIComponent(id)}/photos/${photo.sha256}`
+}
+
+export interface ApplicationQuery {
+  status?: ApplicationStatus
+  from?: string
+  to?: string
+  zip?: string
+  // A coat color code from lib/dog-colors.ts
+  color?: string
+  page?: number
+  pageSize?: number
+}
+
+export async function fetchApplications(query: ApplicationQuery = {}): Promise<ApplicationPage> {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== "") params.set(key, String(value))
+  }
+  const search = params.toString()
+  const response = await fetch(`/api/applications${search ? `?${search}` : ""}`, { cache: "no-store" })
+  if (!response.ok) throw new Error(await readError(response))
+  return response.json()
+}
+
+// Applications owned by the signed-in applicant, newest first.
+export async function fetchMyApplications(): Promise<DogLicenseApplication[]> {
+  const response = await fetch("/api/account/applications", { cache: "no-store" })
+  if (!response.ok) throw new Error(await readError(response))
+  const { applications } = await response.json()
+  return applications
+}
+
+export async function changeApplicationStatus(
+  id: string,
+  status: ApplicationStatus,
+  reason?: string,
+): Promise<DogLicenseApplication> {
+  const response = await fetch(`/api/applications/${encodeURIComponent(id)}/status`, {
+    method: "PATCH",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ status, reason }),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  const { application } = await response.json()
+  return application
+}
+
+export async function issueApplicationLicense(id: string): Promise<DogLicenseApplication> {
+  const response = await fetch(`/api/applications/${encodeURIComponent(id)}/license`, { method: "POST" })
+  if (!response.ok) throw new Error(await readError(response))
+  const { application } = await response.json()
+  return application
+}
+
+export interface BulkStatusResult {
+  id: string
+  ok: boolean
+  error?: string
+}
+
+export async function bulkChangeApplicationStatus(
+  ids: string[],
+  status: ApplicationStatus,
+  reason?: string,
+): Promise<BulkStatusResult[]> {
+  const response = await fetch("/api/applications/bulk", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ ids, status, reason }),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  const { results } = await response.json()
+  return results
+}
+
+// Uploads applications left in localStorage by the browser-only version of the
+// app, then clears them. Safe to call on every page load.
+export async function uploadLocalApplications(): Promise<void> {
+  const applications = readLocalApplications()
+  if (applications.length === 0) return
+
+  for (let start = 0; start < applications.length; start += MAX_IMPORT_BATCH) {
+    const response = await fetch("/api/applications/import", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ applications: applications.slice(start, start + MAX_IMPORT_BATCH) }),
+    })
+    if (!response.ok) return
+  }
+  clearLocalApplications()
+}
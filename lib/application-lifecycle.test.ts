@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+import { applyTransition, canTransition, isTerminalStatus, STATUS_TRANSITIONS } from "@/lib/application-lifecycle"
+import { APPLICATION_STATUSES, type ApplicationStatus, type DogLicenseApplication } from "@/lib/applications"
+
+function application(status: ApplicationStatus): DogLicenseApplication {
+  return {
+    id: "DOG-1",
+    status,
+    submittedAt: "2026-03-01T10:00:00.000Z",
+    updatedAt: "2026-03-01T10:00:00.000Z",
+    owner: { name: "Pat Doe", email: "pat@example.com", address: "12 Main St", phone: "2175551234" },
+    dogs: [],
+    history: [{ from: null, to: status, actor: "applicant", at: "2026-03-01T10:00:00.000Z" }],
+  }
+}
+
+describe("STATUS_TRANSITIONS", () => {
+  it("only leads to known statuses", () => {
+    for (const targets of Object.values(STATUS_TRANSITIONS)) {
+      for (const to of targets) expect(APPLICATION_STATUSES).toContain(to)
+    }
+  })
+
+  it("lets a draft only be submitted", () => {
+    expect(STATUS_TRANSITIONS.draft).toEqual(["submitted"])
+    expect(canTransition("draft", "approved")).toBe(false)
+  })
+
+  it("never leaves a final status", () => {
+    for (const status of ["expired", "revoked", "rejected"] as const) expect(isTerminalStatus(status)).toBe(true)
+    expect(isTerminalStatus("license_issued")).toBe(false)
+  })
+})
+
+describe("applyTransition", () => {
+  it("moves the status and appends to the history", () => {
+    const result = applyTransition(application("submitted"), { to: "under_review", actor: "Jo (jo@city.gov)" })
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.application.status).toBe("under_review")
+    expect(result.application.updatedAt).toBe(result.application.history[1].at)
+    expect(result.application.history[1]).toMatchObject({
+      from: "submitted",
+      to: "under_review",
+      actor: "Jo (jo@city.gov)",
+      reason: undefined,
+    })
+  })
+
+  it("refuses a move the lifecycle doesn't allow", () => {
+    expect(applyTransition(application("submitted"), { to: "approved", actor: "clerk" })).toEqual({
+      ok: false,
+      message: "Cannot move an application from Submitted to Approved",
+    })
+  })
+
+  it("requires a reason to reject, ask for information or revoke", () => {
+    const blank = applyTransition(application("under_review"), { to: "rejected", actor: "clerk", reason: "  " })
+    expect(blank).toMatchObject({ ok: false })
+
+    const given = applyTransition(application("under_review"), {
+      to: "needs_info",
+      actor: "clerk",
+      reason: " Upload a readable certificate ",
+    })
+    expect(given.ok && given.application.history[1].reason).toBe("Upload a readable certificate")
+  })
+
+  it("leaves the original application untouched", () => {
+    const original = application("submitted")
+    applyTransition(original, { to: "under_review", actor: "clerk" })
+    expect(original.status).toBe("submitted")
+    expect(original.history).toHaveLength(1)
+  })
+})
@@ -0,0 +1,79 @@
+import {
+  APPLICATION_STATUS_LABELS,
+  type ApplicationStatus,
+  type DogLicenseApplication,
+  type StatusChange,
+} from "@/lib/applications"
+
+// ---------- Application Lifecycle ----------
+// draft → submitted → under_review → needs_info → approved → license_issued
+// → expired / revoked, with rejection possible at any review stage.
+
+export const STATUS_TRANSITIONS: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  draft: ["submitted"],
+  submitted: ["under_review", "rejected"],
+  under_review: ["needs_info", "approved", "rejected"],
+  needs_info: ["under_review", "rejected"],
+  approved: ["license_issued"],
+  license_issued: ["expired", "revoked"],
+  expired: [],
+  revoked: [],
+  rejected: [],
+}
+
+// Statuses a clerk has to explain to the applicant.
+export const REASON_REQUIRED: readonly ApplicationStatus[] = ["needs_info", "rejected", "revoked"]
+
+export function canTransition(from: ApplicationStatus, to: ApplicationStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to)
+}
+
+export function nextStatuses(from: ApplicationStatus): readonly ApplicationStatus[] {
+  return STATUS_TRANSITIONS[from]
+}
+
+export function isTerminalStatus(status: ApplicationStatus): boolean {
+  return STATUS_TRANSITIONS[status].length === 0
+}
+
+export interface TransitionRequest {
+  to: ApplicationStatus
+  actor: string
+  reason?: string
+}
+
+export type TransitionResult =
+  | { ok: true; application: DogLicenseApplication }
+  | { ok: false; message: string }
+
+// Pure: returns the updated application with the change appended to its
+// history, or explains why the transition is not allowed.
+export function applyTransition(
+  application: DogLicenseApplication,
+  { to, actor, reason }: TransitionRequest,
+): TransitionResult {
+  const from = application.status
+  if (!canTransition(from, to)) {
+    return {
+      ok: false,
+      message: `Cannot move an application from ${APPLICATION_STATUS_LABELS[from]} to ${APPLICATION_STATUS_LABELS[to]}`,
+    }
+  }
+
+  const trimmedReason = reason?.trim()
+  if (REASON_REQUIRED.includes(to) && !trimmedReason) {
+    return { ok: false, message: `A reason is required to mark an application ${APPLICATION_STATUS_LABELS[to]}` }
+  }
+
+  const at = new Date().toISOString()
+  const change: StatusChange = { from, to, actor, at, reason: trimmedReason || undefined }
+  return {
+    ok: true,
+    application: {
+      ...application,
+      status: to,
+      updatedAt: at,
+      history: [...application.history, change],
+    },
+  }
+}
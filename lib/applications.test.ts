@@ -0,0 +1,241 @@
+import { describe, expect, it } from "vitest"
+import {
+  applicationLicenses,
+  dogNames,
+  normalizeApplication,
+  publicApplicationView,
+  withoutMicrochipMatches,
+  type DogLicenseApplication,
+} from "@/lib/applications"
+
+const canonical = {
+  id: "DOG-1",
+  status: "submitted",
+  submittedAt: "2026-03-01T10:00:00.000Z",
+  updatedAt: "2026-03-01T10:00:00.000Z",
+  owner: {
+    name: "Pat Doe",
+    email: "pat@example.com",
+    address: "12 Main St, Springfield, IL 62704",
+    phone: "2175551234",
+  },
+  dogs: [
+    {
+      dog: {
+        name: "Rex",
+        breed: "Beagle",
+        breedCodes: { primary: "beagle" },
+        age: 4,
+        color: "Black",
+        coat: { primary: "black" },
+        spayedNeutered: false,
+      },
+      vaccination: { lastRabiesShotDate: "2026-01-12" },
+    },
+  ],
+  history: [{ from: null, to: "submitted", actor: "applicant", at: "2026-03-01T10:00:00.000Z" }],
+}
+
+function withDog(changes: Record<string, unknown>) {
+  return { ...canonical, dogs: [{ ...canonical.dogs[0], ...changes }] }
+}
+
+describe("normalizeApplication", () => {
+  it("keeps a canonical record as it is", () => {
+    expect(normalizeApplication(canonical)).toMatchObject(canonical)
+  })
+
+  it("returns null without an id", () => {
+    expect(normalizeApplication({ ...canonical, id: "  " })).toBeNull()
+    expect(normalizeApplication("DOG-1")).toBeNull()
+    expect(normalizeApplication(null)).toBeNull()
+  })
+
+  it("reads the flat form values of the first storage format", () => {
+    const application = normalizeApplication({
+      id: "DOG-2",
+      status: "pending",
+      submittedAt: "2024-05-01T09:00:00.000Z",
+      ownerName: "Sam Lee",
+      ownerEmail: "sam@example.com",
+      ownerAddress: "4 Oak Ave, Springfield, IL 62701",
+      ownerPhone: "2175550000",
+      dogName: "Bella",
+      dogBreed: "Labrador Retriever",
+      dogAge: "3",
+      dogColor: "Blk/wht",
+      lastRabiesShotDate: "2024-02-01",
+    })
+
+    expect(application?.status).toBe("submitted")
+    expect(application?.owner).toEqual({
+      name: "Sam Lee",
+      email: "sam@example.com",
+      address: "4 Oak Ave, Springfield, IL 62701",
+      phone: "2175550000",
+    })
+    expect(application?.dogs[0].dog).toMatchObject({
+      name: "Bella",
+      age: 3,
+      coat: { primary: "black", secondary: "white" },
+    })
+    expect(application?.history).toEqual([
+      { from: null, to: "submitted", actor: "applicant", at: "2024-05-01T09:00:00.000Z" },
+    ])
+  })
+
+  it("keeps the title and description of the oldest format as notes", () => {
+    const application = normalizeApplication({
+      id: "DOG-3",
+      status: "completed",
+      title: "Dog license",
+      description: "Rex, beagle",
+      createdTime: "2023-01-01T00:00:00.000Z",
+    })
+
+    expect(application?.status).toBe("approved")
+    expect(application?.notes).toBe("Dog license — Rex, beagle")
+    expect(application?.history.map((change) => change.to)).toEqual(["submitted", "approved"])
+  })
+
+  it("moves a single dog kept on the record into the dogs list", () => {
+    const { dogs, ...rest } = canonical
+    const application = normalizeApplication({ ...rest, dog: dogs[0].dog, vaccination: dogs[0].vaccination })
+    expect(application?.dogs).toHaveLength(1)
+    expect(application?.dogs[0].dog.name).toBe("Rex")
+  })
+
+  it("drops nested values missing the fields that identify them", () => {
+    const application = normalizeApplication({
+      ...withDog({
+        license: { tagNumber: "CITY-2026-00001", expiresOn: "2027-03-01" },
+        fee: { currency: "USD", term: 1, items: [{ code: "bonus", label: "Bonus", amount: 100 }], total: 100 },
+      }),
+      payment: { receiptNumber: "R-2026-000001", amount: "3500" },
+      residency: { status: "resident", basis: "anywhere" },
+    })
+
+    expect(application?.dogs[0].license).toBeUndefined()
+    expect(application?.dogs[0].fee).toBeUndefined()
+    expect(application?.payment).toBeUndefined()
+    expect(application?.residency).toBeUndefined()
+  })
+
+  it("copies only the known fields of nested values", () => {
+    const application = normalizeApplication(
+      withDog({
+        vaccination: {
+          lastRabiesShotDate: "2026-01-12",
+          certificate: {
+            sha256: "a".repeat(64),
+            contentType: "application/pdf",
+            fileName: "cert.pdf",
+            size: 10,
+            uploadedBy: "x",
+          },
+          extracted: { manufacturer: "Zoetis", lotNumber: 42, script: "<b>" },
+        },
+      }),
+    )
+
+    expect(application?.dogs[0].vaccination.certificate).toEqual({
+      sha256: "a".repeat(64),
+      contentType: "application/pdf",
+      fileName: "cert.pdf",
+      size: 10,
+      uploadedAt: "",
+    })
+    expect(application?.dogs[0].vaccination.extracted).toEqual({ manufacturer: "Zoetis" })
+  })
+})
+
+describe("publicApplicationView", () => {
+  const stored = normalizeApplication({
+    ...withDog({
+      vaccination: {
+        lastRabiesShotDate: "2026-01-12",
+        certificate: { sha256: "b".repeat(64), contentType: "application/pdf", fileName: "cert.pdf", size: 10 },
+        extracted: { veterinarian: "Dr. Vet" },
+      },
+      microchipMatches: [
+        { applicationId: "DOG-9", tagNumber: "CITY-2026-00009", dogName: "Max", ownerName: "Kim", status: "approved" },
+      ],
+    }),
+    history: [
+      ...canonical.history,
+      { from: "submitted", to: "under_review", actor: "Jo Clerk (jo@city.gov)", at: "2026-03-02T09:00:00.000Z" },
+    ],
+    residency: { status: "resident", basis: "zip", zip: "62704", zipVerified: true, decidedAt: "2026-03-01" },
+  }) as DogLicenseApplication
+
+  it("keeps the owner's name but none of their contact details", () => {
+    const view = publicApplicationView(stored)
+    expect(view.owner).toEqual({ name: "Pat Doe", email: "", address: "", phone: "" })
+    expect(view.residency).toBeUndefined()
+  })
+
+  it("leaves out uploads and other households' dogs", () => {
+    const [entry] = publicApplicationView(stored).dogs
+    expect(entry.vaccination).toEqual({ lastRabiesShotDate: "2026-01-12" })
+    expect(entry.microchipMatches).toBeUndefined()
+  })
+
+  it("names the office instead of the staff member", () => {
+    const actors = publicApplicationView(stored).history.map((change) => change.actor)
+    expect(actors).toEqual(["applicant", "City Clerk's Office"])
+  })
+})
+
+describe("several dogs", () => {
+  const [rex] = canonical.dogs
+  const named = (...names: string[]) =>
+    normalizeApplication({ ...canonical, dogs: names.map((name) => ({ ...rex, dog: { ...rex.dog, name } })) })
+
+  it("joins the dogs' names for display", () => {
+    expect(dogNames(named("Rex") as DogLicenseApplication)).toBe("Rex")
+    expect(dogNames(named("Rex", "Bo") as DogLicenseApplication)).toBe("Rex and Bo")
+    expect(dogNames(named("Rex", "", "Bo", "Max") as DogLicenseApplication)).toBe("Rex, Bo and Max")
+  })
+
+  it("lists the licenses minted so far, in dog order", () => {
+    const license = (tagNumber: string) => ({
+      tagNumber,
+      applicationId: "DOG-1",
+      jurisdiction: "CITY",
+      term: 1,
+      issuedOn: "2026-03-01",
+      expiresOn: "2027-03-01",
+      limitedByRabies: false,
+    })
+    const application = normalizeApplication({
+      ...canonical,
+      dogs: [
+        { ...rex, license: license("CITY-2026-00002") },
+        rex,
+        { ...rex, license: license("CITY-2026-00001") },
+      ],
+    }) as DogLicenseApplication
+
+    expect(applicationLicenses(application).map((issued) => issued.tagNumber)).toEqual([
+      "CITY-2026-00002",
+      "CITY-2026-00001",
+    ])
+  })
+})
+
+describe("withoutMicrochipMatches", () => {
+  it("keeps other households' dogs out of what the applicant sees", () => {
+    const match = {
+      applicationId: "DOG-9",
+      tagNumber: "CITY-2026-00009",
+      dogName: "Max",
+      ownerName: "Kim",
+      status: "approved",
+    }
+    const stored = normalizeApplication(withDog({ microchipMatches: [match] })) as DogLicenseApplication
+
+    expect(stored.dogs[0].microchipMatches).toHaveLength(1)
+    expect(withoutMicrochipMatches(stored).dogs[0].microchipMatches).toBeUndefined()
+    expect(withoutMicrochipMatches(stored).dogs[0].dog).toEqual(stored.dogs[0].dog)
+  })
+})
@@ -0,0 +1,665 @@
+import type { PostalAddress } from "@/lib/address"
+import { isBreedCode, parseBreedText, type BreedCodes } from "@/lib/dog-breeds"
+import { isCoatColor, isCoatPattern, parseColorText, type CoatColors } from "@/lib/dog-colors"
+import { isDogSex, isSizeClass, type DogSex, type SizeClass } from "@/lib/dog-profile"
+import type { StoredDocument } from "@/lib/documents"
+import { isFeeLineItemCode, isLicenseTerm, type FeeLineItem, type FeeQuote } from "@/lib/fee-schedule"
+import { JURISDICTION } from "@/lib/jurisdiction"
+import type { DogLicense } from "@/lib/licenses"
+import type { MicrochipMatch } from "@/lib/microchips"
+import type { PaymentSummary, PendingPayment } from "@/lib/payments"
+import { CERTIFICATE_FIELD_LABELS, type CertificateFields } from "@/lib/rabies-certificate"
+import type { RabiesExemption, RabiesShot } from "@/lib/rabies-vaccination"
+import type { RenewalLink } from "@/lib/renewals"
+import { isResidencyBasis, isResidencyStatus, type ResidencyDecision } from "@/lib/residency"
+
+// ---------- Dog License Application Model ----------
+// Single source of truth for how applications are shaped. Shared by the API
+// routes, the server-side store and both applicant-facing pages.
+
+const APPLICATION_STORAGE_KEY = "dogLicense.applications"
+
+// Keys written by earlier, browser-only versions of the app.
+const LEGACY_SUBMISSIONS_KEY = "dogLicenseApplications"
+const LEGACY_TRACKING_KEY = "quantum_applications"
+
+// Lifecycle order; see lib/application-lifecycle.ts for the allowed transitions.
+export const APPLICATION_STATUSES = [
+  "draft",
+  "submitted",
+  "under_review",
+  "needs_info",
+  "approved",
+  "license_issued",
+  "expired",
+  "revoked",
+  "rejected",
+] as const
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number]
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  under_review: "Under Review",
+  needs_info: "Needs Information",
+  approved: "Approved",
+  license_issued: "License Issued",
+  expired: "Expired",
+  revoked: "Revoked",
+  rejected: "Rejected",
+}
+
+export interface OwnerInfo {
+  name: string
+  email: string
+  // One line, as printed on documents.
+  address: string
+  // The parts the owner entered. Absent on records from before addresses were
+  // split.
+  postalAddress?: PostalAddress
+  phone: string
+}
+
+export interface DogInfo {
+  name: string
+  // As displayed, e.g. "Beagle / Pug mix"; see lib/dog-breeds.ts.
+  breed: string
+  // Catalog codes. Records from before the catalog get codes read from their
+  // free-text breed.
+  breedCodes: BreedCodes
+  // Years old when the application was made: worked out from the date of
+  // birth when the owner knew it, otherwise their estimate.
+  age: number | null
+  birthDate?: string
+  ageIsApproximate?: boolean
+  // As displayed, e.g. "Black and white tuxedo"; see lib/dog-colors.ts.
+  color: string
+  // Vocabulary codes. Records from before the vocabulary get codes read from
+  // their free-text color.
+  coat: CoatColors
+  spayedNeutered: boolean | null
+  // The rest are absent on records from before they were asked for.
+  sex?: DogSex
+  // Proof of spaying or neutering, when the owner uploaded it.
+  spayNeuterCertificateFileName?: string
+  spayNeuterCertificate?: StoredDocument
+  weightLbs?: number
+  sizeClass?: SizeClass
+  markings?: string
+  microchipNumber?: string
+  // Resized and stripped of metadata before upload.
+  photo?: StoredDocument
+}
+
+export interface VaccinationInfo {
+  lastRabiesShotDate: string
+  // Years on the vaccine's label, whether this was the dog's first rabies shot
+  // and its age in months when it was given. Absent on legacy records, whose
+  // shots are accepted for the jurisdiction's default period.
+  durationYears?: number
+  firstShot?: boolean
+  ageAtVaccinationMonths?: number
+  certificateFileName?: string
+  // The uploaded certificate. Absent on records from before uploads were kept.
+  certificate?: StoredDocument
+  // Read from the certificate's text when it is a text-based PDF.
+  extracted?: CertificateFields
+  // Set instead of a vaccination when a vet has exempted the dog; the shot
+  // date is then empty.
+  exemption?: RabiesExemption
+}
+
+// One dog on an application. Each dog is quoted separately and, once the
+// application is approved, gets its own license and tag.
+export interface ApplicationDog {
+  dog: DogInfo
+  vaccination: VaccinationInfo
+  fee?: FeeQuote
+  license?: DogLicense
+  // Licensed dogs found with the same microchip number on submission.
+  microchipMatches?: MicrochipMatch[]
+}
+
+// One entry per status change. `from` is null for the entry that created the
+// application.
+export interface StatusChange {
+  from: ApplicationStatus | null
+  to: ApplicationStatus
+  actor: string
+  at: string
+  reason?: string
+}
+
+export interface DogLicenseApplication {
+  id: string
+  status: ApplicationStatus
+  submittedAt: string
+  updatedAt: string
+  owner: OwnerInfo
+  // At least one; licenses are minted per dog on approval.
+  dogs: ApplicationDog[]
+  history: StatusChange[]
+  // The per-dog quotes combined, as charged. Absent on legacy records.
+  fee?: FeeQuote
+  // Set when the fee is captured, which is what moves a draft to submitted.
+  payment?: PaymentSummary
+  // Set while a payment attempt is in progress.
+  pendingPayment?: PendingPayment
+  // Set while its licenses are being minted, so a retry can't mint them twice.
+  licensingStartedAt?: string
+  // Set when this application renews an earlier license.
+  renewalOf?: RenewalLink
+  // Decided from the owner's address when submitted. Absent on legacy records.
+  residency?: ResidencyDecision
+  notes?: string
+}
+
+// One page of the review queue as returned by GET /api/applications.
+export interface ApplicationPage {
+  applications: DogLicenseApplication[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+// What an applicant submits; ids, status, history and timestamps are assigned
+// server-side.
+export type NewApplicationInput = Pick<DogLicenseApplication, "owner" | "dogs" | "fee" | "renewalOf" | "residency">
+
+// Every license minted for the application, in dog order.
+export function applicationLicenses(application: DogLicenseApplication): DogLicense[] {
+  return application.dogs.flatMap((entry) => (entry.license ? [entry.license] : []))
+}
+
+// "Rex", "Rex and Bella", "Rex, Bella and Max".
+export function dogNames(application: DogLicenseApplication): string {
+  const names = application.dogs.map((entry) => entry.dog.name).filter(Boolean)
+  if (names.length <= 1) return names[0] ?? ""
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+}
+
+export function rabiesShot(vaccination: VaccinationInfo): RabiesShot {
+  const { lastRabiesShotDate, durationYears, firstShot } = vaccination
+  return { lastRabiesShotDate, durationYears, firstShot }
+}
+
+// Every uploaded document kept for the application.
+export function applicationDocuments(application: DogLicenseApplication): StoredDocument[] {
+  return application.dogs.flatMap(({ dog, vaccination }) =>
+    [vaccination.certificate, vaccination.exemption?.letter, dog.spayNeuterCertificate, dog.photo].filter(
+      (document) => document !== undefined,
+    ),
+  )
+}
+
+export function isRabiesExempt(entry: ApplicationDog): boolean {
+  return !!entry.vaccination.exemption
+}
+
+// Applications with a medical exemption are always reviewed one at a time.
+export function hasRabiesExemption(application: DogLicenseApplication): boolean {
+  return application.dogs.some(isRabiesExempt)
+}
+
+// A chip already on a licensed dog needs a clerk to work out which dog it is.
+export function hasMicrochipMatches(application: DogLicenseApplication): boolean {
+  return application.dogs.some((entry) => (entry.microchipMatches?.length ?? 0) > 0)
+}
+
+// The matches name other households and their applications, so they go only
+// to staff; applicants and the public get the application without them.
+export function withoutMicrochipMatches(application: DogLicenseApplication): DogLicenseApplication {
+  return { ...application, dogs: application.dogs.map((entry) => ({ ...entry, microchipMatches: undefined })) }
+}
+
+// Anyone holding the id can track an application, so tracking gets only what
+// the track page shows: the owner's name but no contact details, no uploads
+// other than the photo, no residency evidence and no staff names.
+export function publicApplicationView(application: DogLicenseApplication): DogLicenseApplication {
+  const { id, status, submittedAt, updatedAt, owner, fee, payment, renewalOf, notes } = application
+  return {
+    id,
+    status,
+    submittedAt,
+    updatedAt,
+    owner: { name: owner.name, email: "", address: "", phone: "" },
+    dogs: application.dogs.map(({ dog, vaccination, fee, license }) => ({
+      dog: {
+        name: dog.name,
+        breed: dog.breed,
+        breedCodes: dog.breedCodes,
+        age: dog.age,
+        color: dog.color,
+        coat: dog.coat,
+        spayedNeutered: dog.spayedNeutered,
+        sex: dog.sex,
+        photo: dog.photo,
+      },
+      vaccination: {
+        ...rabiesShot(vaccination),
+        exemption: vaccination.exemption && { ...vaccination.exemption, letter: undefined, letterFileName: undefined },
+      },
+      fee,
+      license,
+    })),
+    history: application.history.map((change) =>
+      change.actor === "applicant" || change.actor === "system" ? change : { ...change, actor: JURISDICTION.name },
+    ),
+    fee,
+    payment,
+    renewalOf,
+    notes,
+  }
+}
+
+export function isApplicationStatus(value: unknown): value is ApplicationStatus {
+  return typeof value === "string" && (APPLICATION_STATUSES as readonly string[]).includes(value)
+}
+
+// Free-text addresses end with the ZIP ("..., Springfield, IL 62701").
+export function extractZip(address: string): string | null {
+  const matches = address.match(/\b\d{5}(?:-\d{4})?\b/g)
+  return matches ? matches[matches.length - 1].slice(0, 5) : null
+}
+
+export function ownerZip(owner: OwnerInfo): string | null {
+  return owner.postalAddress ? owner.postalAddress.zip.slice(0, 5) : extractZip(owner.address)
+}
+
+// The id is all it takes to track an application, so it must not be guessable.
+export function generateApplicationId(): string {
+  return `DOG-${crypto.randomUUID()}`
+}
+
+// ---------- Legacy Record Normalization ----------
+const LEGACY_STATUS_MAP: Record<string, ApplicationStatus> = {
+  submitted: "submitted",
+  pending: "submitted",
+  in_progress: "under_review",
+  completed: "approved",
+  rejected: "rejected",
+}
+
+type RawRecord = Record<string, unknown>
+
+// A stored object whose fields are still to be checked.
+function asRecord(value: unknown): RawRecord | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as RawRecord) : null
+}
+
+function asString(value: unknown): string {
+  return typeof value === "string" ? value : ""
+}
+
+function normalizeHistory(
+  raw: unknown,
+  status: ApplicationStatus,
+  submittedAt: string,
+  updatedAt: string,
+): StatusChange[] {
+  if (Array.isArray(raw) && raw.length > 0) {
+    return raw.flatMap((value: unknown) => {
+      const entry = asRecord(value)
+      if (!entry || !isApplicationStatus(entry.to)) return []
+      return [
+        {
+          from: isApplicationStatus(entry.from) ? entry.from : null,
+          to: entry.to,
+          actor: asString(entry.actor) || "system",
+          at: asString(entry.at),
+          reason: asString(entry.reason) || undefined,
+        },
+      ]
+    })
+  }
+
+  // Records from before history was kept: reconstruct what we know.
+  const history: StatusChange[] = [{ from: null, to: "submitted", actor: "applicant", at: submittedAt }]
+  if (status !== "submitted") {
+    history.push({ from: "submitted", to: status, actor: "system", at: updatedAt, reason: "Migrated record" })
+  }
+  return history
+}
+
+function asBooleanOrNull(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value
+  if (value === "yes" || value === "true") return true
+  if (value === "no" || value === "false") return false
+  return null
+}
+
+function asFiniteNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined
+}
+
+// Quotes, payments, licenses and documents are rebuilt field by field. One
+// missing a field that identifies it is dropped rather than guessed at.
+function normalizeFeeItem(raw: unknown): FeeLineItem | null {
+  const item = asRecord(raw)
+  const amount = asFiniteNumber(item?.amount)
+  if (!item || !isFeeLineItemCode(item.code) || amount === undefined) return null
+  return { code: item.code, label: asString(item.label), amount }
+}
+
+function normalizeFee(raw: unknown): FeeQuote | undefined {
+  const fee = asRecord(raw)
+  const total = asFiniteNumber(fee?.total)
+  if (!fee || !Array.isArray(fee.items) || total === undefined || !isLicenseTerm(fee.term)) return undefined
+  const items = fee.items.map(normalizeFeeItem)
+  if (items.some((item) => item === null)) return undefined
+  return {
+    scheduleVersion: asString(fee.scheduleVersion),
+    currency: asString(fee.currency),
+    term: fee.term,
+    items: items.filter((item) => item !== null),
+    total,
+  }
+}
+
+function normalizePayment(raw: unknown): PaymentSummary | undefined {
+  const payment = asRecord(raw)
+  const amount = asFiniteNumber(payment?.amount)
+  if (!payment || typeof payment.receiptNumber !== "string" || amount === undefined) return undefined
+  return {
+    transactionId: asString(payment.transactionId),
+    receiptNumber: payment.receiptNumber,
+    amount,
+    currency: asString(payment.currency),
+    paidAt: asString(payment.paidAt),
+    cardBrand: asString(payment.cardBrand) || undefined,
+    cardLast4: asString(payment.cardLast4) || undefined,
+  }
+}
+
+function normalizePendingPayment(raw: unknown): PendingPayment | undefined {
+  const pending = asRecord(raw)
+  if (!pending || typeof pending.transactionId !== "string" || typeof pending.startedAt !== "string") return undefined
+  return { transactionId: pending.transactionId, startedAt: pending.startedAt }
+}
+
+function normalizeLicense(raw: unknown): DogLicense | undefined {
+  const license = asRecord(raw)
+  if (!license || typeof license.tagNumber !== "string" || typeof license.expiresOn !== "string") return undefined
+  if (!isLicenseTerm(license.term)) return undefined
+  return {
+    tagNumber: license.tagNumber,
+    applicationId: asString(license.applicationId),
+    jurisdiction: asString(license.jurisdiction),
+    term: license.term,
+    issuedOn: asString(license.issuedOn),
+    expiresOn: license.expiresOn,
+    limitedByRabies: license.limitedByRabies === true,
+    rabiesExempt: typeof license.rabiesExempt === "boolean" ? license.rabiesExempt : undefined,
+  }
+}
+
+function normalizeDocument(raw: unknown): StoredDocument | undefined {
+  const document = asRecord(raw)
+  if (!document || typeof document.sha256 !== "string" || typeof document.contentType !== "string") return undefined
+  return {
+    sha256: document.sha256,
+    fileName: asString(document.fileName),
+    contentType: document.contentType,
+    size: asFiniteNumber(document.size) ?? 0,
+    uploadedAt: asString(document.uploadedAt),
+  }
+}
+
+function normalizeCertificateFields(raw: unknown): CertificateFields | undefined {
+  const fields = asRecord(raw)
+  if (!fields) return undefined
+  const extracted: CertificateFields = {}
+  for (const key of Object.keys(CERTIFICATE_FIELD_LABELS) as (keyof CertificateFields)[]) {
+    const value = asString(fields[key])
+    if (value) extracted[key] = value
+  }
+  return extracted
+}
+
+function normalizeExemption(raw: unknown): RabiesExemption | undefined {
+  const exemption = asRecord(raw)
+  if (!exemption || typeof exemption.expiresOn !== "string") return undefined
+  return {
+    expiresOn: exemption.expiresOn,
+    vetLicenseNumber: asString(exemption.vetLicenseNumber),
+    letterFileName: asString(exemption.letterFileName) || undefined,
+    letter: normalizeDocument(exemption.letter),
+  }
+}
+
+function normalizeMicrochipMatches(raw: unknown): MicrochipMatch[] | undefined {
+  if (!Array.isArray(raw)) return undefined
+  const matches = raw.flatMap((value: unknown) => {
+    const match = asRecord(value)
+    if (!match || typeof match.applicationId !== "string" || typeof match.tagNumber !== "string") return []
+    if (!isApplicationStatus(match.status)) return []
+    return [
+      {
+        applicationId: match.applicationId,
+        tagNumber: match.tagNumber,
+        dogName: asString(match.dogName),
+        ownerName: asString(match.ownerName),
+        status: match.status,
+      },
+    ]
+  })
+  return matches.length > 0 ? matches : undefined
+}
+
+function normalizeRenewalLink(raw: unknown): RenewalLink | undefined {
+  const link = asRecord(raw)
+  if (!link || typeof link.tagNumber !== "string" || typeof link.applicationId !== "string") return undefined
+  return { tagNumber: link.tagNumber, applicationId: link.applicationId, expiresOn: asString(link.expiresOn) }
+}
+
+function normalizePostalAddress(raw: unknown): PostalAddress | undefined {
+  const address = asRecord(raw)
+  if (!address || typeof address.street !== "string" || typeof address.zip !== "string") return undefined
+  return {
+    street: address.street,
+    unit: asString(address.unit) || undefined,
+    city: asString(address.city),
+    state: asString(address.state),
+    zip: address.zip,
+  }
+}
+
+function normalizeResidency(raw: unknown): ResidencyDecision | undefined {
+  const residency = asRecord(raw)
+  if (!residency || !isResidencyStatus(residency.status) || !isResidencyBasis(residency.basis)) return undefined
+  return {
+    status: residency.status,
+    basis: residency.basis,
+    zip: asString(residency.zip),
+    zipVerified: residency.zipVerified === true,
+    decidedAt: asString(residency.decidedAt),
+  }
+}
+
+function asNumberOrNull(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value
+  if (typeof value === "string" && value.trim() !== "") {
+    const n = Number(value)
+    return Number.isFinite(n) ? n : null
+  }
+  return null
+}
+
+function normalizeBreedCodes(raw: unknown, breed: string): BreedCodes {
+  const codes = asRecord(raw) ?? {}
+  if (!isBreedCode(codes.primary)) return parseBreedText(breed)
+  return { primary: codes.primary, secondary: isBreedCode(codes.secondary) ? codes.secondary : undefined }
+}
+
+function normalizeCoat(raw: unknown, color: string): CoatColors {
+  const coat = asRecord(raw) ?? {}
+  if (!isCoatColor(coat.primary)) return parseColorText(color)
+  return {
+    primary: coat.primary,
+    secondary: isCoatColor(coat.secondary) ? coat.secondary : undefined,
+    pattern: isCoatPattern(coat.pattern) ? coat.pattern : undefined,
+  }
+}
+
+function normalizeDog(raw: unknown): ApplicationDog {
+  const entry = asRecord(raw) ?? {}
+  const dog = asRecord(entry.dog) ?? {}
+  const vaccination = asRecord(entry.vaccination) ?? {}
+  return {
+    dog: {
+      name: asString(dog.name),
+      breed: asString(dog.breed),
+      breedCodes: normalizeBreedCodes(dog.breedCodes, asString(dog.breed)),
+      age: asNumberOrNull(dog.age),
+      birthDate: asString(dog.birthDate) || undefined,
+      ageIsApproximate: asBooleanOrNull(dog.ageIsApproximate) ?? undefined,
+      color: asString(dog.color),
+      coat: normalizeCoat(dog.coat, asString(dog.color)),
+      spayedNeutered: asBooleanOrNull(dog.spayedNeutered),
+      sex: isDogSex(dog.sex) ? dog.sex : undefined,
+      spayNeuterCertificateFileName: asString(dog.spayNeuterCertificateFileName) || undefined,
+      spayNeuterCertificate: normalizeDocument(dog.spayNeuterCertificate),
+      weightLbs: asNumberOrNull(dog.weightLbs) ?? undefined,
+      sizeClass: isSizeClass(dog.sizeClass) ? dog.sizeClass : undefined,
+      markings: asString(dog.markings) || undefined,
+      microchipNumber: asString(dog.microchipNumber) || undefined,
+      photo: normalizeDocument(dog.photo),
+    },
+    vaccination: {
+      lastRabiesShotDate: asString(vaccination.lastRabiesShotDate),
+      durationYears: asNumberOrNull(vaccination.durationYears) ?? undefined,
+      firstShot: asBooleanOrNull(vaccination.firstShot) ?? undefined,
+      ageAtVaccinationMonths: asNumberOrNull(vaccination.ageAtVaccinationMonths) ?? undefined,
+      certificateFileName: asString(vaccination.certificateFileName) || undefined,
+      certificate: normalizeDocument(vaccination.certificate),
+      extracted: normalizeCertificateFields(vaccination.extracted),
+      exemption: normalizeExemption(vaccination.exemption),
+    },
+    fee: normalizeFee(entry.fee),
+    license: normalizeLicense(entry.license),
+    microchipMatches: normalizeMicrochipMatches(entry.microchipMatches),
+  }
+}
+
+// Accepts a canonical record or either legacy shape and returns a canonical
+// record, or null when the input has no usable id.
+export function normalizeApplication(raw: unknown): DogLicenseApplication | null {
+  const record = asRecord(raw)
+  if (!record) return null
+  const id = asString(record.id).trim()
+  if (!id) return null
+
+  const status = isApplicationStatus(record.status)
+    ? record.status
+    : (LEGACY_STATUS_MAP[asString(record.status)] ?? "submitted")
+
+  // Canonical shape, either with a dogs list or from before multiple dogs,
+  // when the one dog, its vaccination and its license sat on the record.
+  const owner = asRecord(record.owner)
+  const rawDogs: unknown[] | null = Array.isArray(record.dogs)
+    ? record.dogs
+    : record.dog && record.vaccination
+      ? [{ dog: record.dog, vaccination: record.vaccination, fee: record.fee, license: record.license }]
+      : null
+  if (owner && rawDogs) {
+    const submittedAt = asString(record.submittedAt)
+    const updatedAt = asString(record.updatedAt) || submittedAt
+    return {
+      id,
+      status,
+      submittedAt,
+      updatedAt,
+      owner: {
+        name: asString(owner.name),
+        email: asString(owner.email),
+        address: asString(owner.address),
+        postalAddress: normalizePostalAddress(owner.postalAddress),
+        phone: asString(owner.phone),
+      },
+      dogs: rawDogs.map(normalizeDog),
+      history: normalizeHistory(record.history, status, submittedAt, updatedAt),
+      fee: normalizeFee(record.fee),
+      payment: normalizePayment(record.payment),
+      pendingPayment: normalizePendingPayment(record.pendingPayment),
+      licensingStartedAt: asString(record.licensingStartedAt) || undefined,
+      renewalOf: normalizeRenewalLink(record.renewalOf),
+      residency: normalizeResidency(record.residency),
+      notes: asString(record.notes) || undefined,
+    }
+  }
+
+  // Legacy "dogLicenseApplications" shape: the flat form values plus metadata
+  // Legacy "quantum_applications" shape: { title, description, createdTime }
+  const submittedAt = asString(record.submittedAt) || asString(record.createdTime) || new Date().toISOString()
+  const notes = [asString(record.title), asString(record.description)].filter(Boolean).join(" — ")
+
+  return {
+    id,
+    status,
+    submittedAt,
+    updatedAt: submittedAt,
+    owner: {
+      name: asString(record.ownerName),
+      email: asString(record.ownerEmail),
+      address: asString(record.ownerAddress),
+      phone: asString(record.ownerPhone),
+    },
+    dogs: [
+      {
+        dog: {
+          name: asString(record.dogName),
+          breed: asString(record.dogBreed),
+          breedCodes: parseBreedText(asString(record.dogBreed)),
+          age: asNumberOrNull(record.dogAge),
+          color: asString(record.dogColor),
+          coat: parseColorText(asString(record.dogColor)),
+          spayedNeutered: null,
+        },
+        vaccination: {
+          lastRabiesShotDate: asString(record.lastRabiesShotDate),
+        },
+      },
+    ],
+    history: normalizeHistory(undefined, status, submittedAt, submittedAt),
+    notes: notes || undefined,
+  }
+}
+
+// ---------- Browser Leftovers (localStorage) ----------
+// Earlier versions kept applications only in the applicant's browser, under any
+// of these keys. They are collected here so they can be uploaded to the server
+// once and then cleared.
+const LOCAL_STORAGE_KEYS = [APPLICATION_STORAGE_KEY, LEGACY_SUBMISSIONS_KEY, LEGACY_TRACKING_KEY]
+
+// Uploaded this many at a time; a browser rarely holds more than a handful.
+export const MAX_IMPORT_BATCH = 20
+
+function readList(key: string): unknown[] {
+  const stored = localStorage.getItem(key)
+  if (!stored) return []
+  try {
+    const parsed = JSON.parse(stored)
+    return Array.isArray(parsed) ? parsed : []
+  } catch (error) {
+    console.error(`Error parsing ${key} from localStorage:`, error)
+    return []
+  }
+}
+
+export function readLocalApplications(): DogLicenseApplication[] {
+  if (typeof window === "undefined") return []
+  const seen = new Set<string>()
+  return LOCAL_STORAGE_KEYS.flatMap(readList)
+    .map(normalizeApplication)
+    .filter((app): app is DogLicenseApplication => {
+      if (!app || seen.has(app.id)) return false
+      seen.add(app.id)
+      return true
+    })
+}
+
+export function clearLocalApplications(): void {
+  if (typeof window === "undefined") return
+  LOCAL_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key))
+}
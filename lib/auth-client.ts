@@ -0,0 +1,55 @@
+import type { Permission, Role } from "@/lib/auth/roles"
+
+// ---------- Auth API Client ----------
+
+export interface CurrentUser {
+  id: string
+  email: string
+  name: string
+  role: Role
+  permissions: Permission[]
+}
+
+async function readError(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null)
+  return typeof body?.error === "string" ? body.error : `Request failed with status ${response.status}`
+}
+
+export async function fetchCurrentUser(): Promise<CurrentUser | null> {
+  const response = await fetch("/api/auth/session", { cache: "no-store" })
+  if (!response.ok) return null
+  const { user } = await response.json()
+  return user
+}
+
+export async function signIn(email: string, password: string): Promise<void> {
+  const response = await fetch("/api/auth/login", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ email, password }),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+}
+
+export async function signOut(): Promise<void> {
+  await fetch("/api/auth/logout", { method: "POST" })
+}
+
+// Applicant sign-in: request a code by email, then verify it.
+export async function requestSignInCode(email: string): Promise<void> {
+  const response = await fetch("/api/auth/otp/request", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ email }),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+}
+
+export async function verifySignInCode(email: string, code: string): Promise<void> {
+  const response = await fetch("/api/auth/otp/verify", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ email, code }),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+}
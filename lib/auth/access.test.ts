@@ -0,0 +1,96 @@
+import { readdirSync, readFileSync } from "fs"
+import path from "path"
+import { describe, expect, it } from "vitest"
+import { loginPathFor, requiredPermission } from "@/lib/auth/access"
+import { hasPermission, ROLES } from "@/lib/auth/roles"
+
+// Route handlers reachable without signing in, relative to app/api. Every
+// other handler must call authorize().
+const PUBLIC_API_ROUTES = [
+  // Tracking, paying and the documents an owner holds are unlocked by the
+  // application id.
+  "applications/[id]/route.ts",
+  "applications/[id]/certificate/route.ts",
+  "applications/[id]/receipt/route.ts",
+  "applications/[id]/payment/route.ts",
+  "applications/[id]/photos/[sha256]/route.ts",
+  "payments/[id]/challenge/route.ts",
+  // Records from the browser-only version come back as unpaid drafts.
+  "applications/import/route.ts",
+  // Signing in and out.
+  "auth/login/route.ts",
+  "auth/logout/route.ts",
+  "auth/otp/request/route.ts",
+  "auth/otp/verify/route.ts",
+  "auth/session/route.ts",
+  // Helpers for the public forms.
+  "certificates/extract/route.ts",
+  "renewals/lookup/route.ts",
+]
+
+function routeFiles(directory: string): string[] {
+  return readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(directory, entry.name)
+    if (entry.isDirectory()) return routeFiles(full)
+    return entry.name === "route.ts" ? [full] : []
+  })
+}
+
+describe("requiredPermission", () => {
+  it("protects the staff pages and handlers", () => {
+    expect(requiredPermission("GET", "/admin")).toBe("applications:read")
+    expect(requiredPermission("GET", "/admin/users")).toBe("users:manage")
+    expect(requiredPermission("PATCH", "/api/applications/DOG-1/status")).toBe("applications:review")
+    expect(requiredPermission("GET", "/api/applications/DOG-1/documents/abc")).toBe("applications:read")
+    expect(requiredPermission("POST", "/api/payments/PAY-1/refund")).toBe("payments:refund")
+  })
+
+  it("applies method-specific rules only to that method", () => {
+    expect(requiredPermission("GET", "/api/applications")).toBe("applications:read")
+    expect(requiredPermission("POST", "/api/applications")).toBeNull()
+  })
+
+  it("keeps the applicant sign-in page public", () => {
+    expect(requiredPermission("GET", "/account/login")).toBeNull()
+    expect(requiredPermission("GET", "/account")).toBe("account:view")
+  })
+
+  it("doesn't match look-alike paths", () => {
+    expect(requiredPermission("GET", "/administrator")).toBeNull()
+    expect(requiredPermission("GET", "/api/applications/DOG-1")).toBeNull()
+  })
+})
+
+describe("loginPathFor", () => {
+  it("sends applicants and staff to their own sign-in pages", () => {
+    expect(loginPathFor("/account/applications")).toBe("/account/login")
+    expect(loginPathFor("/admin/applications")).toBe("/login")
+  })
+})
+
+describe("hasPermission", () => {
+  it("gives applicants only their account", () => {
+    expect(hasPermission("applicant", "account:view")).toBe(true)
+    expect(hasPermission("applicant", "applications:read")).toBe(false)
+  })
+
+  it("gives every permission to admins and none to the signed out", () => {
+    expect(hasPermission("admin", "users:manage")).toBe(true)
+    expect(hasPermission(null, "account:view")).toBe(false)
+    expect(ROLES.filter((role) => hasPermission(role, "users:manage"))).toEqual(["admin"])
+  })
+})
+
+describe("API route handlers", () => {
+  const root = path.join(process.cwd(), "app/api")
+  const routes = routeFiles(root).map((file) => path.relative(root, file).split(path.sep).join("/"))
+
+  it.each(routes)("%s checks authorization or is listed as public", (route) => {
+    const source = readFileSync(path.join(root, route), "utf8")
+    expect(PUBLIC_API_ROUTES.includes(route) || source.includes("await authorize(")).toBe(true)
+  })
+
+  it("lists only public routes that exist", () => {
+    expect(routes).toEqual(expect.arrayContaining(PUBLIC_API_ROUTES))
+  })
+})
@@ -0,0 +1,41 @@
+import type { Permission } from "@/lib/auth/roles"
+
+// ---------- Route Access Rules ----------
+// Read by middleware to reject requests before they reach a page or handler.
+// Route handlers still check their own permission via lib/server/auth.ts; this
+// table is the outer fence, not the only one. First matching rule wins.
+
+interface AccessRule {
+  pattern: RegExp
+  methods?: string[]
+  permission: Permission | null // null marks an explicitly public route
+}
+
+const ACCESS_RULES: AccessRule[] = [
+  { pattern: /^\/account\/login$/, permission: null },
+  { pattern: /^\/account(\/|$)/, permission: "account:view" },
+  { pattern: /^\/api\/account(\/|$)/, permission: "account:view" },
+  { pattern: /^\/admin\/users(\/|$)/, permission: "users:manage" },
+  { pattern: /^\/admin\/payments(\/|$)/, permission: "payments:read" },
+  { pattern: /^\/admin(\/|$)/, permission: "applications:read" },
+  { pattern: /^\/api\/users(\/|$)/, permission: "users:manage" },
+  { pattern: /^\/api\/payments\/[^/]+\/refund$/, permission: "payments:refund" },
+  { pattern: /^\/api\/payments$/, methods: ["GET"], permission: "payments:read" },
+  { pattern: /^\/api\/applications\/bulk$/, permission: "applications:bulk_review" },
+  { pattern: /^\/api\/applications\/[^/]+\/(status|license)$/, permission: "applications:review" },
+  { pattern: /^\/api\/applications\/[^/]+\/documents(\/|$)/, permission: "applications:read" },
+  { pattern: /^\/api\/applications$/, methods: ["GET"], permission: "applications:read" },
+]
+
+// Null means the route is public.
+export function requiredPermission(method: string, pathname: string): Permission | null {
+  const rule = ACCESS_RULES.find(
+    (candidate) => candidate.pattern.test(pathname) && (!candidate.methods || candidate.methods.includes(method)),
+  )
+  return rule?.permission ?? null
+}
+
+// Where to send a signed-out visitor who hits a protected page.
+export function loginPathFor(pathname: string): string {
+  return pathname.startsWith("/account") ? "/account/login" : "/login"
+}
@@ -0,0 +1,50 @@
+// ---------- Roles & Permissions ----------
+// Screens and API routes are gated by permission, never by role name, so a
+// role can be widened or narrowed here without touching call sites.
+
+export const ROLES = ["applicant", "clerk", "supervisor", "animal_control", "admin"] as const
+
+export type Role = (typeof ROLES)[number]
+
+export const ROLE_LABELS: Record<Role, string> = {
+  applicant: "Applicant",
+  clerk: "Clerk",
+  supervisor: "Supervisor",
+  animal_control: "Animal Control Officer",
+  admin: "Administrator",
+}
+
+export const PERMISSIONS = [
+  "account:view",
+  "applications:read",
+  "applications:review",
+  "applications:bulk_review",
+  "payments:read",
+  "payments:refund",
+  "users:manage",
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+const STAFF_READ: Permission[] = ["account:view", "applications:read"]
+const REVIEW: Permission[] = [...STAFF_READ, "applications:review"]
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  applicant: ["account:view"],
+  animal_control: STAFF_READ,
+  clerk: REVIEW,
+  supervisor: [...REVIEW, "applications:bulk_review", "payments:read", "payments:refund"],
+  admin: [...PERMISSIONS],
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value)
+}
+
+export function hasPermission(role: Role | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export function isStaffRole(role: Role): boolean {
+  return role !== "applicant"
+}
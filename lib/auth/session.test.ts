@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { signSession, verifySession } from "@/lib/auth/session"
+
+const user = { sub: "user-1", email: "jo@city.gov", name: "Jo Clerk", role: "clerk" as const }
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("session tokens", () => {
+  it("verify when untouched", async () => {
+    const token = await signSession(user)
+    expect(await verifySession(token)).toMatchObject(user)
+  })
+
+  it("fail when the payload is changed", async () => {
+    const token = await signSession(user)
+    const [payload, signature] = token.split(".")
+    const promoted = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(payload, "base64url").toString()), role: "admin" }),
+    ).toString("base64url")
+
+    expect(await verifySession(`${promoted}.${signature}`)).toBeNull()
+  })
+
+  it("fail once expired", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    const token = await signSession(user, 60)
+    vi.advanceTimersByTime(61_000)
+    expect(await verifySession(token)).toBeNull()
+  })
+
+  it("fail when malformed or missing", async () => {
+    expect(await verifySession(undefined)).toBeNull()
+    expect(await verifySession("not-a-token")).toBeNull()
+    expect(await verifySession("a.b.c")).toBeNull()
+  })
+})
@@ -0,0 +1,80 @@
+import { isRole, type Role } from "@/lib/auth/roles"
+
+// ---------- Signed Session Tokens ----------
+// "<base64url payload>.<base64url HMAC-SHA256>". Uses Web Crypto only so the
+// same code runs in middleware (edge) and in route handlers (Node).
+
+export const SESSION_COOKIE = "dl_session"
+export const SESSION_TTL_SECONDS = 60 * 60 * 8 // one working day
+
+export interface Session {
+  sub: string // user id
+  email: string
+  name: string
+  role: Role
+  exp: number // seconds since epoch
+}
+
+const DEV_SECRET = "dev-only-secret-change-me"
+
+export function getSecret(): string {
+  const secret = process.env.AUTH_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_SECRET must be set in production")
+  }
+  return DEV_SECRET
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ""
+  bytes.forEach((b) => (binary += String.fromCharCode(b)))
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/")
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+async function hmacKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  )
+}
+
+export async function signSession(session: Omit<Session, "exp">, ttlSeconds = SESSION_TTL_SECONDS): Promise<string> {
+  const payload: Session = { ...session, exp: Math.floor(Date.now() / 1000) + ttlSeconds }
+  const encoded = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)))
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(), new TextEncoder().encode(encoded))
+  return `${encoded}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+// Returns null for anything malformed, tampered with or expired.
+export async function verifySession(token: string | undefined | null): Promise<Session | null> {
+  if (!token) return null
+  const [encoded, signature] = token.split(".")
+  if (!encoded || !signature) return null
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await hmacKey(),
+      fromBase64Url(signature),
+      new TextEncoder().encode(encoded),
+    )
+    if (!valid) return null
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded)))
+    if (typeof payload?.sub !== "string" || !isRole(payload.role)) return null
+    if (typeof payload.exp !== "number" || payload.exp < Date.now() / 1000) return null
+    return payload as Session
+  } catch {
+    return null
+  }
+}
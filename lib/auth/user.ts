@@ -0,0 +1,10 @@
+import type { Role } from "@/lib/auth/roles"
+
+// A user as the API exposes it. Credentials stay in lib/server/user-store.ts.
+export interface User {
+  id: string
+  email: string
+  name: string
+  role: Role
+  createdAt: string
+}
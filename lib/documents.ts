@@ -0,0 +1,22 @@
+// ---------- Uploaded Documents ----------
+// What an application keeps about an uploaded file. The content itself lives
+// in upload storage under `sha256`.
+
+export interface StoredDocument {
+  sha256: string
+  fileName: string
+  // Sniffed from the content on upload, not taken from the browser
+  contentType: string
+  size: number
+  uploadedAt: string
+}
+
+export function isImageDocument(document: Pick<StoredDocument, "contentType">): boolean {
+  return document.contentType.startsWith("image/")
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
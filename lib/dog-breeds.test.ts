@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+import { describeBreed, DOG_BREEDS, isBreedCode, matchBreed, parseBreedText, UNKNOWN_BREED } from "@/lib/dog-breeds"
+
+describe("DOG_BREEDS", () => {
+  it("has no code twice", () => {
+    const codes = DOG_BREEDS.map((breed) => breed.code)
+    expect(new Set(codes).size).toBe(codes.length)
+    expect(isBreedCode(UNKNOWN_BREED)).toBe(true)
+  })
+
+  it("gives no alias to two breeds", () => {
+    const aliases = DOG_BREEDS.flatMap((breed) => breed.aliases ?? [])
+    expect(new Set(aliases).size).toBe(aliases.length)
+  })
+})
+
+describe("describeBreed", () => {
+  it("shows pure breeds, mixes and unknown dogs", () => {
+    expect(describeBreed({ primary: "beagle" })).toBe("Beagle")
+    expect(describeBreed({ primary: "beagle", secondary: UNKNOWN_BREED })).toBe("Beagle mix")
+    expect(describeBreed({ primary: "beagle", secondary: "pug" })).toBe("Beagle / Pug mix")
+    expect(describeBreed({ primary: UNKNOWN_BREED, secondary: "pug" })).toBe("Unknown / Other")
+  })
+})
+
+describe("matchBreed", () => {
+  it("knows breeds by name, code and the names owners use", () => {
+    expect(matchBreed("Labrador Retriever")).toBe("labrador-retriever")
+    expect(matchBreed("golden-retriever")).toBe("golden-retriever")
+    expect(matchBreed("Yorkie")).toBe("yorkshire-terrier")
+  })
+
+  it("allows a typo in longer names but not in short ones", () => {
+    expect(matchBreed("Dachsund")).toBe("dachshund")
+    expect(matchBreed("German Shepard")).toBe("german-shepherd")
+    expect(matchBreed("pog")).toBeUndefined()
+    expect(matchBreed("")).toBeUndefined()
+  })
+})
+
+describe("parseBreedText", () => {
+  it("reads pure breeds and mixes written in the usual ways", () => {
+    expect(parseBreedText("Beagle")).toEqual({ primary: "beagle" })
+    expect(parseBreedText("lab mix")).toEqual({ primary: "labrador-retriever", secondary: UNKNOWN_BREED })
+    expect(parseBreedText("Beagle/Pug")).toEqual({ primary: "beagle", secondary: "pug" })
+    expect(parseBreedText("Poodle x Labrador")).toMatchObject({ secondary: "labrador-retriever" })
+  })
+
+  it("records text it can't match as unknown", () => {
+    expect(parseBreedText("Heinz 57")).toEqual({ primary: UNKNOWN_BREED })
+    expect(parseBreedText("Beagle and something")).toEqual({ primary: "beagle", secondary: UNKNOWN_BREED })
+  })
+})
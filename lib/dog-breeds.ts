@@ -0,0 +1,195 @@
+// ---------- Dog Breeds ----------
+// Breeds are stored as codes from this catalog so the same dog isn't recorded
+// as "Lab", "labrador" and "Labrador Retriever". Mixes name a primary and a
+// secondary breed; "unknown" covers dogs of unknown or unlisted breed, and as
+// a secondary breed it means a mix with something unknown.
+
+export interface DogBreed {
+  code: string
+  name: string
+  // Other names owners use, lowercase.
+  aliases?: string[]
+}
+
+export const UNKNOWN_BREED = "unknown"
+
+export const DOG_BREEDS: DogBreed[] = [
+  { code: "affenpinscher", name: "Affenpinscher" },
+  { code: "afghan-hound", name: "Afghan Hound", aliases: ["afghan"] },
+  { code: "airedale-terrier", name: "Airedale Terrier", aliases: ["airedale"] },
+  { code: "akita", name: "Akita", aliases: ["akita inu", "japanese akita"] },
+  { code: "alaskan-malamute", name: "Alaskan Malamute", aliases: ["malamute"] },
+  { code: "american-bulldog", name: "American Bulldog" },
+  { code: "american-eskimo-dog", name: "American Eskimo Dog", aliases: ["eskie", "american eskimo"] },
+  { code: "american-pit-bull-terrier", name: "American Pit Bull Terrier", aliases: ["pit bull", "pitbull", "pittie", "apbt"] },
+  { code: "american-staffordshire-terrier", name: "American Staffordshire Terrier", aliases: ["amstaff", "am staff"] },
+  { code: "australian-cattle-dog", name: "Australian Cattle Dog", aliases: ["blue heeler", "red heeler", "heeler", "queensland heeler"] },
+  { code: "australian-shepherd", name: "Australian Shepherd", aliases: ["aussie", "australian sheepdog"] },
+  { code: "basenji", name: "Basenji" },
+  { code: "basset-hound", name: "Basset Hound", aliases: ["basset"] },
+  { code: "beagle", name: "Beagle" },
+  { code: "bernese-mountain-dog", name: "Bernese Mountain Dog", aliases: ["bernese", "berner"] },
+  { code: "bichon-frise", name: "Bichon Frise", aliases: ["bichon"] },
+  { code: "bloodhound", name: "Bloodhound" },
+  { code: "border-collie", name: "Border Collie" },
+  { code: "border-terrier", name: "Border Terrier" },
+  { code: "boston-terrier", name: "Boston Terrier", aliases: ["boston"] },
+  { code: "boxer", name: "Boxer" },
+  { code: "brittany", name: "Brittany", aliases: ["brittany spaniel"] },
+  { code: "bull-terrier", name: "Bull Terrier" },
+  { code: "bulldog", name: "Bulldog", aliases: ["english bulldog", "british bulldog"] },
+  { code: "bullmastiff", name: "Bullmastiff", aliases: ["bull mastiff"] },
+  { code: "cairn-terrier", name: "Cairn Terrier", aliases: ["cairn"] },
+  { code: "cane-corso", name: "Cane Corso", aliases: ["italian mastiff", "corso"] },
+  { code: "cavalier-king-charles-spaniel", name: "Cavalier King Charles Spaniel", aliases: ["cavalier", "ckcs", "king charles spaniel"] },
+  { code: "chesapeake-bay-retriever", name: "Chesapeake Bay Retriever", aliases: ["chessie", "chesapeake"] },
+  { code: "chihuahua", name: "Chihuahua", aliases: ["chi"] },
+  { code: "chinese-crested", name: "Chinese Crested" },
+  { code: "chinese-shar-pei", name: "Chinese Shar-Pei", aliases: ["shar pei", "sharpei"] },
+  { code: "chow-chow", name: "Chow Chow", aliases: ["chow"] },
+  { code: "cocker-spaniel", name: "Cocker Spaniel", aliases: ["american cocker spaniel", "cocker"] },
+  { code: "collie", name: "Collie", aliases: ["rough collie", "smooth collie"] },
+  { code: "coonhound", name: "Coonhound", aliases: ["black and tan coonhound", "bluetick coonhound", "redbone coonhound", "treeing walker coonhound"] },
+  { code: "corgi-pembroke", name: "Pembroke Welsh Corgi", aliases: ["corgi", "pembroke corgi", "welsh corgi"] },
+  { code: "corgi-cardigan", name: "Cardigan Welsh Corgi", aliases: ["cardigan corgi"] },
+  { code: "dachshund", name: "Dachshund", aliases: ["doxie", "wiener dog", "weiner dog", "sausage dog", "miniature dachshund"] },
+  { code: "dalmatian", name: "Dalmatian" },
+  { code: "doberman-pinscher", name: "Doberman Pinscher", aliases: ["doberman", "dobermann", "dobie"] },
+  { code: "english-springer-spaniel", name: "English Springer Spaniel", aliases: ["springer spaniel", "springer"] },
+  { code: "french-bulldog", name: "French Bulldog", aliases: ["frenchie", "french bull dog"] },
+  { code: "german-shepherd", name: "German Shepherd", aliases: ["german shepherd dog", "gsd", "alsatian", "shepherd"] },
+  { code: "german-shorthaired-pointer", name: "German Shorthaired Pointer", aliases: ["gsp", "shorthaired pointer"] },
+  { code: "giant-schnauzer", name: "Giant Schnauzer" },
+  { code: "golden-retriever", name: "Golden Retriever", aliases: ["golden", "goldie"] },
+  { code: "goldendoodle", name: "Goldendoodle", aliases: ["golden doodle", "groodle"] },
+  { code: "great-dane", name: "Great Dane", aliases: ["dane"] },
+  { code: "great-pyrenees", name: "Great Pyrenees", aliases: ["pyrenean mountain dog", "pyr"] },
+  { code: "greyhound", name: "Greyhound" },
+  { code: "havanese", name: "Havanese" },
+  { code: "irish-setter", name: "Irish Setter", aliases: ["red setter"] },
+  { code: "italian-greyhound", name: "Italian Greyhound", aliases: ["iggy"] },
+  { code: "jack-russell-terrier", name: "Jack Russell Terrier", aliases: ["jack russell", "jrt", "parson russell terrier"] },
+  { code: "labradoodle", name: "Labradoodle", aliases: ["labra doodle"] },
+  { code: "labrador-retriever", name: "Labrador Retriever", aliases: ["lab", "labrador", "black lab", "yellow lab", "chocolate lab"] },
+  { code: "lhasa-apso", name: "Lhasa Apso", aliases: ["lhasa"] },
+  { code: "maltese", name: "Maltese" },
+  { code: "maltipoo", name: "Maltipoo", aliases: ["malti poo"] },
+  { code: "mastiff", name: "Mastiff", aliases: ["english mastiff"] },
+  { code: "miniature-pinscher", name: "Miniature Pinscher", aliases: ["min pin", "minpin"] },
+  { code: "miniature-schnauzer", name: "Miniature Schnauzer" },
+  { code: "newfoundland", name: "Newfoundland", aliases: ["newfie"] },
+  { code: "norwegian-elkhound", name: "Norwegian Elkhound", aliases: ["elkhound"] },
+  { code: "papillon", name: "Papillon" },
+  { code: "pekingese", name: "Pekingese", aliases: ["peke"] },
+  { code: "pomeranian", name: "Pomeranian", aliases: ["pom"] },
+  { code: "poodle-standard", name: "Poodle (Standard)", aliases: ["poodle", "standard poodle"] },
+  { code: "poodle-miniature", name: "Poodle (Miniature)", aliases: ["miniature poodle", "mini poodle"] },
+  { code: "poodle-toy", name: "Poodle (Toy)", aliases: ["toy poodle"] },
+  { code: "pug", name: "Pug" },
+  { code: "rat-terrier", name: "Rat Terrier" },
+  { code: "rhodesian-ridgeback", name: "Rhodesian Ridgeback", aliases: ["ridgeback"] },
+  { code: "rottweiler", name: "Rottweiler", aliases: ["rottie", "rott"] },
+  { code: "saint-bernard", name: "Saint Bernard", aliases: ["st bernard", "st. bernard"] },
+  { code: "samoyed", name: "Samoyed", aliases: ["sammy"] },
+  { code: "schnauzer-standard", name: "Standard Schnauzer", aliases: ["schnauzer"] },
+  { code: "scottish-terrier", name: "Scottish Terrier", aliases: ["scottie", "scotty"] },
+  { code: "shetland-sheepdog", name: "Shetland Sheepdog", aliases: ["sheltie", "shelty"] },
+  { code: "shiba-inu", name: "Shiba Inu", aliases: ["shiba"] },
+  { code: "shih-tzu", name: "Shih Tzu", aliases: ["shihtzu", "shih-tzu"] },
+  { code: "siberian-husky", name: "Siberian Husky", aliases: ["husky", "huskie"] },
+  { code: "staffordshire-bull-terrier", name: "Staffordshire Bull Terrier", aliases: ["staffy", "staffie", "staffordshire"] },
+  { code: "vizsla", name: "Vizsla", aliases: ["hungarian vizsla"] },
+  { code: "weimaraner", name: "Weimaraner", aliases: ["weim"] },
+  { code: "west-highland-white-terrier", name: "West Highland White Terrier", aliases: ["westie", "west highland terrier"] },
+  { code: "whippet", name: "Whippet" },
+  { code: "yorkshire-terrier", name: "Yorkshire Terrier", aliases: ["yorkie", "yorkshire"] },
+  { code: UNKNOWN_BREED, name: "Unknown / Other", aliases: ["unknown", "other", "mixed", "mixed breed", "mutt", "mongrel", "not sure"] },
+]
+
+const BY_CODE = new Map(DOG_BREEDS.map((breed) => [breed.code, breed]))
+
+export interface BreedCodes {
+  primary: string
+  secondary?: string
+}
+
+export function isBreedCode(value: unknown): value is string {
+  return typeof value === "string" && BY_CODE.has(value)
+}
+
+export function breedName(code: string): string {
+  return BY_CODE.get(code)?.name ?? code
+}
+
+// How a breed is shown on applications, licenses and documents:
+// "Beagle", "Beagle mix", "Beagle / Pug mix" or "Unknown / Other".
+export function describeBreed({ primary, secondary }: BreedCodes): string {
+  if (primary === UNKNOWN_BREED || !secondary) return breedName(primary)
+  if (secondary === UNKNOWN_BREED) return `${breedName(primary)} mix`
+  return `${breedName(primary)} / ${breedName(secondary)} mix`
+}
+
+// ---------- Free-Text Breeds ----------
+// Records from before the catalog, and API clients, give breeds as text.
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+// Levenshtein distance, stopping early once it passes the limit.
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    if (Math.min(...current) > limit) return limit + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+const SEARCH_TERMS: { term: string; code: string }[] = DOG_BREEDS.flatMap((breed) =>
+  [breed.name, breed.code, ...(breed.aliases ?? [])].map((term) => ({ term: normalizeText(term), code: breed.code })),
+)
+
+// The catalog breed a piece of text names, allowing a typo or two in longer
+// names. Undefined when nothing is close enough.
+export function matchBreed(text: string): string | undefined {
+  const normalized = normalizeText(text)
+  if (!normalized) return undefined
+  const exact = SEARCH_TERMS.find(({ term }) => term === normalized)
+  if (exact) return exact.code
+  if (normalized.length < 5) return undefined
+
+  const limit = normalized.length < 9 ? 1 : normalized.length < 15 ? 2 : 3
+  let best: { code: string; distance: number } | undefined
+  for (const { term, code } of SEARCH_TERMS) {
+    const distance = editDistance(normalized, term, limit)
+    if (distance <= limit && (!best || distance < best.distance)) best = { code, distance }
+  }
+  return best?.code
+}
+
+// Reads "Lab", "lab mix", "Beagle/Pug", "Poodle x Labrador" and the like.
+// Anything that can't be matched becomes unknown, so every record gets codes.
+export function parseBreedText(text: string): BreedCodes {
+  const mix = /\b(?:mix|mixed|cross|crossbreed)\b/i.test(text)
+  const parts = text
+    .replace(/\b(?:mix|mixed|cross|crossbreed|breed)\b/gi, " ")
+    .split(/\s*(?:\/|&|\+|,|\band\b|\bx\b)\s*/i)
+    .map((part) => part.trim())
+    .filter(Boolean)
+
+  const codes = parts.map(matchBreed).filter((code): code is string => !!code && code !== UNKNOWN_BREED)
+  if (codes.length === 0) return { primary: UNKNOWN_BREED }
+  const [primary, secondary] = codes
+  if (secondary && secondary !== primary) return { primary, secondary }
+  return mix || parts.length > 1 ? { primary, secondary: UNKNOWN_BREED } : { primary }
+}
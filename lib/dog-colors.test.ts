@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import {
+  COAT_COLORS,
+  COAT_PATTERNS,
+  describeCoat,
+  hasCoatColor,
+  isCoatColor,
+  isCoatPattern,
+  OTHER_COLOR,
+  parseColorText,
+} from "@/lib/dog-colors"
+
+describe("coat vocabulary", () => {
+  it("has no code or alias twice", () => {
+    const terms = [...COAT_COLORS, ...COAT_PATTERNS].flatMap((term) => [term.code, ...(term.aliases ?? [])])
+    expect(new Set(terms).size).toBe(terms.length)
+  })
+
+  it("tells colors from patterns", () => {
+    expect(isCoatColor("gray")).toBe(true)
+    expect(isCoatColor("grey")).toBe(false)
+    expect(isCoatColor("merle")).toBe(false)
+    expect(isCoatPattern("merle")).toBe(true)
+    expect(isCoatPattern(undefined)).toBe(false)
+  })
+})
+
+describe("describeCoat", () => {
+  it("names the colors, then the pattern", () => {
+    expect(describeCoat({ primary: "black" })).toBe("Black")
+    expect(describeCoat({ primary: "black", secondary: "white", pattern: "tuxedo" })).toBe("Black and white tuxedo")
+    expect(describeCoat({ primary: "blue", pattern: "merle" })).toBe("Blue merle")
+  })
+
+  it("gives just the pattern when no color is known", () => {
+    expect(describeCoat({ primary: OTHER_COLOR, pattern: "brindle" })).toBe("Brindle")
+    expect(describeCoat({ primary: OTHER_COLOR })).toBe("Other")
+  })
+})
+
+describe("hasCoatColor", () => {
+  it("matches the first or second color but not the pattern", () => {
+    const coat = { primary: "black", secondary: "tan", pattern: "points" }
+    expect(hasCoatColor(coat, "black")).toBe(true)
+    expect(hasCoatColor(coat, "tan")).toBe(true)
+    expect(hasCoatColor(coat, "points")).toBe(false)
+  })
+})
+
+describe("parseColorText", () => {
+  it("reads abbreviations and the usual ways of joining colors", () => {
+    expect(parseColorText("Blk/wht")).toEqual({ primary: "black", secondary: "white" })
+    expect(parseColorText("black & tan")).toEqual({ primary: "black", secondary: "tan" })
+    expect(parseColorText("Grey")).toEqual({ primary: "gray" })
+  })
+
+  it("picks out the pattern, longest name first", () => {
+    expect(parseColorText("blue merle")).toEqual({ primary: "blue", pattern: "merle" })
+    expect(parseColorText("Tri color")).toEqual({ primary: OTHER_COLOR, pattern: "tricolor" })
+  })
+
+  it("records text naming no listed color as other", () => {
+    expect(parseColorText("Mostly mud")).toEqual({ primary: OTHER_COLOR })
+    expect(parseColorText("")).toEqual({ primary: OTHER_COLOR })
+  })
+})
@@ -0,0 +1,129 @@
+// ---------- Coat Colors ----------
+// Coats are stored as codes from a fixed vocabulary so searches for a lost
+// "grey" dog find the ones recorded as "gray" or "silver-grey". A coat has a
+// primary color, an optional second color and an optional pattern; "other"
+// covers colors the list doesn't name.
+
+export interface CoatTerm {
+  code: string
+  name: string
+  // Other words owners use, lowercase.
+  aliases?: string[]
+}
+
+export const OTHER_COLOR = "other"
+
+export const COAT_COLORS: CoatTerm[] = [
+  { code: "black", name: "Black", aliases: ["blk", "ebony", "jet"] },
+  { code: "white", name: "White", aliases: ["wht", "wh"] },
+  { code: "brown", name: "Brown", aliases: ["brn", "chocolate", "choc", "liver", "mahogany", "bronze"] },
+  { code: "tan", name: "Tan", aliases: ["buckskin", "caramel", "biscuit"] },
+  { code: "red", name: "Red", aliases: ["rust", "ginger", "copper", "auburn", "rojo"] },
+  { code: "gold", name: "Gold", aliases: ["golden", "yellow", "honey", "wheaten", "wheat"] },
+  { code: "cream", name: "Cream", aliases: ["blonde", "blond", "ivory", "buff", "champagne"] },
+  { code: "fawn", name: "Fawn" },
+  { code: "apricot", name: "Apricot", aliases: ["peach"] },
+  { code: "gray", name: "Gray", aliases: ["grey", "gry", "charcoal", "pepper"] },
+  { code: "silver", name: "Silver", aliases: ["platinum"] },
+  { code: "blue", name: "Blue", aliases: ["slate"] },
+  { code: "lilac", name: "Lilac", aliases: ["isabella", "lavender"] },
+  { code: OTHER_COLOR, name: "Other" },
+]
+
+export const COAT_PATTERNS: CoatTerm[] = [
+  { code: "brindle", name: "Brindle", aliases: ["brindled", "brindel", "tiger"] },
+  { code: "merle", name: "Merle", aliases: ["dapple", "marbled"] },
+  { code: "tuxedo", name: "Tuxedo", aliases: ["tux"] },
+  { code: "tricolor", name: "Tricolor", aliases: ["tri", "tri color", "tricolour", "tri colour", "three color"] },
+  { code: "spotted", name: "Spotted", aliases: ["spots", "spotty", "dotted", "dalmatian"] },
+  { code: "piebald", name: "Piebald", aliases: ["pied", "parti", "particolor", "patched", "patches", "pinto"] },
+  { code: "sable", name: "Sable", aliases: ["agouti", "wolf"] },
+  { code: "ticked", name: "Ticked", aliases: ["ticking", "roan", "speckled", "freckled", "flecked"] },
+  { code: "points", name: "Points", aliases: ["pointed", "saddle", "saddleback"] },
+  { code: "harlequin", name: "Harlequin" },
+]
+
+const COLORS_BY_CODE = new Map(COAT_COLORS.map((color) => [color.code, color]))
+const PATTERNS_BY_CODE = new Map(COAT_PATTERNS.map((pattern) => [pattern.code, pattern]))
+
+export interface CoatColors {
+  primary: string
+  secondary?: string
+  pattern?: string
+}
+
+export function isCoatColor(value: unknown): value is string {
+  return typeof value === "string" && COLORS_BY_CODE.has(value)
+}
+
+export function isCoatPattern(value: unknown): value is string {
+  return typeof value === "string" && PATTERNS_BY_CODE.has(value)
+}
+
+export function coatColorName(code: string): string {
+  return COLORS_BY_CODE.get(code)?.name ?? code
+}
+
+export function coatPatternName(code: string): string {
+  return PATTERNS_BY_CODE.get(code)?.name ?? code
+}
+
+// "Black", "Black and white", "Black and white tuxedo", "Blue merle", or just
+// "Brindle" when the pattern is all that's known.
+export function describeCoat({ primary, secondary, pattern }: CoatColors): string {
+  if (primary === OTHER_COLOR && !secondary && pattern) return coatPatternName(pattern)
+  const colors = [primary, secondary].filter((code): code is string => !!code).map(coatColorName)
+  const text = colors.map((name, index) => (index === 0 ? name : name.toLowerCase())).join(" and ")
+  return pattern ? `${text} ${coatPatternName(pattern).toLowerCase()}` : text
+}
+
+// Whether the coat has the color, as its first or second color.
+export function hasCoatColor(coat: CoatColors, code: string): boolean {
+  return coat.primary === code || coat.secondary === code
+}
+
+// ---------- Free-Text Colors ----------
+// Records from before the vocabulary, and API clients, give the color as text
+// such as "Blk/wht", "black & tan" or "blue merle".
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z]+/g, " ")
+    .trim()
+}
+
+// Longest terms first, so "tri color" is read before "tri".
+function searchTerms(terms: CoatTerm[]): { term: string; code: string }[] {
+  return terms
+    .flatMap((entry) =>
+      [entry.name, entry.code, ...(entry.aliases ?? [])].map((term) => ({ term: normalizeText(term), code: entry.code })),
+    )
+    .sort((a, b) => b.term.length - a.term.length)
+}
+
+const COLOR_TERMS = searchTerms(COAT_COLORS.filter((color) => color.code !== OTHER_COLOR))
+const PATTERN_TERMS = searchTerms(COAT_PATTERNS)
+
+// Codes in the order their words appear in the text.
+function findTerms(text: string, terms: { term: string; code: string }[]): string[] {
+  let remaining = ` ${text} `
+  const found: { code: string; at: number }[] = []
+  for (const { term, code } of terms) {
+    const at = remaining.indexOf(` ${term} `)
+    if (at === -1) continue
+    found.push({ code, at })
+    // Blank the words out so a shorter term can't match inside them again.
+    remaining = remaining.slice(0, at + 1) + " ".repeat(term.length) + remaining.slice(at + 1 + term.length)
+  }
+  const codes = found.sort((a, b) => a.at - b.at).map(({ code }) => code)
+  return codes.filter((code, index) => codes.indexOf(code) === index)
+}
+
+// Text naming no listed color becomes "other", so every record gets codes.
+export function parseColorText(text: string): CoatColors {
+  const normalized = normalizeText(text)
+  const [pattern] = findTerms(normalized, PATTERN_TERMS)
+  const [primary, secondary] = findTerms(normalized, COLOR_TERMS)
+  return { primary: primary ?? OTHER_COLOR, secondary, pattern }
+}
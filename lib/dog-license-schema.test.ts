@@ -0,0 +1,295 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  fromFormData,
+  MAX_DOGS_PER_APPLICATION,
+  quoteForForm,
+  toCoatColors,
+  toFormData,
+  validateDogLicense,
+} from "@/lib/dog-license-schema"
+import { MAX_PHOTO_SIZE } from "@/lib/dog-photos"
+
+function certificate(type = "application/pdf", size = 1024): File {
+  return new File([new Uint8Array(size)], "certificate.pdf", { type })
+}
+
+function dog(changes: Record<string, unknown> = {}) {
+  return {
+    name: "Rex",
+    breed: "beagle",
+    sex: "male",
+    ageSource: "approximate",
+    age: "4",
+    color: "black",
+    weight: "30",
+    spayedNeutered: "yes",
+    rabiesStatus: "vaccinated",
+    lastRabiesShotDate: "2026-01-12",
+    rabiesVaccineDuration: "3",
+    firstRabiesShot: "no",
+    ageAtVaccination: "36",
+    vaccinationCertificate: certificate(),
+    ...changes,
+  }
+}
+
+function application(changes: Record<string, unknown> = {}) {
+  return {
+    ownerName: "Pat Doe",
+    ownerEmail: "pat@example.com",
+    ownerStreet: "12 Main St",
+    ownerCity: "Springfield",
+    ownerState: "IL",
+    ownerZip: "62704",
+    ownerPhone: "(217) 555-1234",
+    ownerDiscount: "none",
+    licenseTerm: "1",
+    dogs: [dog()],
+    ...changes,
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(new Date(2026, 9, 19))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("validateDogLicense", () => {
+  it("accepts a complete application", () => {
+    expect(validateDogLicense(application())).toMatchObject({ ok: true })
+  })
+
+  it("reports problems under the form's field paths", () => {
+    const result = validateDogLicense(application({ ownerEmail: "nope", dogs: [dog({ name: "" })] }))
+    expect(result.ok).toBe(false)
+    if (result.ok) return
+    expect(result.fieldErrors.ownerEmail).toEqual(["Please enter a valid email address"])
+    expect(result.fieldErrors["dogs.0.name"]).toEqual(["Dog name is required"])
+  })
+
+  it("requires a certificate of an accepted type for a vaccinated dog", () => {
+    const missing = validateDogLicense(application({ dogs: [dog({ vaccinationCertificate: undefined })] }))
+    const html = certificate("text/html")
+    const wrongType = validateDogLicense(application({ dogs: [dog({ vaccinationCertificate: html })] }))
+
+    expect(missing.ok || missing.fieldErrors["dogs.0.vaccinationCertificate"]).toEqual([
+      "Vaccination certificate is required",
+    ])
+    expect(wrongType.ok || wrongType.fieldErrors["dogs.0.vaccinationCertificate"]).toEqual([
+      "File must be PDF, JPEG, or PNG format",
+    ])
+  })
+
+  it("rejects a vaccination date in the future", () => {
+    const result = validateDogLicense(application({ dogs: [dog({ lastRabiesShotDate: "2026-12-01" })] }))
+    expect(result.ok || result.fieldErrors["dogs.0.lastRabiesShotDate"]).toEqual([
+      "Vaccination date cannot be in the future",
+    ])
+  })
+})
+
+describe("dog profile", () => {
+  it("takes a date of birth in place of an estimated age", () => {
+    const known = dog({ ageSource: "birthDate", age: "", birthDate: "2023-01-05" })
+    expect(validateDogLicense(application({ dogs: [known] })).ok).toBe(true)
+  })
+
+  it("asks for whichever the owner said they know", () => {
+    const result = validateDogLicense(application({ dogs: [dog({ ageSource: "birthDate", age: "4" })] }))
+    expect(result.ok || result.fieldErrors["dogs.0.birthDate"]).toEqual(["Please enter your dog's date of birth"])
+  })
+
+  it("turns away puppies too young to have been vaccinated", () => {
+    const result = validateDogLicense(application({ dogs: [dog({ ageSource: "birthDate", birthDate: "2026-08-01" })] }))
+    expect(result.ok || result.fieldErrors["dogs.0.birthDate"]).toEqual([
+      "Puppies can be licensed once they have been vaccinated against rabies at 4 months or older",
+    ])
+  })
+
+  it("requires a weight within reason", () => {
+    const result = validateDogLicense(application({ dogs: [dog({ weight: "400" })] }))
+    expect(result.ok || result.fieldErrors["dogs.0.weight"]).toEqual(["Enter your dog's weight in pounds"])
+  })
+
+  it("takes coat colors and patterns only from the lists", () => {
+    const freeText = validateDogLicense(application({ dogs: [dog({ color: "Blk/wht", coatPattern: "stripes" })] }))
+    expect(freeText.ok || freeText.fieldErrors["dogs.0.color"]).toEqual(["Please choose a color from the list"])
+    expect(freeText.ok || freeText.fieldErrors["dogs.0.coatPattern"]).toEqual(["Please choose a pattern from the list"])
+  })
+
+  it("won't take the same color twice", () => {
+    const result = validateDogLicense(application({ dogs: [dog({ secondaryColor: "black" })] }))
+    expect(result.ok || result.fieldErrors["dogs.0.secondaryColor"]).toEqual([
+      "Choose a different color, or leave this blank",
+    ])
+  })
+
+  it("leaves blank second colors and patterns off the coat", () => {
+    expect(toCoatColors({ color: "black", secondaryColor: "", coatPattern: "" })).toEqual({ primary: "black" })
+    expect(toCoatColors({ color: "blue", secondaryColor: "", coatPattern: "merle" })).toEqual({
+      primary: "blue",
+      pattern: "merle",
+    })
+  })
+
+  it("checks the microchip number's format", () => {
+    const result = validateDogLicense(application({ dogs: [dog({ microchipNumber: "999000000000001" })] }))
+    expect(result.ok || result.fieldErrors["dogs.0.microchipNumber"]).toEqual([
+      "Numbers starting 999 belong to test chips; check the number on your paperwork",
+    ])
+  })
+})
+
+describe("rabies vaccination", () => {
+  it("holds a first shot to one year whatever the label says", () => {
+    const firstShot = dog({ lastRabiesShotDate: "2025-09-01", rabiesVaccineDuration: "3", firstRabiesShot: "yes" })
+    const booster = dog({ lastRabiesShotDate: "2025-09-01", rabiesVaccineDuration: "3", firstRabiesShot: "no" })
+
+    const lapsed = validateDogLicense(application({ dogs: [firstShot] }))
+    expect(lapsed.ok || lapsed.fieldErrors["dogs.0.lastRabiesShotDate"]).toEqual([
+      "This rabies vaccination expired on September 1, 2026; a current vaccination is required",
+    ])
+    expect(validateDogLicense(application({ dogs: [booster] })).ok).toBe(true)
+  })
+
+  it("doesn't count a shot given below the minimum age", () => {
+    const result = validateDogLicense(application({ dogs: [dog({ ageAtVaccination: "2" })] }))
+    expect(result.ok || result.fieldErrors["dogs.0.ageAtVaccination"]).toEqual([
+      "Rabies shots given before 4 months of age don't count; please have your dog revaccinated",
+    ])
+  })
+})
+
+describe("medical exemptions", () => {
+  function exempt(changes: Record<string, unknown> = {}) {
+    return dog({
+      rabiesStatus: "exempt",
+      lastRabiesShotDate: undefined,
+      rabiesVaccineDuration: undefined,
+      firstRabiesShot: undefined,
+      ageAtVaccination: undefined,
+      vaccinationCertificate: undefined,
+      exemptionLetter: certificate(),
+      exemptionExpiresOn: "2027-06-30",
+      vetLicenseNumber: "DVM-12345",
+      ...changes,
+    })
+  }
+
+  it("takes a vet's letter in place of the vaccination", () => {
+    expect(validateDogLicense(application({ dogs: [exempt()] })).ok).toBe(true)
+  })
+
+  it("requires the letter, its end date and the vet's license number", () => {
+    const result = validateDogLicense(
+      application({ dogs: [exempt({ exemptionLetter: undefined, exemptionExpiresOn: "", vetLicenseNumber: "?" })] }),
+    )
+    expect(result.ok || result.fieldErrors).toEqual({
+      "dogs.0.exemptionLetter": ["The veterinarian's exemption letter is required"],
+      "dogs.0.exemptionExpiresOn": ["Please enter the date the exemption ends"],
+      "dogs.0.vetLicenseNumber": ["Please enter the veterinarian's state license number"],
+    })
+  })
+
+  it("refuses an exemption that has already ended", () => {
+    const result = validateDogLicense(application({ dogs: [exempt({ exemptionExpiresOn: "2026-10-01" })] }))
+    expect(result.ok || result.fieldErrors["dogs.0.exemptionExpiresOn"]).toEqual([
+      "The exemption ends on October 1, 2026; it must still be in force when the license starts",
+    ])
+  })
+})
+
+describe("several dogs", () => {
+  it("needs at least one dog and no more than the limit", () => {
+    const none = validateDogLicense(application({ dogs: [] }))
+    const dogs = Array.from({ length: MAX_DOGS_PER_APPLICATION + 1 }, () => dog())
+    const tooMany = validateDogLicense(application({ dogs }))
+
+    expect(none.ok || none.fieldErrors.dogs).toEqual(["Add at least one dog"])
+    expect(tooMany.ok || tooMany.fieldErrors.dogs).toEqual([
+      `You can license up to ${MAX_DOGS_PER_APPLICATION} dogs per application`,
+    ])
+  })
+
+  it("reports each dog's problems under its own index", () => {
+    const result = validateDogLicense(application({ dogs: [dog(), dog({ name: "Bo", breed: "" })] }))
+    expect(result.ok || Object.keys(result.fieldErrors)).toEqual(["dogs.1.breed"])
+  })
+
+  it("won't take one microchip for two dogs", () => {
+    const dogs = [
+      dog({ microchipNumber: "985112003456789" }),
+      dog({ name: "Bo", microchipNumber: "985-112-003-456-789" }),
+    ]
+    const result = validateDogLicense(application({ dogs }))
+    expect(result.ok || result.fieldErrors["dogs.1.microchipNumber"]).toEqual(["Rex already has this microchip number"])
+  })
+
+  it("quotes each dog and labels the lines with its name", () => {
+    const quote = quoteForForm({
+      licenseTerm: "1",
+      ownerDiscount: "none",
+      dogs: [
+        { name: "Rex", spayedNeutered: "yes", weight: "30" },
+        { name: "", spayedNeutered: "no", weight: "" },
+      ],
+    })
+
+    expect(quote.items.map((item) => item.label)).toEqual([
+      "Rex: 1-year license",
+      "Dog 2: 1-year license",
+      "Dog 2: Intact (not spayed/neutered) surcharge",
+    ])
+    expect(quote.total).toBe(5000)
+  })
+})
+
+describe("dog photos", () => {
+  function photo(type = "image/jpeg", size = 1024): File {
+    return new File([new Uint8Array(size)], "rex.jpg", { type })
+  }
+
+  it("are optional", () => {
+    expect(validateDogLicense(application({ dogs: [dog({ photo: undefined })] })).ok).toBe(true)
+    expect(validateDogLicense(application({ dogs: [dog({ photo: photo("image/png") })] })).ok).toBe(true)
+  })
+
+  it("must be a JPEG or PNG image", () => {
+    const result = validateDogLicense(application({ dogs: [dog({ photo: photo("image/heic") })] }))
+    expect(result.ok || result.fieldErrors["dogs.0.photo"]).toEqual(["Photo must be a JPEG or PNG image"])
+  })
+
+  it("must be smaller than 2MB", () => {
+    const result = validateDogLicense(application({ dogs: [dog({ photo: photo("image/jpeg", MAX_PHOTO_SIZE + 1) })] }))
+    expect(result.ok || result.fieldErrors["dogs.0.photo"]).toEqual(["Photo must be smaller than 2MB"])
+  })
+})
+
+describe("form data transport", () => {
+  it("carries nested values and files through dotted keys", () => {
+    const parsed = validateDogLicense(application())
+    if (!parsed.ok) throw new Error("fixture should be valid")
+
+    const formData = toFormData(parsed.data)
+    expect(formData.get("dogs.0.name")).toBe("Rex")
+    expect(formData.get("dogs.0.vaccinationCertificate")).toBeInstanceOf(File)
+
+    const roundTrip = validateDogLicense(fromFormData(formData))
+    expect(roundTrip.ok && roundTrip.data).toEqual(parsed.data)
+  })
+
+  it("ignores keys that would reach the object prototype", () => {
+    const formData = new FormData()
+    formData.append("__proto__.polluted", "yes")
+    formData.append("dogs.0.constructor", "yes")
+    formData.append("ownerName", "Pat Doe")
+
+    const values = fromFormData(formData)
+    expect(values).toEqual({ ownerName: "Pat Doe" })
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+})
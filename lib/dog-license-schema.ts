@@ -0,0 +1,517 @@
+import type { FieldPath } from "react-hook-form"
+import { z } from "zod"
+import { formatAddress, isUSStateCode, normalizeZip, ZIP_PATTERN, type PostalAddress } from "@/lib/address"
+import type { DogInfo, NewApplicationInput } from "@/lib/applications"
+import { describeBreed, isBreedCode, UNKNOWN_BREED, type BreedCodes } from "@/lib/dog-breeds"
+import { describeCoat, isCoatColor, isCoatPattern, type CoatColors } from "@/lib/dog-colors"
+import {
+  ageFromBirthDate,
+  ageInMonths,
+  AGE_SOURCES,
+  DOG_SEXES,
+  MAX_DOG_AGE_YEARS,
+  MAX_DOG_WEIGHT_LBS,
+  sizeClassForWeight,
+} from "@/lib/dog-profile"
+import { ALLOWED_PHOTO_TYPES, MAX_PHOTO_SIZE } from "@/lib/dog-photos"
+import { combineQuotes, OWNER_DISCOUNTS, quoteFee, type FeeQuote, type LicenseTerm } from "@/lib/fee-schedule"
+import { checkMicrochip, normalizeMicrochip } from "@/lib/microchips"
+import {
+  exemptionLapseMessage,
+  isBelowMinimumAge,
+  puppyMessage,
+  rabiesLapseMessage,
+  RABIES_STATUSES,
+  RABIES_VACCINE_DURATIONS,
+  tooYoungMessage,
+  VET_LICENSE_PATTERN,
+  type RabiesShot,
+} from "@/lib/rabies-vaccination"
+import type { RenewalLink } from "@/lib/renewals"
+import {
+  sanitizeUSPhone,
+  coerceDate,
+  isNotFuture,
+  parseNumberSafe,
+  isPositiveNumber,
+  isIntegerNumber,
+} from "@/lib/utils"
+
+// ---------- Dog License Schema ----------
+// Shared by the New Application form (via zodResolver) and the API route that
+// re-validates every submission, so the rules can never drift apart.
+
+export const MAX_CERTIFICATE_SIZE = 5 * 1024 * 1024 // 5MB
+export const ALLOWED_CERTIFICATE_TYPES = ["application/pdf", "image/jpeg", "image/png", "image/jpg"]
+export const MAX_DOGS_PER_APPLICATION = 5
+
+// File exists in browsers and in Node 20+, but guard so importing this module
+// never throws in an environment without it.
+const isFile = (value: unknown): value is File => typeof File !== "undefined" && value instanceof File
+
+function documentFileSchema(requiredMessage: string) {
+  return z
+    .custom<File>(isFile, requiredMessage)
+    .refine((file) => file.size > 0, requiredMessage)
+    .refine((file) => file.size <= MAX_CERTIFICATE_SIZE, "File size must be less than 5MB")
+    .refine((file) => ALLOWED_CERTIFICATE_TYPES.includes(file.type), "File must be PDF, JPEG, or PNG format")
+}
+
+export const certificateFileSchema = documentFileSchema("Vaccination certificate is required")
+
+export const exemptionLetterSchema = documentFileSchema("The veterinarian's exemption letter is required")
+
+// Required for a vaccinated dog.
+const VACCINATED_FIELDS: Record<string, z.ZodType> = {
+  lastRabiesShotDate: z
+    .string()
+    .refine((val) => {
+      const date = coerceDate(val)
+      return date !== null
+    }, "Please enter a valid date")
+    .refine((val) => {
+      const date = coerceDate(val)
+      return !date || isNotFuture(date)
+    }, "Vaccination date cannot be in the future"),
+
+  rabiesVaccineDuration: z.enum(RABIES_VACCINE_DURATIONS, "Please choose the duration on the vaccine's label"),
+
+  firstRabiesShot: z.enum(["yes", "no"], "Please tell us whether this was your dog's first rabies shot"),
+
+  ageAtVaccination: z
+    .string()
+    .refine((val) => {
+      const num = parseNumberSafe(val)
+      return num !== null && isIntegerNumber(num) && num >= 0 && num <= 360
+    }, "Enter your dog's age in months when it was vaccinated")
+    .refine((val) => {
+      const num = parseNumberSafe(val)
+      return num === null || !isBelowMinimumAge(num)
+    }, tooYoungMessage()),
+
+  vaccinationCertificate: certificateFileSchema,
+}
+
+// Required instead for a dog with a medical exemption.
+const EXEMPT_FIELDS: Record<string, z.ZodType> = {
+  exemptionLetter: exemptionLetterSchema,
+
+  exemptionExpiresOn: z.string().refine((val) => coerceDate(val) !== null, "Please enter the date the exemption ends"),
+
+  vetLicenseNumber: z
+    .string()
+    .trim()
+    .refine((val) => VET_LICENSE_PATTERN.test(val), "Please enter the veterinarian's state license number"),
+}
+
+// Checks the dog's values against the given field schemas, reporting issues
+// under each field. False when any failed.
+function requireFields(dog: Record<string, unknown>, fields: Record<string, z.ZodType>, ctx: z.RefinementCtx): boolean {
+  let valid = true
+  for (const [key, schema] of Object.entries(fields)) {
+    const result = schema.safeParse(dog[key])
+    if (result.success) continue
+    valid = false
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ code: "custom", path: [key, ...issue.path], message: issue.message })
+    }
+  }
+  return valid
+}
+
+// One dog with its own rabies vaccination and certificate, or a vet's
+// exemption from vaccination.
+export const dogEntrySchema = z.object({
+  name: z.string().min(1, "Dog name is required").max(50, "Dog name must be less than 50 characters"),
+
+  // Catalog codes from lib/dog-breeds.ts; the secondary breed is for mixes.
+  breed: z.string().min(1, "Dog breed is required").refine(isBreedCode, "Please choose a breed from the list"),
+  secondaryBreed: z
+    .string()
+    .optional()
+    .refine((val) => !val || isBreedCode(val), "Please choose a breed from the list"),
+
+  sex: z.enum(DOG_SEXES, "Please tell us your dog's sex"),
+
+  // A date of birth, or an estimate of the dog's age when the owner doesn't
+  // know it. Whichever the source says is required.
+  ageSource: z.enum(AGE_SOURCES, "Please tell us how you know your dog's age"),
+
+  birthDate: z
+    .string()
+    .optional()
+    .refine((val) => !val || coerceDate(val) !== null, "Please enter a valid date")
+    .refine((val) => {
+      const date = val ? coerceDate(val) : null
+      return !date || isNotFuture(date)
+    }, "Date of birth cannot be in the future")
+    .refine((val) => {
+      const months = val ? ageInMonths(val) : null
+      return months === null || months <= MAX_DOG_AGE_YEARS * 12
+    }, `Date of birth must be within the last ${MAX_DOG_AGE_YEARS} years`)
+    .refine((val) => {
+      const months = val ? ageInMonths(val) : null
+      return months === null || months < 0 || !isBelowMinimumAge(months)
+    }, puppyMessage()),
+
+  age: z
+    .string()
+    .optional()
+    .refine((val) => {
+      const num = parseNumberSafe(val)
+      return !val || (num !== null && isPositiveNumber(num) && num <= MAX_DOG_AGE_YEARS)
+    }, `Dog age must be a positive number (max ${MAX_DOG_AGE_YEARS} years)`)
+    .refine((val) => {
+      const num = parseNumberSafe(val)
+      return num === null || !isBelowMinimumAge(num * 12)
+    }, puppyMessage()),
+
+  // Codes from lib/dog-colors.ts: one or two colors and an optional pattern.
+  color: z.string().min(1, "Dog color is required").refine(isCoatColor, "Please choose a color from the list"),
+  secondaryColor: z
+    .string()
+    .optional()
+    .refine((val) => !val || isCoatColor(val), "Please choose a color from the list"),
+  coatPattern: z
+    .string()
+    .optional()
+    .refine((val) => !val || isCoatPattern(val), "Please choose a pattern from the list"),
+
+  weight: z.string().refine((val) => {
+    const num = parseNumberSafe(val)
+    return num !== null && isPositiveNumber(num) && num <= MAX_DOG_WEIGHT_LBS
+  }, "Enter your dog's weight in pounds"),
+
+  spayedNeutered: z.enum(["yes", "no"], "Please tell us whether your dog is spayed or neutered"),
+
+  // Optional, but lets a clerk confirm the spayed/neutered rate without asking.
+  spayNeuterCertificate: documentFileSchema("Spay/neuter certificate is required").optional(),
+
+  // Resized in the browser before it gets here; see lib/dog-photos.ts.
+  photo: z
+    .custom<File>(isFile, "Please choose a photo")
+    .refine((file) => file.size <= MAX_PHOTO_SIZE, "Photo must be smaller than 2MB")
+    .refine((file) => ALLOWED_PHOTO_TYPES.includes(file.type), "Photo must be a JPEG or PNG image")
+    .optional(),
+
+  markings: z.string().trim().max(200, "Please keep markings under 200 characters").optional(),
+
+  microchipNumber: z
+    .string()
+    .optional()
+    .superRefine((val, ctx) => {
+      const check = val ? checkMicrochip(val) : null
+      if (check && !check.ok) ctx.addIssue({ code: "custom", message: check.message })
+    }),
+
+  rabiesStatus: z.enum(RABIES_STATUSES, "Please tell us whether your dog is vaccinated or medically exempt"),
+
+  // Typed loosely here; VACCINATED_FIELDS or EXEMPT_FIELDS apply depending on
+  // the dog's rabies status.
+  lastRabiesShotDate: z.string().optional(),
+  rabiesVaccineDuration: z.enum(RABIES_VACCINE_DURATIONS).optional(),
+  firstRabiesShot: z.enum(["yes", "no"]).optional(),
+  ageAtVaccination: z.string().optional(),
+  vaccinationCertificate: z.custom<File>(isFile).optional(),
+  exemptionLetter: z.custom<File>(isFile).optional(),
+  exemptionExpiresOn: z.string().optional(),
+  vetLicenseNumber: z.string().optional(),
+}).superRefine((dog, ctx) => {
+  if (dog.ageSource === "birthDate" && !dog.birthDate) {
+    ctx.addIssue({ code: "custom", path: ["birthDate"], message: "Please enter your dog's date of birth" })
+  } else if (dog.ageSource === "approximate" && !dog.age) {
+    ctx.addIssue({ code: "custom", path: ["age"], message: "Please enter your dog's approximate age" })
+  }
+
+  if (dog.secondaryBreed && dog.secondaryBreed !== UNKNOWN_BREED && dog.secondaryBreed === dog.breed) {
+    ctx.addIssue({ code: "custom", path: ["secondaryBreed"], message: "Choose a different breed, or leave this blank" })
+  }
+
+  if (dog.secondaryColor && dog.secondaryColor === dog.color) {
+    ctx.addIssue({ code: "custom", path: ["secondaryColor"], message: "Choose a different color, or leave this blank" })
+  }
+
+  // A new license starts no earlier than today; renewals that start later are
+  // checked again on the server against the license they replace.
+  if (dog.rabiesStatus === "exempt") {
+    if (!requireFields(dog, EXEMPT_FIELDS, ctx)) return
+    const lapse = exemptionLapseMessage(dog.exemptionExpiresOn ?? "", new Date())
+    if (lapse) ctx.addIssue({ code: "custom", path: ["exemptionExpiresOn"], message: lapse })
+    return
+  }
+
+  if (!requireFields(dog, VACCINATED_FIELDS, ctx)) return
+  const lapse = rabiesLapseMessage(toRabiesShot(dog), new Date())
+  if (lapse) ctx.addIssue({ code: "custom", path: ["lastRabiesShotDate"], message: lapse })
+})
+
+export const dogLicenseSchema = z.object({
+  ownerName: z
+    .string()
+    .min(2, "Owner name must be at least 2 characters")
+    .max(100, "Owner name must be less than 100 characters"),
+
+  ownerEmail: z
+    .email("Please enter a valid email address")
+    .max(254, "Email must be less than 254 characters"),
+
+  ownerStreet: z
+    .string()
+    .trim()
+    .min(3, "Street address is required")
+    .max(100, "Street address must be less than 100 characters"),
+
+  ownerUnit: z.string().trim().max(20, "Unit must be less than 20 characters").optional(),
+
+  ownerCity: z.string().trim().min(2, "City is required").max(50, "City must be less than 50 characters"),
+
+  ownerState: z.string().refine(isUSStateCode, "Please choose a state"),
+
+  ownerZip: z
+    .string()
+    .transform(normalizeZip)
+    .refine((val) => ZIP_PATTERN.test(val), "Please enter a 5-digit ZIP code"),
+
+  ownerPhone: z.string().refine((val) => {
+    const result = sanitizeUSPhone(val)
+    return result.ok
+  }, "Please enter a valid US phone number"),
+
+  ownerDiscount: z.enum(["none", ...OWNER_DISCOUNTS], "Please choose a discount option"),
+
+  dogs: z
+    .array(dogEntrySchema)
+    .min(1, "Add at least one dog")
+    .max(MAX_DOGS_PER_APPLICATION, `You can license up to ${MAX_DOGS_PER_APPLICATION} dogs per application`)
+    .superRefine((dogs, ctx) => {
+      // Two dogs can't share a chip.
+      const seen = new Map<string, number>()
+      dogs.forEach((dog, index) => {
+        const number = dog.microchipNumber ? normalizeMicrochip(dog.microchipNumber) : ""
+        if (!number) return
+        const first = seen.get(number)
+        if (first === undefined) {
+          seen.set(number, index)
+        } else {
+          ctx.addIssue({
+            code: "custom",
+            path: [index, "microchipNumber"],
+            message: `${dogs[first].name || `Dog ${first + 1}`} already has this microchip number`,
+          })
+        }
+      })
+    }),
+
+  licenseTerm: z.enum(["1", "3"], "Please choose a license term"),
+})
+
+export type DogLicenseFormData = z.infer<typeof dogLicenseSchema>
+
+export type DogEntryFormData = z.infer<typeof dogEntrySchema>
+
+// Dotted paths as react-hook-form names them, e.g. "ownerName" or "dogs.1.age".
+export type DogLicenseField = FieldPath<DogLicenseFormData>
+
+// Field path -> messages, in the shape FormMessage consumers can feed to setError.
+export type FieldErrors = Partial<Record<DogLicenseField, string[]>>
+
+export type DogLicenseValidationResult =
+  | { ok: true; data: DogLicenseFormData }
+  | { ok: false; fieldErrors: FieldErrors }
+
+export function validateDogLicense(input: unknown): DogLicenseValidationResult {
+  const result = dogLicenseSchema.safeParse(input)
+  if (result.success) return { ok: true, data: result.data }
+
+  const fieldErrors: Record<string, string[]> = {}
+  for (const issue of result.error.issues) {
+    const path = issue.path.join(".")
+    if (path) (fieldErrors[path] ??= []).push(issue.message)
+  }
+  return { ok: false, fieldErrors: fieldErrors as FieldErrors }
+}
+
+// ---------- Transport ----------
+// Submissions travel as multipart form data so the certificates go with them.
+// Nested values use dotted keys ("dogs.0.name"), the same paths the form uses.
+
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"])
+
+export function toFormData(data: DogLicenseFormData): FormData {
+  const formData = new FormData()
+  const append = (key: string, value: unknown) => {
+    if (value === undefined || value === null) return
+    if (isFile(value)) {
+      formData.append(key, value)
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => append(`${key}.${index}`, item))
+    } else if (typeof value === "object") {
+      Object.entries(value).forEach(([child, item]) => append(`${key}.${child}`, item))
+    } else {
+      formData.append(key, String(value))
+    }
+  }
+  Object.entries(data).forEach(([key, value]) => append(key, value))
+  return formData
+}
+
+export function fromFormData(formData: FormData): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  formData.forEach((value, key) => {
+    const path = key.split(".")
+    if (path.some((segment) => !segment || UNSAFE_KEYS.has(segment))) return
+
+    let target = values as Record<string, unknown>
+    for (let index = 0; index < path.length - 1; index++) {
+      const segment = path[index]
+      if (!Object.hasOwn(target, segment)) target[segment] = /^\d+$/.test(path[index + 1]) ? [] : {}
+      const next = target[segment]
+      if (!next || typeof next !== "object") return // "a" was already sent as a plain value
+      target = next as Record<string, unknown>
+    }
+    target[path[path.length - 1]] = value
+  })
+  return values
+}
+
+// ---------- Fees ----------
+// Quotes the form as filled in. The server stores its own recomputation.
+// Renewals pass the prior license's expiry so a late fee can apply.
+type QuoteOptions = Pick<DogLicenseFormData, "licenseTerm" | "ownerDiscount">
+
+export function quoteDog(
+  options: QuoteOptions,
+  dog: Pick<DogEntryFormData, "spayedNeutered" | "weight">,
+  dueDate?: string,
+): FeeQuote {
+  const weight = parseNumberSafe(dog.weight)
+  return quoteFee({
+    term: Number(options.licenseTerm) as LicenseTerm,
+    spayedNeutered: dog.spayedNeutered === "yes",
+    sizeClass: weight !== null && weight > 0 ? sizeClassForWeight(weight) : undefined,
+    discount: options.ownerDiscount === "none" ? null : options.ownerDiscount,
+    dueDate,
+  })
+}
+
+// Every dog's quote summed into what the owner pays.
+export function quoteForForm(
+  data: QuoteOptions & { dogs: Pick<DogEntryFormData, "name" | "spayedNeutered" | "weight">[] },
+  dueDate?: string,
+): FeeQuote {
+  return combineQuotes(
+    data.dogs.map((dog, index) => ({ label: dog.name || `Dog ${index + 1}`, quote: quoteDog(data, dog, dueDate) })),
+  )
+}
+
+export function toDogAge(entry: Pick<DogEntryFormData, "ageSource" | "birthDate" | "age">): Pick<DogInfo, "age" | "birthDate" | "ageIsApproximate"> {
+  if (entry.ageSource === "birthDate") {
+    return { age: ageFromBirthDate(entry.birthDate ?? ""), birthDate: entry.birthDate }
+  }
+  return { age: parseNumberSafe(entry.age), ageIsApproximate: true }
+}
+
+export function toDogWeight(entry: Pick<DogEntryFormData, "weight">): Pick<DogInfo, "weightLbs" | "sizeClass"> {
+  const weight = parseNumberSafe(entry.weight)
+  return weight === null ? {} : { weightLbs: weight, sizeClass: sizeClassForWeight(weight) }
+}
+
+export function toBreedCodes(entry: Pick<DogEntryFormData, "breed" | "secondaryBreed">): BreedCodes {
+  const secondary = entry.breed !== UNKNOWN_BREED ? entry.secondaryBreed : undefined
+  return secondary ? { primary: entry.breed, secondary } : { primary: entry.breed }
+}
+
+export function toCoatColors(entry: Pick<DogEntryFormData, "color" | "secondaryColor" | "coatPattern">): CoatColors {
+  return {
+    primary: entry.color,
+    secondary: entry.secondaryColor || undefined,
+    pattern: entry.coatPattern || undefined,
+  }
+}
+
+export function toRabiesShot(entry: Pick<DogEntryFormData, "lastRabiesShotDate" | "rabiesVaccineDuration" | "firstRabiesShot">): RabiesShot {
+  return {
+    lastRabiesShotDate: entry.lastRabiesShotDate ?? "",
+    // Undefined until chosen while the form is being filled in
+    durationYears: entry.rabiesVaccineDuration ? Number(entry.rabiesVaccineDuration) : undefined,
+    firstShot: entry.firstRabiesShot === "yes",
+  }
+}
+
+// Vaccinations and exemptions that lapse before the license term would start,
+// keyed by field.
+// The schema checks against today; renewals that run on from a license still in
+// force are checked against its expiry here.
+export function rabiesLapseErrors(data: DogLicenseFormData, termStartsOn: Date): FieldErrors {
+  const errors: FieldErrors = {}
+  data.dogs.forEach((entry, index) => {
+    if (entry.rabiesStatus === "exempt") {
+      const message = exemptionLapseMessage(entry.exemptionExpiresOn ?? "", termStartsOn)
+      if (message) errors[`dogs.${index}.exemptionExpiresOn`] = [message]
+      return
+    }
+    const message = rabiesLapseMessage(toRabiesShot(entry), termStartsOn)
+    if (message) errors[`dogs.${index}.lastRabiesShotDate`] = [message]
+  })
+  return errors
+}
+
+export function toPostalAddress(data: DogLicenseFormData): PostalAddress {
+  return {
+    street: data.ownerStreet,
+    unit: data.ownerUnit || undefined,
+    city: data.ownerCity,
+    state: data.ownerState,
+    zip: data.ownerZip,
+  }
+}
+
+export function toApplicationInput(data: DogLicenseFormData, renewalOf?: RenewalLink): NewApplicationInput {
+  const dogs = data.dogs.map((entry) => ({
+    dog: {
+      name: entry.name,
+      breed: describeBreed(toBreedCodes(entry)),
+      breedCodes: toBreedCodes(entry),
+      ...toDogAge(entry),
+      color: describeCoat(toCoatColors(entry)),
+      coat: toCoatColors(entry),
+      spayedNeutered: entry.spayedNeutered === "yes",
+      sex: entry.sex,
+      spayNeuterCertificateFileName: entry.spayedNeutered === "yes" ? entry.spayNeuterCertificate?.name : undefined,
+      ...toDogWeight(entry),
+      markings: entry.markings?.trim() || undefined,
+      microchipNumber: entry.microchipNumber ? normalizeMicrochip(entry.microchipNumber) || undefined : undefined,
+    },
+    vaccination:
+      entry.rabiesStatus === "exempt"
+        ? {
+            lastRabiesShotDate: "",
+            exemption: {
+              expiresOn: entry.exemptionExpiresOn ?? "",
+              vetLicenseNumber: entry.vetLicenseNumber?.trim() ?? "",
+              letterFileName: entry.exemptionLetter?.name,
+            },
+          }
+        : {
+            ...toRabiesShot(entry),
+            ageAtVaccinationMonths: parseNumberSafe(entry.ageAtVaccination) ?? undefined,
+            certificateFileName: entry.vaccinationCertificate?.name,
+          },
+    fee: quoteDog(data, entry, renewalOf?.expiresOn),
+  }))
+
+  const postalAddress = toPostalAddress(data)
+
+  return {
+    owner: {
+      name: data.ownerName,
+      email: data.ownerEmail.trim().toLowerCase(),
+      address: formatAddress(postalAddress),
+      postalAddress,
+      phone: data.ownerPhone,
+    },
+    dogs,
+    fee: combineQuotes(dogs.map((entry) => ({ label: entry.dog.name, quote: entry.fee }))),
+    renewalOf,
+  }
+}
@@ -0,0 +1,60 @@
+// ---------- Dog Photos ----------
+// Photos are resized in the browser before upload: phone cameras produce
+// files far larger than a clerk or animal control officer needs, and their
+// EXIF metadata often records where the photo was taken, usually the owner's
+// home. Drawing the image onto a canvas and encoding it again keeps only the
+// pixels.
+
+// Longest side, in pixels, after resizing.
+export const MAX_PHOTO_DIMENSION = 1200
+const PHOTO_QUALITY = 0.8
+
+// Limits on what the server accepts. A resized photo is well under this; it
+// only stops unresized uploads from clients that skip the browser step.
+export const MAX_PHOTO_SIZE = 2 * 1024 * 1024 // 2MB
+export const ALLOWED_PHOTO_TYPES = ["image/jpeg", "image/png"]
+
+export class PhotoResizeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PhotoResizeError"
+  }
+}
+
+function jpegFileName(name: string): string {
+  const base = name.replace(/\.[^.]*$/, "") || "dog-photo"
+  return `${base}.jpg`
+}
+
+// Browser only. Returns a JPEG no larger than MAX_PHOTO_DIMENSION on either
+// side, without any of the original file's metadata.
+export async function resizeDogPhoto(file: File): Promise<File> {
+  let bitmap: ImageBitmap
+  try {
+    // Applies the EXIF orientation, which is lost with the rest of the
+    // metadata, so portrait photos stay upright.
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+  } catch {
+    throw new PhotoResizeError("We couldn't read this photo; please choose a JPEG or PNG image")
+  }
+
+  try {
+    const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(bitmap.width, bitmap.height))
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.round(bitmap.width * scale)
+    canvas.height = Math.round(bitmap.height * scale)
+    const context = canvas.getContext("2d")
+    if (!context) throw new PhotoResizeError("Your browser couldn't prepare this photo")
+
+    // JPEG has no transparency; without a background it turns black.
+    context.fillStyle = "#ffffff"
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", PHOTO_QUALITY))
+    if (!blob) throw new PhotoResizeError("Your browser couldn't prepare this photo")
+    return new File([blob], jpegFileName(file.name), { type: "image/jpeg", lastModified: Date.now() })
+  } finally {
+    bitmap.close()
+  }
+}
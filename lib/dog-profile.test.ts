@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { ageFromBirthDate, ageInMonths, describeAge, describeWeight, sizeClassForWeight } from "@/lib/dog-profile"
+
+describe("ageInMonths", () => {
+  const asOf = new Date(2026, 9, 19)
+
+  it("counts whole months, not yet the one in progress", () => {
+    expect(ageInMonths("2026-06-19", asOf)).toBe(4)
+    expect(ageInMonths("2026-06-20", asOf)).toBe(3)
+    expect(ageInMonths("2023-01-05", asOf)).toBe(45)
+  })
+
+  it("is null for an unusable date", () => {
+    expect(ageInMonths("someday", asOf)).toBeNull()
+  })
+})
+
+describe("ageFromBirthDate", () => {
+  it("gives years to one decimal place", () => {
+    expect(ageFromBirthDate("2023-01-05", new Date(2026, 9, 19))).toBe(3.8)
+  })
+})
+
+describe("describeAge", () => {
+  it("shows whole years with the date of birth, or the estimate", () => {
+    expect(describeAge({ age: 3.8, birthDate: "2023-01-05" })).toBe("3 years (born January 5, 2023)")
+    expect(describeAge({ age: 1, ageIsApproximate: true })).toBe("about 1 year")
+    expect(describeAge({ age: 4 })).toBe("4 years")
+    expect(describeAge({ age: null })).toBe("")
+  })
+})
+
+describe("size classes", () => {
+  it("start at 25, 60 and 100 pounds", () => {
+    expect([24.9, 25, 59, 60, 99.5, 100].map(sizeClassForWeight)).toEqual([
+      "small",
+      "medium",
+      "medium",
+      "large",
+      "large",
+      "giant",
+    ])
+  })
+
+  it("are shown with the weight", () => {
+    expect(describeWeight(45)).toBe("45 lb (Medium)")
+    expect(describeWeight(45, "large")).toBe("45 lb (Large)")
+    expect(describeWeight(undefined)).toBe("")
+  })
+})
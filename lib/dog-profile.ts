@@ -0,0 +1,95 @@
+import type { DogInfo } from "@/lib/applications"
+import { coerceDate, formatDate } from "@/lib/utils"
+
+// ---------- Dog Profile ----------
+// What animal control needs to tell one dog from another, beyond its name,
+// breed and color, and the size the fee schedule prices on. Records from
+// before these were asked for only have the owner's estimate of the dog's age.
+
+export const DOG_SEXES = ["male", "female"] as const
+export type DogSex = (typeof DOG_SEXES)[number]
+
+export const DOG_SEX_LABELS: Record<DogSex, string> = {
+  male: "Male",
+  female: "Female",
+}
+
+export function isDogSex(value: unknown): value is DogSex {
+  return DOG_SEXES.includes(value as DogSex)
+}
+
+// Owners give a date of birth when they know it, otherwise an estimate.
+export const AGE_SOURCES = ["birthDate", "approximate"] as const
+export type AgeSource = (typeof AGE_SOURCES)[number]
+
+export const MAX_DOG_AGE_YEARS = 30
+
+// Whole months old on the given day, or null when the date is unusable.
+export function ageInMonths(birthDate: string, asOf: Date = new Date()): number | null {
+  const born = coerceDate(birthDate)
+  if (!born) return null
+  let months = (asOf.getFullYear() - born.getFullYear()) * 12 + asOf.getMonth() - born.getMonth()
+  if (asOf.getDate() < born.getDate()) months -= 1
+  return months
+}
+
+// Years to one decimal place, as stored on applications.
+export function ageFromBirthDate(birthDate: string, asOf: Date = new Date()): number | null {
+  const months = ageInMonths(birthDate, asOf)
+  return months === null ? null : Math.round((months / 12) * 10) / 10
+}
+
+// "3 years", "about 3 years" or "3 years (born Jan 5, 2023)".
+export function describeAge({ age, birthDate, ageIsApproximate }: Pick<DogInfo, "age" | "birthDate" | "ageIsApproximate">): string {
+  if (age === null) return ""
+  // With a date of birth the age is exact, so whole years read better.
+  const shown = birthDate ? Math.floor(age) : age
+  const years = `${shown} ${shown === 1 ? "year" : "years"}`
+  if (birthDate) return `${years} (born ${formatDate(birthDate)})`
+  return ageIsApproximate ? `about ${years}` : years
+}
+
+// ---------- Size ----------
+// Sizes are worked out from the weight the owner gives, in pounds.
+
+export const SIZE_CLASSES = ["small", "medium", "large", "giant"] as const
+export type SizeClass = (typeof SIZE_CLASSES)[number]
+
+// Lightest weight in each class.
+const SIZE_CLASS_MIN_WEIGHTS: Record<SizeClass, number> = {
+  small: 0,
+  medium: 25,
+  large: 60,
+  giant: 100,
+}
+
+export const SIZE_CLASS_NAMES: Record<SizeClass, string> = {
+  small: "Small",
+  medium: "Medium",
+  large: "Large",
+  giant: "Giant",
+}
+
+// Names with their weight ranges, e.g. "Medium (25–59 lb)".
+export const SIZE_CLASS_LABELS: Record<SizeClass, string> = {
+  small: "Small (under 25 lb)",
+  medium: "Medium (25–59 lb)",
+  large: "Large (60–99 lb)",
+  giant: "Giant (100 lb and over)",
+}
+
+export const MAX_DOG_WEIGHT_LBS = 300
+
+export function isSizeClass(value: unknown): value is SizeClass {
+  return SIZE_CLASSES.includes(value as SizeClass)
+}
+
+export function sizeClassForWeight(weightLbs: number): SizeClass {
+  return [...SIZE_CLASSES].reverse().find((size) => weightLbs >= SIZE_CLASS_MIN_WEIGHTS[size]) ?? "small"
+}
+
+// "45 lb (Medium)". Empty for records from before the weight was asked for.
+export function describeWeight(weightLbs: number | undefined, sizeClass?: SizeClass): string {
+  if (weightLbs === undefined) return ""
+  return `${weightLbs} lb (${SIZE_CLASS_NAMES[sizeClass ?? sizeClassForWeight(weightLbs)]})`
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { combineQuotes, quoteFee } from "@/lib/fee-schedule"
+
+const asOf = new Date(2026, 9, 19)
+
+describe("quoteFee", () => {
+  it("charges the base rate for a spayed or neutered dog", () => {
+    const quote = quoteFee({ term: 1, spayedNeutered: true, asOf })
+    expect(quote.items).toEqual([{ code: "license", label: "1-year license", amount: 1500 }])
+    expect(quote).toMatchObject({ currency: "USD", term: 1, total: 1500 })
+  })
+
+  it("adds the intact and size surcharges for the term", () => {
+    const quote = quoteFee({ term: 3, spayedNeutered: false, sizeClass: "giant", asOf })
+    expect(quote.items.map((item) => [item.code, item.amount])).toEqual([
+      ["license", 4000],
+      ["intact_surcharge", 5500],
+      ["size_surcharge", 2500],
+    ])
+    expect(quote.total).toBe(12000)
+  })
+
+  it("has no surcharge for small and medium dogs", () => {
+    expect(quoteFee({ term: 1, spayedNeutered: true, sizeClass: "medium", asOf }).total).toBe(1500)
+  })
+
+  it("discounts the license and surcharges, rounded to the cent", () => {
+    const quote = quoteFee({ term: 1, spayedNeutered: false, sizeClass: "large", discount: "senior", asOf })
+    expect(quote.items.at(-1)).toEqual({ code: "discount", label: "Senior owner (65+) discount (50%)", amount: -2000 })
+    expect(quote.total).toBe(2000)
+  })
+
+  it("adds the late fee only after the grace period, undiscounted", () => {
+    const onTime = quoteFee({ term: 1, spayedNeutered: true, dueDate: "2026-09-19", asOf })
+    const late = quoteFee({ term: 1, spayedNeutered: true, discount: "senior", dueDate: "2026-09-18", asOf })
+
+    expect(onTime.items.map((item) => item.code)).not.toContain("late_fee")
+    expect(late.items.at(-1)).toEqual({ code: "late_fee", label: "Late fee", amount: 1000 })
+    expect(late.total).toBe(750 + 1000)
+  })
+})
+
+describe("combineQuotes", () => {
+  it("returns a single dog's quote unchanged", () => {
+    const quote = quoteFee({ term: 1, spayedNeutered: true, asOf })
+    expect(combineQuotes([{ label: "Rex", quote }])).toBe(quote)
+  })
+
+  it("sums several dogs, labelling each line with its dog", () => {
+    const combined = combineQuotes([
+      { label: "Rex", quote: quoteFee({ term: 1, spayedNeutered: true, asOf }) },
+      { label: "Bella", quote: quoteFee({ term: 1, spayedNeutered: false, asOf }) },
+    ])
+
+    expect(combined.items.map((item) => item.label)).toEqual([
+      "Rex: 1-year license",
+      "Bella: 1-year license",
+      "Bella: Intact (not spayed/neutered) surcharge",
+    ])
+    expect(combined.total).toBe(1500 + 1500 + 2000)
+  })
+
+  it("needs at least one quote", () => {
+    expect(() => combineQuotes([])).toThrow()
+  })
+})
@@ -0,0 +1,151 @@
+import { SIZE_CLASS_NAMES, type SizeClass } from "@/lib/dog-profile"
+import { coerceDate } from "@/lib/utils"
+
+// ---------- License Fee Schedule ----------
+// Pure pricing rules, shared by the New Application review step (to show the
+// quote) and the API (which recomputes it so the stored price can be trusted).
+// All amounts are integer cents.
+
+export const LICENSE_TERMS = [1, 3] as const
+export type LicenseTerm = (typeof LICENSE_TERMS)[number]
+
+export const OWNER_DISCOUNTS = ["senior", "disability"] as const
+export type OwnerDiscount = (typeof OWNER_DISCOUNTS)[number]
+
+export interface TermRates {
+  base: number // license fee for a spayed/neutered dog
+  intactSurcharge: number // added when the dog is intact
+  // Added for bigger dogs, by size class; classes not listed pay nothing extra.
+  sizeSurcharges: Partial<Record<SizeClass, number>>
+}
+
+export interface FeeSchedule {
+  version: string
+  currency: string
+  terms: Record<LicenseTerm, TermRates>
+  // Percent off the license fee (base plus surcharges). Discounts do not stack,
+  // so an owner claims at most one.
+  discounts: Record<OwnerDiscount, { label: string; percent: number }>
+  // Charged, undiscounted, when a license is bought more than graceDays after
+  // it was due.
+  lateFee: { amount: number; graceDays: number }
+}
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  version: "2026-11",
+  currency: "USD",
+  terms: {
+    1: { base: 1500, intactSurcharge: 2000, sizeSurcharges: { large: 500, giant: 1000 } },
+    3: { base: 4000, intactSurcharge: 5500, sizeSurcharges: { large: 1250, giant: 2500 } },
+  },
+  discounts: {
+    senior: { label: "Senior owner (65+)", percent: 50 },
+    disability: { label: "Owner with a disability", percent: 50 },
+  },
+  lateFee: { amount: 1000, graceDays: 30 },
+}
+
+export const LICENSE_TERM_LABELS: Record<LicenseTerm, string> = {
+  1: "1-year license",
+  3: "3-year license",
+}
+
+export interface FeeQuoteInput {
+  term: LicenseTerm
+  spayedNeutered: boolean
+  // Omitted for dogs whose weight wasn't asked for.
+  sizeClass?: SizeClass
+  discount?: OwnerDiscount | null
+  // "YYYY-MM-DD" the license was due, e.g. the expiry of the license being
+  // renewed. Omitted for first-time licenses.
+  dueDate?: string
+  asOf?: Date
+}
+
+export const FEE_LINE_ITEM_CODES = ["license", "intact_surcharge", "size_surcharge", "discount", "late_fee"] as const
+
+export type FeeLineItemCode = (typeof FEE_LINE_ITEM_CODES)[number]
+
+export interface FeeLineItem {
+  code: FeeLineItemCode
+  label: string
+  amount: number // negative for discounts
+}
+
+export interface FeeQuote {
+  scheduleVersion: string
+  currency: string
+  term: LicenseTerm
+  items: FeeLineItem[]
+  total: number
+}
+
+export function isLicenseTerm(value: unknown): value is LicenseTerm {
+  return (LICENSE_TERMS as readonly unknown[]).includes(value)
+}
+
+export function isFeeLineItemCode(value: unknown): value is FeeLineItemCode {
+  return typeof value === "string" && (FEE_LINE_ITEM_CODES as readonly string[]).includes(value)
+}
+
+export function isOwnerDiscount(value: unknown): value is OwnerDiscount {
+  return typeof value === "string" && (OWNER_DISCOUNTS as readonly string[]).includes(value)
+}
+
+function isLate(dueDate: string | undefined, graceDays: number, asOf: Date): boolean {
+  const due = dueDate ? coerceDate(dueDate) : null
+  if (!due) return false
+  const cutoff = new Date(due.getFullYear(), due.getMonth(), due.getDate() + graceDays)
+  return asOf.getTime() > cutoff.getTime()
+}
+
+export function quoteFee(input: FeeQuoteInput, schedule: FeeSchedule = DEFAULT_FEE_SCHEDULE): FeeQuote {
+  const rates = schedule.terms[input.term]
+  const items: FeeLineItem[] = [{ code: "license", label: LICENSE_TERM_LABELS[input.term], amount: rates.base }]
+
+  if (!input.spayedNeutered) {
+    items.push({ code: "intact_surcharge", label: "Intact (not spayed/neutered) surcharge", amount: rates.intactSurcharge })
+  }
+
+  const sizeSurcharge = input.sizeClass ? rates.sizeSurcharges[input.sizeClass] : undefined
+  if (input.sizeClass && sizeSurcharge) {
+    items.push({ code: "size_surcharge", label: `${SIZE_CLASS_NAMES[input.sizeClass]} dog surcharge`, amount: sizeSurcharge })
+  }
+
+  if (input.discount) {
+    const { label, percent } = schedule.discounts[input.discount]
+    const licenseFee = items.reduce((sum, item) => sum + item.amount, 0)
+    items.push({ code: "discount", label: `${label} discount (${percent}%)`, amount: -Math.round((licenseFee * percent) / 100) })
+  }
+
+  if (isLate(input.dueDate, schedule.lateFee.graceDays, input.asOf ?? new Date())) {
+    items.push({ code: "late_fee", label: "Late fee", amount: schedule.lateFee.amount })
+  }
+
+  return {
+    scheduleVersion: schedule.version,
+    currency: schedule.currency,
+    term: input.term,
+    items,
+    total: items.reduce((sum, item) => sum + item.amount, 0),
+  }
+}
+
+// Sums per-dog quotes into the single amount charged for an application.
+// With more than one dog each line is prefixed with the dog it is for.
+export function combineQuotes(quotes: { label: string; quote: FeeQuote }[]): FeeQuote {
+  if (quotes.length === 0) throw new Error("combineQuotes needs at least one quote")
+  if (quotes.length === 1) return quotes[0].quote
+
+  const [{ quote: first }] = quotes
+  const items = quotes.flatMap(({ label, quote }) =>
+    quote.items.map((item) => ({ ...item, label: `${label}: ${item.label}` })),
+  )
+  return {
+    scheduleVersion: first.scheduleVersion,
+    currency: first.currency,
+    term: first.term,
+    items,
+    total: items.reduce((sum, item) => sum + item.amount, 0),
+  }
+}
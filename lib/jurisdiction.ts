@@ -0,0 +1,87 @@
+// ---------- Jurisdiction ----------
+// The licensing authority this deployment serves. NEXT_PUBLIC_ variables are
+// inlined at build time so the same values reach the browser and the server.
+
+// House numbers `from`-`to` on one street of a ZIP code the jurisdiction
+// shares with a neighbour. `side` limits the range to odd or even numbers for
+// boundaries that run down the middle of a street.
+export interface StreetRange {
+  zip: string
+  street: string
+  from: number
+  to: number
+  side?: "odd" | "even"
+}
+
+export interface ServiceArea {
+  // Two-letter state the jurisdiction is in
+  state: string
+  // ZIP codes entirely inside the jurisdiction
+  zips: string[]
+  // Parts of ZIP codes that are only partly inside it
+  streetRanges: StreetRange[]
+}
+
+// What happens to applicants who live outside the service area: "block" turns
+// them away, "refer" points them to the licensing authority that serves them.
+export type NonResidentPolicy = "block" | "refer"
+
+export interface NonResidentHandling {
+  policy: NonResidentPolicy
+  // Shown when the policy is "refer", with a link when `url` is set
+  message: string
+  url?: string
+}
+
+// When a rabies vaccination counts and for how long. A shot is good for the
+// duration on the vaccine's label, except that a dog's first shot only lasts
+// `firstShotValidityYears` whatever the label says.
+export interface RabiesRules {
+  firstShotValidityYears: number
+  // Assumed for records from before the duration was asked for
+  defaultValidityYears: number
+  // Shots given younger than this don't count, and puppies can't be licensed
+  // until they're old enough to have had one
+  minimumAgeMonths: number
+}
+
+export interface Jurisdiction {
+  // Short uppercase code that prefixes tag numbers ("SPR" -> "SPR-2025-00042")
+  code: string
+  name: string
+  rabies: RabiesRules
+  serviceArea: ServiceArea
+  nonResident: NonResidentHandling
+}
+
+const DEFAULT_SERVICE_ZIPS = "62701,62702,62703,62704,62705,62706,62707,62708,62711,62712"
+
+function listFromEnv(value: string | undefined, fallback: string): string[] {
+  return (value || fallback)
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+}
+
+export const JURISDICTION: Jurisdiction = {
+  code: (process.env.NEXT_PUBLIC_JURISDICTION_CODE || "CITY").toUpperCase(),
+  name: process.env.NEXT_PUBLIC_JURISDICTION_NAME || "City Clerk's Office",
+  rabies: {
+    firstShotValidityYears: 1,
+    defaultValidityYears: 3,
+    minimumAgeMonths: Number(process.env.NEXT_PUBLIC_RABIES_MINIMUM_AGE_MONTHS) || 4,
+  },
+  serviceArea: {
+    state: (process.env.NEXT_PUBLIC_JURISDICTION_STATE || "IL").toUpperCase(),
+    zips: listFromEnv(process.env.NEXT_PUBLIC_JURISDICTION_ZIPS, DEFAULT_SERVICE_ZIPS),
+    // e.g. { zip: "62629", street: "Walnut St", from: 100, to: 899 }
+    streetRanges: [],
+  },
+  nonResident: {
+    policy: process.env.NEXT_PUBLIC_NON_RESIDENT_POLICY === "block" ? "block" : "refer",
+    message:
+      process.env.NEXT_PUBLIC_NON_RESIDENT_MESSAGE ||
+      "Your address is outside our service area. Please apply for a dog license with your county animal control office.",
+    url: process.env.NEXT_PUBLIC_NON_RESIDENT_URL || undefined,
+  },
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+import { computeLicenseDates, formatTagNumber } from "@/lib/licenses"
+
+describe("formatTagNumber", () => {
+  it("pads the sequence to five digits", () => {
+    expect(formatTagNumber("SPR", 2026, 42)).toBe("SPR-2026-00042")
+    expect(formatTagNumber("SPR", 2026, 123456)).toBe("SPR-2026-123456")
+  })
+})
+
+describe("computeLicenseDates", () => {
+  const issuedOn = new Date(2026, 2, 1)
+
+  it("runs the full term when the vaccination outlasts it", () => {
+    expect(computeLicenseDates(issuedOn, 1, new Date(2029, 0, 12))).toEqual({
+      issuedOn: "2026-03-01",
+      expiresOn: "2027-03-01",
+      limitedByRabies: false,
+    })
+  })
+
+  it("ends with the vaccination when that comes first", () => {
+    expect(computeLicenseDates(issuedOn, 3, new Date(2027, 8, 1))).toEqual({
+      issuedOn: "2026-03-01",
+      expiresOn: "2027-09-01",
+      limitedByRabies: true,
+    })
+  })
+
+  it("refuses a license once rabies cover has lapsed", () => {
+    expect(computeLicenseDates(issuedOn, 1, new Date(2026, 2, 1))).toBeNull()
+    expect(computeLicenseDates(issuedOn, 1, new Date(2025, 11, 31))).toBeNull()
+  })
+
+  it("runs the full term when there is no rabies end date", () => {
+    expect(computeLicenseDates(issuedOn, 1, null)?.expiresOn).toBe("2027-03-01")
+  })
+
+  it("counts a renewal's term from the end of the license it replaces", () => {
+    const dates = computeLicenseDates(issuedOn, 1, null, { termStartsOn: new Date(2026, 4, 15) })
+    expect(dates).toMatchObject({ issuedOn: "2026-03-01", expiresOn: "2027-05-15" })
+  })
+
+  it("keeps a leap-day license in February", () => {
+    expect(computeLicenseDates(new Date(2028, 1, 29), 1, null)?.expiresOn).toBe("2029-02-28")
+  })
+})
@@ -0,0 +1,57 @@
+import type { LicenseTerm } from "@/lib/fee-schedule"
+import { addYears, toISODateStringLocal } from "@/lib/utils"
+
+// ---------- Dog Licenses ----------
+// A license is minted when an application is approved. Dates are local
+// "YYYY-MM-DD" strings, matching the rabies date the applicant entered.
+
+export interface DogLicense {
+  tagNumber: string
+  applicationId: string
+  jurisdiction: string
+  term: LicenseTerm
+  issuedOn: string
+  expiresOn: string
+  // True when the rabies vaccination runs out before the full term would.
+  limitedByRabies: boolean
+  // Issued on a vet's medical exemption rather than a vaccination. Absent on
+  // licenses from before exemptions were accepted.
+  rabiesExempt?: boolean
+}
+
+export function formatTagNumber(jurisdiction: string, year: number, sequence: number): string {
+  return `${jurisdiction}-${year}-${String(sequence).padStart(5, "0")}`
+}
+
+export interface LicenseDates {
+  issuedOn: string
+  expiresOn: string
+  limitedByRabies: boolean
+}
+
+export interface LicenseDateOptions {
+  // Where the paid term is counted from; renewals run on from the end of the
+  // license they replace. Defaults to the issue date.
+  termStartsOn?: Date
+}
+
+// The license runs for the paid term but never past the last day the dog is
+// covered for rabies, by its vaccination or a medical exemption. Returns null
+// when that cover has already lapsed on the issue date.
+export function computeLicenseDates(
+  issuedOn: Date,
+  term: LicenseTerm,
+  rabiesEnd: Date | null,
+  { termStartsOn = issuedOn }: LicenseDateOptions = {},
+): LicenseDates | null {
+  const termEnd = addYears(termStartsOn, term)
+
+  if (rabiesEnd && rabiesEnd.getTime() <= issuedOn.getTime()) return null
+
+  const limitedByRabies = rabiesEnd !== null && rabiesEnd.getTime() < termEnd.getTime()
+  return {
+    issuedOn: toISODateStringLocal(issuedOn),
+    expiresOn: toISODateStringLocal(limitedByRabies && rabiesEnd ? rabiesEnd : termEnd),
+    limitedByRabies,
+  }
+}
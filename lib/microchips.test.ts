@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+import { checkMicrochip, describeMicrochip, normalizeMicrochip } from "@/lib/microchips"
+
+describe("normalizeMicrochip", () => {
+  it("drops the separators chips are printed with", () => {
+    expect(normalizeMicrochip("985 112-003.456*789")).toBe("985112003456789")
+    expect(normalizeMicrochip("0a1b2c3d4e")).toBe("0A1B2C3D4E")
+  })
+
+  it("drops the AVID prefix from AVID numbers", () => {
+    expect(normalizeMicrochip("AVID*012*345*678")).toBe("012345678")
+    expect(normalizeMicrochip("avid 012 345 678")).toBe("012345678")
+  })
+})
+
+describe("checkMicrochip", () => {
+  it("reads the maker or country from an ISO number", () => {
+    expect(checkMicrochip("985 112 003 456 789")).toEqual({
+      ok: true,
+      chip: { number: "985112003456789", format: "iso", manufacturer: "HomeAgain (Destron Fearing)" },
+    })
+    expect(checkMicrochip("840123456789012")).toMatchObject({
+      chip: { manufacturer: "Country-coded chip (United States)" },
+    })
+    expect(checkMicrochip("123456789012345")).toMatchObject({ ok: true, chip: { manufacturer: undefined } })
+  })
+
+  it("accepts the older AVID and ten-character formats", () => {
+    expect(checkMicrochip("AVID*012*345*678")).toMatchObject({ ok: true, chip: { format: "avid" } })
+    expect(checkMicrochip("0A1B2C3D4E")).toMatchObject({ ok: true, chip: { format: "ten_character" } })
+  })
+
+  it("refuses test chips and numbers of no known format", () => {
+    expect(checkMicrochip("999000000000001")).toMatchObject({ ok: false, code: "test_chip" })
+    expect(checkMicrochip("12345")).toMatchObject({ ok: false, code: "format" })
+    expect(checkMicrochip("0A1B2C3D4G")).toMatchObject({ ok: false, code: "format" })
+  })
+})
+
+describe("describeMicrochip", () => {
+  it("adds the maker when it is known", () => {
+    expect(describeMicrochip("985112003456789")).toBe("985112003456789 — HomeAgain (Destron Fearing)")
+    expect(describeMicrochip("123456789012345")).toBe("123456789012345")
+  })
+})
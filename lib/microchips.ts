@@ -0,0 +1,102 @@
+import type { ApplicationStatus } from "@/lib/applications"
+
+// ---------- Microchips ----------
+// Pet microchips in the US come in three numbering schemes: the international
+// ISO 11784/11785 15-digit number, and two older 125 kHz formats still found
+// in many dogs, AVID's 9-digit numbers and the 10-character numbers used by
+// HomeAgain and other Destron Fearing chips. Numbers are kept without the
+// spaces, dashes and asterisks they are often printed with.
+
+export type MicrochipFormat = "iso" | "avid" | "ten_character"
+
+export const MICROCHIP_FORMAT_LABELS: Record<MicrochipFormat, string> = {
+  iso: "ISO 11784/11785, 15 digits",
+  avid: "AVID, 9 digits",
+  ten_character: "125 kHz, 10 characters",
+}
+
+export interface MicrochipInfo {
+  number: string
+  format: MicrochipFormat
+  // Undefined when the prefix doesn't identify one.
+  manufacturer?: string
+}
+
+export type MicrochipCheck =
+  | { ok: true; chip: MicrochipInfo }
+  | { ok: false; code: "format" | "test_chip"; message: string }
+
+// ICAR manufacturer codes, the first three digits of an ISO number.
+const ISO_MANUFACTURERS: Record<string, string> = {
+  "900": "Shared manufacturer code (check with the registry)",
+  "941": "Felixcan",
+  "956": "Trovan",
+  "977": "AVID",
+  "981": "Datamars (PetLink)",
+  "982": "Allflex",
+  "985": "HomeAgain (Destron Fearing)",
+}
+
+// ISO numbers below 900 start with the country they were issued in instead.
+const ISO_COUNTRIES: Record<string, string> = {
+  "124": "Canada",
+  "484": "Mexico",
+  "826": "United Kingdom",
+  "840": "United States",
+}
+
+// ICAR reserves 999 for test transponders, which are never implanted.
+const ISO_TEST_PREFIX = "999"
+
+export function normalizeMicrochip(value: string): string {
+  const compact = value.replace(/[\s.*-]/g, "").toUpperCase()
+  // AVID numbers are often written "AVID*012*345*678".
+  return /^AVID\d{9}$/.test(compact) ? compact.slice(4) : compact
+}
+
+function isoManufacturer(number: string): string | undefined {
+  const prefix = number.slice(0, 3)
+  if (ISO_MANUFACTURERS[prefix]) return ISO_MANUFACTURERS[prefix]
+  const country = ISO_COUNTRIES[prefix]
+  return country ? `Country-coded chip (${country})` : undefined
+}
+
+export function checkMicrochip(value: string): MicrochipCheck {
+  const number = normalizeMicrochip(value)
+  if (/^\d{15}$/.test(number)) {
+    if (number.startsWith(ISO_TEST_PREFIX)) {
+      return { ok: false, code: "test_chip", message: "Numbers starting 999 belong to test chips; check the number on your paperwork" }
+    }
+    return { ok: true, chip: { number, format: "iso", manufacturer: isoManufacturer(number) } }
+  }
+  if (/^\d{9}$/.test(number)) {
+    return { ok: true, chip: { number, format: "avid", manufacturer: "AVID" } }
+  }
+  if (/^[0-9A-F]{10}$/.test(number)) {
+    return { ok: true, chip: { number, format: "ten_character", manufacturer: "HomeAgain (Destron Fearing)" } }
+  }
+  return {
+    ok: false,
+    code: "format",
+    message: "Microchip numbers are 15 digits, or 9 digits (AVID) or 10 characters (HomeAgain) on older chips",
+  }
+}
+
+// "985112003456789 — HomeAgain (Destron Fearing)", or just the number when
+// the maker isn't known.
+export function describeMicrochip(number: string): string {
+  const check = checkMicrochip(number)
+  if (!check.ok || !check.chip.manufacturer) return number
+  return `${check.chip.number} — ${check.chip.manufacturer}`
+}
+
+// ---------- Duplicate Microchips ----------
+// Another licensed dog found with the same microchip number when an
+// application was submitted. Kept on the application for the clerk.
+export interface MicrochipMatch {
+  applicationId: string
+  tagNumber: string
+  dogName: string
+  ownerName: string
+  status: ApplicationStatus
+}
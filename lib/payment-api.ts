@@ -0,0 +1,68 @@
+import type { DogLicenseApplication } from "@/lib/applications"
+import type { PaymentCard, PaymentStatus, PaymentTransaction } from "@/lib/payments"
+
+// ---------- Payments API Client ----------
+
+export interface PaymentOutcome {
+  transaction: PaymentTransaction
+  // Present once the payment is captured and the application submitted.
+  application: DogLicenseApplication | null
+}
+
+async function readError(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null)
+  return typeof body?.error === "string" ? body.error : `Request failed with status ${response.status}`
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  return response.json()
+}
+
+export function payApplication(applicationId: string, card: PaymentCard): Promise<PaymentOutcome> {
+  return postJson(`/api/applications/${encodeURIComponent(applicationId)}/payment`, card)
+}
+
+export function completePaymentChallenge(transactionId: string, response: string): Promise<PaymentOutcome> {
+  return postJson(`/api/payments/${encodeURIComponent(transactionId)}/challenge`, { response })
+}
+
+export async function refundPayment(transactionId: string, reason?: string): Promise<PaymentTransaction> {
+  const { transaction } = await postJson<{ transaction: PaymentTransaction }>(
+    `/api/payments/${encodeURIComponent(transactionId)}/refund`,
+    { reason },
+  )
+  return transaction
+}
+
+export interface PaymentQuery {
+  status?: PaymentStatus
+  from?: string
+  to?: string
+}
+
+function paymentSearch(query: PaymentQuery, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams(extra)
+  for (const [key, value] of Object.entries(query)) {
+    if (value) params.set(key, value)
+  }
+  const search = params.toString()
+  return search ? `?${search}` : ""
+}
+
+export async function fetchPayments(query: PaymentQuery = {}): Promise<PaymentTransaction[]> {
+  const response = await fetch(`/api/payments${paymentSearch(query)}`, { cache: "no-store" })
+  if (!response.ok) throw new Error(await readError(response))
+  const { payments } = await response.json()
+  return payments
+}
+
+// For a plain <a href> download of the reconciliation export.
+export function paymentsCsvUrl(query: PaymentQuery = {}): string {
+  return `/api/payments${paymentSearch(query, { format: "csv" })}`
+}
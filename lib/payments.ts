@@ -0,0 +1,118 @@
+import { z } from "zod"
+import { keepDigits } from "@/lib/utils"
+
+// ---------- Payments ----------
+// Shared between the checkout step, the payments ledger and the server. Card
+// numbers never leave the request that charges them; only the brand and last
+// four digits are stored.
+
+export const PAYMENT_STATUSES = ["pending", "requires_action", "captured", "declined", "refunded"] as const
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number]
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: "Pending",
+  requires_action: "Awaiting Verification",
+  captured: "Captured",
+  declined: "Declined",
+  refunded: "Refunded",
+}
+
+export interface PaymentEvent {
+  // "unapplied": captured, but the application couldn't take the payment and
+  // the automatic refund failed, so staff have to settle it.
+  type: "created" | "challenge" | "captured" | "declined" | "refunded" | "unapplied"
+  at: string
+  detail?: string
+  actor?: string
+}
+
+// One attempt to pay for an application. Declined attempts are kept so the
+// ledger reconciles against the provider's own records.
+export interface PaymentTransaction {
+  id: string
+  applicationId: string
+  provider: string
+  providerRef?: string
+  status: PaymentStatus
+  amount: number // cents
+  currency: string
+  cardBrand?: string
+  cardLast4?: string
+  receiptNumber?: string
+  challengePrompt?: string
+  failureMessage?: string
+  // Set while a refund is with the provider, so a second can't refund again.
+  refundStartedAt?: string
+  createdAt: string
+  updatedAt: string
+  events: PaymentEvent[]
+}
+
+// Copied onto the application once its fee has been captured.
+export interface PaymentSummary {
+  transactionId: string
+  receiptNumber: string
+  amount: number
+  currency: string
+  paidAt: string
+  cardBrand?: string
+  cardLast4?: string
+}
+
+// Set on a draft while a charge for it is with the provider, so a second
+// attempt can't charge the card again.
+export interface PendingPayment {
+  transactionId: string
+  startedAt: string
+}
+
+export function isPaymentStatus(value: unknown): value is PaymentStatus {
+  return typeof value === "string" && (PAYMENT_STATUSES as readonly string[]).includes(value)
+}
+
+// ---------- Card Details ----------
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let d = digits.charCodeAt(digits.length - 1 - i) - 48
+    if (i % 2 === 1) {
+      d *= 2
+      if (d > 9) d -= 9
+    }
+    sum += d
+  }
+  return sum % 10 === 0
+}
+
+// "MM/YY" that has not yet passed; cards are valid through the end of the month.
+function isUnexpired(expiry: string, now = new Date()): boolean {
+  const match = expiry.match(/^(\d{2})\s*\/\s*(\d{2})$/)
+  if (!match) return false
+  const month = Number(match[1])
+  const year = 2000 + Number(match[2])
+  if (month < 1 || month > 12) return false
+  return new Date(year, month, 1).getTime() > now.getTime()
+}
+
+export const paymentCardSchema = z.object({
+  cardholderName: z.string().trim().min(2, "Enter the name on the card"),
+  cardNumber: z
+    .string()
+    .transform(keepDigits)
+    .refine((digits) => digits.length >= 12 && digits.length <= 19 && passesLuhn(digits), "Enter a valid card number"),
+  expiry: z.string().trim().refine((value) => isUnexpired(value), "Enter an expiry date (MM/YY) that hasn't passed"),
+  cvc: z.string().trim().regex(/^\d{3,4}$/, "Enter the 3 or 4 digit security code"),
+})
+
+export type PaymentCard = z.infer<typeof paymentCardSchema>
+
+export type PaymentCardField = keyof PaymentCard
+
+export function cardBrand(digits: string): string {
+  if (digits.startsWith("4")) return "Visa"
+  if (/^5[1-5]/.test(digits) || /^2[2-7]/.test(digits)) return "Mastercard"
+  if (/^3[47]/.test(digits)) return "American Express"
+  if (digits.startsWith("6")) return "Discover"
+  return "Card"
+}
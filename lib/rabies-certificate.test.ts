@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+import {
+  certificateDiscrepancies,
+  hasCertificateFields,
+  parseCertificateDate,
+  parseCertificateText,
+} from "@/lib/rabies-certificate"
+
+describe("parseCertificateDate", () => {
+  it("reads the ways clinics print dates, numeric ones month first", () => {
+    expect(parseCertificateDate("2026-01-10")).toBe("2026-01-10")
+    expect(parseCertificateDate("01/10/2026")).toBe("2026-01-10")
+    expect(parseCertificateDate("1-10-26")).toBe("2026-01-10")
+    expect(parseCertificateDate("January 10, 2026")).toBe("2026-01-10")
+    expect(parseCertificateDate("Sept. 3 2026")).toBe("2026-09-03")
+    expect(parseCertificateDate("10 Jan 2026")).toBe("2026-01-10")
+  })
+
+  it("refuses dates that don't exist", () => {
+    expect(parseCertificateDate("02/30/2026")).toBeUndefined()
+    expect(parseCertificateDate("13/01/2026")).toBeUndefined()
+    expect(parseCertificateDate("Smarch 1, 2026")).toBeUndefined()
+  })
+})
+
+describe("parseCertificateText", () => {
+  it("finds each field by the labels printed beside it", () => {
+    const text = [
+      "RABIES VACCINATION CERTIFICATE",
+      "Owner: Pat Doe    Phone: 217-555-1234",
+      "Date of Vaccination: 01/10/2026    Expiration Date: Jan 10, 2029",
+      "Manufacturer: Zoetis    Lot No. 4Z9-221",
+      "Rabies Tag #: R-55213",
+      "Veterinarian Signature: Dr. Alex Morgan    License # 12345",
+    ].join("\n")
+
+    expect(parseCertificateText(text)).toEqual({
+      vaccinationDate: "2026-01-10",
+      expiresOn: "2029-01-10",
+      manufacturer: "Zoetis",
+      lotNumber: "4Z9-221",
+      veterinarian: "Dr. Alex Morgan",
+      rabiesTag: "R-55213",
+    })
+  })
+
+  it("leaves out what it can't find rather than guessing", () => {
+    const fields = parseCertificateText("Vaccinated on: sometime last spring\nPatient: Rex")
+    expect(fields).toEqual({})
+    expect(hasCertificateFields(fields)).toBe(false)
+  })
+})
+
+describe("certificateDiscrepancies", () => {
+  it("flags a vaccination date that differs from the one entered", () => {
+    expect(certificateDiscrepancies({ lastRabiesShotDate: "2026-01-12" }, { vaccinationDate: "2026-01-10" })).toEqual([
+      "Certificate shows vaccination on January 10, 2026, applicant entered January 12, 2026",
+    ])
+  })
+
+  it("flags an expiry earlier than the vaccine entered allows", () => {
+    const entered = { lastRabiesShotDate: "2026-01-10", durationYears: 3 }
+    expect(certificateDiscrepancies(entered, { vaccinationDate: "2026-01-10", expiresOn: "2027-01-10" })).toEqual([
+      "Certificate shows the vaccination expiring on January 10, 2027, before January 10, 2029 for the vaccine entered",
+    ])
+    expect(certificateDiscrepancies(entered, { vaccinationDate: "2026-01-10", expiresOn: "2029-01-10" })).toEqual([])
+  })
+
+  it("only compares the expiry once the vaccine's duration is known", () => {
+    expect(certificateDiscrepancies({ lastRabiesShotDate: "2026-01-10" }, { expiresOn: "2027-01-10" })).toEqual([])
+  })
+
+  it("flags a certificate that expires before it was given", () => {
+    expect(
+      certificateDiscrepancies({ lastRabiesShotDate: "" }, { vaccinationDate: "2026-01-10", expiresOn: "2025-01-10" }),
+    ).toEqual(["Certificate expiry is not after its vaccination date"])
+  })
+})
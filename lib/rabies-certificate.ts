@@ -0,0 +1,180 @@
+import { rabiesExpiresOn, type RabiesShot } from "@/lib/rabies-vaccination"
+import { formatDate, toISODateStringLocal } from "@/lib/utils"
+
+// ---------- Rabies Certificate Fields ----------
+// Reads the details clerks used to retype from the text of a rabies
+// vaccination certificate. Certificates differ from clinic to clinic, so each
+// field is found by the labels commonly printed next to it; anything not found
+// is left out rather than guessed.
+
+export interface CertificateFields {
+  vaccinationDate?: string // YYYY-MM-DD
+  expiresOn?: string // YYYY-MM-DD
+  manufacturer?: string
+  lotNumber?: string
+  veterinarian?: string
+  rabiesTag?: string
+}
+
+export const CERTIFICATE_FIELD_LABELS: Record<keyof CertificateFields, string> = {
+  vaccinationDate: "Vaccination date",
+  expiresOn: "Vaccination expires",
+  manufacturer: "Vaccine manufacturer",
+  lotNumber: "Lot / serial number",
+  veterinarian: "Veterinarian",
+  rabiesTag: "Rabies tag number",
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+
+const MONTH_NAME = "(jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\\.?"
+
+// Dates as clinics print them: 01/10/2026, 1-10-26, 2026-01-10,
+// January 10, 2026 or 10 Jan 2026. Numeric dates are read month first.
+const DATE_PATTERN = new RegExp(
+  `\\b(\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|${MONTH_NAME}\\s+\\d{1,2},?\\s+\\d{4}|\\d{1,2}\\s+${MONTH_NAME},?\\s+\\d{4})\\b`,
+  "i",
+)
+
+function fullYear(year: number): number {
+  return year < 100 ? 2000 + year : year
+}
+
+function toISODate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(year, month - 1, day)
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return undefined
+  return toISODateStringLocal(date)
+}
+
+export function parseCertificateDate(value: string): string | undefined {
+  const text = value.trim().toLowerCase()
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  if (match) return toISODate(Number(match[1]), Number(match[2]), Number(match[3]))
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/)
+  if (match) return toISODate(fullYear(Number(match[3])), Number(match[1]), Number(match[2]))
+
+  match = text.match(/^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/)
+  if (match) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3)) + 1
+    return month ? toISODate(Number(match[3]), month, Number(match[2])) : undefined
+  }
+
+  match = text.match(/^(\d{1,2})\s+([a-z]+)\.?,?\s+(\d{4})$/)
+  if (match) {
+    const month = MONTHS.indexOf(match[2].slice(0, 3)) + 1
+    return month ? toISODate(Number(match[3]), month, Number(match[1])) : undefined
+  }
+  return undefined
+}
+
+// Label patterns per field, most specific first. Each is matched at the start
+// of a label and followed by an optional ":", "#" or "No.".
+const LABELS: Record<keyof CertificateFields, RegExp[]> = {
+  vaccinationDate: [
+    /date\s+(?:of\s+)?vaccination/,
+    /vaccination\s+date/,
+    /date\s+vaccinated/,
+    /vaccinated\s+on/,
+    /date\s+administered/,
+    /date\s+given/,
+  ],
+  expiresOn: [
+    /(?:vaccination\s+)?expiration\s+date/,
+    /date\s+of\s+expiration/,
+    /expires(?:\s+on)?/,
+    /(?:next\s+)?(?:vaccination|booster|revaccination)\s+due(?:\s+date)?/,
+    /valid\s+(?:until|through)/,
+  ],
+  manufacturer: [/(?:vaccine\s+)?manufacturer/, /(?:vaccine\s+)?mfr\.?/, /(?:vaccine\s+)?producer/],
+  lotNumber: [/(?:vaccine\s+)?(?:lot|serial)\s*(?:number|no\.?|#)?/],
+  veterinarian: [
+    /(?:name\s+of\s+)?(?:veterinarian|vet)(?:'s)?\s*(?:name|signature)?/,
+    /administered\s+by/,
+    /licensed\s+veterinarian/,
+  ],
+  rabiesTag: [/rabies\s+tag\s*(?:number|no\.?|#)?/, /tag\s*(?:number|no\.?|#)/, /certificate\s*(?:number|no\.?|#)/],
+}
+
+// Other labels certificates print beside the fields above. They only mark
+// where a value ends.
+const OTHER_LABELS = [/(?:vet\s+)?licen[sc]e\s*(?:number|no\.?|#)?/, /phone/, /address/, /owner/, /clinic/]
+
+// Text on the same line after the label, up to where the next label would
+// start if a clinic prints two fields side by side.
+function valueAfter(line: string, label: RegExp): string | undefined {
+  const pattern = new RegExp(`(?:^|\\b)${label.source}(?![a-z])\\s*(?:no\\.|number|#)?\\s*[:#\\-]?\\s*`, "i")
+  const match = pattern.exec(line)
+  if (!match) return undefined
+  let value = line.slice(match.index + match[0].length)
+
+  for (const other of [...Object.values(LABELS).flat(), ...OTHER_LABELS]) {
+    const next = new RegExp(`\\s{2,}${other.source}|\\s${other.source}\\s*[:#.]`, "i").exec(value)
+    if (next && next.index > 0) value = value.slice(0, next.index)
+  }
+  value = value.trim().replace(/\s{2,}/g, " ")
+  return value || undefined
+}
+
+function findValue(lines: string[], labels: RegExp[]): string | undefined {
+  for (const label of labels) {
+    for (const line of lines) {
+      const value = valueAfter(line, label)
+      if (value) return value
+    }
+  }
+  return undefined
+}
+
+function findDate(lines: string[], labels: RegExp[]): string | undefined {
+  const value = findValue(lines, labels)
+  const match = value?.match(DATE_PATTERN)
+  return match ? parseCertificateDate(match[0]) : undefined
+}
+
+function findCode(lines: string[], labels: RegExp[]): string | undefined {
+  return findValue(lines, labels)?.match(/^[A-Za-z0-9][A-Za-z0-9-]*/)?.[0]
+}
+
+export function parseCertificateText(text: string): CertificateFields {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+  const fields: CertificateFields = {
+    vaccinationDate: findDate(lines, LABELS.vaccinationDate),
+    expiresOn: findDate(lines, LABELS.expiresOn),
+    manufacturer: findValue(lines, LABELS.manufacturer)?.slice(0, 60),
+    lotNumber: findCode(lines, LABELS.lotNumber),
+    veterinarian: findValue(lines, LABELS.veterinarian)?.replace(/^(?:name|signature)\s*[:\-]?\s*/i, "").slice(0, 80),
+    rabiesTag: findCode(lines, LABELS.rabiesTag),
+  }
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value)) as CertificateFields
+}
+
+export function hasCertificateFields(fields: CertificateFields | undefined): fields is CertificateFields {
+  return !!fields && Object.keys(fields).length > 0
+}
+
+// Where what the applicant entered disagrees with their certificate, worded
+// for the reviewer. The expiry is only compared once the vaccine's duration is
+// known, and only flagged when the certificate's is earlier.
+export function certificateDiscrepancies(entered: RabiesShot, fields: CertificateFields | undefined): string[] {
+  const discrepancies: string[] = []
+  if (fields?.vaccinationDate && entered.lastRabiesShotDate && fields.vaccinationDate !== entered.lastRabiesShotDate) {
+    discrepancies.push(
+      `Certificate shows vaccination on ${formatDate(fields.vaccinationDate)}, applicant entered ${formatDate(entered.lastRabiesShotDate)}`,
+    )
+  }
+  const expected = entered.durationYears !== undefined ? rabiesExpiresOn(entered) : null
+  if (fields?.expiresOn && expected && fields.expiresOn < expected) {
+    discrepancies.push(
+      `Certificate shows the vaccination expiring on ${formatDate(fields.expiresOn)}, before ${formatDate(expected)} for the vaccine entered`,
+    )
+  }
+  if (fields?.expiresOn && fields.vaccinationDate && fields.expiresOn <= fields.vaccinationDate) {
+    discrepancies.push("Certificate expiry is not after its vaccination date")
+  }
+  return discrepancies
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { RabiesRules } from "@/lib/jurisdiction"
+import {
+  describeRabiesShot,
+  exemptionLapseMessage,
+  isBelowMinimumAge,
+  rabiesExpiresOn,
+  rabiesLapseMessage,
+  rabiesValidityYears,
+  VET_LICENSE_PATTERN,
+} from "@/lib/rabies-vaccination"
+
+const rules: RabiesRules = { firstShotValidityYears: 1, defaultValidityYears: 3, minimumAgeMonths: 4 }
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(new Date(2026, 9, 19, 9))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("rabies vaccination validity", () => {
+  it("lasts as long as the vaccine's label says", () => {
+    expect(rabiesExpiresOn({ lastRabiesShotDate: "2026-01-12", durationYears: 1 }, rules)).toBe("2027-01-12")
+    expect(rabiesExpiresOn({ lastRabiesShotDate: "2026-01-12", durationYears: 3 }, rules)).toBe("2029-01-12")
+  })
+
+  it("lasts a year for a dog's first shot whatever the label says", () => {
+    expect(rabiesValidityYears({ lastRabiesShotDate: "2026-01-12", durationYears: 3, firstShot: true }, rules)).toBe(1)
+  })
+
+  it("assumes the default for records from before the duration was asked", () => {
+    expect(rabiesValidityYears({ lastRabiesShotDate: "2026-01-12" }, rules)).toBe(3)
+  })
+
+  it("has no expiry without a usable shot date", () => {
+    expect(rabiesExpiresOn({ lastRabiesShotDate: "" }, rules)).toBeNull()
+  })
+})
+
+describe("rabiesLapseMessage", () => {
+  const shot = { lastRabiesShotDate: "2025-11-01", durationYears: 1 }
+
+  it("is null while the vaccination covers the start of the term", () => {
+    expect(rabiesLapseMessage(shot, new Date(2026, 9, 31), rules)).toBeNull()
+  })
+
+  it("says the vaccination has expired for a term starting today", () => {
+    const lapsed = { lastRabiesShotDate: "2025-10-01", durationYears: 1 }
+    expect(rabiesLapseMessage(lapsed, new Date(2026, 9, 19), rules)).toBe(
+      "This rabies vaccination expired on October 1, 2026; a current vaccination is required",
+    )
+  })
+
+  it("names the start date of a renewal the vaccination won't reach", () => {
+    expect(rabiesLapseMessage(shot, new Date(2026, 10, 15), rules)).toBe(
+      "This rabies vaccination expires on November 1, 2026, before the new license would start on November 15, 2026",
+    )
+  })
+})
+
+describe("isBelowMinimumAge", () => {
+  it("doesn't count shots given before the minimum age", () => {
+    expect(isBelowMinimumAge(3, rules)).toBe(true)
+    expect(isBelowMinimumAge(4, rules)).toBe(false)
+  })
+})
+
+describe("describeRabiesShot", () => {
+  it("names the vaccine and whether it was the first shot", () => {
+    expect(describeRabiesShot({ lastRabiesShotDate: "2026-01-12", durationYears: 3 })).toBe("3-year vaccine")
+    expect(describeRabiesShot({ lastRabiesShotDate: "2026-01-12", durationYears: 1, firstShot: true })).toBe(
+      "1-year vaccine, first shot",
+    )
+    expect(describeRabiesShot({ lastRabiesShotDate: "2026-01-12" })).toBe("")
+  })
+})
+
+describe("medical exemptions", () => {
+  it("must still be in force when the license starts", () => {
+    expect(exemptionLapseMessage("2026-12-31", new Date(2026, 9, 19))).toBeNull()
+    expect(exemptionLapseMessage("2026-10-19", new Date(2026, 9, 19, 15))).toBe(
+      "The exemption ends on October 19, 2026; it must still be in force when the license starts",
+    )
+    expect(exemptionLapseMessage("", new Date(2026, 9, 19))).toBeNull()
+  })
+
+  it("takes state vet license numbers but not free text", () => {
+    expect(VET_LICENSE_PATTERN.test("DVM-12345")).toBe(true)
+    expect(VET_LICENSE_PATTERN.test("IL 091.004512")).toBe(true)
+    expect(VET_LICENSE_PATTERN.test("12")).toBe(false)
+    expect(VET_LICENSE_PATTERN.test("<script>")).toBe(false)
+  })
+})
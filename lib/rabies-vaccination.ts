@@ -0,0 +1,131 @@
+import type { StoredDocument } from "@/lib/documents"
+import { JURISDICTION, type RabiesRules } from "@/lib/jurisdiction"
+import { addYears, coerceDate, formatDate, toISODateStringLocal } from "@/lib/utils"
+
+// ---------- Rabies Vaccination ----------
+// How long a rabies shot is accepted for depends on the vaccine and on whether
+// it was the dog's first. Dates are local "YYYY-MM-DD" strings.
+
+// Rabies vaccines are licensed for one or three years; the label says which.
+export const RABIES_VACCINE_DURATIONS = ["1", "3"] as const
+export type RabiesVaccineDuration = (typeof RABIES_VACCINE_DURATIONS)[number]
+
+export const RABIES_VACCINE_DURATION_LABELS: Record<RabiesVaccineDuration, string> = {
+  "1": "1-year vaccine",
+  "3": "3-year vaccine",
+}
+
+export function isRabiesVaccineDuration(value: unknown): value is RabiesVaccineDuration {
+  return RABIES_VACCINE_DURATIONS.includes(value as RabiesVaccineDuration)
+}
+
+// The parts of a vaccination record the rules look at. Records from before the
+// duration and first-shot questions were asked leave them out.
+export interface RabiesShot {
+  lastRabiesShotDate: string
+  durationYears?: number
+  firstShot?: boolean
+}
+
+export function rabiesValidityYears(shot: RabiesShot, rules: RabiesRules = JURISDICTION.rabies): number {
+  if (shot.firstShot) return rules.firstShotValidityYears
+  return shot.durationYears ?? rules.defaultValidityYears
+}
+
+// Last day the vaccination is accepted, or null when the shot date is unusable.
+export function rabiesValidUntil(shot: RabiesShot, rules: RabiesRules = JURISDICTION.rabies): Date | null {
+  const date = coerceDate(shot.lastRabiesShotDate)
+  return date ? addYears(date, rabiesValidityYears(shot, rules)) : null
+}
+
+export function rabiesExpiresOn(shot: RabiesShot, rules: RabiesRules = JURISDICTION.rabies): string | null {
+  const until = rabiesValidUntil(shot, rules)
+  return until ? toISODateStringLocal(until) : null
+}
+
+// Formatted for display; empty when the shot date is unusable.
+export function rabiesAcceptedThrough(shot: RabiesShot, rules: RabiesRules = JURISDICTION.rabies): string {
+  const expiresOn = rabiesExpiresOn(shot, rules)
+  return expiresOn ? formatDate(expiresOn) : ""
+}
+
+// "3-year vaccine" or "3-year vaccine, first shot". Empty for records from
+// before the duration was asked for.
+export function describeRabiesShot(shot: RabiesShot): string {
+  if (shot.durationYears === undefined) return ""
+  const duration = isRabiesVaccineDuration(String(shot.durationYears))
+    ? RABIES_VACCINE_DURATION_LABELS[String(shot.durationYears) as RabiesVaccineDuration]
+    : `${shot.durationYears}-year vaccine`
+  return shot.firstShot ? `${duration}, first shot` : duration
+}
+
+// Shots given before the state's minimum age don't protect the dog and have to
+// be repeated.
+export function isBelowMinimumAge(ageMonths: number, rules: RabiesRules = JURISDICTION.rabies): boolean {
+  return ageMonths < rules.minimumAgeMonths
+}
+
+export function tooYoungMessage(rules: RabiesRules = JURISDICTION.rabies): string {
+  return `Rabies shots given before ${rules.minimumAgeMonths} months of age don't count; please have your dog revaccinated`
+}
+
+export function puppyMessage(rules: RabiesRules = JURISDICTION.rabies): string {
+  return `Puppies can be licensed once they have been vaccinated against rabies at ${rules.minimumAgeMonths} months or older`
+}
+
+// Null when the vaccination is still accepted on the day the license term
+// starts; otherwise the message to show against the vaccination date.
+export function rabiesLapseMessage(
+  shot: RabiesShot,
+  termStartsOn: Date,
+  rules: RabiesRules = JURISDICTION.rabies,
+): string | null {
+  const until = rabiesValidUntil(shot, rules)
+  if (!until) return null
+  const start = new Date(termStartsOn.getFullYear(), termStartsOn.getMonth(), termStartsOn.getDate())
+  if (until.getTime() > start.getTime()) return null
+
+  const expiresOn = formatDate(toISODateStringLocal(until))
+  const today = new Date()
+  const startsToday = start.getTime() <= new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()
+  return startsToday
+    ? `This rabies vaccination expired on ${expiresOn}; a current vaccination is required`
+    : `This rabies vaccination expires on ${expiresOn}, before the new license would start on ${formatDate(toISODateStringLocal(start))}`
+}
+
+// ---------- Medical Exemptions ----------
+// A dog that can't be vaccinated for medical reasons may be licensed on a
+// veterinarian's exemption letter instead. Exemptions are always reviewed by a
+// clerk, and the license they lead to is flagged.
+
+export const RABIES_STATUSES = ["vaccinated", "exempt"] as const
+export type RabiesStatus = (typeof RABIES_STATUSES)[number]
+
+export const RABIES_STATUS_LABELS: Record<RabiesStatus, string> = {
+  vaccinated: "Vaccinated",
+  exempt: "Medical exemption",
+}
+
+export interface RabiesExemption {
+  // Last day the vet's exemption is in force
+  expiresOn: string
+  vetLicenseNumber: string
+  letterFileName?: string
+  letter?: StoredDocument
+}
+
+// State veterinary license numbers: letters, digits and separators.
+export const VET_LICENSE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ./-]{2,19}$/
+
+export function exemptionValidUntil(exemption: Pick<RabiesExemption, "expiresOn">): Date | null {
+  return coerceDate(exemption.expiresOn)
+}
+
+// Null when the exemption is still in force on the day the license term starts.
+export function exemptionLapseMessage(expiresOn: string, termStartsOn: Date): string | null {
+  const until = coerceDate(expiresOn)
+  if (!until) return null
+  const start = new Date(termStartsOn.getFullYear(), termStartsOn.getMonth(), termStartsOn.getDate())
+  if (until.getTime() > start.getTime()) return null
+  return `The exemption ends on ${formatDate(expiresOn)}; it must still be in force when the license starts`
+}
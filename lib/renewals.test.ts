@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest"
+import { quoteFee } from "@/lib/fee-schedule"
+import type { DogLicense } from "@/lib/licenses"
+import {
+  discountFromQuote,
+  isRenewalOpen,
+  renewalFormValues,
+  renewalOpensOn,
+  type RenewalCandidate,
+} from "@/lib/renewals"
+import { toISODateStringLocal } from "@/lib/utils"
+
+const license: DogLicense = {
+  tagNumber: "SPR-2026-00001",
+  applicationId: "DOG-1",
+  jurisdiction: "SPR",
+  term: 1,
+  issuedOn: "2026-03-01",
+  expiresOn: "2027-03-01",
+  limitedByRabies: false,
+}
+
+function candidate(dog: Partial<RenewalCandidate["dog"]> = {}): RenewalCandidate {
+  return {
+    license,
+    applicationId: "DOG-1",
+    owner: {
+      name: "Pat Doe",
+      email: "pat@example.com",
+      address: "12 Main St, Springfield, IL 62704",
+      phone: "2175551234",
+    },
+    dog: {
+      name: "Rex",
+      breed: "Beagle",
+      breedCodes: { primary: "beagle" },
+      age: 4,
+      color: "Black",
+      coat: { primary: "black" },
+      spayedNeutered: true,
+      ...dog,
+    },
+    discount: null,
+  }
+}
+
+describe("renewal window", () => {
+  it("opens 90 days before the license expires", () => {
+    const opens = renewalOpensOn(license.expiresOn)
+    expect(opens && toISODateStringLocal(opens)).toBe("2026-12-01")
+    expect(isRenewalOpen(license, new Date(2026, 10, 30))).toBe(false)
+    expect(isRenewalOpen(license, new Date(2026, 11, 1))).toBe(true)
+  })
+
+  it("stays open after the license has expired", () => {
+    expect(isRenewalOpen(license, new Date(2027, 5, 1))).toBe(true)
+  })
+
+  it("never opens for an unreadable expiry date", () => {
+    expect(renewalOpensOn("not a date")).toBeNull()
+    expect(isRenewalOpen({ ...license, expiresOn: "not a date" })).toBe(false)
+  })
+})
+
+describe("discountFromQuote", () => {
+  it("matches the quoted discount back to the schedule", () => {
+    expect(discountFromQuote(quoteFee({ term: 1, spayedNeutered: true, discount: "senior" }))).toBe("senior")
+    expect(discountFromQuote(quoteFee({ term: 1, spayedNeutered: true }))).toBeNull()
+    expect(discountFromQuote(undefined)).toBeNull()
+  })
+})
+
+describe("renewalFormValues", () => {
+  it("splits the owner's one-line address into its parts", () => {
+    expect(renewalFormValues(candidate())).toMatchObject({
+      ownerStreet: "12 Main St",
+      ownerCity: "Springfield",
+      ownerState: "IL",
+      ownerZip: "62704",
+      ownerDiscount: "none",
+      licenseTerm: "1",
+    })
+  })
+
+  it("ages an estimated age by the whole years since the last license", () => {
+    const values = renewalFormValues(candidate({ age: 4 }), new Date(2027, 2, 2))
+    expect(values.dogs?.[0]).toMatchObject({ ageSource: "approximate", age: "5" })
+  })
+
+  it("keeps a known date of birth instead of an age", () => {
+    const values = renewalFormValues(candidate({ age: 4, birthDate: "2022-01-05" }), new Date(2027, 2, 2))
+    expect(values.dogs?.[0]).toMatchObject({ ageSource: "birthDate", birthDate: "2022-01-05", age: "" })
+  })
+
+  it("asks for the vaccination again", () => {
+    expect(renewalFormValues(candidate()).dogs?.[0]).toMatchObject({
+      rabiesStatus: "vaccinated",
+      lastRabiesShotDate: "",
+      firstRabiesShot: "no",
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import type { DefaultValues } from "react-hook-form"
+import { parseAddress } from "@/lib/address"
+import type { DogInfo, OwnerInfo } from "@/lib/applications"
+import type { DogLicenseFormData } from "@/lib/dog-license-schema"
+import { DEFAULT_FEE_SCHEDULE, isOwnerDiscount, type FeeQuote, type OwnerDiscount } from "@/lib/fee-schedule"
+import type { DogLicense } from "@/lib/licenses"
+import { coerceDate } from "@/lib/utils"
+
+// ---------- License Renewal ----------
+// A renewal is an ordinary application that points back at the license it
+// replaces. Owner and dog details carry over; the vaccination is asked for
+// again and a late fee applies once the old license is past its grace period.
+
+// Renewal opens this many days before a license expires.
+export const RENEWAL_WINDOW_DAYS = 90
+
+// Stored on the renewal application.
+export interface RenewalLink {
+  tagNumber: string
+  applicationId: string
+  expiresOn: string
+}
+
+// What a successful lookup returns: enough to pre-fill the renewal form.
+export interface RenewalCandidate {
+  license: DogLicense
+  applicationId: string
+  owner: OwnerInfo
+  dog: DogInfo
+  discount: OwnerDiscount | null
+}
+
+export function renewalOpensOn(expiresOn: string): Date | null {
+  const expires = coerceDate(expiresOn)
+  if (!expires) return null
+  return new Date(expires.getFullYear(), expires.getMonth(), expires.getDate() - RENEWAL_WINDOW_DAYS)
+}
+
+export function isRenewalOpen(license: DogLicense, asOf = new Date()): boolean {
+  const opens = renewalOpensOn(license.expiresOn)
+  return opens !== null && asOf.getTime() >= opens.getTime()
+}
+
+// Quotes only keep the discount's label, so match it back to the schedule.
+export function discountFromQuote(fee: FeeQuote | undefined): OwnerDiscount | null {
+  const item = fee?.items.find((candidate) => candidate.code === "discount")
+  if (!item) return null
+  const match = Object.entries(DEFAULT_FEE_SCHEDULE.discounts).find(([, discount]) =>
+    item.label.startsWith(discount.label),
+  )
+  return match && isOwnerDiscount(match[0]) ? match[0] : null
+}
+
+// Form values carried over from the prior license. An estimated age is moved on
+// by the whole years since that license was issued; anything older records
+// never captured, or an address that can't be split into parts, is left blank
+// for the owner to fill in.
+export function renewalFormValues(
+  candidate: RenewalCandidate,
+  asOf = new Date(),
+): DefaultValues<DogLicenseFormData> {
+  const issued = coerceDate(candidate.license.issuedOn)
+  const yearsSince = issued
+    ? Math.max(0, Math.floor((asOf.getTime() - issued.getTime()) / (365.25 * 24 * 60 * 60 * 1000)))
+    : 0
+  const address = candidate.owner.postalAddress ?? parseAddress(candidate.owner.address)
+
+  return {
+    ownerName: candidate.owner.name,
+    ownerEmail: candidate.owner.email,
+    ownerStreet: address.street,
+    ownerUnit: address.unit ?? "",
+    ownerCity: address.city,
+    ownerState: address.state,
+    ownerZip: address.zip,
+    ownerPhone: candidate.owner.phone,
+    ownerDiscount: candidate.discount ?? "none",
+    dogs: [
+      {
+        name: candidate.dog.name,
+        breed: candidate.dog.breedCodes.primary,
+        secondaryBreed: candidate.dog.breedCodes.secondary ?? "",
+        sex: candidate.dog.sex,
+        // A known date of birth carries over; an estimate is aged on.
+        ageSource: candidate.dog.birthDate ? "birthDate" : "approximate",
+        birthDate: candidate.dog.birthDate ?? "",
+        age: candidate.dog.age !== null && !candidate.dog.birthDate ? String(candidate.dog.age + yearsSince) : "",
+        color: candidate.dog.coat.primary,
+        secondaryColor: candidate.dog.coat.secondary ?? "",
+        coatPattern: candidate.dog.coat.pattern ?? "",
+        weight: candidate.dog.weightLbs !== undefined ? String(candidate.dog.weightLbs) : "",
+        spayedNeutered: candidate.dog.spayedNeutered === null ? undefined : candidate.dog.spayedNeutered ? "yes" : "no",
+        markings: candidate.dog.markings ?? "",
+        microchipNumber: candidate.dog.microchipNumber ?? "",
+        rabiesStatus: "vaccinated",
+        lastRabiesShotDate: "",
+        // A renewal is never the dog's first shot, but the vaccine may differ.
+        firstRabiesShot: "no",
+        ageAtVaccination: "",
+        exemptionExpiresOn: "",
+        vetLicenseNumber: "",
+      },
+    ],
+    licenseTerm: String(candidate.license.term) as DogLicenseFormData["licenseTerm"],
+  }
+}
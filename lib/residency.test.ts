@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+import type { PostalAddress } from "@/lib/address"
+import { JURISDICTION, type Jurisdiction } from "@/lib/jurisdiction"
+import { decideResidency, nonResidentMessage } from "@/lib/residency"
+
+const jurisdiction: Jurisdiction = {
+  ...JURISDICTION,
+  name: "Springfield City Clerk",
+  serviceArea: {
+    state: "IL",
+    zips: ["62704"],
+    streetRanges: [
+      { zip: "62629", street: "Walnut Street", from: 100, to: 899 },
+      { zip: "62629", street: "Oak Ave", from: 1, to: 99, side: "odd" },
+    ],
+  },
+}
+
+function address(street: string, zip: string): PostalAddress {
+  return { street, city: "Springfield", state: "IL", zip }
+}
+
+function decide(street: string, zip: string, state: string | null = "IL") {
+  const place = state ? { zip, city: "Springfield", state } : null
+  return decideResidency(address(street, zip), place, jurisdiction, new Date("2026-03-01T10:00:00.000Z"))
+}
+
+describe("decideResidency", () => {
+  it("takes anyone in a ZIP entirely inside the service area", () => {
+    expect(decide("12 Main St", "62704-1234")).toEqual({
+      status: "resident",
+      basis: "zip",
+      zip: "62704",
+      zipVerified: true,
+      decidedAt: "2026-03-01T10:00:00.000Z",
+    })
+  })
+
+  it("matches a shared ZIP by street and house number", () => {
+    expect(decide("450 walnut st.", "62629")).toMatchObject({ status: "resident", basis: "street_range" })
+    expect(decide("450B Walnut St", "62629")).toMatchObject({ status: "resident", basis: "street_range" })
+    expect(decide("950 Walnut St", "62629")).toMatchObject({ status: "non_resident", basis: "outside" })
+    expect(decide("450 Walnut St", "62630")).toMatchObject({ status: "non_resident" })
+  })
+
+  it("keeps to one side of the street when the range says so", () => {
+    expect(decide("15 Oak Avenue", "62629").status).toBe("resident")
+    expect(decide("16 Oak Avenue", "62629").status).toBe("non_resident")
+  })
+
+  it("turns away a ZIP the lookup places in another state", () => {
+    expect(decide("12 Main St", "62704", "MO")).toMatchObject({ status: "non_resident", basis: "outside" })
+  })
+
+  it("goes by the service area's list when the lookup was unavailable", () => {
+    expect(decide("12 Main St", "62704", null)).toMatchObject({ status: "resident", zipVerified: false })
+  })
+})
+
+describe("nonResidentMessage", () => {
+  it("refers applicants elsewhere or turns them away, as configured", () => {
+    const refer = { ...jurisdiction, nonResident: { policy: "refer" as const, message: "Apply with the county" } }
+    const block = { ...jurisdiction, nonResident: { policy: "block" as const, message: "Apply with the county" } }
+
+    expect(nonResidentMessage(refer)).toBe("Apply with the county")
+    expect(nonResidentMessage(block)).toBe("Springfield City Clerk only licenses dogs kept within its service area")
+  })
+})
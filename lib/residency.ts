@@ -0,0 +1,107 @@
+import type { PostalAddress, ZipPlace } from "@/lib/address"
+import { JURISDICTION, type Jurisdiction, type StreetRange } from "@/lib/jurisdiction"
+
+// ---------- Residency ----------
+// A dog license only covers residents. Residency is decided from the owner's
+// address against the jurisdiction's service area, with the ZIP lookup's
+// answer as a cross-check. The browser decides first so out-of-area applicants
+// find out on the owner step; the server decides again and stores the result.
+
+export const RESIDENCY_STATUSES = ["resident", "non_resident"] as const
+
+export type ResidencyStatus = (typeof RESIDENCY_STATUSES)[number]
+
+// "zip" - the ZIP is entirely inside the service area
+// "street_range" - the ZIP is shared and the street address falls in a listed range
+// "outside" - neither, or the ZIP lookup placed the ZIP in another state
+export type ResidencyBasis = "zip" | "street_range" | "outside"
+
+export interface ResidencyDecision {
+  status: ResidencyStatus
+  basis: ResidencyBasis
+  zip: string
+  // False when the ZIP lookup was unavailable and the ZIP was taken as entered.
+  zipVerified: boolean
+  decidedAt: string
+}
+
+const STREET_SUFFIXES: Record<string, string> = {
+  avenue: "ave",
+  boulevard: "blvd",
+  court: "ct",
+  drive: "dr",
+  lane: "ln",
+  parkway: "pkwy",
+  place: "pl",
+  road: "rd",
+  street: "st",
+  terrace: "ter",
+}
+
+// "Walnut Street" and "walnut st." compare equal.
+function comparableStreet(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[.,#]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => STREET_SUFFIXES[word] ?? word)
+    .join(" ")
+}
+
+function inStreetRange(range: StreetRange, houseNumber: number, street: string): boolean {
+  if (comparableStreet(range.street) !== street) return false
+  if (houseNumber < range.from || houseNumber > range.to) return false
+  if (range.side === "odd") return houseNumber % 2 === 1
+  if (range.side === "even") return houseNumber % 2 === 0
+  return true
+}
+
+function matchesStreetRange(address: PostalAddress, zip: string, ranges: StreetRange[]): boolean {
+  const match = address.street.trim().match(/^(\d+)[A-Za-z]?\s+(.+)$/)
+  if (!match) return false
+  const houseNumber = Number(match[1])
+  const street = comparableStreet(match[2])
+  return ranges.some((range) => range.zip === zip && inStreetRange(range, houseNumber, street))
+}
+
+// `place` is the ZIP lookup's answer, or null when the lookup was unavailable.
+export function decideResidency(
+  address: PostalAddress,
+  place: ZipPlace | null,
+  { serviceArea }: Jurisdiction = JURISDICTION,
+  decidedAt = new Date(),
+): ResidencyDecision {
+  const zip = address.zip.trim().slice(0, 5)
+  const decision = (status: ResidencyStatus, basis: ResidencyBasis): ResidencyDecision => ({
+    status,
+    basis,
+    zip,
+    zipVerified: place !== null,
+    decidedAt: decidedAt.toISOString(),
+  })
+
+  if (place && place.state.toUpperCase() !== serviceArea.state) return decision("non_resident", "outside")
+  if (serviceArea.zips.includes(zip)) return decision("resident", "zip")
+  if (matchesStreetRange(address, zip, serviceArea.streetRanges)) return decision("resident", "street_range")
+  return decision("non_resident", "outside")
+}
+
+// What an out-of-area applicant is told.
+export function nonResidentMessage({ name, nonResident }: Jurisdiction = JURISDICTION): string {
+  return nonResident.policy === "refer" ? nonResident.message : `${name} only licenses dogs kept within its service area`
+}
+
+export function isResidencyStatus(value: unknown): value is ResidencyStatus {
+  return typeof value === "string" && (RESIDENCY_STATUSES as readonly string[]).includes(value)
+}
+
+export function isResidencyBasis(value: unknown): value is ResidencyBasis {
+  return typeof value === "string" && Object.hasOwn(RESIDENCY_BASIS_LABELS, value)
+}
+
+export const RESIDENCY_BASIS_LABELS: Record<ResidencyBasis, string> = {
+  zip: "ZIP code in service area",
+  street_range: "Street address in a shared ZIP code",
+  outside: "Outside service area",
+}
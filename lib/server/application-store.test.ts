@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { NewApplicationInput } from "@/lib/applications"
+import {
+  createApplication,
+  getApplication,
+  importApplications,
+  listApplications,
+  queryApplications,
+  recordPayment,
+} from "@/lib/server/application-store"
+import { createMemoryStorageAdapter, setStorageAdapter } from "@/lib/server/storage"
+import { testApplicationInput, testPayment } from "@/lib/server/test-fixtures"
+
+function input(email = "pat@example.com", address = "12 Main St, Springfield, IL 62704"): NewApplicationInput {
+  return testApplicationInput({ owner: { email, address } })
+}
+
+const payment = testPayment({ paidAt: "2026-03-02T12:00:00.000Z" })
+
+beforeEach(() => {
+  setStorageAdapter(createMemoryStorageAdapter())
+})
+
+describe("createApplication", () => {
+  it("saves a draft with its first history entry", async () => {
+    const created = await createApplication(input())
+
+    expect(created.status).toBe("draft")
+    expect(created.history).toEqual([{ from: null, to: "draft", actor: "applicant", at: created.submittedAt }])
+    expect(await getApplication(` ${created.id} `)).toMatchObject({ id: created.id, status: "draft" })
+  })
+
+  it("gives each application a random id", async () => {
+    const first = await createApplication(input())
+    const second = await createApplication(input())
+
+    expect(first.id).toMatch(/^DOG-[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+    expect(second.id).not.toBe(first.id)
+  })
+})
+
+describe("listApplications", () => {
+  it("leaves out unpaid drafts unless asked for them", async () => {
+    const draft = await createApplication(input())
+    const paid = await createApplication(input())
+    await recordPayment(paid.id, payment)
+
+    expect((await listApplications()).map((app) => app.id)).toEqual([paid.id])
+    expect(await listApplications({ includeDrafts: true })).toHaveLength(2)
+    expect((await listApplications({ status: "draft" })).map((app) => app.id)).toEqual([draft.id])
+  })
+
+  it("matches the owner email regardless of case and spacing", async () => {
+    await createApplication(input("pat@example.com"))
+    await createApplication(input("sam@example.com"))
+
+    const mine = await listApplications({ ownerEmail: " PAT@example.com ", includeDrafts: true })
+    expect(mine.map((app) => app.owner.email)).toEqual(["pat@example.com"])
+  })
+
+  it("matches either of a dog's coat colors", async () => {
+    const coated = (coat: { primary: string; secondary?: string }) => {
+      const { dogs, ...rest } = input()
+      return createApplication({ ...rest, dogs: dogs.map((entry) => ({ ...entry, dog: { ...entry.dog, coat } })) })
+    }
+    const black = await coated({ primary: "black" })
+    const tan = await coated({ primary: "tan", secondary: "black" })
+    await coated({ primary: "white" })
+
+    const blackDogs = await listApplications({ coatColor: "black", includeDrafts: true })
+    expect(blackDogs.map((app) => app.id).sort()).toEqual([black.id, tan.id].sort())
+    expect((await listApplications({ coatColor: "tan", includeDrafts: true })).map((app) => app.id)).toEqual([tan.id])
+  })
+})
+
+describe("recordPayment", () => {
+  it("submits the draft as of the payment time", async () => {
+    const created = await createApplication(input())
+    const result = await recordPayment(created.id, payment)
+
+    expect(result.ok && result.application).toMatchObject({
+      status: "submitted",
+      submittedAt: payment.paidAt,
+      payment,
+    })
+  })
+
+  it("refuses a second payment", async () => {
+    const created = await createApplication(input())
+    await recordPayment(created.id, payment)
+
+    expect(await recordPayment(created.id, payment)).toMatchObject({ ok: false, code: "invalid_transition" })
+  })
+})
+
+describe("queryApplications", () => {
+  async function submitted(paidAt: string, address?: string) {
+    const created = await createApplication(input("pat@example.com", address))
+    await recordPayment(created.id, { ...payment, paidAt })
+    return created.id
+  }
+
+  it("pages through the newest submissions first", async () => {
+    const oldest = await submitted("2026-03-01T12:00:00.000Z")
+    const middle = await submitted("2026-03-02T12:00:00.000Z")
+    const newest = await submitted("2026-03-03T12:00:00.000Z")
+
+    const first = await queryApplications({}, 1, 2)
+    const second = await queryApplications({}, 2, 2)
+    expect(first).toMatchObject({ total: 3, page: 1, pageSize: 2 })
+    expect(first.applications.map((app) => app.id)).toEqual([newest, middle])
+    expect(second.applications.map((app) => app.id)).toEqual([oldest])
+  })
+
+  it("filters on the submission date, inclusive", async () => {
+    await submitted("2026-03-01T12:00:00.000Z")
+    const inRange = await submitted("2026-03-02T12:00:00.000Z")
+    await submitted("2026-03-04T12:00:00.000Z")
+
+    const page = await queryApplications({ submittedFrom: "2026-03-02", submittedTo: "2026-03-03" }, 1, 10)
+    expect(page.applications.map((app) => app.id)).toEqual([inRange])
+  })
+
+  it("filters on the owner's ZIP code", async () => {
+    const local = await submitted("2026-03-01T12:00:00.000Z", "1 Elm St, Springfield, IL 62701-1234")
+    await submitted("2026-03-02T12:00:00.000Z", "9 Oak St, Chatham, IL 62629")
+
+    const page = await queryApplications({ zip: "62701" }, 1, 10)
+    expect(page.applications.map((app) => app.id)).toEqual([local])
+  })
+})
+
+describe("importApplications", () => {
+  const document = { sha256: "a".repeat(64), contentType: "image/jpeg", fileName: "rex.jpg", size: 10, uploadedAt: "" }
+
+  it("brings records back as unpaid drafts with a fee quoted here", async () => {
+    const { owner, dogs } = input()
+    const [{ dog, vaccination }] = dogs
+    const imported = await importApplications([
+      {
+        id: "DOG-legacy-1",
+        status: "license_issued",
+        submittedAt: "2024-05-01T09:00:00.000Z",
+        owner,
+        dogs: [
+          {
+            dog: { ...dog, photo: document },
+            vaccination: { ...vaccination, certificate: { ...document, contentType: "application/pdf" } },
+            license: { tagNumber: "SPR-2024-00001", issuedOn: "2024-05-02", expiresOn: "2025-05-02" },
+            fee: { scheduleVersion: "x", currency: "USD", term: 1, items: [], total: 1 },
+          },
+        ],
+        fee: { scheduleVersion: "x", currency: "USD", term: 1, items: [], total: 1 },
+        payment,
+        residency: { status: "resident", basis: "anywhere", decidedAt: "2024-05-01T09:00:00.000Z" },
+      },
+    ])
+
+    expect(imported).toEqual(["DOG-legacy-1"])
+    const stored = await getApplication("DOG-legacy-1")
+    expect(stored).toMatchObject({ status: "draft", fee: { total: 1500 } })
+    expect(stored?.history).toEqual([
+      { from: null, to: "draft", actor: "applicant", at: stored?.submittedAt, reason: "Imported from browser storage" },
+    ])
+    expect(stored?.payment).toBeUndefined()
+    expect(stored?.residency).toBeUndefined()
+    expect(stored?.dogs[0].license).toBeUndefined()
+    expect(stored?.dogs[0].dog.photo).toBeUndefined()
+    expect(stored?.dogs[0].vaccination.certificate).toBeUndefined()
+  })
+
+  it("quotes the oldest records, which don't say whether the dog is fixed, as intact", async () => {
+    await importApplications([{ id: "DOG-legacy-2", ownerName: "Sam Lee", dogName: "Bella", dogColor: "Blk/wht" }])
+    expect((await getApplication("DOG-legacy-2"))?.fee?.total).toBe(3500)
+  })
+
+  it("skips ids already on file", async () => {
+    const created = await createApplication(input())
+    const { owner, dogs } = input("sam@example.com")
+
+    expect(await importApplications([{ id: created.id, owner, dogs }, { id: "", owner, dogs }])).toEqual([])
+    expect((await getApplication(created.id))?.owner.email).toBe("pat@example.com")
+  })
+})
@@ -0,0 +1,326 @@
+import {
+  generateApplicationId,
+  normalizeApplication,
+  ownerZip,
+  type ApplicationDog,
+  type ApplicationPage,
+  type ApplicationStatus,
+  type DogLicenseApplication,
+  type NewApplicationInput,
+} from "@/lib/applications"
+import { applyTransition, type TransitionRequest } from "@/lib/application-lifecycle"
+import { hasCoatColor } from "@/lib/dog-colors"
+import { combineQuotes, quoteFee, type FeeQuote } from "@/lib/fee-schedule"
+import type { PaymentSummary } from "@/lib/payments"
+import { licenseDatesFor, mintLicense, rabiesExpiredMessage } from "@/lib/server/license-store"
+import { collection } from "@/lib/server/storage"
+import { toISODateStringLocal } from "@/lib/utils"
+
+// ---------- Application Store ----------
+const applications = collection<DogLicenseApplication>("applications")
+
+// New applications start as drafts and are submitted once their fee is paid
+// (see recordPayment).
+export async function createApplication(input: NewApplicationInput): Promise<DogLicenseApplication> {
+  const now = new Date().toISOString()
+  return applications.insert({
+    id: generateApplicationId(),
+    status: "draft",
+    submittedAt: now,
+    updatedAt: now,
+    owner: input.owner,
+    dogs: input.dogs,
+    fee: input.fee,
+    renewalOf: input.renewalOf,
+    residency: input.residency,
+    history: [
+      {
+        from: null,
+        to: "draft",
+        actor: "applicant",
+        at: now,
+        reason: input.renewalOf ? `Renewal of tag ${input.renewalOf.tagNumber}` : undefined,
+      },
+    ],
+  })
+}
+
+export async function getApplication(id: string): Promise<DogLicenseApplication | null> {
+  const record = await applications.get(id.trim())
+  return record ? normalizeApplication(record) : null
+}
+
+export interface ApplicationListFilter {
+  status?: ApplicationStatus
+  // Inclusive "YYYY-MM-DD" bounds on the submission date
+  submittedFrom?: string
+  submittedTo?: string
+  zip?: string
+  // Applications with any dog of this coat color; see lib/dog-colors.ts.
+  coatColor?: string
+  ownerEmail?: string
+  // Unpaid drafts are left out unless asked for by status or with this flag.
+  includeDrafts?: boolean
+}
+
+function matchesFilter(app: DogLicenseApplication, filter: ApplicationListFilter): boolean {
+  if (filter.status && app.status !== filter.status) return false
+  if (!filter.status && !filter.includeDrafts && app.status === "draft") return false
+  if (filter.submittedFrom || filter.submittedTo) {
+    const submitted = toISODateStringLocal(new Date(app.submittedAt))
+    if (filter.submittedFrom && submitted < filter.submittedFrom) return false
+    if (filter.submittedTo && submitted > filter.submittedTo) return false
+  }
+  if (filter.zip && ownerZip(app.owner) !== filter.zip.trim()) return false
+  const { coatColor } = filter
+  if (coatColor && !app.dogs.some(({ dog }) => hasCoatColor(dog.coat, coatColor))) return false
+  if (filter.ownerEmail && app.owner.email !== filter.ownerEmail.trim().toLowerCase()) return false
+  return true
+}
+
+// Newest submissions first.
+export async function listApplications(filter: ApplicationListFilter = {}): Promise<DogLicenseApplication[]> {
+  const records = await applications.list()
+  return records
+    .map(normalizeApplication)
+    .filter((app): app is DogLicenseApplication => app !== null && matchesFilter(app, filter))
+    .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt))
+}
+
+export async function queryApplications(
+  filter: ApplicationListFilter,
+  page: number,
+  pageSize: number,
+): Promise<ApplicationPage> {
+  const matching = await listApplications(filter)
+  const start = (page - 1) * pageSize
+  return {
+    applications: matching.slice(start, start + pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+  }
+}
+
+export type StatusUpdateResult =
+  | { ok: true; application: DogLicenseApplication }
+  | { ok: false; code: "not_found" | "invalid_transition"; message: string }
+
+// Applies a lifecycle transition atomically with respect to other writers.
+async function transition(
+  id: string,
+  request: TransitionRequest,
+  extra: Partial<DogLicenseApplication> = {},
+): Promise<StatusUpdateResult> {
+  let failure: string | null = null
+  const updated = await applications.update(id, (record) => {
+    const current = normalizeApplication(record)
+    if (!current) return record
+    const result = applyTransition(current, request)
+    if (!result.ok) {
+      failure = result.message
+      return record
+    }
+    return { ...result.application, ...extra }
+  })
+
+  if (!updated) return { ok: false, code: "not_found", message: `Application ${id} not found` }
+  if (failure) return { ok: false, code: "invalid_transition", message: failure }
+  return { ok: true, application: updated }
+}
+
+// Approving an application issues its license straight away. Licenses are
+// only ever issued that way, never by setting the status directly.
+export async function updateApplicationStatus(id: string, request: TransitionRequest): Promise<StatusUpdateResult> {
+  if (request.to === "license_issued") {
+    return { ok: false, code: "invalid_transition", message: "Licenses are issued by approving the application" }
+  }
+
+  if (request.to === "approved") {
+    const current = await getApplication(id)
+    if (!current) return { ok: false, code: "not_found", message: `Application ${id} not found` }
+    const lapsed = current.dogs.find((entry) => !licenseDatesFor(current, entry))
+    if (lapsed) return { ok: false, code: "invalid_transition", message: rabiesExpiredMessage(lapsed) }
+  }
+
+  const result = await transition(id, request)
+  if (!result.ok || request.to !== "approved") return result
+  const issued = await issueLicense(id)
+  return issued.ok ? issued : result
+}
+
+// How long issuing licenses holds the application. Issuing cut short by a
+// crash stops blocking a retry after this.
+const LICENSING_HOLD_MS = 5 * 60 * 1000
+
+// Claims an approved application for minting, checked and written in one
+// update so an approval and a retry can't both mint tags for the same dogs.
+async function holdForLicensing(id: string): Promise<StatusUpdateResult> {
+  const now = new Date()
+  let failure: string | null = null
+  const updated = await applications.update(id, (record) => {
+    const current = normalizeApplication(record)
+    if (!current) return record
+    if (current.status !== "approved") {
+      failure = "Only approved applications can be licensed"
+      return record
+    }
+    const started = current.licensingStartedAt
+    if (started && now.getTime() - Date.parse(started) < LICENSING_HOLD_MS) {
+      failure = "Licenses for this application are already being issued"
+      return record
+    }
+    return { ...current, licensingStartedAt: now.toISOString() }
+  })
+
+  if (!updated) return { ok: false, code: "not_found", message: `Application ${id} not found` }
+  if (failure) return { ok: false, code: "invalid_transition", message: failure }
+  return { ok: true, application: updated }
+}
+
+async function releaseLicensingHold(id: string): Promise<void> {
+  await applications.update(id, (record) => ({ ...record, licensingStartedAt: undefined }))
+}
+
+// Mints a license for every dog on an approved application. Also used to
+// retry when issuing failed right after approval; dogs that already hold a
+// license keep it.
+export async function issueLicense(id: string): Promise<StatusUpdateResult> {
+  const held = await holdForLicensing(id)
+  if (!held.ok) return held
+  const current = held.application
+
+  const lapsed = current.dogs.find((entry) => !entry.license && !licenseDatesFor(current, entry))
+  if (lapsed) {
+    await releaseLicensingHold(id)
+    return { ok: false, code: "invalid_transition", message: rabiesExpiredMessage(lapsed) }
+  }
+
+  const dogs: ApplicationDog[] = []
+  for (const entry of current.dogs) {
+    if (entry.license) {
+      dogs.push(entry)
+      continue
+    }
+    const minted = await mintLicense(current, entry)
+    if (!minted.ok) {
+      await releaseLicensingHold(id)
+      return { ok: false, code: "invalid_transition", message: minted.message }
+    }
+    dogs.push({ ...entry, license: minted.license })
+  }
+
+  const tags = dogs.flatMap((entry) => (entry.license ? [entry.license.tagNumber] : []))
+  const issued = await transition(
+    id,
+    { to: "license_issued", actor: "system", reason: `${tags.length === 1 ? "Tag" : "Tags"} ${tags.join(", ")}` },
+    { dogs, licensingStartedAt: undefined },
+  )
+  if (!issued.ok) await releaseLicensingHold(id)
+  return issued
+}
+
+// How long a payment attempt holds the draft. An attempt left waiting on card
+// verification, or cut short by a crash, stops blocking a new one after this.
+const PAYMENT_HOLD_MS = 15 * 60 * 1000
+
+export type PaymentHoldResult =
+  | { ok: true; application: DogLicenseApplication }
+  | { ok: false; code: "not_found" | "not_payable"; message: string }
+
+// Claims an unpaid draft for one payment attempt, checked and written in one
+// update so two attempts can't both go on to charge the card.
+export async function holdForPayment(id: string, transactionId: string): Promise<PaymentHoldResult> {
+  const now = new Date()
+  let failure: string | null = null
+  const updated = await applications.update(id, (record) => {
+    const current = normalizeApplication(record)
+    if (!current) return record
+    if (current.status !== "draft" || current.payment) {
+      failure = "This application has already been paid for"
+      return record
+    }
+    if (!current.fee) {
+      failure = "This application has no fee to pay"
+      return record
+    }
+    const held = current.pendingPayment
+    if (held && now.getTime() - Date.parse(held.startedAt) < PAYMENT_HOLD_MS) {
+      failure = "A payment for this application is already in progress"
+      return record
+    }
+    return { ...current, pendingPayment: { transactionId, startedAt: now.toISOString() } }
+  })
+
+  if (!updated) return { ok: false, code: "not_found", message: `Application ${id} not found` }
+  if (failure) return { ok: false, code: "not_payable", message: failure }
+  return { ok: true, application: updated }
+}
+
+// Lets a new attempt go ahead once this one has failed. A hold already taken
+// over by a later attempt is left alone.
+export async function releasePaymentHold(id: string, transactionId: string): Promise<void> {
+  await applications.update(id, (record) =>
+    record.pendingPayment?.transactionId === transactionId ? { ...record, pendingPayment: undefined } : record,
+  )
+}
+
+// Attaches a captured payment and submits the draft in one write. Submission
+// time is reset to the payment time so the queue orders by when it was paid.
+export async function recordPayment(id: string, payment: PaymentSummary): Promise<StatusUpdateResult> {
+  return transition(
+    id,
+    { to: "submitted", actor: "applicant" },
+    { submittedAt: payment.paidAt, payment, pendingPayment: undefined },
+  )
+}
+
+// ---------- Browser Storage Import ----------
+// Earlier versions kept applications only in the applicant's browser, so
+// nothing in these records can be trusted: payments, licenses, residency and
+// fees are all the browser's word. Each record comes back as an unpaid draft
+// with its fee quoted here, to be paid for and reviewed like any new
+// application. Records keep their id so existing tracking links work.
+
+// Uploads are referenced by hash, so a record could name someone else's; only
+// the dog's details and vaccination dates are kept.
+function importedDog({ dog, vaccination }: ApplicationDog): ApplicationDog & { fee: FeeQuote } {
+  return {
+    dog: { ...dog, photo: undefined, spayNeuterCertificate: undefined },
+    vaccination: {
+      ...vaccination,
+      certificate: undefined,
+      extracted: undefined,
+      exemption: vaccination.exemption && { ...vaccination.exemption, letter: undefined },
+    },
+    // The oldest records don't say whether the dog is spayed or neutered;
+    // they are quoted as intact.
+    fee: quoteFee({ term: 1, spayedNeutered: dog.spayedNeutered === true, sizeClass: dog.sizeClass }),
+  }
+}
+
+// Returns the ids that were added. Ids already on file are skipped, so
+// uploading the same records again does nothing.
+export async function importApplications(records: unknown[]): Promise<string[]> {
+  const imported: string[] = []
+  for (const raw of records) {
+    const app = normalizeApplication(raw)
+    if (!app || app.dogs.length === 0) continue
+    if (await applications.get(app.id)) continue
+    const now = new Date().toISOString()
+    const dogs = app.dogs.map(importedDog)
+    await applications.insert({
+      id: app.id,
+      status: "draft",
+      submittedAt: now,
+      updatedAt: now,
+      owner: app.owner,
+      dogs,
+      fee: combineQuotes(dogs.map(({ dog, fee }) => ({ label: dog.name, quote: fee }))),
+      notes: app.notes,
+      history: [{ from: null, to: "draft", actor: "applicant", at: now, reason: "Imported from browser storage" }],
+    })
+    imported.push(app.id)
+  }
+  return imported
+}
@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { SESSION_COOKIE, signSession } from "@/lib/auth/session"
+import type { User } from "@/lib/auth/user"
+import { authorize, getSession } from "@/lib/server/auth"
+import { createMemoryStorageAdapter, setStorageAdapter } from "@/lib/server/storage"
+import { createUser, updateUserRole } from "@/lib/server/user-store"
+
+const cookie = vi.hoisted(() => ({ value: undefined as string | undefined }))
+
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: (name: string) => (name === SESSION_COOKIE && cookie.value ? { name, value: cookie.value } : undefined),
+  }),
+}))
+
+async function signIn(user: Pick<User, "id" | "email" | "name" | "role">) {
+  cookie.value = await signSession({ sub: user.id, email: user.email, name: user.name, role: user.role })
+}
+
+beforeEach(() => {
+  setStorageAdapter(createMemoryStorageAdapter())
+  cookie.value = undefined
+})
+
+describe("authorize", () => {
+  it("uses the role on file, not the one in the cookie", async () => {
+    const user = await createUser({ email: "jo@city.gov", name: "Jo", role: "admin" })
+    await signIn(user)
+    expect((await authorize("users:manage")).ok).toBe(true)
+
+    await updateUserRole(user.id, "clerk")
+    const demoted = await authorize("users:manage")
+    expect(demoted.ok || demoted.response.status).toBe(403)
+    expect((await authorize("applications:review")).ok).toBe(true)
+  })
+
+  it("refuses a session for a user no longer on file", async () => {
+    await signIn({ id: "gone", email: "gone@city.gov", name: "Gone", role: "admin" })
+
+    expect(await getSession()).toBeNull()
+    const result = await authorize("applications:read")
+    expect(result.ok || result.response.status).toBe(401)
+  })
+})
@@ -0,0 +1,61 @@
+import { cookies } from "next/headers"
+import { NextResponse } from "next/server"
+import { hasPermission, type Permission } from "@/lib/auth/roles"
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, signSession, verifySession, type Session } from "@/lib/auth/session"
+import type { User } from "@/lib/auth/user"
+import { getUser } from "@/lib/server/user-store"
+
+// ---------- Route Handler Auth ----------
+
+// The cookie lasts a working day, so who the user is and what they may do are
+// read from their record on every request: a role change takes effect at
+// once, and a session for a user no longer on file is refused. Middleware
+// only has the cookie; the handlers' own checks are the ones that count.
+export async function getSession(): Promise<Session | null> {
+  const store = await cookies()
+  const session = await verifySession(store.get(SESSION_COOKIE)?.value)
+  if (!session) return null
+  const user = await getUser(session.sub)
+  return user ? { ...session, email: user.email, name: user.name, role: user.role } : null
+}
+
+export type AuthorizeResult = { ok: true; session: Session } | { ok: false; response: NextResponse }
+
+// Every protected handler starts with:
+//   const auth = await authorize("applications:review")
+//   if (!auth.ok) return auth.response
+export async function authorize(permission: Permission): Promise<AuthorizeResult> {
+  const session = await getSession()
+  if (!session) {
+    return { ok: false, response: NextResponse.json({ error: "Sign in required" }, { status: 401 }) }
+  }
+  if (!hasPermission(session.role, permission)) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "You do not have permission to do that" }, { status: 403 }),
+    }
+  }
+  return { ok: true, session }
+}
+
+// Who to record in audit trails such as the status history.
+export function actorName(session: Session): string {
+  return session.name ? `${session.name} (${session.email})` : session.email
+}
+
+export async function startSession(user: User): Promise<void> {
+  const token = await signSession({ sub: user.id, email: user.email, name: user.name, role: user.role })
+  const store = await cookies()
+  store.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  })
+}
+
+export async function endSession(): Promise<void> {
+  const store = await cookies()
+  store.delete(SESSION_COOKIE)
+}
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { ALLOWED_PHOTO_TYPES, MAX_PHOTO_SIZE } from "@/lib/dog-photos"
+import { readCertificateFields, readDocument, saveDocument, sniffContentType } from "@/lib/server/documents"
+import { renderPdf } from "@/lib/server/pdf"
+import { createMemoryUploadStorage, setUploadStorage } from "@/lib/server/upload-storage"
+
+const PDF = [0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x34]
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]
+const JPEG = [0xff, 0xd8, 0xff, 0xe0]
+
+const options = { allowedTypes: ["application/pdf", "image/jpeg", "image/png"], maxSize: 1024 }
+
+function file(bytes: number[], name = "certificate.pdf", type = "application/pdf"): File {
+  return new File([new Uint8Array(bytes)], name, { type })
+}
+
+beforeEach(() => {
+  setUploadStorage(createMemoryUploadStorage())
+})
+
+describe("sniffContentType", () => {
+  it("recognises PDFs, PNGs and JPEGs by their first bytes", () => {
+    expect(sniffContentType(new Uint8Array(PDF))).toBe("application/pdf")
+    expect(sniffContentType(new Uint8Array(PNG))).toBe("image/png")
+    expect(sniffContentType(new Uint8Array(JPEG))).toBe("image/jpeg")
+  })
+
+  it("knows nothing else, however short", () => {
+    expect(sniffContentType(new TextEncoder().encode("<html>"))).toBeNull()
+    expect(sniffContentType(new Uint8Array([0xff, 0xd8]))).toBeNull()
+    expect(sniffContentType(new Uint8Array())).toBeNull()
+  })
+})
+
+describe("saveDocument", () => {
+  it("stores the content under its hash with the sniffed type", async () => {
+    const saved = await saveDocument(file(PNG, "rabies.pdf", "application/pdf"), options)
+    if (!saved.ok) throw new Error(saved.message)
+
+    expect(saved.document).toMatchObject({ fileName: "rabies.pdf", contentType: "image/png", size: PNG.length })
+    expect(saved.document.sha256).toMatch(/^[a-f0-9]{64}$/)
+    expect([...((await readDocument(saved.document)) ?? [])]).toEqual(PNG)
+  })
+
+  it("refuses content whatever the browser says it is", async () => {
+    const html = new File(["<script>alert(1)</script>"], "cert.pdf", { type: "application/pdf" })
+    expect(await saveDocument(html, options)).toMatchObject({ ok: false, code: "unsupported_type" })
+    expect(await saveDocument(file(PDF), { ...options, allowedTypes: ["image/png"] })).toMatchObject({
+      ok: false,
+      code: "unsupported_type",
+    })
+  })
+
+  it("refuses empty and oversized files", async () => {
+    expect(await saveDocument(file([]), options)).toMatchObject({ ok: false, code: "empty" })
+    expect(await saveDocument(file([...PDF, ...new Array(1024).fill(0)]), options)).toMatchObject({
+      ok: false,
+      code: "too_large",
+    })
+  })
+
+  it("takes only images under the photo limits", async () => {
+    const photoOptions = { allowedTypes: ALLOWED_PHOTO_TYPES, maxSize: MAX_PHOTO_SIZE }
+    const saved = await saveDocument(file(JPEG, "rex.jpg", "image/jpeg"), photoOptions)
+    expect(saved.ok && saved.document.contentType).toBe("image/jpeg")
+    expect(await saveDocument(file(PDF, "rex.jpg", "image/jpeg"), photoOptions)).toMatchObject({
+      ok: false,
+      code: "unsupported_type",
+    })
+  })
+
+  it("keeps the file name to one plain line", async () => {
+    const saved = await saveDocument(file(PDF, '..\\..\\evil"\r\nname<>.pdf'), options)
+    expect(saved.ok && saved.document.fileName).toBe("evil___name__.pdf")
+  })
+})
+
+describe("readCertificateFields", () => {
+  it("reads the fields from a certificate's text layer", () => {
+    const certificate = renderPdf([
+      (page) => {
+        page.text(54, 100, "Date of Vaccination: 01/10/2026")
+        page.text(54, 120, "Rabies Tag #: R-55213")
+      },
+    ])
+    expect(readCertificateFields(certificate)).toEqual({ vaccinationDate: "2026-01-10", rabiesTag: "R-55213" })
+  })
+
+  it("gives up on images and PDFs with nothing it recognises", () => {
+    expect(readCertificateFields(new Uint8Array(PNG))).toBeUndefined()
+    expect(readCertificateFields(renderPdf([(page) => page.text(54, 100, "Thank you for your visit")]))).toBeUndefined()
+  })
+})
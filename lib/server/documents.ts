@@ -0,0 +1,89 @@
+import { createHash } from "crypto"
+import type { StoredDocument } from "@/lib/documents"
+import { hasCertificateFields, parseCertificateText, type CertificateFields } from "@/lib/rabies-certificate"
+import { extractPdfText } from "@/lib/server/pdf-text"
+import { getUploadStorage } from "@/lib/server/upload-storage"
+
+// ---------- Document Uploads ----------
+// The browser's file name and type are only hints. The server checks the size
+// itself, works out the type from the content and refuses anything it can't
+// recognise as one of the allowed formats.
+
+export type UploadErrorCode = "empty" | "too_large" | "unsupported_type"
+
+export type UploadResult =
+  | { ok: true; document: StoredDocument }
+  | { ok: false; code: UploadErrorCode; message: string }
+
+const SIGNATURES: { contentType: string; bytes: number[] }[] = [
+  { contentType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { contentType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { contentType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+]
+
+export function sniffContentType(contents: Uint8Array): string | null {
+  const match = SIGNATURES.find(({ bytes }) => bytes.every((byte, index) => contents[index] === byte))
+  return match?.contentType ?? null
+}
+
+// Names are shown to clerks and used in Content-Disposition headers, so keep
+// them to one plain line.
+function cleanFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? ""
+  return base.replace(/[^\w.\- ()]/g, "_").slice(0, 100) || "upload"
+}
+
+export async function saveDocument(
+  file: File,
+  { allowedTypes, maxSize }: { allowedTypes: string[]; maxSize: number },
+): Promise<UploadResult> {
+  if (file.size > maxSize) {
+    return { ok: false, code: "too_large", message: `File must be smaller than ${Math.round(maxSize / (1024 * 1024))}MB` }
+  }
+  const contents = new Uint8Array(await file.arrayBuffer())
+  if (contents.length === 0) return { ok: false, code: "empty", message: "The uploaded file is empty" }
+  if (contents.length > maxSize) {
+    return { ok: false, code: "too_large", message: `File must be smaller than ${Math.round(maxSize / (1024 * 1024))}MB` }
+  }
+
+  const contentType = sniffContentType(contents)
+  if (!contentType || !allowedTypes.includes(contentType)) {
+    return { ok: false, code: "unsupported_type", message: "File must be PDF, JPEG, or PNG format" }
+  }
+
+  const sha256 = createHash("sha256").update(contents).digest("hex")
+  await getUploadStorage().write(sha256, contents)
+
+  return {
+    ok: true,
+    document: {
+      sha256,
+      fileName: cleanFileName(file.name),
+      contentType,
+      size: contents.length,
+      uploadedAt: new Date().toISOString(),
+    },
+  }
+}
+
+// Null when the content is missing from storage.
+export async function readDocument(document: StoredDocument): Promise<Buffer | null> {
+  return getUploadStorage().read(document.sha256)
+}
+
+// ---------- Certificate Fields ----------
+// Only PDFs with a text layer can be read; images and scans yield nothing.
+export function readCertificateFields(contents: Uint8Array): CertificateFields | undefined {
+  if (sniffContentType(contents) !== "application/pdf") return undefined
+  try {
+    const fields = parseCertificateText(extractPdfText(Buffer.from(contents)))
+    return hasCertificateFields(fields) ? fields : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export async function extractCertificateFields(document: StoredDocument): Promise<CertificateFields | undefined> {
+  const contents = await readDocument(document)
+  return contents ? readCertificateFields(contents) : undefined
+}
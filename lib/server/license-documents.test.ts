@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest"
+import type { ApplicationDog, DogLicenseApplication } from "@/lib/applications"
+import { quoteFee } from "@/lib/fee-schedule"
+import type { DogLicense } from "@/lib/licenses"
+import type { PaymentTransaction } from "@/lib/payments"
+import { renderLicenseCertificate, renderPaymentReceipt } from "@/lib/server/license-documents"
+import { extractPdfText } from "@/lib/server/pdf-text"
+
+function license(tagNumber: string, limitedByRabies = false): DogLicense {
+  return {
+    tagNumber,
+    applicationId: "DOG-1",
+    jurisdiction: "SPR",
+    term: 1,
+    issuedOn: "2026-03-01",
+    expiresOn: "2027-03-01",
+    limitedByRabies,
+  }
+}
+
+function dog(name: string, issued?: DogLicense): ApplicationDog {
+  return {
+    dog: {
+      name,
+      breed: "Beagle",
+      breedCodes: { primary: "beagle" },
+      age: 4,
+      color: "Black",
+      coat: { primary: "black" },
+      spayedNeutered: true,
+    },
+    vaccination: { lastRabiesShotDate: "2026-01-12" },
+    license: issued,
+  }
+}
+
+function application(dogs: ApplicationDog[]): DogLicenseApplication {
+  return {
+    id: "DOG-1",
+    status: "license_issued",
+    submittedAt: "2026-03-01T10:00:00.000Z",
+    updatedAt: "2026-03-01T10:00:00.000Z",
+    owner: { name: "Pat Doe", email: "pat@example.com", address: "12 Main St", phone: "2175551234" },
+    dogs,
+    history: [],
+    fee: quoteFee({ term: 1, spayedNeutered: true }),
+    payment: {
+      transactionId: "PAY-1",
+      receiptNumber: "R-2026-000001",
+      amount: 1500,
+      currency: "USD",
+      paidAt: "2026-03-01T10:00:00.000Z",
+      cardBrand: "Visa",
+      cardLast4: "4242",
+    },
+  }
+}
+
+function pageCount(pdf: Buffer): number {
+  return pdf.toString("latin1").match(/\/Type \/Page /g)?.length ?? 0
+}
+
+describe("renderLicenseCertificate", () => {
+  it("prints one page per licensed dog", () => {
+    const pdf = renderLicenseCertificate(
+      application([dog("Rex", license("SPR-2026-00001")), dog("Bo"), dog("Max", license("SPR-2026-00002"))]),
+    )
+    const text = extractPdfText(pdf)
+
+    expect(pageCount(pdf)).toBe(2)
+    expect(text).toContain("SPR-2026-00001")
+    expect(text).toContain("SPR-2026-00002")
+    expect(text).toContain("Valid March 1, 2026 through March 1, 2027")
+  })
+
+  it("says when the license ends with the vaccination", () => {
+    const text = extractPdfText(renderLicenseCertificate(application([dog("Rex", license("SPR-2026-00001", true))])))
+    expect(text).toContain("This license ends when the rabies vaccination on file expires.")
+  })
+
+  it("refuses an application with no license", () => {
+    expect(() => renderLicenseCertificate(application([dog("Rex")]))).toThrow("Application DOG-1 has no license")
+  })
+})
+
+describe("renderPaymentReceipt", () => {
+  it("lists the fee and the card it was paid with", () => {
+    const text = extractPdfText(renderPaymentReceipt(application([dog("Rex")])))
+
+    expect(text).toContain("R-2026-000001")
+    expect(text).toContain("Visa ending in 4242")
+    expect(text).toMatch(/Total paid \$15\.00/)
+  })
+
+  it("marks a refunded payment", () => {
+    const transaction: PaymentTransaction = {
+      id: "PAY-1",
+      applicationId: "DOG-1",
+      provider: "fake",
+      status: "refunded",
+      amount: 1500,
+      currency: "USD",
+      createdAt: "2026-03-01T10:00:00.000Z",
+      updatedAt: "2026-03-02T10:00:00.000Z",
+      events: [{ type: "refunded", at: "2026-03-02T10:00:00.000Z" }],
+    }
+    expect(extractPdfText(renderPaymentReceipt(application([dog("Rex")]), transaction))).toContain("REFUNDED on")
+  })
+
+  it("refuses an unpaid application", () => {
+    const unpaid = { ...application([dog("Rex")]), payment: undefined }
+    expect(() => renderPaymentReceipt(unpaid)).toThrow("Application DOG-1 has not been paid")
+  })
+})
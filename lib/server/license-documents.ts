@@ -0,0 +1,200 @@
+import {
+  APPLICATION_STATUS_LABELS,
+  dogNames,
+  rabiesShot,
+  type ApplicationDog,
+  type DogLicenseApplication,
+} from "@/lib/applications"
+import { describeAge, describeWeight, DOG_SEX_LABELS } from "@/lib/dog-profile"
+import { LICENSE_TERM_LABELS } from "@/lib/fee-schedule"
+import { JURISDICTION } from "@/lib/jurisdiction"
+import type { DogLicense } from "@/lib/licenses"
+import type { PaymentTransaction } from "@/lib/payments"
+import { describeRabiesShot, rabiesValidUntil } from "@/lib/rabies-vaccination"
+import { fitText, PAGE_WIDTH, renderPdf, type PdfPage, type Rgb } from "@/lib/server/pdf"
+import { formatCents, formatDate, formatDateTime, toISODateStringLocal } from "@/lib/utils"
+
+// ---------- License Documents ----------
+// Printable PDFs handed to owners: the license certificate and the receipt for
+// the fee they paid.
+
+const MARGIN = 54
+const CENTER = PAGE_WIDTH / 2
+const MUTED: Rgb = [0.4, 0.4, 0.4]
+const COLUMN_WIDTH = (PAGE_WIDTH - MARGIN * 2) / 2 - 20
+
+function heading(page: PdfPage, title: string) {
+  page.text(CENTER, 84, JURISDICTION.name, { size: 12, align: "center", color: MUTED })
+  page.text(CENTER, 114, title, { size: 24, bold: true, align: "center" })
+  page.line(MARGIN, 132, PAGE_WIDTH - MARGIN, 132)
+}
+
+// Label/value rows under a bold section title. Returns the y below the section.
+function section(page: PdfPage, x: number, y: number, title: string, rows: [string, string][]): number {
+  page.text(x, y, title, { size: 13, bold: true })
+  let rowY = y + 22
+  for (const [label, value] of rows) {
+    page.text(x, rowY, label, { size: 9, color: MUTED })
+    page.text(x, rowY + 13, fitText(value || "—", COLUMN_WIDTH, 11), { size: 11 })
+    rowY += 32
+  }
+  return rowY
+}
+
+// One page per licensed dog on the application.
+export function renderLicenseCertificate(application: DogLicenseApplication): Buffer {
+  const licensed = application.dogs.flatMap((entry) => (entry.license ? [{ entry, license: entry.license }] : []))
+  if (licensed.length === 0) throw new Error(`Application ${application.id} has no license`)
+
+  return renderPdf(
+    licensed.map(({ entry, license }) => (page: PdfPage) => drawCertificate(page, application, entry, license)),
+    licensed.length === 1 ? `Dog License ${licensed[0].license.tagNumber}` : `Dog Licenses for ${application.id}`,
+  )
+}
+
+function drawCertificate(
+  page: PdfPage,
+  application: DogLicenseApplication,
+  entry: ApplicationDog,
+  license: DogLicense,
+) {
+  const { owner } = application
+  const { dog, vaccination } = entry
+  const rabiesEnd = vaccination.exemption ? null : rabiesValidUntil(rabiesShot(vaccination))
+
+  page.rect(30, 30, PAGE_WIDTH - 60, 732, { lineWidth: 2 })
+  heading(page, "Dog License Certificate")
+
+  page.text(CENTER, 176, "TAG NUMBER", { size: 10, align: "center", color: MUTED })
+  page.text(CENTER, 208, license.tagNumber, { size: 30, bold: true, align: "center" })
+  page.text(
+    CENTER,
+    232,
+    `Valid ${formatDate(license.issuedOn)} through ${formatDate(license.expiresOn)}`,
+    { size: 12, align: "center" },
+  )
+
+  const column = (PAGE_WIDTH - MARGIN * 2) / 2
+  const left = MARGIN + 10
+  const right = MARGIN + column + 10
+  const top = 280
+
+  const ownerEnd = section(page, left, top, "Owner", [
+    ["Name", owner.name],
+    ["Address", owner.address],
+    ["Phone", owner.phone],
+  ])
+  const dogEnd = section(page, right, top, "Dog", [
+    ["Name", dog.name],
+    ["Breed", dog.breed],
+    ["Color", dog.color],
+    ["Sex and age", [dog.sex && DOG_SEX_LABELS[dog.sex], describeAge(dog)].filter(Boolean).join(", ")],
+    ["Weight", describeWeight(dog.weightLbs, dog.sizeClass)],
+    ["Spayed/Neutered", dog.spayedNeutered === null ? "" : dog.spayedNeutered ? "Yes" : "No"],
+    ["Microchip", dog.microchipNumber ?? ""],
+  ])
+
+  const lower = Math.max(ownerEnd, dogEnd) + 10
+  if (vaccination.exemption) {
+    section(page, left, lower, "Rabies Medical Exemption", [
+      ["Exempt until", formatDate(vaccination.exemption.expiresOn)],
+      ["Veterinarian license", vaccination.exemption.vetLicenseNumber],
+    ])
+  } else {
+    section(page, left, lower, "Rabies Vaccination", [
+      ["Last vaccinated", formatDate(vaccination.lastRabiesShotDate)],
+      ["Vaccine", describeRabiesShot(rabiesShot(vaccination))],
+      ["Accepted through", rabiesEnd ? formatDate(toISODateStringLocal(rabiesEnd)) : ""],
+    ])
+  }
+  section(page, right, lower, "License", [
+    ["Term", LICENSE_TERM_LABELS[license.term]],
+    ["Issued by", `${JURISDICTION.name} (${license.jurisdiction})`],
+  ])
+
+  if (license.rabiesExempt) {
+    page.text(CENTER, 662, "Issued on a veterinarian's medical exemption from rabies vaccination.", {
+      size: 10,
+      align: "center",
+    })
+  }
+  if (license.limitedByRabies) {
+    const limit = license.rabiesExempt ? "the medical exemption ends" : "the rabies vaccination on file expires"
+    page.text(CENTER, 680, `This license ends when ${limit}.`, {
+      size: 10,
+      align: "center",
+    })
+  }
+  page.text(CENTER, 710, "Keep this certificate with your records. The tag must be worn by the dog at all times.", {
+    size: 9,
+    align: "center",
+    color: MUTED,
+  })
+  page.text(CENTER, 730, `Application ${application.id}`, { size: 9, align: "center", color: MUTED })
+}
+
+export function renderPaymentReceipt(application: DogLicenseApplication, transaction?: PaymentTransaction | null): Buffer {
+  const payment = application.payment
+  if (!payment) throw new Error(`Application ${application.id} has not been paid`)
+  const fee = application.fee
+
+  return renderPdf(
+    [
+      (page) => {
+        heading(page, "Payment Receipt")
+
+        const rows: [string, string][] = [
+          ["Receipt number", payment.receiptNumber],
+          ["Date paid", formatDateTime(payment.paidAt)],
+          ["Paid by", application.owner.name],
+          ["Payment method", payment.cardLast4 ? `${payment.cardBrand ?? "Card"} ending in ${payment.cardLast4}` : "Card"],
+          ["Application", `${application.id} (${APPLICATION_STATUS_LABELS[application.status]})`],
+          [application.dogs.length === 1 ? "Dog" : "Dogs", dogNames(application)],
+        ]
+        let y = 170
+        for (const [label, value] of rows) {
+          page.text(MARGIN, y, label, { size: 10, color: MUTED })
+          page.text(MARGIN + 140, y, fitText(value || "—", PAGE_WIDTH - MARGIN * 2 - 140, 11), { size: 11 })
+          y += 20
+        }
+
+        y += 20
+        page.text(MARGIN, y, "Description", { size: 10, bold: true })
+        page.text(PAGE_WIDTH - MARGIN, y, "Amount", { size: 10, bold: true, align: "right" })
+        page.line(MARGIN, y + 8, PAGE_WIDTH - MARGIN, y + 8, 0.5)
+        y += 28
+        for (const item of fee?.items ?? []) {
+          page.text(MARGIN, y, item.label, { size: 11 })
+          page.text(PAGE_WIDTH - MARGIN, y, formatCents(item.amount, payment.currency), { size: 11, align: "right" })
+          y += 20
+        }
+        page.line(MARGIN, y - 6, PAGE_WIDTH - MARGIN, y - 6, 0.5)
+        y += 10
+        page.text(MARGIN, y, "Total paid", { size: 12, bold: true })
+        page.text(PAGE_WIDTH - MARGIN, y, formatCents(payment.amount, payment.currency), {
+          size: 12,
+          bold: true,
+          align: "right",
+        })
+
+        if (transaction?.status === "refunded") {
+          const refund = transaction.events.find((event) => event.type === "refunded")
+          page.rect(MARGIN, y + 30, PAGE_WIDTH - MARGIN * 2, 30, { fill: [0.98, 0.9, 0.9] })
+          page.text(CENTER, y + 50, `REFUNDED${refund ? ` on ${formatDateTime(refund.at)}` : ""}`, {
+            size: 12,
+            bold: true,
+            align: "center",
+            color: [0.7, 0.1, 0.1],
+          })
+        }
+
+        page.text(CENTER, 730, `${JURISDICTION.name} · Keep this receipt for your records`, {
+          size: 9,
+          align: "center",
+          color: MUTED,
+        })
+      },
+    ],
+    `Receipt ${payment.receiptNumber}`,
+  )
+}
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { ApplicationDog, DogLicenseApplication, NewApplicationInput } from "@/lib/applications"
+import { JURISDICTION } from "@/lib/jurisdiction"
+import {
+  createApplication,
+  getApplication,
+  issueLicense,
+  updateApplicationStatus,
+} from "@/lib/server/application-store"
+import { getLicense, licenseDatesFor, mintLicense } from "@/lib/server/license-store"
+import { createMemoryStorageAdapter, setStorageAdapter } from "@/lib/server/storage"
+import { payFor, testApplicationInput, testDog } from "@/lib/server/test-fixtures"
+
+function dog(name: string, lastRabiesShotDate = "2026-01-12"): ApplicationDog {
+  return testDog({ dog: { name }, vaccination: { lastRabiesShotDate } })
+}
+
+function input(dogs: ApplicationDog[] = [dog("Rex")]): NewApplicationInput {
+  return testApplicationInput({ dogs })
+}
+
+// Paid and under review, ready for a clerk to approve.
+async function underReview(dogs?: ApplicationDog[]): Promise<string> {
+  const { id } = await createApplication(input(dogs))
+  await payFor(id)
+  await updateApplicationStatus(id, { to: "under_review", actor: "Jo (jo@city.gov)" })
+  return id
+}
+
+beforeEach(() => {
+  setStorageAdapter(createMemoryStorageAdapter())
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(new Date(2026, 2, 1, 9))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("mintLicense", () => {
+  it("numbers tags in sequence and starts again each year", async () => {
+    const application = await createApplication(input())
+    const entry = application.dogs[0]
+
+    const first = await mintLicense(application, entry)
+    const second = await mintLicense(application, entry)
+    vi.setSystemTime(new Date(2027, 0, 2, 9))
+    const nextYear = await mintLicense(application, entry)
+
+    expect([first, second, nextYear].map((result) => result.ok && result.license.tagNumber)).toEqual([
+      `${JURISDICTION.code}-2026-00001`,
+      `${JURISDICTION.code}-2026-00002`,
+      `${JURISDICTION.code}-2027-00001`,
+    ])
+  })
+
+  it("stores the license under its tag number", async () => {
+    const application = await createApplication(input())
+    const minted = await mintLicense(application, application.dogs[0])
+    if (!minted.ok) throw new Error("expected a license")
+
+    expect(await getLicense(` ${minted.license.tagNumber.toLowerCase()} `)).toMatchObject({
+      applicationId: application.id,
+      issuedOn: "2026-03-01",
+      expiresOn: "2027-03-01",
+      limitedByRabies: false,
+    })
+  })
+
+  it("refuses a dog whose vaccination has run out", async () => {
+    const application = await createApplication(input([dog("Rex", "2022-01-12")]))
+
+    expect(await mintLicense(application, application.dogs[0])).toEqual({
+      ok: false,
+      message: "The rabies vaccination on file for Rex has expired; request an updated certificate",
+    })
+  })
+})
+
+describe("licensing an exempt dog", () => {
+  function exempt(expiresOn: string): ApplicationDog {
+    const entry = dog("Rex", "")
+    return { ...entry, vaccination: { ...entry.vaccination, exemption: { expiresOn, vetLicenseNumber: "DVM-12345" } } }
+  }
+
+  it("flags the license and ends it with the exemption", async () => {
+    const application = await createApplication(input([exempt("2026-09-30")]))
+    const minted = await mintLicense(application, application.dogs[0])
+
+    expect(minted.ok && minted.license).toMatchObject({
+      expiresOn: "2026-09-30",
+      limitedByRabies: true,
+      rabiesExempt: true,
+    })
+  })
+
+  it("refuses once the exemption has ended", async () => {
+    const application = await createApplication(input([exempt("2026-02-01")]))
+
+    expect(await mintLicense(application, application.dogs[0])).toEqual({
+      ok: false,
+      message: "The medical exemption on file for Rex has ended; request an updated letter from the veterinarian",
+    })
+  })
+})
+
+describe("licenseDatesFor", () => {
+  it("keeps the days left on the license an early renewal replaces", async () => {
+    const application = await createApplication({
+      ...input(),
+      renewalOf: { tagNumber: "CITY-2025-00007", applicationId: "DOG-old", expiresOn: "2026-04-15" },
+    })
+
+    expect(licenseDatesFor(application, application.dogs[0])?.expiresOn).toBe("2027-04-15")
+  })
+})
+
+describe("approving an application", () => {
+  it("issues a license to every dog", async () => {
+    const id = await underReview([dog("Rex"), dog("Bo")])
+    const result = await updateApplicationStatus(id, { to: "approved", actor: "Jo (jo@city.gov)" })
+
+    const tags = [`${JURISDICTION.code}-2026-00001`, `${JURISDICTION.code}-2026-00002`]
+    expect(result.ok && result.application.status).toBe("license_issued")
+    expect(result.ok && result.application.dogs.map((entry) => entry.license?.tagNumber)).toEqual(tags)
+    expect((await getApplication(id))?.history.at(-1)).toMatchObject({
+      to: "license_issued",
+      actor: "system",
+      reason: `Tags ${tags.join(", ")}`,
+    })
+  })
+
+  it("is refused while a dog's vaccination has lapsed", async () => {
+    const id = await underReview([dog("Rex"), dog("Bo", "2022-01-12")])
+
+    expect(await updateApplicationStatus(id, { to: "approved", actor: "Jo (jo@city.gov)" })).toMatchObject({
+      ok: false,
+      code: "invalid_transition",
+      message: "The rabies vaccination on file for Bo has expired; request an updated certificate",
+    })
+    expect((await getApplication(id))?.status).toBe("under_review")
+  })
+
+  it("is the only way to issue a license", async () => {
+    const id = await underReview()
+
+    expect(await updateApplicationStatus(id, { to: "license_issued", actor: "Jo (jo@city.gov)" })).toMatchObject({
+      ok: false,
+      message: "Licenses are issued by approving the application",
+    })
+  })
+})
+
+describe("issueLicense", () => {
+  // Approved without licenses, as applications were before approval minted them.
+  async function approvedWithoutLicense(): Promise<string> {
+    const storage = createMemoryStorageAdapter()
+    setStorageAdapter(storage)
+    const id = await underReview()
+    const records = await storage.readCollection<DogLicenseApplication>("applications")
+    await storage.writeCollection("applications", records.map((record) => ({ ...record, status: "approved" })))
+    return id
+  }
+
+  it("licenses an application approved without one", async () => {
+    const id = await approvedWithoutLicense()
+    const result = await issueLicense(id)
+
+    expect(result.ok && result.application.status).toBe("license_issued")
+    expect(result.ok && result.application.licensingStartedAt).toBeUndefined()
+  })
+
+  it("mints only once when two requests race", async () => {
+    const id = await approvedWithoutLicense()
+    const results = await Promise.all([issueLicense(id), issueLicense(id)])
+
+    expect(results.filter((result) => result.ok)).toHaveLength(1)
+    expect(results.find((result) => !result.ok)).toMatchObject({
+      code: "invalid_transition",
+      message: "Licenses for this application are already being issued",
+    })
+    expect(await getLicense(`${JURISDICTION.code}-2026-00002`)).toBeNull()
+  })
+})
@@ -0,0 +1,64 @@
+import { isRabiesExempt, rabiesShot, type ApplicationDog, type DogLicenseApplication } from "@/lib/applications"
+import { JURISDICTION } from "@/lib/jurisdiction"
+import { computeLicenseDates, formatTagNumber, type DogLicense, type LicenseDates } from "@/lib/licenses"
+import { exemptionValidUntil, rabiesValidUntil } from "@/lib/rabies-vaccination"
+import { nextSequence } from "@/lib/server/sequences"
+import { collection } from "@/lib/server/storage"
+import { coerceDate } from "@/lib/utils"
+
+// ---------- License Store ----------
+// Keyed by tag number so a tag found on a dog can be looked up directly.
+const licenses = collection<DogLicense & { id: string }>("licenses")
+
+export type MintLicenseResult = { ok: true; license: DogLicense } | { ok: false; message: string }
+
+// Checks that a license could be issued today for one of the application's
+// dogs without consuming a tag number. An early renewal keeps the days left on
+// the license it replaces.
+export function licenseDatesFor(
+  application: DogLicenseApplication,
+  entry: ApplicationDog,
+  issuedOn = new Date(),
+): LicenseDates | null {
+  const priorExpiry = application.renewalOf ? coerceDate(application.renewalOf.expiresOn) : null
+  return computeLicenseDates(issuedOn, application.fee?.term ?? 1, rabiesCoverEnds(entry), {
+    termStartsOn: priorExpiry && priorExpiry.getTime() > issuedOn.getTime() ? priorExpiry : issuedOn,
+  })
+}
+
+// The vaccination's expiry, or the exemption's for an exempt dog.
+function rabiesCoverEnds(entry: ApplicationDog): Date | null {
+  const { exemption } = entry.vaccination
+  return exemption ? exemptionValidUntil(exemption) : rabiesValidUntil(rabiesShot(entry.vaccination))
+}
+
+export function rabiesExpiredMessage(entry: ApplicationDog): string {
+  const name = entry.dog.name || "this dog"
+  return entry.vaccination.exemption
+    ? `The medical exemption on file for ${name} has ended; request an updated letter from the veterinarian`
+    : `The rabies vaccination on file for ${name} has expired; request an updated certificate`
+}
+
+// Tag numbers are sequential per jurisdiction and calendar year.
+export async function mintLicense(application: DogLicenseApplication, entry: ApplicationDog): Promise<MintLicenseResult> {
+  const now = new Date()
+  const dates = licenseDatesFor(application, entry, now)
+  if (!dates) return { ok: false, message: rabiesExpiredMessage(entry) }
+
+  const year = now.getFullYear()
+  const sequence = await nextSequence(`tag-${JURISDICTION.code}-${year}`)
+  const license: DogLicense = {
+    tagNumber: formatTagNumber(JURISDICTION.code, year, sequence),
+    applicationId: application.id,
+    jurisdiction: JURISDICTION.code,
+    term: application.fee?.term ?? 1,
+    ...dates,
+    rabiesExempt: isRabiesExempt(entry) || undefined,
+  }
+  await licenses.insert({ id: license.tagNumber, ...license })
+  return { ok: true, license }
+}
+
+export async function getLicense(tagNumber: string): Promise<DogLicense | null> {
+  return licenses.get(tagNumber.trim().toUpperCase())
+}
@@ -0,0 +1,56 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// ---------- Mail Transports ----------
+// Outgoing mail goes through a MailTransport so a real provider (SMTP, SES,
+// ...) can be plugged in with setMailTransport without touching callers.
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+// Prints messages to the server log. The default in development.
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.info(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`)
+    },
+  }
+}
+
+// Writes each message to its own file so they can be opened like an inbox.
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true })
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+      const safeTo = message.to.replace(/[^a-z0-9@._-]/gi, "_")
+      const contents = `To: ${message.to}\nSubject: ${message.subject}\nDate: ${new Date().toUTCString()}\n\n${message.text}\n`
+      await fs.writeFile(path.join(directory, `${stamp}-${safeTo}.eml`), contents, "utf8")
+    },
+  }
+}
+
+const globalForMail = globalThis as typeof globalThis & { __dogLicenseMail?: MailTransport }
+
+// MAIL_TRANSPORT selects "console" (default) or "file"; MAIL_DIR overrides where
+// the file transport writes.
+export function getMailTransport(): MailTransport {
+  if (!globalForMail.__dogLicenseMail) {
+    globalForMail.__dogLicenseMail =
+      process.env.MAIL_TRANSPORT === "file"
+        ? createFileTransport(process.env.MAIL_DIR || path.join(process.cwd(), ".data", "mail"))
+        : createConsoleTransport()
+  }
+  return globalForMail.__dogLicenseMail
+}
+
+export function setMailTransport(transport: MailTransport): void {
+  globalForMail.__dogLicenseMail = transport
+}
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { createApplication, updateApplicationStatus } from "@/lib/server/application-store"
+import { findMicrochipMatches } from "@/lib/server/microchips"
+import { createMemoryStorageAdapter, setStorageAdapter } from "@/lib/server/storage"
+import { approve, payFor, testApplicationInput, testDog } from "@/lib/server/test-fixtures"
+
+const clerk = "Jo (jo@city.gov)"
+
+async function submitted(microchipNumber: string): Promise<string> {
+  const lastRabiesShotDate = new Date().toISOString().slice(0, 10)
+  const dog = testDog({ dog: { microchipNumber }, vaccination: { lastRabiesShotDate } })
+  const { id } = await createApplication(testApplicationInput({ dogs: [dog] }))
+  await payFor(id)
+  return id
+}
+
+// Approved, so the dog holds a license. Returns its tag number.
+async function licensed(microchipNumber: string): Promise<string> {
+  return approve(await submitted(microchipNumber))
+}
+
+beforeEach(() => {
+  setStorageAdapter(createMemoryStorageAdapter())
+})
+
+describe("findMicrochipMatches", () => {
+  it("finds a licensed dog with the same chip however it was written", async () => {
+    const tagNumber = await licensed("985112003456789")
+
+    expect(await findMicrochipMatches("985-112-003-456-789")).toEqual([
+      expect.objectContaining({ tagNumber, dogName: "Rex", ownerName: "Pat Doe", status: "license_issued" }),
+    ])
+  })
+
+  it("ignores the license being renewed", async () => {
+    const tagNumber = await licensed("985112003456789")
+    expect(await findMicrochipMatches("985112003456789", { excludeTagNumber: tagNumber })).toEqual([])
+  })
+
+  it("ignores dogs with no license standing", async () => {
+    await submitted("985112003456789")
+    const revoked = await licensed("985112003456789")
+    const [match] = await findMicrochipMatches("985112003456789")
+    await updateApplicationStatus(match.applicationId, { to: "revoked", actor: clerk, reason: "Moved away" })
+
+    expect(revoked).toBe(match.tagNumber)
+    expect(await findMicrochipMatches("985112003456789")).toEqual([])
+  })
+
+  it("finds nothing for an empty number", async () => {
+    await licensed("985112003456789")
+    expect(await findMicrochipMatches(" - ")).toEqual([])
+  })
+})
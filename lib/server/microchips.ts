@@ -0,0 +1,38 @@
+import type { ApplicationStatus } from "@/lib/applications"
+import { normalizeMicrochip, type MicrochipMatch } from "@/lib/microchips"
+import { listApplications } from "@/lib/server/application-store"
+
+// ---------- Duplicate Microchips ----------
+// A chip belongs to one dog, so a number already on a licensed dog usually
+// means a typo, a rehomed dog or a second license for the same dog. Either
+// way a clerk decides; the application is not refused.
+
+// Licenses that still stand. Revoked licenses no longer claim the chip.
+const LICENSED_STATUSES: readonly ApplicationStatus[] = ["approved", "license_issued", "expired"]
+
+// Licensed dogs with the same chip, other than the license being renewed.
+export async function findMicrochipMatches(
+  microchipNumber: string,
+  { excludeTagNumber }: { excludeTagNumber?: string } = {},
+): Promise<MicrochipMatch[]> {
+  const number = normalizeMicrochip(microchipNumber)
+  if (!number) return []
+
+  const applications = await listApplications()
+  return applications.flatMap((application) => {
+    if (!LICENSED_STATUSES.includes(application.status)) return []
+    return application.dogs.flatMap(({ dog, license }) => {
+      if (!license || license.tagNumber === excludeTagNumber) return []
+      if (!dog.microchipNumber || normalizeMicrochip(dog.microchipNumber) !== number) return []
+      return [
+        {
+          applicationId: application.id,
+          tagNumber: license.tagNumber,
+          dogName: dog.name,
+          ownerName: application.owner.name,
+          status: application.status,
+        },
+      ]
+    })
+  })
+}
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { issueCode, verifyCode } from "@/lib/server/otp-store"
+import { createMemoryStorageAdapter, setStorageAdapter } from "@/lib/server/storage"
+
+const email = "pat@example.com"
+
+async function issue(): Promise<string> {
+  const issued = await issueCode(email)
+  if (!issued.ok) throw new Error("expected a code")
+  return issued.code
+}
+
+function wrong(code: string): string {
+  return code === "000000" ? "111111" : "000000"
+}
+
+beforeEach(() => {
+  setStorageAdapter(createMemoryStorageAdapter())
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("issueCode", () => {
+  it("issues six digits", async () => {
+    expect(await issue()).toMatch(/^\d{6}$/)
+  })
+
+  it("makes the owner wait before sending another", async () => {
+    await issue()
+    expect(await issueCode(email)).toEqual({ ok: false, retryAfterSeconds: 30 })
+  })
+
+  it("sends one code to parallel first requests", async () => {
+    const results = await Promise.all([issueCode(email), issueCode(email)])
+    expect(results.filter((result) => result.ok)).toHaveLength(1)
+    expect(results.find((result) => !result.ok)).toEqual({ ok: false, retryAfterSeconds: 30 })
+  })
+
+  it("sends at most five codes an hour", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    for (let sent = 0; sent < 5; sent++) {
+      await issue()
+      vi.advanceTimersByTime(60 * 1000)
+    }
+
+    expect(await issueCode(email)).toEqual({ ok: false, retryAfterSeconds: 55 * 60 })
+    vi.advanceTimersByTime(55 * 60 * 1000)
+    expect((await issueCode(email)).ok).toBe(true)
+  })
+})
+
+describe("verifyCode", () => {
+  it("accepts the code once", async () => {
+    const code = await issue()
+    expect(await verifyCode(email, code)).toEqual({ ok: true })
+    expect(await verifyCode(email, code)).toEqual({ ok: false, reason: "expired" })
+  })
+
+  it("rejects a code for another email", async () => {
+    const code = await issue()
+    expect(await verifyCode("sam@example.com", code)).toEqual({ ok: false, reason: "invalid" })
+  })
+
+  it("expires the code after ten minutes", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    const code = await issue()
+    vi.advanceTimersByTime(10 * 60 * 1000 + 1)
+    expect(await verifyCode(email, code)).toEqual({ ok: false, reason: "expired" })
+  })
+
+  it("burns the code after five wrong guesses", async () => {
+    const code = await issue()
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect(await verifyCode(email, wrong(code))).toEqual({ ok: false, reason: "invalid" })
+    }
+    expect(await verifyCode(email, code)).toEqual({ ok: false, reason: "locked" })
+  })
+
+  it("counts parallel guesses against the same limit", async () => {
+    const code = await issue()
+    const guesses = await Promise.all(Array.from({ length: 8 }, () => verifyCode(email, wrong(code))))
+
+    expect(guesses.filter((result) => !result.ok && result.reason === "invalid")).toHaveLength(5)
+    expect(await verifyCode(email, code)).toEqual({ ok: false, reason: "locked" })
+  })
+
+  it("lets only one of two parallel submissions of the code through", async () => {
+    const code = await issue()
+    const results = await Promise.all([verifyCode(email, code), verifyCode(email, code)])
+    expect(results.filter((result) => result.ok)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,108 @@
+import { createHmac, randomInt, timingSafeEqual } from "crypto"
+import { getSecret } from "@/lib/auth/session"
+import { collection } from "@/lib/server/storage"
+
+// ---------- One-Time Passcodes ----------
+// One outstanding code per email. Only an HMAC of the code is stored.
+
+export const OTP_LENGTH = 6
+const OTP_TTL_MS = 10 * 60 * 1000
+const RESEND_COOLDOWN_MS = 30 * 1000
+const MAX_ATTEMPTS = 5
+// Each code comes with fresh attempts, so the number of codes is limited too.
+const ISSUE_WINDOW_MS = 60 * 60 * 1000
+const MAX_CODES_PER_WINDOW = 5
+
+interface OtpRecord {
+  id: string // normalized email
+  codeHash: string
+  issuedAt: string
+  expiresAt: string
+  attempts: number
+  // When each code of the last ISSUE_WINDOW_MS was issued, oldest first.
+  // Absent on records from before the limit.
+  recentIssues?: string[]
+}
+
+const codes = collection<OtpRecord>("otp_codes")
+
+function hashCode(email: string, code: string): string {
+  return createHmac("sha256", getSecret())
+    .update(`${email}:${code}`)
+    .digest("hex")
+}
+
+export type IssueCodeResult = { ok: true; code: string } | { ok: false; retryAfterSeconds: number }
+
+// The limits are checked and the code recorded in one update, so parallel
+// requests can't get past them.
+export async function issueCode(email: string): Promise<IssueCodeResult> {
+  const now = Date.now()
+  const issuedAt = new Date(now).toISOString()
+  const code = String(randomInt(0, 10 ** OTP_LENGTH)).padStart(OTP_LENGTH, "0")
+  const issue = (recentIssues: string[]): OtpRecord => ({
+    id: email,
+    codeHash: hashCode(email, code),
+    issuedAt,
+    expiresAt: new Date(now + OTP_TTL_MS).toISOString(),
+    attempts: 0,
+    recentIssues: [...recentIssues, issuedAt],
+  })
+
+  let wait = 0
+  const updated = await codes.update(email, (existing) => {
+    const sinceLast = now - Date.parse(existing.issuedAt)
+    if (sinceLast < RESEND_COOLDOWN_MS) {
+      wait = RESEND_COOLDOWN_MS - sinceLast
+      return existing
+    }
+    const recent = (existing.recentIssues ?? [existing.issuedAt]).filter((at) => now - Date.parse(at) < ISSUE_WINDOW_MS)
+    if (recent.length >= MAX_CODES_PER_WINDOW) {
+      wait = ISSUE_WINDOW_MS - (now - Date.parse(recent[0]))
+      return existing
+    }
+    return issue(recent)
+  })
+
+  if (!updated) {
+    try {
+      await codes.insert(issue([]))
+    } catch (error) {
+      // Another request issued this email's first code; check the limits again.
+      if (await codes.get(email)) return issueCode(email)
+      throw error
+    }
+  }
+  if (wait > 0) return { ok: false, retryAfterSeconds: Math.ceil(wait / 1000) }
+  return { ok: true, code }
+}
+
+export type VerifyCodeResult = { ok: true } | { ok: false; reason: "invalid" | "expired" | "locked" }
+
+// A code can be used once. Too many wrong guesses burn it. The check and its
+// outcome are recorded in one update, so parallel guesses can't get past the
+// attempt limit and two submissions of the right code can't both succeed.
+export async function verifyCode(email: string, code: string): Promise<VerifyCodeResult> {
+  let result: VerifyCodeResult = { ok: false, reason: "invalid" }
+  await codes.update(email, (record) => {
+    if (Date.parse(record.expiresAt) < Date.now()) {
+      result = { ok: false, reason: "expired" }
+      return record
+    }
+    if (record.attempts >= MAX_ATTEMPTS) {
+      result = { ok: false, reason: "locked" }
+      return record
+    }
+
+    const expected = Buffer.from(record.codeHash, "hex")
+    const actual = Buffer.from(hashCode(email, code), "hex")
+    if (!timingSafeEqual(expected, actual)) {
+      return { ...record, attempts: record.attempts + 1 }
+    }
+
+    // Expire immediately so the code cannot be replayed.
+    result = { ok: true }
+    return { ...record, expiresAt: new Date(0).toISOString() }
+  })
+  return result
+}
@@ -0,0 +1,113 @@
+import { randomUUID } from "crypto"
+import { cardBrand, type PaymentCard } from "@/lib/payments"
+
+// ---------- Payment Providers ----------
+// The checkout talks to a PaymentProvider so a real gateway can be plugged in
+// with setPaymentProvider. Amounts are integer cents.
+
+export interface ChargeRequest {
+  amount: number
+  currency: string
+  card: PaymentCard
+  reference: string // application id, shown on the provider's dashboard
+  idempotencyKey: string
+}
+
+export type ChargeResult =
+  | { status: "captured"; providerRef: string; cardBrand: string; cardLast4: string }
+  | { status: "declined"; providerRef: string; message: string }
+  // The card issuer wants the cardholder to verify the payment (3-D Secure).
+  | { status: "requires_action"; providerRef: string; prompt: string }
+
+export type RefundResult = { ok: true } | { ok: false; message: string }
+
+export interface PaymentProvider {
+  name: string
+  charge(request: ChargeRequest): Promise<ChargeResult>
+  // Answers a requires_action challenge; resolves to captured or declined.
+  completeChallenge(providerRef: string, response: string): Promise<ChargeResult>
+  refund(providerRef: string, amount: number): Promise<RefundResult>
+}
+
+// ---------- Fake Provider ----------
+// Deterministic outcomes keyed on the card number, like the test cards real
+// gateways publish. Any other valid card number succeeds.
+export const FAKE_PROVIDER_CARDS = {
+  success: "4242424242424242",
+  declined: "4000000000000002",
+  insufficientFunds: "4000000000009995",
+  challenge: "4000002500003155",
+} as const
+
+export const FAKE_CHALLENGE_CODE = "123456"
+
+interface PendingChallenge {
+  cardBrand: string
+  cardLast4: string
+}
+
+export function createFakePaymentProvider(): PaymentProvider {
+  const challenges = new Map<string, PendingChallenge>()
+
+  return {
+    name: "fake",
+
+    async charge({ card }) {
+      const providerRef = `fake_${randomUUID()}`
+      const brand = cardBrand(card.cardNumber)
+      const last4 = card.cardNumber.slice(-4)
+
+      switch (card.cardNumber) {
+        case FAKE_PROVIDER_CARDS.declined:
+          return { status: "declined", providerRef, message: "Your card was declined." }
+        case FAKE_PROVIDER_CARDS.insufficientFunds:
+          return { status: "declined", providerRef, message: "Your card has insufficient funds." }
+        case FAKE_PROVIDER_CARDS.challenge:
+          challenges.set(providerRef, { cardBrand: brand, cardLast4: last4 })
+          return {
+            status: "requires_action",
+            providerRef,
+            prompt: `Your bank sent a verification code to the phone on file. (Test code: ${FAKE_CHALLENGE_CODE})`,
+          }
+        default:
+          return { status: "captured", providerRef, cardBrand: brand, cardLast4: last4 }
+      }
+    },
+
+    async completeChallenge(providerRef, response) {
+      const pending = challenges.get(providerRef)
+      if (!pending) return { status: "declined", providerRef, message: "This verification has expired." }
+      challenges.delete(providerRef)
+      if (response.trim() !== FAKE_CHALLENGE_CODE) {
+        return { status: "declined", providerRef, message: "Card verification failed." }
+      }
+      return { status: "captured", providerRef, cardBrand: pending.cardBrand, cardLast4: pending.cardLast4 }
+    },
+
+    // The ledger already limits refunds to what was captured.
+    async refund(providerRef) {
+      return providerRef.startsWith("fake_") ? { ok: true } : { ok: false, message: "Unknown payment reference" }
+    },
+  }
+}
+
+const globalForPayments = globalThis as typeof globalThis & { __dogLicensePayments?: PaymentProvider }
+
+// PAYMENT_PROVIDER selects the gateway. Only "fake" ships with the app; it is
+// the default outside production and must be chosen explicitly in production
+// so a misconfigured deployment can't hand out licenses for test cards.
+export function getPaymentProvider(): PaymentProvider {
+  if (!globalForPayments.__dogLicensePayments) {
+    const configured = process.env.PAYMENT_PROVIDER
+    if (configured === "fake" || (!configured && process.env.NODE_ENV !== "production")) {
+      globalForPayments.__dogLicensePayments = createFakePaymentProvider()
+    } else {
+      throw new Error(`No payment provider configured (PAYMENT_PROVIDER=${configured ?? ""})`)
+    }
+  }
+  return globalForPayments.__dogLicensePayments
+}
+
+export function setPaymentProvider(provider: PaymentProvider): void {
+  globalForPayments.__dogLicensePayments = provider
+}
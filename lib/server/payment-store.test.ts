@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { quoteFee } from "@/lib/fee-schedule"
+import type { PaymentCard } from "@/lib/payments"
+import { createApplication, getApplication } from "@/lib/server/application-store"
+import {
+  createFakePaymentProvider,
+  FAKE_CHALLENGE_CODE,
+  FAKE_PROVIDER_CARDS,
+  setPaymentProvider,
+} from "@/lib/server/payment-provider"
+import { completePaymentChallenge, listPayments, payForApplication, refundPayment } from "@/lib/server/payment-store"
+import { createMemoryStorageAdapter, setStorageAdapter } from "@/lib/server/storage"
+import { testApplicationInput, testDog } from "@/lib/server/test-fixtures"
+
+function card(cardNumber: string = FAKE_PROVIDER_CARDS.success): PaymentCard {
+  return { cardholderName: "Pat Doe", cardNumber, expiry: "12/99", cvc: "123" }
+}
+
+async function draft(): Promise<string> {
+  const fee = quoteFee({ term: 1, spayedNeutered: true })
+  const application = await createApplication(testApplicationInput({ dogs: [testDog({ fee })], fee }))
+  return application.id
+}
+
+beforeEach(() => {
+  setStorageAdapter(createMemoryStorageAdapter())
+  setPaymentProvider(createFakePaymentProvider())
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("payForApplication", () => {
+  it("captures the fee and submits the application", async () => {
+    const id = await draft()
+    const result = await payForApplication(id, card())
+
+    expect(result.ok && result.transaction).toMatchObject({ status: "captured", amount: 1500, cardLast4: "4242" })
+    expect(result.ok && result.application?.status).toBe("submitted")
+    expect((await getApplication(id))?.payment?.receiptNumber).toMatch(/^R-\d{4}-000001$/)
+  })
+
+  it("keeps the draft open for another card after a decline", async () => {
+    const id = await draft()
+    const declined = await payForApplication(id, card(FAKE_PROVIDER_CARDS.declined))
+    expect(declined.ok && declined.transaction.status).toBe("declined")
+    expect((await getApplication(id))?.status).toBe("draft")
+
+    const retried = await payForApplication(id, card())
+    expect(retried.ok && retried.transaction.status).toBe("captured")
+  })
+
+  it("charges only one of two parallel attempts", async () => {
+    const id = await draft()
+    const results = await Promise.all([payForApplication(id, card()), payForApplication(id, card())])
+
+    expect(results.filter((result) => result.ok)).toHaveLength(1)
+    expect(results.find((result) => !result.ok)).toMatchObject({ code: "not_payable" })
+    expect(await listPayments()).toHaveLength(1)
+  })
+
+  it("refuses a second attempt while card verification is pending", async () => {
+    const id = await draft()
+    await payForApplication(id, card(FAKE_PROVIDER_CARDS.challenge))
+
+    expect(await payForApplication(id, card())).toEqual({
+      ok: false,
+      code: "not_payable",
+      message: "A payment for this application is already in progress",
+    })
+  })
+
+  it("refuses an application that is already paid", async () => {
+    const id = await draft()
+    await payForApplication(id, card())
+    expect(await payForApplication(id, card())).toMatchObject({ ok: false, code: "not_payable" })
+  })
+})
+
+describe("completePaymentChallenge", () => {
+  it("submits the application once verified", async () => {
+    const id = await draft()
+    const started = await payForApplication(id, card(FAKE_PROVIDER_CARDS.challenge))
+    if (!started.ok) throw new Error("expected a challenge")
+
+    const completed = await completePaymentChallenge(started.transaction.id, FAKE_CHALLENGE_CODE)
+    expect(completed.ok && completed.application?.status).toBe("submitted")
+  })
+
+  it("checks an answer sent twice only once", async () => {
+    const id = await draft()
+    const started = await payForApplication(id, card(FAKE_PROVIDER_CARDS.challenge))
+    if (!started.ok) throw new Error("expected a challenge")
+
+    const results = await Promise.all([
+      completePaymentChallenge(started.transaction.id, FAKE_CHALLENGE_CODE),
+      completePaymentChallenge(started.transaction.id, FAKE_CHALLENGE_CODE),
+    ])
+    expect(results.filter((result) => result.ok && result.transaction.status === "captured")).toHaveLength(1)
+    expect(results.find((result) => !result.ok)).toMatchObject({ code: "invalid_state" })
+    expect((await listPayments()).map((payment) => payment.status)).toEqual(["captured"])
+  })
+
+  it("refunds a charge verified after another attempt paid", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    const id = await draft()
+    const abandoned = await payForApplication(id, card(FAKE_PROVIDER_CARDS.challenge))
+    if (!abandoned.ok) throw new Error("expected a challenge")
+
+    // The hold lapses, so a second card can pay.
+    vi.advanceTimersByTime(16 * 60 * 1000)
+    await payForApplication(id, card())
+
+    const late = await completePaymentChallenge(abandoned.transaction.id, FAKE_CHALLENGE_CODE)
+    expect(late.ok && late.application).toBeUndefined()
+    expect(late.ok && late.transaction).toMatchObject({
+      status: "refunded",
+      failureMessage: "This application has already been paid for; your card has been refunded",
+    })
+    expect(late.ok && late.transaction.events.at(-1)).toMatchObject({ type: "refunded", actor: "system" })
+  })
+})
+
+describe("refundPayment", () => {
+  it("refunds only captured payments", async () => {
+    const id = await draft()
+    const declined = await payForApplication(id, card(FAKE_PROVIDER_CARDS.declined))
+    const paid = await payForApplication(id, card())
+    if (!declined.ok || !paid.ok) throw new Error("expected both attempts to reach the provider")
+
+    expect(await refundPayment(declined.transaction.id, "Jo (jo@city.gov)")).toMatchObject({
+      ok: false,
+      code: "invalid_state",
+    })
+    const refunded = await refundPayment(paid.transaction.id, "Jo (jo@city.gov)", "Duplicate license")
+    expect(refunded.ok && refunded.transaction.events.at(-1)).toMatchObject({
+      type: "refunded",
+      detail: "Duplicate license",
+      actor: "Jo (jo@city.gov)",
+    })
+  })
+  it("refunds once when two refunds race", async () => {
+    const provider = createFakePaymentProvider()
+    const refund = vi.spyOn(provider, "refund")
+    setPaymentProvider(provider)
+    const paid = await payForApplication(await draft(), card())
+    if (!paid.ok) throw new Error("expected a capture")
+
+    const results = await Promise.all([
+      refundPayment(paid.transaction.id, "Jo (jo@city.gov)"),
+      refundPayment(paid.transaction.id, "Sam (sam@city.gov)"),
+    ])
+    expect(results.filter((result) => result.ok)).toHaveLength(1)
+    expect(results.find((result) => !result.ok)).toMatchObject({
+      code: "invalid_state",
+      message: "A refund for this payment is already in progress",
+    })
+    expect(refund).toHaveBeenCalledTimes(1)
+  })
+
+  it("can be tried again after the provider refuses", async () => {
+    const provider = createFakePaymentProvider()
+    vi.spyOn(provider, "refund").mockResolvedValueOnce({ ok: false, message: "Gateway timeout" })
+    setPaymentProvider(provider)
+    const paid = await payForApplication(await draft(), card())
+    if (!paid.ok) throw new Error("expected a capture")
+
+    expect(await refundPayment(paid.transaction.id, "Jo (jo@city.gov)")).toMatchObject({ code: "provider_error" })
+    expect((await refundPayment(paid.transaction.id, "Jo (jo@city.gov)")).ok).toBe(true)
+  })
+})
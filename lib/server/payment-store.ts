@@ -0,0 +1,275 @@
+import { randomUUID } from "crypto"
+import type { DogLicenseApplication } from "@/lib/applications"
+import type { PaymentCard, PaymentEvent, PaymentSummary, PaymentTransaction } from "@/lib/payments"
+import { holdForPayment, recordPayment, releasePaymentHold } from "@/lib/server/application-store"
+import { getPaymentProvider, type ChargeResult } from "@/lib/server/payment-provider"
+import { nextSequence } from "@/lib/server/sequences"
+import { collection } from "@/lib/server/storage"
+import { toISODateStringLocal } from "@/lib/utils"
+
+// ---------- Payment Ledger ----------
+// Every charge attempt is recorded, successful or not, so the ledger can be
+// reconciled against the provider's settlement reports.
+const transactions = collection<PaymentTransaction>("payments")
+
+export type PaymentErrorCode = "not_found" | "not_payable" | "invalid_state" | "provider_error"
+
+export type PaymentResult =
+  | { ok: true; transaction: PaymentTransaction; application?: DogLicenseApplication }
+  | { ok: false; code: PaymentErrorCode; message: string }
+
+// How route handlers report each failure.
+export const PAYMENT_ERROR_STATUS: Record<PaymentErrorCode, number> = {
+  not_found: 404,
+  not_payable: 409,
+  invalid_state: 409,
+  provider_error: 502,
+}
+
+// "R-2025-000042": sequential per calendar year.
+async function nextReceiptNumber(now: Date): Promise<string> {
+  const year = now.getFullYear()
+  const sequence = await nextSequence(`receipt-${year}`)
+  return `R-${year}-${String(sequence).padStart(6, "0")}`
+}
+
+function event(type: PaymentEvent["type"], detail?: string, actor?: string): PaymentEvent {
+  return { type, at: new Date().toISOString(), detail, actor }
+}
+
+async function appendEvent(
+  id: string,
+  change: Partial<PaymentTransaction>,
+  entry: PaymentEvent,
+): Promise<PaymentTransaction> {
+  const updated = await transactions.update(id, (transaction) => ({
+    ...transaction,
+    ...change,
+    updatedAt: entry.at,
+    events: [...transaction.events, entry],
+  }))
+  if (!updated) throw new Error(`Payment ${id} disappeared`)
+  return updated
+}
+
+type ClaimResult =
+  | { ok: true; transaction: PaymentTransaction }
+  | { ok: false; code: PaymentErrorCode; message: string }
+
+// Checks and claims the transaction in one update, so of two requests for the
+// same change only one goes on to call the provider. `claim` returns the
+// change to make, or why the transaction can't take it.
+async function claimTransaction(
+  id: string,
+  claim: (transaction: PaymentTransaction) => Partial<PaymentTransaction> | string,
+): Promise<ClaimResult> {
+  let failure: string | null = null
+  const updated = await transactions.update(id, (transaction) => {
+    const change = claim(transaction)
+    if (typeof change === "string") {
+      failure = change
+      return transaction
+    }
+    return { ...transaction, ...change }
+  })
+
+  if (!updated) return { ok: false, code: "not_found", message: `Payment ${id} not found` }
+  if (failure) return { ok: false, code: "invalid_state", message: failure }
+  return { ok: true, transaction: updated }
+}
+
+// How long a refund in progress blocks another. One cut short by a crash can
+// be tried again after this.
+const REFUND_HOLD_MS = 15 * 60 * 1000
+
+// A charge the application can't take, say because the hold on it lapsed and
+// another attempt paid first, is refunded straight away. If the refund fails
+// too, the charge is flagged for staff to settle from the ledger.
+async function refundUnapplied(transaction: PaymentTransaction, reason: string): Promise<PaymentTransaction> {
+  const detail = `Not applied to the application: ${reason}`
+  const refund = await getPaymentProvider()
+    .refund(transaction.providerRef ?? "", transaction.amount)
+    .catch((error: unknown) => ({ ok: false as const, message: error instanceof Error ? error.message : String(error) }))
+
+  if (refund.ok) {
+    return appendEvent(
+      transaction.id,
+      { status: "refunded", failureMessage: "This application has already been paid for; your card has been refunded" },
+      event("refunded", detail, "system"),
+    )
+  }
+  return appendEvent(
+    transaction.id,
+    { failureMessage: "This application has already been paid for; contact us about a refund" },
+    event("unapplied", `${detail}. Refund failed: ${refund.message}`),
+  )
+}
+
+// Records what the provider said and, once captured, submits the application.
+async function settle(transaction: PaymentTransaction, result: ChargeResult): Promise<PaymentResult> {
+  if (result.status === "declined") {
+    const declined = await appendEvent(
+      transaction.id,
+      { status: "declined", providerRef: result.providerRef, failureMessage: result.message },
+      event("declined", result.message),
+    )
+    await releasePaymentHold(transaction.applicationId, transaction.id)
+    return { ok: true, transaction: declined }
+  }
+
+  if (result.status === "requires_action") {
+    const challenged = await appendEvent(
+      transaction.id,
+      { status: "requires_action", providerRef: result.providerRef, challengePrompt: result.prompt },
+      event("challenge", result.prompt),
+    )
+    return { ok: true, transaction: challenged }
+  }
+
+  const paidAt = new Date()
+  const receiptNumber = await nextReceiptNumber(paidAt)
+  const captured = await appendEvent(
+    transaction.id,
+    {
+      status: "captured",
+      providerRef: result.providerRef,
+      cardBrand: result.cardBrand,
+      cardLast4: result.cardLast4,
+      receiptNumber,
+      challengePrompt: undefined,
+    },
+    event("captured", receiptNumber),
+  )
+
+  const summary: PaymentSummary = {
+    transactionId: captured.id,
+    receiptNumber,
+    amount: captured.amount,
+    currency: captured.currency,
+    paidAt: paidAt.toISOString(),
+    cardBrand: captured.cardBrand,
+    cardLast4: captured.cardLast4,
+  }
+  const submitted = await recordPayment(captured.applicationId, summary)
+  if (!submitted.ok) return { ok: true, transaction: await refundUnapplied(captured, submitted.message) }
+  return { ok: true, transaction: captured, application: submitted.application }
+}
+
+export async function payForApplication(applicationId: string, card: PaymentCard): Promise<PaymentResult> {
+  const id = `PAY-${randomUUID()}`
+  const held = await holdForPayment(applicationId, id)
+  if (!held.ok) return held
+  const { fee } = held.application
+  if (!fee) return { ok: false, code: "not_payable", message: "This application has no fee to pay" }
+
+  const provider = getPaymentProvider()
+  const now = new Date().toISOString()
+  const transaction = await transactions.insert({
+    id,
+    applicationId,
+    provider: provider.name,
+    status: "pending",
+    amount: fee.total,
+    currency: fee.currency,
+    createdAt: now,
+    updatedAt: now,
+    events: [{ type: "created", at: now }],
+  })
+
+  try {
+    const result = await provider.charge({
+      amount: transaction.amount,
+      currency: transaction.currency,
+      card,
+      reference: applicationId,
+      idempotencyKey: transaction.id,
+    })
+    return settle(transaction, result)
+  } catch (error) {
+    console.error(`Payment ${transaction.id} failed at the provider:`, error)
+    await appendEvent(
+      transaction.id,
+      { status: "declined", failureMessage: "Payment provider error" },
+      event("declined", "Payment provider error"),
+    )
+    await releasePaymentHold(applicationId, transaction.id)
+    return { ok: false, code: "provider_error", message: "The payment could not be processed. Please try again." }
+  }
+}
+
+// The challenge is claimed by moving the payment back to pending while the
+// provider checks the answer, so an answer sent twice is only checked once.
+export async function completePaymentChallenge(transactionId: string, response: string): Promise<PaymentResult> {
+  const claimed = await claimTransaction(transactionId, (transaction) =>
+    transaction.status === "requires_action" && transaction.providerRef
+      ? { status: "pending" }
+      : "This payment is not awaiting verification",
+  )
+  if (!claimed.ok) return claimed
+  const { transaction } = claimed
+
+  try {
+    const result = await getPaymentProvider().completeChallenge(transaction.providerRef ?? "", response)
+    return settle(transaction, result)
+  } catch (error) {
+    console.error(`Payment ${transaction.id} challenge failed at the provider:`, error)
+    await transactions.update(transaction.id, (current) =>
+      current.status === "pending" ? { ...current, status: "requires_action" } : current,
+    )
+    return { ok: false, code: "provider_error", message: "The payment could not be verified. Please try again." }
+  }
+}
+
+export async function refundPayment(transactionId: string, actor: string, reason?: string): Promise<PaymentResult> {
+  const now = new Date()
+  const claimed = await claimTransaction(transactionId, (transaction) => {
+    if (transaction.status !== "captured" || !transaction.providerRef) return "Only captured payments can be refunded"
+    const started = transaction.refundStartedAt
+    if (started && now.getTime() - Date.parse(started) < REFUND_HOLD_MS) {
+      return "A refund for this payment is already in progress"
+    }
+    return { refundStartedAt: now.toISOString() }
+  })
+  if (!claimed.ok) return claimed
+  const { transaction } = claimed
+
+  const result = await getPaymentProvider()
+    .refund(transaction.providerRef ?? "", transaction.amount)
+    .catch((error: unknown) => ({ ok: false as const, message: error instanceof Error ? error.message : String(error) }))
+  if (!result.ok) {
+    await transactions.update(transaction.id, (current) => ({ ...current, refundStartedAt: undefined }))
+    return { ok: false, code: "provider_error", message: result.message }
+  }
+
+  const refunded = await appendEvent(
+    transaction.id,
+    { status: "refunded", refundStartedAt: undefined },
+    event("refunded", reason?.trim() || undefined, actor),
+  )
+  return { ok: true, transaction: refunded }
+}
+
+export interface PaymentListFilter {
+  status?: PaymentTransaction["status"]
+  // Inclusive "YYYY-MM-DD" bounds on when the attempt was made
+  from?: string
+  to?: string
+}
+
+// Newest first.
+export async function listPayments(filter: PaymentListFilter = {}): Promise<PaymentTransaction[]> {
+  const records = await transactions.list()
+  return records
+    .filter((transaction) => {
+      const day = toISODateStringLocal(new Date(transaction.createdAt))
+      if (filter.status && transaction.status !== filter.status) return false
+      if (filter.from && day < filter.from) return false
+      if (filter.to && day > filter.to) return false
+      return true
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getPayment(id: string): Promise<PaymentTransaction | null> {
+  return transactions.get(id)
+}
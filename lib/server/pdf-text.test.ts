@@ -0,0 +1,77 @@
+import { deflateSync } from "zlib"
+import { describe, expect, it } from "vitest"
+import { extractPdfText } from "@/lib/server/pdf-text"
+
+interface Stream {
+  data: Buffer | string
+  dictionary?: string
+}
+
+// Just the stream objects; the reader doesn't need a page tree or xref.
+function pdf(...streams: Stream[]): Buffer {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n", "latin1")]
+  streams.forEach(({ data, dictionary = "" }, index) => {
+    const bytes = typeof data === "string" ? Buffer.from(data, "latin1") : data
+    parts.push(Buffer.from(`${index + 1} 0 obj\n<< /Length ${bytes.length} ${dictionary}>>\nstream\n`, "latin1"))
+    parts.push(bytes, Buffer.from("\nendstream\nendobj\n", "latin1"))
+  })
+  parts.push(Buffer.from("%%EOF\n", "latin1"))
+  return Buffer.concat(parts)
+}
+
+const text = (value: string, y = 700, x = 72) => `BT /F1 12 Tf ${x} ${y} Td (${value}) Tj ET`
+
+describe("extractPdfText", () => {
+  it("reads uncompressed and FlateDecode content streams", () => {
+    const compressed = deflateSync(Buffer.from(text("Rabies Tag: 12345"), "latin1"))
+
+    expect(extractPdfText(pdf({ data: text("Vaccination Date: 01/10/2026") }))).toBe("Vaccination Date: 01/10/2026")
+    expect(extractPdfText(pdf({ data: compressed, dictionary: "/Filter /FlateDecode " }))).toBe("Rabies Tag: 12345")
+  })
+
+  it("lays runs out top-down and left to right, one line per baseline", () => {
+    const content = [text("Lot: A1", 650), text("Manufacturer:", 700), text("Zoetis", 701, 200)].join("\n")
+    expect(extractPdfText(pdf({ data: content }))).toBe("Manufacturer: Zoetis\nLot: A1")
+  })
+
+  it("measures a line from its first run, so lines don't creep down the page", () => {
+    const content = [text("One", 700), text("Two", 698, 200), text("Three", 696, 300)].join("\n")
+    expect(extractPdfText(pdf({ data: content }))).toBe("One Two\nThree")
+  })
+
+  it("stops reading after 10,000 runs of text", () => {
+    const runs = "BT 72 700 Td " + "0 -5 Td (a) Tj ".repeat(80_000) + "ET"
+    const found = extractPdfText(pdf({ data: runs }, { data: text("Vaccination Date: 01/10/2026") }))
+    expect(found.split("\n")).toEqual(new Array(10_000).fill("a"))
+  })
+
+  it("reads hex strings, escapes and spaced TJ arrays", () => {
+    const content = "BT 72 700 Td <5265> Tj (x \\(Buddy\\)) Tj ET\nBT 72 650 Td [(Rabies)-300(T)20(ag)] TJ ET"
+    expect(extractPdfText(pdf({ data: content }))).toBe("Rex (Buddy)\nRabies Tag")
+  })
+
+  it("skips images and streams in other encodings", () => {
+    const found = extractPdfText(
+      pdf(
+        { data: text("Scanned"), dictionary: "/Subtype /Image " },
+        { data: text("Encoded"), dictionary: "/Filter /DCTDecode " },
+        { data: text("Readable") },
+      ),
+    )
+    expect(found).toBe("Readable")
+  })
+
+  it("skips a stream that would inflate past the limit", () => {
+    const bomb = deflateSync(Buffer.from(text("Bomb").padEnd(8 * 1024 * 1024, " "), "latin1"))
+    expect(bomb.length).toBeLessThan(64 * 1024)
+
+    const found = extractPdfText(
+      pdf({ data: bomb, dictionary: "/Filter /FlateDecode " }, { data: text("Vaccination Date: 01/10/2026") }),
+    )
+    expect(found).toBe("Vaccination Date: 01/10/2026")
+  })
+
+  it("finds nothing in a PDF without a text layer", () => {
+    expect(extractPdfText(Buffer.from("%PDF-1.4\n%%EOF\n"))).toBe("")
+  })
+})
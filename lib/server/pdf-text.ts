@@ -0,0 +1,303 @@
+import { inflateSync } from "zlib"
+
+// ---------- Minimal PDF Text Reader ----------
+// The counterpart to pdf.ts: pulls the text layer out of simple PDFs such as
+// the certificates vet clinics print from their practice software. Content
+// streams are read in file order, uncompressed or FlateDecode. Text drawn with
+// simple fonts is recovered; embedded fonts with custom encodings and scanned
+// images are not, and yield little or no text.
+
+interface TextRun {
+  x: number
+  y: number
+  text: string
+}
+
+// Pages are laid out top-down, so runs within this many points of each other
+// vertically are treated as one line.
+const LINE_TOLERANCE = 3
+
+// TJ offsets are in thousandths of an em; a gap wider than this reads as a space.
+const WORD_GAP = 200
+
+// Content streams inflated from a single upload, in total. A certificate's
+// text is a few kilobytes; a small compressed stream can otherwise expand to
+// gigabytes.
+const MAX_CONTENT_BYTES = 4 * 1024 * 1024 // 4MB
+
+// Runs of text read from a single upload, in total. A certificate has a few
+// hundred; past this the rest of the content is ignored.
+const MAX_TEXT_RUNS = 10_000
+
+function contentStreams(pdf: Buffer): Buffer[] {
+  const source = pdf.toString("latin1")
+  const streams: Buffer[] = []
+  let remaining = MAX_CONTENT_BYTES
+  const streamPattern = /stream\r?\n/g
+  let match: RegExpExecArray | null
+
+  while (remaining > 0 && (match = streamPattern.exec(source))) {
+    const start = match.index + match[0].length
+    const end = source.indexOf("endstream", start)
+    if (end === -1) break
+    streamPattern.lastIndex = end + "endstream".length
+
+    // The stream's dictionary sits between the object header and "stream".
+    const header = source.slice(source.lastIndexOf(" obj", match.index), match.index)
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(XRef|ObjStm|Metadata)/.test(header)) continue
+    const filters = header.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? ""
+    if (filters && filters.replace(/[[\]\s]/g, "") !== "/FlateDecode") continue
+
+    let data = pdf.subarray(start, end)
+    if (filters) {
+      try {
+        // Throws once the output would pass the limit, like any other bad stream.
+        data = inflateSync(data, { maxOutputLength: remaining })
+      } catch {
+        continue
+      }
+    }
+    if (data.length > remaining) break
+    remaining -= data.length
+    streams.push(data)
+  }
+  return streams
+}
+
+// ---------- Content Stream Tokens ----------
+type Operand = number | string | Operand[]
+
+const DELIMITERS = "()<>[]{}/%"
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" }
+
+function isWhitespace(char: string): boolean {
+  return char === " " || char === "\n" || char === "\r" || char === "\t" || char === "\f" || char === "\0"
+}
+
+class Tokenizer {
+  private position = 0
+
+  constructor(private readonly source: string) {}
+
+  // Next operand or operator, or null at the end of the stream. Operators come
+  // back as { operator }.
+  next(): Operand | { operator: string } | null {
+    this.skipWhitespace()
+    if (this.position >= this.source.length) return null
+    const char = this.source[this.position]
+
+    if (char === "(") return this.literalString()
+    if (char === "<" && this.source[this.position + 1] !== "<") return this.hexString()
+    if (char === "[") {
+      this.position++
+      const items: Operand[] = []
+      for (;;) {
+        this.skipWhitespace()
+        if (this.position >= this.source.length || this.source[this.position] === "]") break
+        const item = this.next()
+        if (item === null) break
+        if (typeof item === "object" && "operator" in item) continue
+        items.push(item)
+      }
+      this.position++
+      return items
+    }
+    if (char === "/") {
+      this.position++
+      return `/${this.word()}`
+    }
+    if (char === "<" || char === ">" || char === "]" || char === "{" || char === "}") {
+      this.position += char === "<" || char === ">" ? 2 : 1
+      return { operator: char }
+    }
+
+    const word = this.word()
+    if (!word) {
+      this.position++
+      return { operator: char }
+    }
+    const value = Number(word)
+    return Number.isFinite(value) && /^[+-]?(\d+\.?\d*|\.\d+)$/.test(word) ? value : { operator: word }
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.source.length) {
+      const char = this.source[this.position]
+      if (char === "%") {
+        while (this.position < this.source.length && this.source[this.position] !== "\n") this.position++
+      } else if (isWhitespace(char)) {
+        this.position++
+      } else {
+        break
+      }
+    }
+  }
+
+  private word(): string {
+    const start = this.position
+    while (this.position < this.source.length) {
+      const char = this.source[this.position]
+      if (isWhitespace(char) || DELIMITERS.includes(char)) break
+      this.position++
+    }
+    return this.source.slice(start, this.position)
+  }
+
+  private literalString(): string {
+    let depth = 0
+    let out = ""
+    while (this.position < this.source.length) {
+      const char = this.source[this.position++]
+      if (char === "\\") {
+        const escaped = this.source[this.position++] ?? ""
+        if (ESCAPES[escaped]) out += ESCAPES[escaped]
+        else if (/[0-7]/.test(escaped)) {
+          let octal = escaped
+          while (octal.length < 3 && /[0-7]/.test(this.source[this.position] ?? "")) octal += this.source[this.position++]
+          out += String.fromCharCode(parseInt(octal, 8))
+        } else if (escaped !== "\n" && escaped !== "\r") out += escaped
+      } else if (char === "(") {
+        if (depth++ > 0) out += char
+      } else if (char === ")") {
+        if (--depth === 0) break
+        out += char
+      } else {
+        out += char
+      }
+    }
+    return out
+  }
+
+  private hexString(): string {
+    const end = this.source.indexOf(">", this.position)
+    const hex = this.source.slice(this.position + 1, end === -1 ? undefined : end).replace(/[^0-9a-fA-F]/g, "")
+    this.position = end === -1 ? this.source.length : end + 1
+    const padded = hex.length % 2 ? `${hex}0` : hex
+    // Two-byte strings are usually UTF-16 (with a BOM) from Unicode-aware writers.
+    if (padded.toLowerCase().startsWith("feff")) {
+      let out = ""
+      for (let index = 4; index + 4 <= padded.length; index += 4) {
+        out += String.fromCharCode(parseInt(padded.slice(index, index + 4), 16))
+      }
+      return out
+    }
+    let out = ""
+    for (let index = 0; index < padded.length; index += 2) out += String.fromCharCode(parseInt(padded.slice(index, index + 2), 16))
+    return out
+  }
+}
+
+// ---------- Text Layout ----------
+// Tracks just enough of the text state (line start and leading) to know where
+// each run of text begins. Transforms other than translation are ignored.
+// Stops once maxRuns runs have been read.
+function readRuns(content: string, maxRuns: number): TextRun[] {
+  const runs: TextRun[] = []
+  const tokens = new Tokenizer(content)
+  let operands: Operand[] = []
+  let lineX = 0
+  let lineY = 0
+  let leading = 0
+  let current: TextRun | null = null
+
+  const moveTo = (x: number, y: number) => {
+    lineX = x
+    lineY = y
+    current = null
+  }
+  const show = (text: string) => {
+    if (!text) return
+    if (!current) {
+      current = { x: lineX, y: lineY, text: "" }
+      runs.push(current)
+    }
+    current.text += text
+  }
+  const nums = () => operands.filter((operand): operand is number => typeof operand === "number")
+
+  for (let token = tokens.next(); token !== null && runs.length < maxRuns; token = tokens.next()) {
+    if (typeof token !== "object" || Array.isArray(token)) {
+      operands.push(token)
+      continue
+    }
+
+    const args = nums()
+    switch (token.operator) {
+      case "BT":
+        moveTo(0, 0)
+        break
+      case "Td":
+        if (args.length >= 2) moveTo(lineX + args[args.length - 2], lineY + args[args.length - 1])
+        break
+      case "TD":
+        if (args.length >= 2) {
+          leading = -args[args.length - 1]
+          moveTo(lineX + args[args.length - 2], lineY + args[args.length - 1])
+        }
+        break
+      case "Tm":
+        if (args.length >= 6) moveTo(args[args.length - 2], args[args.length - 1])
+        break
+      case "TL":
+        if (args.length >= 1) leading = args[args.length - 1]
+        break
+      case "T*":
+        moveTo(lineX, lineY - leading)
+        break
+      case "Tj":
+        show(String(operands[operands.length - 1] ?? ""))
+        break
+      case "'":
+      case '"':
+        moveTo(lineX, lineY - leading)
+        show(String(operands[operands.length - 1] ?? ""))
+        break
+      case "TJ": {
+        const items = operands[operands.length - 1]
+        if (Array.isArray(items)) {
+          show(
+            items
+              .map((item) => (typeof item === "number" ? (item < -WORD_GAP ? " " : "") : String(item)))
+              .join(""),
+          )
+        }
+        break
+      }
+    }
+    operands = []
+  }
+  return runs
+}
+
+// One pass over the runs sorted top-down: a run joins the line above it when
+// it is within LINE_TOLERANCE of that line's first run, and starts a new line
+// otherwise. No earlier line can be closer, so only the last needs checking.
+function layoutLines(runs: TextRun[]): string[] {
+  const lines: TextRun[][] = []
+  for (const run of [...runs].sort((a, b) => b.y - a.y || a.x - b.x)) {
+    const line = lines[lines.length - 1]
+    if (line && line[0].y - run.y <= LINE_TOLERANCE) line.push(run)
+    else lines.push([run])
+  }
+  return lines.map((line) =>
+    line
+      .sort((a, b) => a.x - b.x)
+      .map((run) => run.text.trim())
+      .filter(Boolean)
+      .join(" "),
+  )
+}
+
+// The document's text, one line per line of print. Empty when the PDF has no
+// readable text layer.
+export function extractPdfText(pdf: Buffer): string {
+  const lines: string[] = []
+  let remaining = MAX_TEXT_RUNS
+  for (const stream of contentStreams(pdf)) {
+    if (remaining <= 0) break
+    const runs = readRuns(stream.toString("latin1"), remaining)
+    remaining -= runs.length
+    lines.push(...layoutLines(runs))
+  }
+  return lines.filter((line) => line.trim()).join("\n")
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+import { fitText, renderPdf, textWidth } from "@/lib/server/pdf"
+import { extractPdfText } from "@/lib/server/pdf-text"
+
+describe("fitText", () => {
+  it("leaves text that fits alone", () => {
+    expect(fitText("Rex", 100, 11)).toBe("Rex")
+  })
+
+  it("shortens text that doesn't fit with an ellipsis", () => {
+    const fitted = fitText("Sir Reginald Barksalot the Third of Springfield", 100, 11)
+    expect(fitted).toMatch(/^Sir Reginald.*…$/)
+    expect(textWidth(fitted, 11)).toBeLessThanOrEqual(100)
+  })
+
+  it("measures bold text wider", () => {
+    expect(textWidth("Springfield", 11, true)).toBeGreaterThan(textWidth("Springfield", 11))
+  })
+})
+
+describe("renderPdf", () => {
+  it("points every cross-reference entry at its object", () => {
+    const pdf = renderPdf([(page) => page.text(54, 100, "One"), (page) => page.text(54, 100, "Two")])
+    const text = pdf.toString("latin1")
+    const xref = Number(/startxref\n(\d+)/.exec(text)?.[1])
+    expect(text.slice(xref, xref + 4)).toBe("xref")
+
+    const offsets = [...text.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]))
+    offsets.forEach((offset, index) => expect(text.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj\n`)))
+    expect(text).toContain("/Count 2")
+  })
+
+  it("escapes text so it reads back unchanged", () => {
+    const pdf = renderPdf([(page) => page.text(54, 100, "Rex (Buddy) \\ Beagle")])
+    expect(extractPdfText(pdf)).toBe("Rex (Buddy) \\ Beagle")
+  })
+
+  it("replaces characters the standard fonts can't show", () => {
+    const pdf = renderPdf([(page) => page.text(54, 100, "Café 🐕")])
+    expect(extractPdfText(pdf)).toBe("Café ?")
+  })
+})
@@ -0,0 +1,153 @@
+// ---------- Minimal PDF Writer ----------
+// Just enough of PDF 1.4 to lay out text, lines and boxes on letter-size pages
+// using the built-in Helvetica fonts, so documents can be generated without a
+// rendering service or native dependency. Coordinates are in points (1/72 in)
+// from the top-left corner of the page.
+
+export const PAGE_WIDTH = 612
+export const PAGE_HEIGHT = 792
+
+export type Rgb = [number, number, number] // each 0-1
+
+const BLACK: Rgb = [0, 0, 0]
+
+export interface TextOptions {
+  size?: number
+  bold?: boolean
+  align?: "left" | "center" | "right"
+  color?: Rgb
+}
+
+export interface PdfPage {
+  text(x: number, y: number, value: string, options?: TextOptions): void
+  line(x1: number, y1: number, x2: number, y2: number, width?: number): void
+  rect(x: number, y: number, width: number, height: number, options?: { lineWidth?: number; fill?: Rgb }): void
+}
+
+// Advance widths (per 1000 em) for characters 32-126, from the standard AFM files.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+]
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a slot for.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "—": 0x97, // em dash
+  "–": 0x96, // en dash
+  "•": 0x95, // bullet
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "…": 0x85, // ellipsis
+}
+
+// Maps to single WinAnsi bytes, held in a latin1 string; anything else becomes "?".
+function toWinAnsi(value: string): string {
+  let out = ""
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 63
+    if (WIN_ANSI_EXTRAS[char] !== undefined) out += String.fromCharCode(WIN_ANSI_EXTRAS[char])
+    else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) out += char
+    else out += "?"
+  }
+  return out
+}
+
+export function textWidth(value: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  let total = 0
+  for (const char of toWinAnsi(value)) {
+    const code = char.charCodeAt(0)
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556
+  }
+  return (total * size) / 1000
+}
+
+// Shortens text with an ellipsis so it fits within maxWidth.
+export function fitText(value: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(value, size, bold) <= maxWidth) return value
+  let end = value.length
+  while (end > 0 && textWidth(`${value.slice(0, end)}…`, size, bold) > maxWidth) end--
+  return `${value.slice(0, end).trimEnd()}…`
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)")
+}
+
+const num = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(2))
+const rgb = ([r, g, b]: Rgb) => `${num(r)} ${num(g)} ${num(b)}`
+
+function createPage(): { page: PdfPage; content: string[] } {
+  const content: string[] = []
+  const flip = (y: number) => PAGE_HEIGHT - y
+
+  const page: PdfPage = {
+    text(x, y, value, { size = 11, bold = false, align = "left", color = BLACK } = {}) {
+      const width = textWidth(value, size, bold)
+      const left = align === "center" ? x - width / 2 : align === "right" ? x - width : x
+      content.push(
+        `BT /${bold ? "F2" : "F1"} ${num(size)} Tf ${rgb(color)} rg ${num(left)} ${num(flip(y))} Td (${escapeText(toWinAnsi(value))}) Tj ET`,
+      )
+    },
+    line(x1, y1, x2, y2, width = 1) {
+      content.push(`${num(width)} w ${num(x1)} ${num(flip(y1))} m ${num(x2)} ${num(flip(y2))} l S`)
+    },
+    rect(x, y, width, height, { lineWidth = 1, fill } = {}) {
+      const box = `${num(x)} ${num(flip(y + height))} ${num(width)} ${num(height)} re`
+      content.push(fill ? `${rgb(fill)} rg ${box} f 0 0 0 rg` : `${num(lineWidth)} w ${box} S`)
+    },
+  }
+  return { page, content }
+}
+
+// Draws each page with its callback and returns the finished file.
+export function renderPdf(draw: ((page: PdfPage) => void)[], title = "Document"): Buffer {
+  const objects: string[] = []
+  const add = (body: string) => objects.push(body) // object number = index + 1
+
+  add("<< /Type /Catalog /Pages 2 0 R >>")
+  add("") // page tree, filled in once the page objects exist
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>")
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>")
+  add(`<< /Title (${escapeText(toWinAnsi(title))}) /Producer (Dog Licensing) >>`)
+
+  const pageRefs: string[] = []
+  for (const drawPage of draw) {
+    const { page, content } = createPage()
+    drawPage(page)
+    const stream = content.join("\n")
+    add(`<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`)
+    const contentRef = objects.length
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`,
+    )
+    pageRefs.push(`${objects.length} 0 R`)
+  }
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pageRefs.length} >>`
+
+  let output = "%PDF-1.4\n"
+  const offsets: number[] = []
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(output, "latin1"))
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`
+  })
+
+  const xrefOffset = Buffer.byteLength(output, "latin1")
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("")
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  return Buffer.from(output, "latin1")
+}
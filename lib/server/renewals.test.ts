@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { NewApplicationInput } from "@/lib/applications"
+import { quoteFee } from "@/lib/fee-schedule"
+import { createApplication } from "@/lib/server/application-store"
+import { lookupRenewal, renewalLinkFor } from "@/lib/server/renewals"
+import { createMemoryStorageAdapter, setStorageAdapter } from "@/lib/server/storage"
+import { approve, payFor, testApplicationInput, testDog } from "@/lib/server/test-fixtures"
+
+function input(renewalOf?: NewApplicationInput["renewalOf"]): NewApplicationInput {
+  const fee = quoteFee({ term: 1, spayedNeutered: true, discount: "senior" })
+  return testApplicationInput({ owner: { phone: "(217) 555-1234" }, dogs: [testDog({ fee })], fee, renewalOf })
+}
+
+async function pay(id: string) {
+  await payFor(id, { amount: 750 })
+}
+
+// Approved on 2026-03-01, so the license runs to 2027-03-01.
+async function issued(): Promise<string> {
+  const { id } = await createApplication(input())
+  await pay(id)
+  return approve(id)
+}
+
+beforeEach(() => {
+  setStorageAdapter(createMemoryStorageAdapter())
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(new Date(2026, 2, 1, 9))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("lookupRenewal", () => {
+  it("finds the license by tag and the owner's email or phone", async () => {
+    const tagNumber = await issued()
+    vi.setSystemTime(new Date(2027, 0, 15, 9))
+
+    const byEmail = await lookupRenewal(tagNumber.toLowerCase(), " PAT@example.com ")
+    expect(byEmail.ok && byEmail.candidate).toMatchObject({
+      license: { tagNumber, expiresOn: "2027-03-01" },
+      dog: { name: "Rex" },
+      discount: "senior",
+    })
+    expect((await lookupRenewal(tagNumber, "+1 217-555-1234")).ok).toBe(true)
+  })
+
+  it("answers an unknown tag and a wrong contact the same way", async () => {
+    const tagNumber = await issued()
+    vi.setSystemTime(new Date(2027, 0, 15, 9))
+    const notFound = { ok: false, code: "not_found", message: "No license matches that tag number and contact" }
+
+    expect(await lookupRenewal(tagNumber, "sam@example.com")).toEqual(notFound)
+    expect(await lookupRenewal("SPR-1999-00001", "pat@example.com")).toEqual(notFound)
+  })
+
+  it("refuses before the renewal window opens", async () => {
+    const tagNumber = await issued()
+
+    expect(await lookupRenewal(tagNumber, "pat@example.com")).toMatchObject({
+      ok: false,
+      code: "not_renewable",
+      message: "Renewal for this license opens on December 1, 2026",
+    })
+  })
+})
+
+describe("renewalLinkFor", () => {
+  it("links a renewal to the license it replaces", async () => {
+    const tagNumber = await issued()
+    vi.setSystemTime(new Date(2027, 0, 15, 9))
+
+    expect(await renewalLinkFor(tagNumber, "pat@example.com")).toEqual({
+      ok: true,
+      link: { tagNumber, applicationId: expect.stringMatching(/^DOG-/), expiresOn: "2027-03-01" },
+    })
+  })
+
+  it("refuses a second renewal once one is paid for, but not for an unpaid draft", async () => {
+    const tagNumber = await issued()
+    vi.setSystemTime(new Date(2027, 0, 15, 9))
+    const link = await renewalLinkFor(tagNumber, "pat@example.com")
+    if (!link.ok) throw new Error(link.message)
+
+    const renewal = await createApplication(input(link.link))
+    expect((await renewalLinkFor(tagNumber, "pat@example.com")).ok).toBe(true)
+
+    await pay(renewal.id)
+    expect(await renewalLinkFor(tagNumber, "pat@example.com")).toMatchObject({
+      ok: false,
+      code: "not_renewable",
+      message: "This license is already being renewed",
+    })
+  })
+
+  it("won't link a renewal to someone else's license", async () => {
+    const tagNumber = await issued()
+    vi.setSystemTime(new Date(2027, 0, 15, 9))
+
+    expect(await renewalLinkFor(tagNumber, "sam@example.com")).toEqual({
+      ok: false,
+      code: "not_found",
+      message: "No license matches that tag number and contact",
+    })
+    expect((await renewalLinkFor(tagNumber, "")).ok).toBe(false)
+  })
+})
@@ -0,0 +1,121 @@
+import type { ApplicationDog, DogLicenseApplication } from "@/lib/applications"
+import type { DogLicense } from "@/lib/licenses"
+import { discountFromQuote, isRenewalOpen, renewalOpensOn, type RenewalCandidate, type RenewalLink } from "@/lib/renewals"
+import { getApplication, listApplications } from "@/lib/server/application-store"
+import { getLicense } from "@/lib/server/license-store"
+import { formatDate, keepDigits, toISODateStringLocal } from "@/lib/utils"
+
+// ---------- Renewals ----------
+export type RenewalErrorCode = "not_found" | "not_renewable"
+
+export const RENEWAL_ERROR_STATUS: Record<RenewalErrorCode, number> = {
+  not_found: 404,
+  not_renewable: 409,
+}
+
+type RenewableResult =
+  | { ok: true; license: DogLicense; application: DogLicenseApplication }
+  | { ok: false; code: RenewalErrorCode; message: string }
+
+export type RenewalLookupResult =
+  | { ok: true; candidate: RenewalCandidate }
+  | { ok: false; code: RenewalErrorCode; message: string }
+
+export type RenewalLinkResult = { ok: true; link: RenewalLink } | { ok: false; code: RenewalErrorCode; message: string }
+
+// Renewing a license that was never issued, was revoked, is not yet due or
+// already has a renewal in progress is refused. Unpaid drafts do not count as
+// in progress so an abandoned attempt can be started over.
+async function checkRenewable(license: DogLicense, application: DogLicenseApplication): Promise<RenewableResult> {
+  if (application.status !== "license_issued" && application.status !== "expired") {
+    return { ok: false, code: "not_renewable", message: "This license is no longer valid; contact the clerk's office" }
+  }
+  if (!isRenewalOpen(license)) {
+    const opens = renewalOpensOn(license.expiresOn)
+    return {
+      ok: false,
+      code: "not_renewable",
+      message: `Renewal for this license opens on ${opens ? formatDate(toISODateStringLocal(opens)) : "a later date"}`,
+    }
+  }
+
+  const submitted = await listApplications()
+  const pending = submitted.find(
+    (app) => app.renewalOf?.tagNumber === license.tagNumber && app.status !== "rejected",
+  )
+  if (pending) {
+    const state = pending.status === "license_issued" ? "has already been renewed" : "is already being renewed"
+    return { ok: false, code: "not_renewable", message: `This license ${state}` }
+  }
+  return { ok: true, license, application }
+}
+
+interface LicensedDog {
+  license: DogLicense
+  application: DogLicenseApplication
+  entry: ApplicationDog
+}
+
+async function findLicensed(tagNumber: string): Promise<LicensedDog | null> {
+  const license = await getLicense(tagNumber)
+  if (!license) return null
+  const application = await getApplication(license.applicationId)
+  const entry = application?.dogs.find((candidate) => candidate.license?.tagNumber === license.tagNumber)
+  return application && entry ? { license, application, entry } : null
+}
+
+// The owner proves the license is theirs with the email address or phone
+// number it was issued under.
+function matchesContact(application: DogLicenseApplication, contact: string): boolean {
+  const value = contact.trim().toLowerCase()
+  if (!value) return false
+  if (value.includes("@")) return value === application.owner.email.toLowerCase()
+  const digits = keepDigits(value).slice(-10)
+  return digits.length === 10 && digits === keepDigits(application.owner.phone).slice(-10)
+}
+
+// Unknown tags and contact mismatches get the same answer so neither the
+// lookup nor a renewal can be used to discover which tags exist.
+async function findOwnLicensed(tagNumber: string, contact: string): Promise<LicensedDog | null> {
+  const found = await findLicensed(tagNumber)
+  return found && matchesContact(found.application, contact) ? found : null
+}
+
+const NO_MATCH = { ok: false, code: "not_found", message: "No license matches that tag number and contact" } as const
+
+export async function lookupRenewal(tagNumber: string, contact: string): Promise<RenewalLookupResult> {
+  const found = await findOwnLicensed(tagNumber, contact)
+  if (!found) return NO_MATCH
+
+  const result = await checkRenewable(found.license, found.application)
+  if (!result.ok) return result
+  return {
+    ok: true,
+    candidate: {
+      license: result.license,
+      applicationId: result.application.id,
+      owner: result.application.owner,
+      dog: found.entry.dog,
+      discount: discountFromQuote(found.entry.fee ?? result.application.fee),
+    },
+  }
+}
+
+// Re-checked when the renewal is submitted, since the lookup may be stale.
+// The renewal carries the contact the owner looked the license up with, so
+// only the owner can renew it.
+export async function renewalLinkFor(tagNumber: string, contact: string): Promise<RenewalLinkResult> {
+  const found = await findOwnLicensed(tagNumber, contact)
+  if (!found) return NO_MATCH
+
+  const result = await checkRenewable(found.license, found.application)
+  if (!result.ok) return result
+  return {
+    ok: true,
+    link: {
+      tagNumber: result.license.tagNumber,
+      applicationId: result.application.id,
+      expiresOn: result.license.expiresOn,
+    },
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+import type { ZipLookupResult } from "@/lib/address"
+import { nonResidentMessage } from "@/lib/residency"
+import { checkResidency } from "@/lib/server/residency"
+import { setZipLookupProvider } from "@/lib/server/zip-lookup"
+
+function answering(result: ZipLookupResult) {
+  setZipLookupProvider({ name: "test", lookup: async () => result })
+}
+
+const address = { street: "12 Main St", city: "Springfield", state: "IL", zip: "62704" }
+
+describe("checkResidency", () => {
+  it("records a verified decision for a resident", async () => {
+    answering({ ok: true, place: { zip: "62704", city: "Springfield", state: "IL" } })
+
+    const result = await checkResidency(address)
+    expect(result.ok && result.decision).toMatchObject({ status: "resident", basis: "zip", zipVerified: true })
+  })
+
+  it("refuses a ZIP the lookup doesn't know", async () => {
+    answering({ ok: false, code: "not_found", message: "ZIP code 62704 not found" })
+
+    expect(await checkResidency(address)).toEqual({
+      ok: false,
+      code: "unknown_zip",
+      message: "ZIP code 62704 not found",
+    })
+  })
+
+  it("goes ahead unverified while the lookup is down", async () => {
+    answering({ ok: false, code: "unavailable", message: "ZIP code lookup is unavailable right now" })
+
+    const result = await checkResidency(address)
+    expect(result.ok && result.decision).toMatchObject({ status: "resident", zipVerified: false })
+  })
+
+  it("refuses an address outside the service area", async () => {
+    answering({ ok: true, place: { zip: "63101", city: "St. Louis", state: "MO" } })
+
+    expect(await checkResidency({ ...address, city: "St. Louis", state: "MO", zip: "63101" })).toEqual({
+      ok: false,
+      code: "non_resident",
+      message: nonResidentMessage(),
+    })
+  })
+})
@@ -0,0 +1,28 @@
+import { isZipLookupOutage, type PostalAddress } from "@/lib/address"
+import { decideResidency, nonResidentMessage, type ResidencyDecision } from "@/lib/residency"
+import { lookupZip } from "@/lib/server/zip-lookup"
+
+// ---------- Residency Check ----------
+export type ResidencyErrorCode = "unknown_zip" | "non_resident"
+
+export const RESIDENCY_ERROR_STATUS: Record<ResidencyErrorCode, number> = {
+  unknown_zip: 422,
+  non_resident: 422,
+}
+
+export type ResidencyCheckResult =
+  | { ok: true; decision: ResidencyDecision }
+  | { ok: false; code: ResidencyErrorCode; message: string }
+
+// A ZIP the lookup doesn't know is refused outright; an unavailable lookup
+// falls back to the service area's ZIP list and is recorded as unverified.
+export async function checkResidency(address: PostalAddress): Promise<ResidencyCheckResult> {
+  const lookup = await lookupZip(address.zip)
+  if (!lookup.ok && !isZipLookupOutage(lookup.code)) {
+    return { ok: false, code: "unknown_zip", message: lookup.message }
+  }
+
+  const decision = decideResidency(address, lookup.ok ? lookup.place : null)
+  if (decision.status === "non_resident") return { ok: false, code: "non_resident", message: nonResidentMessage() }
+  return { ok: true, decision }
+}
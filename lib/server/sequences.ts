@@ -0,0 +1,24 @@
+import { collection } from "@/lib/server/storage"
+
+// ---------- Sequences ----------
+// Gap-free, monotonically increasing counters (receipt numbers, tag numbers).
+
+interface SequenceRecord {
+  id: string
+  value: number
+}
+
+const sequences = collection<SequenceRecord>("sequences")
+
+export async function nextSequence(name: string): Promise<number> {
+  const bumped = await sequences.update(name, (sequence) => ({ ...sequence, value: sequence.value + 1 }))
+  if (bumped) return bumped.value
+  try {
+    await sequences.insert({ id: name, value: 1 })
+    return 1
+  } catch (error) {
+    // Another request created the sequence first; take the next value.
+    if (await sequences.get(name)) return nextSequence(name)
+    throw error
+  }
+}
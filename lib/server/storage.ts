@@ -0,0 +1,133 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// ---------- Storage Adapters ----------
+// Records are grouped into named collections. An adapter only has to know how
+// to read and write a whole collection; locking and record-level helpers are
+// layered on top so every adapter behaves the same.
+
+export interface StorageAdapter {
+  readCollection<T>(name: string): Promise<T[]>
+  writeCollection<T>(name: string, records: T[]): Promise<void>
+}
+
+// JSON file per collection. Writes go to a temp file first and are renamed into
+// place so a crash never leaves a half-written collection behind.
+export function createFileStorageAdapter(directory: string): StorageAdapter {
+  const fileFor = (name: string) => path.join(directory, `${name}.json`)
+
+  return {
+    async readCollection<T>(name: string): Promise<T[]> {
+      try {
+        const contents = await fs.readFile(fileFor(name), "utf8")
+        const parsed = JSON.parse(contents)
+        return Array.isArray(parsed) ? parsed : []
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+        throw error
+      }
+    },
+
+    async writeCollection<T>(name: string, records: T[]): Promise<void> {
+      await fs.mkdir(directory, { recursive: true })
+      const target = fileFor(name)
+      const temp = `${target}.${process.pid}.tmp`
+      await fs.writeFile(temp, JSON.stringify(records, null, 2), "utf8")
+      await fs.rename(temp, target)
+    },
+  }
+}
+
+// Process-local storage, handy for tests and throwaway preview deployments.
+export function createMemoryStorageAdapter(): StorageAdapter {
+  const collections = new Map<string, unknown[]>()
+
+  return {
+    async readCollection<T>(name: string): Promise<T[]> {
+      return structuredClone((collections.get(name) ?? []) as T[])
+    },
+
+    async writeCollection<T>(name: string, records: T[]): Promise<void> {
+      collections.set(name, structuredClone(records))
+    },
+  }
+}
+
+// Survive dev-server hot reloads, which re-evaluate this module.
+const globalForStorage = globalThis as typeof globalThis & {
+  __dogLicenseStorage?: StorageAdapter
+  __dogLicenseStorageLocks?: Map<string, Promise<unknown>>
+}
+
+// STORAGE_DRIVER selects the adapter ("file" by default, or "memory").
+// DATA_DIR overrides where the file adapter keeps its collections.
+export function getStorageAdapter(): StorageAdapter {
+  if (!globalForStorage.__dogLicenseStorage) {
+    globalForStorage.__dogLicenseStorage =
+      process.env.STORAGE_DRIVER === "memory"
+        ? createMemoryStorageAdapter()
+        : createFileStorageAdapter(process.env.DATA_DIR || path.join(process.cwd(), ".data"))
+  }
+  return globalForStorage.__dogLicenseStorage
+}
+
+// Swap the adapter at runtime (e.g. to plug in a database-backed adapter).
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  globalForStorage.__dogLicenseStorage = adapter
+}
+
+// ---------- Collections ----------
+const locks = (globalForStorage.__dogLicenseStorageLocks ??= new Map())
+
+// Serializes read-modify-write cycles per collection within this process.
+function withLock<R>(name: string, task: () => Promise<R>): Promise<R> {
+  const previous = locks.get(name) ?? Promise.resolve()
+  const next = previous.then(task, task)
+  locks.set(name, next.catch(() => undefined))
+  return next
+}
+
+export interface Collection<T extends { id: string }> {
+  list(): Promise<T[]>
+  get(id: string): Promise<T | null>
+  insert(record: T): Promise<T>
+  update(id: string, mutate: (record: T) => T): Promise<T | null>
+}
+
+export function collection<T extends { id: string }>(name: string): Collection<T> {
+  const read = () => getStorageAdapter().readCollection<T>(name)
+  const write = (records: T[]) => getStorageAdapter().writeCollection<T>(name, records)
+
+  return {
+    list: read,
+
+    async get(id) {
+      const records = await read()
+      return records.find((record) => record.id === id) ?? null
+    },
+
+    insert(record) {
+      return withLock(name, async () => {
+        const records = await read()
+        if (records.some((existing) => existing.id === record.id)) {
+          throw new Error(`Duplicate id "${record.id}" in collection "${name}"`)
+        }
+        records.push(record)
+        await write(records)
+        return record
+      })
+    },
+
+    update(id, mutate) {
+      return withLock(name, async () => {
+        const records = await read()
+        const index = records.findIndex((record) => record.id === id)
+        if (index === -1) return null
+        const updated = mutate(records[index])
+        records[index] = updated
+        await write(records)
+        return updated
+      })
+    },
+  }
+}
@@ -0,0 +1,69 @@
+import type { ApplicationDog, DogInfo, NewApplicationInput, OwnerInfo, VaccinationInfo } from "@/lib/applications"
+import type { PaymentSummary } from "@/lib/payments"
+import { recordPayment, type StatusUpdateResult, updateApplicationStatus } from "@/lib/server/application-store"
+
+// Shared by the store tests: Pat Doe's application for Rex, with whatever a test needs changed.
+
+export type TestDogChanges = Partial<Omit<ApplicationDog, "dog" | "vaccination">> & {
+  dog?: Partial<DogInfo>
+  vaccination?: Partial<VaccinationInfo>
+}
+
+export function testDog({ dog, vaccination, ...rest }: TestDogChanges = {}): ApplicationDog {
+  return {
+    dog: {
+      name: "Rex",
+      breed: "Beagle",
+      breedCodes: { primary: "beagle" },
+      age: 4,
+      color: "Black",
+      coat: { primary: "black" },
+      spayedNeutered: true,
+      ...dog,
+    },
+    vaccination: { lastRabiesShotDate: "2026-01-12", ...vaccination },
+    ...rest,
+  }
+}
+
+export type TestApplicationChanges = Partial<Omit<NewApplicationInput, "owner">> & { owner?: Partial<OwnerInfo> }
+
+export function testApplicationInput({ owner, ...rest }: TestApplicationChanges = {}): NewApplicationInput {
+  return {
+    owner: {
+      name: "Pat Doe",
+      email: "pat@example.com",
+      address: "12 Main St, Springfield, IL 62704",
+      phone: "2175551234",
+      ...owner,
+    },
+    dogs: [testDog()],
+    ...rest,
+  }
+}
+
+export function testPayment(changes: Partial<PaymentSummary> = {}): PaymentSummary {
+  return {
+    transactionId: "PAY-1",
+    receiptNumber: "R-2026-000001",
+    amount: 1500,
+    currency: "USD",
+    paidAt: new Date().toISOString(),
+    ...changes,
+  }
+}
+
+// Records a payment as if the provider had captured it, which submits the draft.
+export function payFor(id: string, changes: Partial<PaymentSummary> = {}): Promise<StatusUpdateResult> {
+  return recordPayment(id, testPayment({ transactionId: `PAY-${id}`, ...changes }))
+}
+
+// Takes a paid application through review to approval and returns the first dog's tag number.
+export async function approve(id: string, actor = "Jo (jo@city.gov)"): Promise<string> {
+  await updateApplicationStatus(id, { to: "under_review", actor })
+  const result = await updateApplicationStatus(id, { to: "approved", actor })
+  if (!result.ok) throw new Error(result.message)
+  const tagNumber = result.application.dogs[0].license?.tagNumber
+  if (!tagNumber) throw new Error("expected a license")
+  return tagNumber
+}
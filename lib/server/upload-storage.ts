@@ -0,0 +1,79 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// ---------- Upload Storage ----------
+// Uploaded files are kept apart from the JSON collections, addressed by the
+// SHA-256 of their content. Identical uploads share one stored copy.
+
+export interface UploadStorageAdapter {
+  write(key: string, contents: Uint8Array): Promise<void>
+  // Resolves to null when nothing is stored under the key.
+  read(key: string): Promise<Buffer | null>
+}
+
+const KEY_PATTERN = /^[a-f0-9]{64}$/
+
+function assertKey(key: string): void {
+  if (!KEY_PATTERN.test(key)) throw new Error(`Invalid upload key "${key}"`)
+}
+
+// One file per upload, fanned out by the first two characters of the key so no
+// directory grows too large. Writes go through a temp file like the JSON
+// collections do.
+export function createDiskUploadStorage(directory: string): UploadStorageAdapter {
+  const fileFor = (key: string) => path.join(directory, key.slice(0, 2), key)
+
+  return {
+    async write(key, contents) {
+      assertKey(key)
+      const target = fileFor(key)
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      const temp = `${target}.${process.pid}.tmp`
+      await fs.writeFile(temp, contents)
+      await fs.rename(temp, target)
+    },
+
+    async read(key) {
+      if (!KEY_PATTERN.test(key)) return null
+      try {
+        return await fs.readFile(fileFor(key))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+        throw error
+      }
+    },
+  }
+}
+
+export function createMemoryUploadStorage(): UploadStorageAdapter {
+  const files = new Map<string, Buffer>()
+
+  return {
+    async write(key, contents) {
+      assertKey(key)
+      files.set(key, Buffer.from(contents))
+    },
+
+    async read(key) {
+      return files.get(key) ?? null
+    },
+  }
+}
+
+const globalForUploads = globalThis as typeof globalThis & { __dogLicenseUploads?: UploadStorageAdapter }
+
+// Follows STORAGE_DRIVER: uploads are kept in memory alongside memory-stored
+// collections, and on disk under UPLOAD_DIR (default .data/uploads) otherwise.
+export function getUploadStorage(): UploadStorageAdapter {
+  if (!globalForUploads.__dogLicenseUploads) {
+    globalForUploads.__dogLicenseUploads =
+      process.env.STORAGE_DRIVER === "memory"
+        ? createMemoryUploadStorage()
+        : createDiskUploadStorage(process.env.UPLOAD_DIR || path.join(process.cwd(), ".data", "uploads"))
+  }
+  return globalForUploads.__dogLicenseUploads
+}
+
+export function setUploadStorage(adapter: UploadStorageAdapter): void {
+  globalForUploads.__dogLicenseUploads = adapter
+}
@@ -0,0 +1,92 @@
+import { randomBytes, randomUUID, scrypt as scryptCallback, timingSafeEqual } from "crypto"
+import { promisify } from "util"
+import type { Role } from "@/lib/auth/roles"
+import type { User } from "@/lib/auth/user"
+import { collection } from "@/lib/server/storage"
+
+// ---------- User Store ----------
+const scrypt = promisify(scryptCallback) as (password: string, salt: string, keylen: number) => Promise<Buffer>
+
+export interface UserRecord extends User {
+  passwordHash?: string
+}
+
+const users = collection<UserRecord>("users")
+
+// Strips credentials before a record leaves the store.
+export function toUser({ id, email, name, role, createdAt }: UserRecord): User {
+  return { id, email, name, role, createdAt }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// "scrypt$<salt hex>$<hash hex>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex")
+  const hash = await scrypt(password, salt, 64)
+  return `scrypt$${salt}$${hash.toString("hex")}`
+}
+
+export async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+  if (!stored) return false
+  const [scheme, salt, hash] = stored.split("$")
+  if (scheme !== "scrypt" || !salt || !hash) return false
+  const expected = Buffer.from(hash, "hex")
+  const actual = await scrypt(password, salt, expected.length)
+  return timingSafeEqual(expected, actual)
+}
+
+export async function listUsers(): Promise<User[]> {
+  const records = await users.list()
+  return records.map(toUser).sort((a, b) => a.email.localeCompare(b.email))
+}
+
+export async function getUser(id: string): Promise<User | null> {
+  const record = await users.get(id)
+  return record ? toUser(record) : null
+}
+
+export async function findUserByEmail(email: string): Promise<UserRecord | null> {
+  const normalized = normalizeEmail(email)
+  const records = await users.list()
+  return records.find((user) => user.email === normalized) ?? null
+}
+
+export interface NewUserInput {
+  email: string
+  name: string
+  role: Role
+  password?: string
+}
+
+export async function createUser(input: NewUserInput): Promise<User> {
+  const record = await users.insert({
+    id: randomUUID(),
+    email: normalizeEmail(input.email),
+    name: input.name.trim(),
+    role: input.role,
+    passwordHash: input.password ? await hashPassword(input.password) : undefined,
+    createdAt: new Date().toISOString(),
+  })
+  return toUser(record)
+}
+
+export async function updateUserRole(id: string, role: Role): Promise<User | null> {
+  const record = await users.update(id, (user) => ({ ...user, role }))
+  return record ? toUser(record) : null
+}
+
+// Creates the first administrator from ADMIN_EMAIL / ADMIN_PASSWORD when the
+// store has no administrator yet, so a fresh install can be signed into.
+export async function ensureBootstrapAdmin(): Promise<void> {
+  const email = process.env.ADMIN_EMAIL
+  const password = process.env.ADMIN_PASSWORD
+  if (!email || !password) return
+
+  const records = await users.list()
+  if (records.some((user) => user.role === "admin")) return
+  if (records.some((user) => user.email === normalizeEmail(email))) return
+  await createUser({ email, name: "Administrator", role: "admin", password })
+}
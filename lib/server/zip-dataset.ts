@@ -0,0 +1,51 @@
+// ---------- Bundled ZIP Codes ----------
+// ZIP -> [city, state] for the area around the default jurisdiction and a
+// handful of large cities, so ZIP checks work with no network. A complete
+// dataset can be loaded from ZIP_DATASET_PATH instead (see zip-lookup.ts).
+
+export const BUNDLED_ZIP_CODES: Record<string, [city: string, state: string]> = {
+  // Springfield, IL and neighbouring towns
+  "62701": ["Springfield", "IL"],
+  "62702": ["Springfield", "IL"],
+  "62703": ["Springfield", "IL"],
+  "62704": ["Springfield", "IL"],
+  "62705": ["Springfield", "IL"],
+  "62706": ["Springfield", "IL"],
+  "62707": ["Springfield", "IL"],
+  "62708": ["Springfield", "IL"],
+  "62711": ["Springfield", "IL"],
+  "62712": ["Springfield", "IL"],
+  "62515": ["Buffalo", "IL"],
+  "62520": ["Dawson", "IL"],
+  "62530": ["Divernon", "IL"],
+  "62545": ["Mechanicsburg", "IL"],
+  "62558": ["Pawnee", "IL"],
+  "62561": ["Riverton", "IL"],
+  "62563": ["Rochester", "IL"],
+  "62615": ["Auburn", "IL"],
+  "62629": ["Chatham", "IL"],
+  "62661": ["Loami", "IL"],
+  "62670": ["New Berlin", "IL"],
+  "62677": ["Pleasant Plains", "IL"],
+  "62684": ["Sherman", "IL"],
+  "62689": ["Thayer", "IL"],
+  "62693": ["Williamsville", "IL"],
+
+  // Large cities
+  "02108": ["Boston", "MA"],
+  "10001": ["New York", "NY"],
+  "19103": ["Philadelphia", "PA"],
+  "20001": ["Washington", "DC"],
+  "30303": ["Atlanta", "GA"],
+  "33130": ["Miami", "FL"],
+  "46204": ["Indianapolis", "IN"],
+  "53202": ["Milwaukee", "WI"],
+  "60601": ["Chicago", "IL"],
+  "63101": ["Saint Louis", "MO"],
+  "75201": ["Dallas", "TX"],
+  "78701": ["Austin", "TX"],
+  "80202": ["Denver", "CO"],
+  "85004": ["Phoenix", "AZ"],
+  "94105": ["San Francisco", "CA"],
+  "98101": ["Seattle", "WA"],
+}
@@ -0,0 +1,134 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import type { ZipLookupResult } from "@/lib/address"
+import {
+  createCachingZipProvider,
+  createOfflineZipProvider,
+  createRemoteZipProvider,
+  loadZipDataset,
+  type ZipLookupProvider,
+} from "@/lib/server/zip-lookup"
+
+// Answers from a fixed list, one per call, and counts the calls.
+function scripted(...answers: ZipLookupResult[]): ZipLookupProvider & { calls: string[] } {
+  const calls: string[] = []
+  return {
+    name: "scripted",
+    calls,
+    async lookup(zip) {
+      calls.push(zip)
+      return answers[Math.min(calls.length, answers.length) - 1]
+    },
+  }
+}
+
+const springfield: ZipLookupResult = { ok: true, place: { zip: "62704", city: "Springfield", state: "IL" } }
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe("createOfflineZipProvider", () => {
+  it("answers from the bundled table", async () => {
+    expect(await createOfflineZipProvider().lookup("62704")).toEqual(springfield)
+  })
+
+  it("rejects anything but five digits", async () => {
+    expect(await createOfflineZipProvider().lookup("6270")).toMatchObject({ ok: false, code: "invalid" })
+  })
+
+  it("passes ZIPs it doesn't have to the fallback", async () => {
+    const fallback = scripted({ ok: false, code: "not_found", message: "ZIP code 00000 not found" })
+    const provider = createOfflineZipProvider({ "62704": ["Springfield", "IL"] }, fallback)
+
+    expect(provider.name).toBe("offline+scripted")
+    await provider.lookup("62704")
+    await provider.lookup("00000")
+    expect(fallback.calls).toEqual(["00000"])
+  })
+})
+
+describe("loadZipDataset", () => {
+  it("reads zip,city,state rows and skips the rest", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "zips-"))
+    const file = path.join(dir, "zips.csv")
+    await fs.writeFile(file, 'zip,city,state\r\n"62704","Springfield","IL"\n1234,Short,IL\n62999,Nowhere,ZZ\n')
+    try {
+      expect(await loadZipDataset(file)).toEqual({ "62704": ["Springfield", "IL"] })
+    } finally {
+      await fs.rm(dir, { recursive: true })
+    }
+  })
+})
+
+describe("createRemoteZipProvider", () => {
+  it("reads the first place in the answer", async () => {
+    const fetch = vi.fn(async () =>
+      Response.json({ places: [{ "place name": "Springfield", "state abbreviation": "IL" }] }),
+    )
+    vi.stubGlobal("fetch", fetch)
+
+    expect(await createRemoteZipProvider({ baseUrl: "https://zips.test/us" }).lookup("62704")).toEqual(springfield)
+    expect(fetch).toHaveBeenCalledWith("https://zips.test/us/62704", expect.anything())
+  })
+
+  it("tells a missing ZIP apart from an outage", async () => {
+    vi.stubGlobal("fetch", async () => new Response("", { status: 404 }))
+    expect(await createRemoteZipProvider().lookup("00000")).toMatchObject({ code: "not_found" })
+
+    vi.stubGlobal("fetch", async () => new Response("", { status: 503 }))
+    expect(await createRemoteZipProvider().lookup("62704")).toMatchObject({ code: "unavailable" })
+
+    vi.stubGlobal("fetch", async () => new Response("<html>", { status: 200 }))
+    expect(await createRemoteZipProvider().lookup("62704")).toMatchObject({ code: "unavailable" })
+  })
+
+  it("reports a request that takes too long", async () => {
+    vi.stubGlobal("fetch", async () => {
+      throw new DOMException("The operation timed out", "TimeoutError")
+    })
+    expect(await createRemoteZipProvider().lookup("62704")).toMatchObject({ code: "timeout" })
+  })
+})
+
+describe("createCachingZipProvider", () => {
+  it("caches an answer until it expires", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    const inner = scripted(springfield)
+    const provider = createCachingZipProvider(inner, { ttlMs: 1000 })
+
+    await provider.lookup("62704")
+    await provider.lookup("62704")
+    expect(inner.calls).toHaveLength(1)
+
+    vi.advanceTimersByTime(1001)
+    await provider.lookup("62704")
+    expect(inner.calls).toHaveLength(2)
+  })
+
+  it("tries again after a timeout or outage", async () => {
+    const inner = scripted({ ok: false, code: "timeout", message: "Too slow" }, springfield)
+    const provider = createCachingZipProvider(inner)
+
+    expect(await provider.lookup("62704")).toMatchObject({ ok: false, code: "timeout" })
+    expect(await provider.lookup("62704")).toEqual(springfield)
+    expect(inner.calls).toHaveLength(2)
+  })
+
+  it("drops the least recently used answer when full", async () => {
+    const inner = scripted(springfield)
+    const provider = createCachingZipProvider(inner, { maxEntries: 2 })
+
+    await provider.lookup("62701")
+    await provider.lookup("62702")
+    await provider.lookup("62701")
+    await provider.lookup("62703")
+    await provider.lookup("62701")
+    await provider.lookup("62702")
+
+    expect(inner.calls).toEqual(["62701", "62702", "62703", "62702"])
+  })
+})
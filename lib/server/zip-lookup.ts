@@ -0,0 +1,190 @@
+import { promises as fs } from "fs"
+import { isUSStateCode, type ZipLookupErrorCode, type ZipLookupResult } from "@/lib/address"
+import { BUNDLED_ZIP_CODES } from "@/lib/server/zip-dataset"
+
+// ---------- ZIP Lookup Providers ----------
+// Address checks go through a ZipLookupProvider so the data source can be
+// swapped with setZipLookupProvider. Providers are given five-digit ZIPs and
+// answer with a place or one of the ZipLookupErrorCodes.
+
+export interface ZipLookupProvider {
+  name: string
+  lookup(zip: string): Promise<ZipLookupResult>
+}
+
+const FIVE_DIGIT_ZIP = /^\d{5}$/
+
+function failure(code: ZipLookupErrorCode, message: string): ZipLookupResult {
+  return { ok: false, code, message }
+}
+
+function notFound(zip: string): ZipLookupResult {
+  return failure("not_found", `ZIP code ${zip} not found`)
+}
+
+// ---------- Offline Provider ----------
+// Answers from a ZIP -> [city, state] table. A ZIP missing from the table is
+// passed to `fallback` when there is one, so a partial dataset can front a
+// remote service.
+export function createOfflineZipProvider(
+  dataset: Record<string, [city: string, state: string]> = BUNDLED_ZIP_CODES,
+  fallback?: ZipLookupProvider,
+): ZipLookupProvider {
+  return {
+    name: fallback ? `offline+${fallback.name}` : "offline",
+
+    async lookup(zip) {
+      if (!FIVE_DIGIT_ZIP.test(zip)) return failure("invalid", "ZIP code must be 5 digits")
+      const entry = Object.hasOwn(dataset, zip) ? dataset[zip] : undefined
+      if (entry) return { ok: true, place: { zip, city: entry[0], state: entry[1] } }
+      return fallback ? fallback.lookup(zip) : notFound(zip)
+    },
+  }
+}
+
+// "zip,city,state" per line, as in the freely available ZIP code databases.
+// A header row and quoted fields are allowed; other columns are ignored.
+export async function loadZipDataset(filePath: string): Promise<Record<string, [city: string, state: string]>> {
+  const contents = await fs.readFile(filePath, "utf8")
+  const dataset: Record<string, [city: string, state: string]> = {}
+  for (const line of contents.split(/\r?\n/)) {
+    const [zip, city, state] = line.split(",").map((value) => value.trim().replace(/^"|"$/g, ""))
+    if (FIVE_DIGIT_ZIP.test(zip ?? "") && city && isUSStateCode(state)) dataset[zip] = [city, state]
+  }
+  return dataset
+}
+
+// ---------- Remote Provider ----------
+// api.zippopotam.us, or anything else answering in its format.
+export const DEFAULT_ZIP_API_URL = "https://api.zippopotam.us/us"
+export const DEFAULT_ZIP_TIMEOUT_MS = 4000
+
+export function createRemoteZipProvider({
+  baseUrl = DEFAULT_ZIP_API_URL,
+  timeoutMs = DEFAULT_ZIP_TIMEOUT_MS,
+}: { baseUrl?: string; timeoutMs?: number } = {}): ZipLookupProvider {
+  return {
+    name: "remote",
+
+    async lookup(zip) {
+      if (!FIVE_DIGIT_ZIP.test(zip)) return failure("invalid", "ZIP code must be 5 digits")
+
+      let response: Response
+      try {
+        response = await fetch(`${baseUrl}/${encodeURIComponent(zip)}`, {
+          headers: { accept: "application/json" },
+          signal: AbortSignal.timeout(timeoutMs),
+        })
+      } catch (error) {
+        const name = error instanceof Error ? error.name : ""
+        if (name === "TimeoutError" || name === "AbortError") {
+          return failure("timeout", "The ZIP code lookup took too long. Please try again.")
+        }
+        return failure("unavailable", "ZIP code lookup is unavailable right now")
+      }
+
+      if (response.status === 404) return notFound(zip)
+      if (!response.ok) return failure("unavailable", "ZIP code lookup is unavailable right now")
+
+      try {
+        const data = await response.json()
+        const place = Array.isArray(data.places) ? data.places[0] : undefined
+        const city = typeof place?.["place name"] === "string" ? place["place name"] : ""
+        const state = typeof place?.["state abbreviation"] === "string" ? place["state abbreviation"] : ""
+        return city && state ? { ok: true, place: { zip, city, state } } : notFound(zip)
+      } catch {
+        return failure("unavailable", "ZIP code lookup returned an unreadable answer")
+      }
+    },
+  }
+}
+
+// ---------- Caching Provider ----------
+// Keeps the most recently used answers in memory. Places and not-found answers
+// are cached; timeouts and outages are not, so the next request tries again.
+export const DEFAULT_ZIP_CACHE_SIZE = 1000
+export const DEFAULT_ZIP_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+
+interface CachedAnswer {
+  result: ZipLookupResult
+  expiresAt: number
+}
+
+export function createCachingZipProvider(
+  inner: ZipLookupProvider,
+  { maxEntries = DEFAULT_ZIP_CACHE_SIZE, ttlMs = DEFAULT_ZIP_CACHE_TTL_MS }: { maxEntries?: number; ttlMs?: number } = {},
+): ZipLookupProvider {
+  // Map iteration follows insertion order, so re-inserting on every hit keeps
+  // the least recently used entry first.
+  const cache = new Map<string, CachedAnswer>()
+
+  return {
+    name: `cached(${inner.name})`,
+
+    async lookup(zip) {
+      const cached = cache.get(zip)
+      if (cached) {
+        cache.delete(zip)
+        if (cached.expiresAt > Date.now()) {
+          cache.set(zip, cached)
+          return cached.result
+        }
+      }
+
+      const result = await inner.lookup(zip)
+      if (result.ok || result.code === "not_found") {
+        cache.set(zip, { result, expiresAt: Date.now() + ttlMs })
+        while (cache.size > maxEntries) {
+          const oldest = cache.keys().next().value
+          if (oldest === undefined) break
+          cache.delete(oldest)
+        }
+      }
+      return result
+    },
+  }
+}
+
+const globalForZips = globalThis as typeof globalThis & { __dogLicenseZips?: Promise<ZipLookupProvider> }
+
+// ZIP_LOOKUP_PROVIDER picks the source:
+//   offline - the bundled table, or ZIP_DATASET_PATH when set
+//   remote  - the ZIP API at ZIP_API_URL
+//   hybrid  - offline first, remote for anything the table doesn't have (default)
+// Whichever is chosen is wrapped in the cache.
+async function createConfiguredProvider(): Promise<ZipLookupProvider> {
+  const configured = process.env.ZIP_LOOKUP_PROVIDER || "hybrid"
+  const timeoutMs = Number(process.env.ZIP_LOOKUP_TIMEOUT_MS) || DEFAULT_ZIP_TIMEOUT_MS
+  const remote = () => createRemoteZipProvider({ baseUrl: process.env.ZIP_API_URL || undefined, timeoutMs })
+  const dataset = process.env.ZIP_DATASET_PATH ? await loadZipDataset(process.env.ZIP_DATASET_PATH) : undefined
+
+  switch (configured) {
+    case "offline":
+      return createCachingZipProvider(createOfflineZipProvider(dataset))
+    case "remote":
+      return createCachingZipProvider(remote())
+    case "hybrid":
+      return createCachingZipProvider(createOfflineZipProvider(dataset, remote()))
+    default:
+      throw new Error(`Unknown ZIP lookup provider (ZIP_LOOKUP_PROVIDER=${configured})`)
+  }
+}
+
+export function getZipLookupProvider(): Promise<ZipLookupProvider> {
+  if (!globalForZips.__dogLicenseZips) {
+    globalForZips.__dogLicenseZips = createConfiguredProvider().catch((error) => {
+      globalForZips.__dogLicenseZips = undefined
+      throw error
+    })
+  }
+  return globalForZips.__dogLicenseZips
+}
+
+export function setZipLookupProvider(provider: ZipLookupProvider): void {
+  globalForZips.__dogLicenseZips = Promise.resolve(provider)
+}
+
+export async function lookupZip(zip: string): Promise<ZipLookupResult> {
+  const provider = await getZipLookupProvider()
+  return provider.lookup(zip.trim().slice(0, 5))
+}
@@ -0,0 +1,43 @@
+import type { Role } from "@/lib/auth/roles"
+import type { User } from "@/lib/auth/user"
+
+// ---------- Users API Client ----------
+
+async function readError(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null)
+  return typeof body?.error === "string" ? body.error : `Request failed with status ${response.status}`
+}
+
+export async function fetchUsers(): Promise<User[]> {
+  const response = await fetch("/api/users", { cache: "no-store" })
+  if (!response.ok) throw new Error(await readError(response))
+  const { users } = await response.json()
+  return users
+}
+
+export async function createUser(input: {
+  email: string
+  name: string
+  role: Role
+  password: string
+}): Promise<User> {
+  const response = await fetch("/api/users", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(input),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  const { user } = await response.json()
+  return user
+}
+
+export async function changeUserRole(id: string, role: Role): Promise<User> {
+  const response = await fetch(`/api/users/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ role }),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  const { user } = await response.json()
+  return user
+}
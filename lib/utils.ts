@@ -106,6 +106,13 @@ export function isWithinYears(date: Date, years: number): boolean {
   return date.getTime() >= cutoff.getTime()
 }
 
+export function addYears(date: Date, years: number): Date {
+  const result = new Date(date.getFullYear() + years, date.getMonth(), date.getDate())
+  // Feb 29 + 1 year rolls into March; keep it in February instead.
+  if (result.getMonth() !== date.getMonth()) result.setDate(0)
+  return result
+}
+
 export function toISODateStringLocal(date: Date): string {
   // Returns "YYYY-MM-DD" in local time (handy for saving or displaying)
   const y = date.getFullYear()
@@ -114,6 +121,33 @@ export function toISODateStringLocal(date: Date): string {
   return `${y}-${m}-${d}`
 }
 
+// Human-readable timestamp, e.g. "March 4, 2025 at 02:15 PM"
+export function formatDateTime(input: string): string {
+  const date = new Date(input)
+  if (!isValidDate(date)) return "Invalid date"
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+// Calendar date, e.g. "March 4, 2025". Accepts "YYYY-MM-DD" without shifting
+// it across time zones.
+export function formatDate(input: string): string {
+  const date = coerceDate(input)
+  if (!date) return "Invalid date"
+  return date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" })
+}
+
+// ---------- Money Helpers ----------
+// Amounts are kept in integer cents to avoid floating point drift.
+export function formatCents(cents: number, currency = "USD"): string {
+  return (cents / 100).toLocaleString("en-US", { style: "currency", currency })
+}
+
 // ---------- US Phone Helpers (no regex) ----------
 export function keepDigits(input: string): string {
   let out = ""
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { loginPathFor, requiredPermission } from "@/lib/auth/access"
+import { hasPermission } from "@/lib/auth/roles"
+import { SESSION_COOKIE, verifySession } from "@/lib/auth/session"
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  const permission = requiredPermission(request.method, pathname)
+  if (!permission) return NextResponse.next()
+
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (hasPermission(session?.role, permission)) return NextResponse.next()
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { error: session ? "You do not have permission to do that" : "Sign in required" },
+      { status: session ? 403 : 401 },
+    )
+  }
+
+  if (session) {
+    return NextResponse.redirect(new URL("/forbidden", request.url))
+  }
+  const login = new URL(loginPathFor(pathname), request.url)
+  login.searchParams.set("next", `${pathname}${search}`)
+  return NextResponse.redirect(login)
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/account/:path*", "/api/:path*"],
+}